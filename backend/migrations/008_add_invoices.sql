@@ -0,0 +1,79 @@
+-- Migration: 008_add_invoices
+-- Description: Add invoices and invoice lines generated from contract pricing
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Invoices
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "invoiceNumber" VARCHAR(20) NOT NULL UNIQUE,
+  "contractId" UUID NOT NULL REFERENCES contracts(id) ON DELETE RESTRICT,
+  "clientId" UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+  "siteId" UUID NOT NULL REFERENCES sites(id) ON DELETE RESTRICT,
+  status VARCHAR NOT NULL DEFAULT 'DRAFT',
+  "periodStart" DATE NOT NULL,
+  "periodEnd" DATE NOT NULL,
+  "issueDate" DATE,
+  "dueDate" DATE,
+  currency VARCHAR(10) NOT NULL,
+  "totalAmount" DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  "paymentTerms" VARCHAR(100),
+  "paidAt" TIMESTAMP,
+  notes TEXT,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "deletedAt" TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_contract_id ON invoices("contractId");
+CREATE INDEX IF NOT EXISTS idx_invoices_client_id ON invoices("clientId");
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+CREATE INDEX IF NOT EXISTS idx_invoices_due_date ON invoices("dueDate");
+
+COMMENT ON TABLE invoices IS 'Client invoices generated from contract pricing';
+COMMENT ON COLUMN invoices.status IS 'DRAFT, ISSUED, PAID, OVERDUE';
+
+-- ============================================
+-- 2. Invoice lines
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "invoiceId" UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  type VARCHAR NOT NULL,
+  description VARCHAR(255) NOT NULL,
+  "interventionId" UUID REFERENCES interventions(id) ON DELETE SET NULL,
+  quantity DECIMAL(10, 2) NOT NULL DEFAULT 1,
+  "unitPrice" DECIMAL(12, 2) NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice_id ON invoice_lines("invoiceId");
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_intervention_id ON invoice_lines("interventionId");
+
+COMMENT ON TABLE invoice_lines IS 'Invoice line items (cycle fee, per-intervention fee or hours worked)';
+COMMENT ON COLUMN invoice_lines.type IS 'MONTHLY_FEE, INTERVENTION, HOURLY';
+
+-- ============================================
+-- 3. Row level security
+-- ============================================
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_invoices" ON invoices;
+CREATE POLICY "service_role_all_invoices" ON invoices
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "service_role_all_invoice_lines" ON invoice_lines;
+CREATE POLICY "service_role_all_invoice_lines" ON invoice_lines
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,10 @@
+-- Migration: 009_add_intervention_client_rating
+-- Description: Track when a client rated a completed intervention (one rating per intervention)
+-- Date: 2026-10-19
+
+ALTER TABLE interventions
+ADD COLUMN IF NOT EXISTS "clientRatedAt" TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_interventions_client_rated_at ON interventions("clientRatedAt");
+
+COMMENT ON COLUMN interventions."clientRatedAt" IS 'When the client submitted clientRating/clientFeedback (NULL = not rated yet)';
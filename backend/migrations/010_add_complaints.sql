@@ -0,0 +1,82 @@
+-- Migration: 010_add_complaints
+-- Description: Add client complaints with status history and response-time SLA
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Complaints
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS complaints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "complaintNumber" VARCHAR(20) NOT NULL UNIQUE,
+  "clientId" UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  "siteId" UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  "interventionId" UUID REFERENCES interventions(id) ON DELETE SET NULL,
+  "zoneId" UUID REFERENCES zones(id) ON DELETE SET NULL,
+  "assignedToId" UUID REFERENCES users(id) ON DELETE SET NULL,
+  "submittedById" UUID NOT NULL REFERENCES users(id),
+  category VARCHAR NOT NULL,
+  priority VARCHAR NOT NULL DEFAULT 'MEDIUM',
+  status VARCHAR NOT NULL DEFAULT 'OPEN',
+  subject VARCHAR(200) NOT NULL,
+  description TEXT NOT NULL,
+  "attachmentUrls" TEXT,
+  "responseDueAt" TIMESTAMP NOT NULL,
+  "firstResponseAt" TIMESTAMP,
+  resolution TEXT,
+  "resolvedAt" TIMESTAMP,
+  "closedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_complaints_client_id ON complaints("clientId");
+CREATE INDEX IF NOT EXISTS idx_complaints_site_id ON complaints("siteId");
+CREATE INDEX IF NOT EXISTS idx_complaints_assigned_to_id ON complaints("assignedToId");
+CREATE INDEX IF NOT EXISTS idx_complaints_status ON complaints(status);
+
+COMMENT ON TABLE complaints IS 'Client complaints against a site or an intervention, routed to the zone chief';
+COMMENT ON COLUMN complaints.category IS 'QUALITY, MISSED_SERVICE, LATE_ARRIVAL, STAFF_BEHAVIOR, DAMAGE, SAFETY, OTHER';
+COMMENT ON COLUMN complaints.priority IS 'LOW, MEDIUM, HIGH, URGENT';
+COMMENT ON COLUMN complaints.status IS 'OPEN, ACKNOWLEDGED, IN_PROGRESS, RESOLVED, CLOSED';
+COMMENT ON COLUMN complaints."responseDueAt" IS 'Deadline for the first staff response (depends on priority)';
+COMMENT ON COLUMN complaints."attachmentUrls" IS 'Comma-separated attachment URLs';
+
+-- ============================================
+-- 2. Complaint history
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS complaint_updates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "complaintId" UUID NOT NULL REFERENCES complaints(id) ON DELETE CASCADE,
+  "authorId" UUID NOT NULL REFERENCES users(id),
+  "fromStatus" VARCHAR,
+  "toStatus" VARCHAR,
+  message TEXT,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_complaint_updates_complaint_id ON complaint_updates("complaintId");
+
+COMMENT ON TABLE complaint_updates IS 'Complaint history: status changes and responses';
+
+-- ============================================
+-- 3. Row level security
+-- ============================================
+
+ALTER TABLE complaints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE complaint_updates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_complaints" ON complaints;
+CREATE POLICY "service_role_all_complaints" ON complaints
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "service_role_all_complaint_updates" ON complaint_updates;
+CREATE POLICY "service_role_all_complaint_updates" ON complaint_updates
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,29 @@
+-- Migration: 011_add_site_geofence
+-- Description: Store site GPS coordinates and geofence radius; record check-in/check-out distance on interventions
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Site coordinates
+-- ============================================
+
+ALTER TABLE sites
+ADD COLUMN IF NOT EXISTS latitude DECIMAL(10, 7),
+ADD COLUMN IF NOT EXISTS longitude DECIMAL(10, 7),
+ADD COLUMN IF NOT EXISTS "geofenceRadiusMeters" INTEGER;
+
+COMMENT ON COLUMN sites."geofenceRadiusMeters" IS 'Allowed check-in distance in meters (NULL = GEOFENCE_DEFAULT_RADIUS_METERS)';
+
+-- ============================================
+-- 2. Intervention geofence results
+-- ============================================
+
+ALTER TABLE interventions
+ADD COLUMN IF NOT EXISTS "checkInDistanceMeters" INTEGER,
+ADD COLUMN IF NOT EXISTS "checkInOutOfZone" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS "checkOutDistanceMeters" INTEGER,
+ADD COLUMN IF NOT EXISTS "checkOutOutOfZone" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_interventions_out_of_zone ON interventions("checkInOutOfZone", "checkOutOutOfZone");
+
+COMMENT ON COLUMN interventions."checkInDistanceMeters" IS 'Distance from the site at GPS check-in (NULL when the site has no coordinates)';
+COMMENT ON COLUMN interventions."checkInOutOfZone" IS 'Check-in was outside the site geofence';
@@ -0,0 +1,11 @@
+-- Migration: 012_add_shift_break_reason
+-- Description: Store the reason of manual shift breaks (shift_breaks created in 003)
+-- Date: 2026-10-19
+
+ALTER TABLE shift_breaks
+ADD COLUMN IF NOT EXISTS reason VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_attendances_status_heartbeat ON attendances(status, last_heartbeat) WHERE "clockOut" IS NULL;
+
+COMMENT ON COLUMN shift_breaks.break_type IS 'manual, idle (no heartbeat) or system';
+COMMENT ON COLUMN shift_breaks.reason IS 'Reason of a manual break: break, lunch, meeting, personal, other';
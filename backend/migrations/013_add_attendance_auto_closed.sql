@@ -0,0 +1,10 @@
+-- Migration: 013_add_attendance_auto_closed
+-- Description: Flag attendances closed by the auto clock-out scheduler (ShiftSettings.autoClockOutHours)
+-- Date: 2026-10-19
+
+ALTER TABLE attendances
+ADD COLUMN IF NOT EXISTS auto_closed BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_attendances_auto_closed ON attendances(auto_closed) WHERE auto_closed = true;
+
+COMMENT ON COLUMN attendances.auto_closed IS 'True when the shift was clocked out automatically after the user''s autoClockOutHours';
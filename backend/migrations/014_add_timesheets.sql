@@ -0,0 +1,54 @@
+-- Migration: 014_add_timesheets
+-- Description: Add period timesheets computed from attendances, with supervisor approval for payroll export
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Timesheets
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "userId" UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  "periodStart" DATE NOT NULL,
+  "periodEnd" DATE NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'DRAFT',
+  "totalHours" DECIMAL(7,2) NOT NULL DEFAULT 0,
+  "regularHours" DECIMAL(7,2) NOT NULL DEFAULT 0,
+  "overtimeHours" DECIMAL(7,2) NOT NULL DEFAULT 0,
+  "nightHours" DECIMAL(7,2) NOT NULL DEFAULT 0,
+  "weekendHours" DECIMAL(7,2) NOT NULL DEFAULT 0,
+  "breakMinutes" INTEGER NOT NULL DEFAULT 0,
+  "absenceDays" INTEGER NOT NULL DEFAULT 0,
+  "absencesByType" JSONB NOT NULL DEFAULT '{}',
+  days JSONB NOT NULL DEFAULT '[]',
+  "reviewedById" UUID REFERENCES users(id) ON DELETE SET NULL,
+  "reviewedAt" TIMESTAMP,
+  "reviewNotes" TEXT,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT chk_timesheets_period CHECK ("periodEnd" >= "periodStart")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timesheets_user_period ON timesheets("userId", "periodStart", "periodEnd");
+CREATE INDEX IF NOT EXISTS idx_timesheets_status ON timesheets(status);
+
+COMMENT ON TABLE timesheets IS 'Hours worked per employee and payroll period, computed from attendances and approved absences';
+COMMENT ON COLUMN timesheets.status IS 'DRAFT, APPROVED (locked for payroll export), REJECTED';
+COMMENT ON COLUMN timesheets."overtimeHours" IS 'Hours past the weekly overtime threshold, per Monday-Sunday week';
+COMMENT ON COLUMN timesheets."nightHours" IS 'Hours worked in the night window, included in totalHours';
+COMMENT ON COLUMN timesheets."weekendHours" IS 'Hours worked on Saturday and Sunday, included in totalHours';
+COMMENT ON COLUMN timesheets."absencesByType" IS 'Approved absence working days per absence type';
+COMMENT ON COLUMN timesheets.days IS 'Daily breakdown: date, workedHours, nightHours, weekendHours, breakMinutes, absenceType';
+
+-- ============================================
+-- 2. Row Level Security
+-- ============================================
+
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_timesheets" ON timesheets;
+CREATE POLICY "service_role_all_timesheets" ON timesheets
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
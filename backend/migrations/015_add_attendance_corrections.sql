@@ -0,0 +1,13 @@
+-- Migration: 015_add_attendance_corrections
+-- Description: Track manual attendance corrections made by supervisors (full before/after kept in audit_logs)
+-- Date: 2026-10-19
+
+ALTER TABLE attendances
+ADD COLUMN IF NOT EXISTS corrected_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS corrected_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS correction_reason VARCHAR(500);
+
+CREATE INDEX IF NOT EXISTS idx_attendances_open_clock_in ON attendances("clockIn") WHERE "clockOut" IS NULL;
+
+COMMENT ON COLUMN attendances.corrected_by IS 'Supervisor who last corrected the clock-in/clock-out times';
+COMMENT ON COLUMN attendances.correction_reason IS 'Reason given for the last manual correction';
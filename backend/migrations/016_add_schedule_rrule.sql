@@ -0,0 +1,8 @@
+-- Migration: 016_add_schedule_rrule
+-- Description: Store RFC 5545 recurrence rules for CUSTOM schedules
+-- Date: 2026-10-19
+
+ALTER TABLE schedules
+ADD COLUMN IF NOT EXISTS rrule VARCHAR(500);
+
+COMMENT ON COLUMN schedules.rrule IS 'RFC 5545 RRULE used when recurrence_pattern is CUSTOM (e.g. FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1), DTSTART is valid_from';
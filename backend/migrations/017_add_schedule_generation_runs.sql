@@ -0,0 +1,45 @@
+-- Migration: 017_add_schedule_generation_runs
+-- Description: Log of the rolling intervention generation from ACTIVE schedules (daily background run and manual runs)
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Schedule generation runs
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS schedule_generation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trigger VARCHAR NOT NULL,
+  "triggeredById" UUID REFERENCES users(id) ON DELETE SET NULL,
+  "horizonDays" INTEGER NOT NULL,
+  "rangeStart" DATE NOT NULL,
+  "rangeEnd" DATE NOT NULL,
+  "schedulesProcessed" INTEGER NOT NULL DEFAULT 0,
+  "generatedCount" INTEGER NOT NULL DEFAULT 0,
+  "skippedCount" INTEGER NOT NULL DEFAULT 0,
+  "errorCount" INTEGER NOT NULL DEFAULT 0,
+  "expiredScheduleIds" JSONB NOT NULL DEFAULT '[]',
+  results JSONB NOT NULL DEFAULT '{}',
+  "startedAt" TIMESTAMP NOT NULL,
+  "finishedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_generation_runs_started_at ON schedule_generation_runs("startedAt");
+
+COMMENT ON TABLE schedule_generation_runs IS 'One pass generating interventions for every ACTIVE schedule over the configured horizon';
+COMMENT ON COLUMN schedule_generation_runs.trigger IS 'AUTO (daily background run) or MANUAL (requested by an admin)';
+COMMENT ON COLUMN schedule_generation_runs."expiredScheduleIds" IS 'Schedules switched to EXPIRED because their valid_until has passed';
+COMMENT ON COLUMN schedule_generation_runs.results IS 'GenerationResult (generated, skipped, errors, interventionIds) per schedule ID';
+
+-- ============================================
+-- 2. Row Level Security
+-- ============================================
+
+ALTER TABLE schedule_generation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_schedule_generation_runs" ON schedule_generation_runs;
+CREATE POLICY "service_role_all_schedule_generation_runs" ON schedule_generation_runs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
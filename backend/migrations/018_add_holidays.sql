@@ -0,0 +1,46 @@
+-- Migration: 018_add_holidays
+-- Description: Company holiday calendar with per-zone overrides, and the holiday policy of schedules
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Holidays
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  "zoneId" UUID REFERENCES zones(id) ON DELETE CASCADE,
+  "isWorkingDay" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_holidays_date_zone ON holidays(date, "zoneId");
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holidays_company_date ON holidays(date) WHERE "zoneId" IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holidays_zone_date ON holidays(date, "zoneId") WHERE "zoneId" IS NOT NULL;
+
+COMMENT ON TABLE holidays IS 'Holiday calendar: company-wide holidays (no zone) and zone overrides';
+COMMENT ON COLUMN holidays."zoneId" IS 'NULL for company-wide holidays, otherwise a holiday (or a working day) specific to the zone';
+COMMENT ON COLUMN holidays."isWorkingDay" IS 'Zone override: the company holiday of this date is worked in the zone';
+
+-- ============================================
+-- 2. Schedule holiday policy
+-- ============================================
+
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS holiday_policy VARCHAR NOT NULL DEFAULT 'SKIP';
+
+COMMENT ON COLUMN schedules.holiday_policy IS 'Dates falling on a holiday: SKIP, NEXT_WORKING_DAY or IGNORE (generated as usual)';
+
+-- ============================================
+-- 3. Row Level Security
+-- ============================================
+
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_holidays" ON holidays;
+CREATE POLICY "service_role_all_holidays" ON holidays
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,11 @@
+-- Migration: 019_add_intervention_manual_edit
+-- Description: Flag interventions edited by hand so that schedule edits propagated to future interventions leave them alone
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Interventions
+-- ============================================
+
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS "manuallyEditedAt" TIMESTAMP;
+
+COMMENT ON COLUMN interventions."manuallyEditedAt" IS 'Last change of the slot or team by hand (update or reschedule); NULL for interventions as generated from their schedule';
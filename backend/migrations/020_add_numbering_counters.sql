@@ -0,0 +1,55 @@
+-- Migration: 020_add_numbering_counters
+-- Description: Counters of the numbering service (client, contract, intervention, invoice and complaint numbers)
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Numbering counters
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS numbering_counters (
+  "entityType" VARCHAR(30) NOT NULL,
+  period VARCHAR(4) NOT NULL DEFAULT '',
+  "lastValue" INTEGER NOT NULL DEFAULT 0,
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY ("entityType", period)
+);
+
+COMMENT ON TABLE numbering_counters IS 'Last number given per entity type, incremented atomically by an upsert';
+COMMENT ON COLUMN numbering_counters.period IS 'Year for formats containing {YYYY} or {YY} (yearly reset), empty otherwise';
+
+-- ============================================
+-- 2. Continue the existing PREFIX-NNNN numbers
+-- ============================================
+
+INSERT INTO numbering_counters ("entityType", period, "lastValue")
+SELECT 'CLIENT', '', COALESCE(MAX(CAST(substring("clientCode" FROM '^CLI-(\d+)$') AS INTEGER)), 0) FROM clients
+ON CONFLICT ("entityType", period) DO NOTHING;
+
+INSERT INTO numbering_counters ("entityType", period, "lastValue")
+SELECT 'CONTRACT', '', COALESCE(MAX(CAST(substring("contractCode" FROM '^CNT-(\d+)$') AS INTEGER)), 0) FROM contracts
+ON CONFLICT ("entityType", period) DO NOTHING;
+
+INSERT INTO numbering_counters ("entityType", period, "lastValue")
+SELECT 'INTERVENTION', '', COALESCE(MAX(CAST(substring("interventionCode" FROM '^INT-(\d+)$') AS INTEGER)), 0) FROM interventions
+ON CONFLICT ("entityType", period) DO NOTHING;
+
+INSERT INTO numbering_counters ("entityType", period, "lastValue")
+SELECT 'INVOICE', '', COALESCE(MAX(CAST(substring("invoiceNumber" FROM '^INV-(\d+)$') AS INTEGER)), 0) FROM invoices
+ON CONFLICT ("entityType", period) DO NOTHING;
+
+INSERT INTO numbering_counters ("entityType", period, "lastValue")
+SELECT 'COMPLAINT', '', COALESCE(MAX(CAST(substring("complaintNumber" FROM '^CMP-(\d+)$') AS INTEGER)), 0) FROM complaints
+ON CONFLICT ("entityType", period) DO NOTHING;
+
+-- ============================================
+-- 3. Row Level Security
+-- ============================================
+
+ALTER TABLE numbering_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_numbering_counters" ON numbering_counters;
+CREATE POLICY "service_role_all_numbering_counters" ON numbering_counters
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
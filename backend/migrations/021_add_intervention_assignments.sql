@@ -0,0 +1,75 @@
+-- Migration: 021_add_intervention_assignments
+-- Description: Per-person intervention assignments (team chief and agents) with individual check-in/check-out,
+--              replacing the interventions."assignedAgentIds" simple-array
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Intervention assignments
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS intervention_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "interventionId" UUID NOT NULL REFERENCES interventions(id) ON DELETE CASCADE,
+  "userId" UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR NOT NULL DEFAULT 'AGENT',
+  status VARCHAR NOT NULL DEFAULT 'ASSIGNED',
+  "checkInTime" TIMESTAMP,
+  "checkOutTime" TIMESTAMP,
+  "hoursWorked" DECIMAL(5,2),
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_intervention_assignments_intervention_user
+  ON intervention_assignments("interventionId", "userId");
+CREATE INDEX IF NOT EXISTS idx_intervention_assignments_user ON intervention_assignments("userId");
+
+COMMENT ON TABLE intervention_assignments IS 'People on an intervention with their own arrival, departure and hours';
+COMMENT ON COLUMN intervention_assignments.role IS 'TEAM_CHIEF (the intervention''s assignedTeamChiefId) or AGENT';
+COMMENT ON COLUMN intervention_assignments.status IS 'ASSIGNED, CHECKED_IN, CHECKED_OUT or NO_SHOW';
+COMMENT ON COLUMN intervention_assignments."hoursWorked" IS 'checkOutTime - checkInTime, in hours';
+
+-- ============================================
+-- 2. Move the existing teams
+-- ============================================
+
+INSERT INTO intervention_assignments ("interventionId", "userId", role)
+SELECT i.id, i."assignedTeamChiefId", 'TEAM_CHIEF'
+FROM interventions i
+JOIN users u ON u.id = i."assignedTeamChiefId"
+ON CONFLICT ("interventionId", "userId") DO NOTHING;
+
+-- simple-array columns hold comma-separated IDs
+INSERT INTO intervention_assignments ("interventionId", "userId", role)
+SELECT DISTINCT i.id, u.id, 'AGENT'
+FROM interventions i
+CROSS JOIN LATERAL unnest(string_to_array(i."assignedAgentIds", ',')) AS agent(id)
+JOIN users u ON u.id::text = trim(agent.id)
+WHERE i."assignedAgentIds" IS NOT NULL AND i."assignedAgentIds" <> ''
+ON CONFLICT ("interventionId", "userId") DO NOTHING;
+
+-- Interventions already started or done: the team was there
+UPDATE intervention_assignments a
+SET status = CASE WHEN i."gpsCheckOutTime" IS NOT NULL THEN 'CHECKED_OUT' ELSE 'CHECKED_IN' END,
+    "checkInTime" = i."gpsCheckInTime",
+    "checkOutTime" = i."gpsCheckOutTime",
+    "hoursWorked" = ROUND((EXTRACT(EPOCH FROM (i."gpsCheckOutTime" - i."gpsCheckInTime")) / 3600)::numeric, 2)
+FROM interventions i
+WHERE i.id = a."interventionId"
+  AND a.status = 'ASSIGNED'
+  AND i."gpsCheckInTime" IS NOT NULL;
+
+ALTER TABLE interventions DROP COLUMN IF EXISTS "assignedAgentIds";
+
+-- ============================================
+-- 3. Row Level Security
+-- ============================================
+
+ALTER TABLE intervention_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_intervention_assignments" ON intervention_assignments;
+CREATE POLICY "service_role_all_intervention_assignments" ON intervention_assignments
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
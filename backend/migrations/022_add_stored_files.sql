@@ -0,0 +1,42 @@
+-- Migration: 022_add_stored_files
+-- Description: Uploaded files (intervention and checklist photos, absence attachments, report screenshots,
+--              profile photos) kept by the storage driver and referenced from their owner as /files/:id
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Stored files
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS stored_files (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "ownerType" VARCHAR(30) NOT NULL,
+  "ownerId" UUID NOT NULL,
+  "originalName" VARCHAR(255) NOT NULL,
+  "mimeType" VARCHAR(100) NOT NULL,
+  size INTEGER NOT NULL,
+  "storageKey" VARCHAR(500) NOT NULL,
+  "thumbnailKey" VARCHAR(500),
+  "uploadedById" UUID REFERENCES users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stored_files_owner ON stored_files("ownerType", "ownerId");
+
+COMMENT ON TABLE stored_files IS 'Uploaded files, downloaded through signed and access-checked URLs';
+COMMENT ON COLUMN stored_files."ownerType" IS 'INTERVENTION, CHECKLIST_ITEM, ABSENCE, REPORT or PROFILE';
+COMMENT ON COLUMN stored_files."mimeType" IS 'Detected from the content (image/jpeg, image/png, image/webp, application/pdf)';
+COMMENT ON COLUMN stored_files."storageKey" IS 'Path below the local root or S3 object key; images are stored without EXIF metadata';
+COMMENT ON COLUMN stored_files."thumbnailKey" IS 'JPEG thumbnail of an image, NULL for documents';
+
+-- ============================================
+-- 2. Row Level Security
+-- ============================================
+
+ALTER TABLE stored_files ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_stored_files" ON stored_files;
+CREATE POLICY "service_role_all_stored_files" ON stored_files
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,74 @@
+-- Migration: 023_add_checklist_photos
+-- Description: Checklist photos stored as records with a BEFORE/AFTER/ISSUE tag, capture time, GPS position,
+--              device and uploader, and tasks requiring a photo before completion
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Tasks requiring a photo
+-- ============================================
+
+ALTER TABLE checklist_items ADD COLUMN IF NOT EXISTS requires_photo BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN checklist_items.requires_photo IS 'Copied from TaskConfig.requiresPhoto of the template; completion is refused without a photo';
+
+-- ============================================
+-- 2. Checklist photos
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS checklist_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checklist_item_id UUID NOT NULL REFERENCES checklist_items(id) ON DELETE CASCADE,
+  tag VARCHAR(20) NOT NULL DEFAULT 'AFTER',
+  url VARCHAR(500) NOT NULL,
+  stored_file_id UUID REFERENCES stored_files(id) ON DELETE SET NULL,
+  captured_at TIMESTAMP NOT NULL,
+  latitude DECIMAL(10, 7),
+  longitude DECIMAL(10, 7),
+  accuracy DECIMAL(8, 2),
+  device_info VARCHAR(255),
+  uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checklist_photos_item ON checklist_photos(checklist_item_id);
+
+COMMENT ON TABLE checklist_photos IS 'Photo evidence of checklist items';
+COMMENT ON COLUMN checklist_photos.tag IS 'BEFORE (state on arrival), AFTER (result of the task) or ISSUE (problem to report)';
+COMMENT ON COLUMN checklist_photos.url IS '/files/:id for uploaded photos, or an external URL';
+COMMENT ON COLUMN checklist_photos.captured_at IS 'Taken time reported by the device, upload time when unknown';
+COMMENT ON COLUMN checklist_photos.accuracy IS 'GPS accuracy in meters';
+
+-- ============================================
+-- 3. Existing photos
+-- ============================================
+
+-- photo_urls was a comma-separated list; its photos become AFTER photos of the item
+ALTER TABLE checklist_items ADD COLUMN IF NOT EXISTS photo_urls TEXT;
+
+INSERT INTO checklist_photos (checklist_item_id, tag, url, stored_file_id, captured_at, uploaded_by)
+SELECT
+  ci.id,
+  'AFTER',
+  photo.url,
+  sf.id,
+  COALESCE(ci.completed_at, ci.created_at),
+  ci.completed_by
+FROM checklist_items ci
+CROSS JOIN LATERAL unnest(string_to_array(ci.photo_urls, ',')) AS photo(url)
+LEFT JOIN stored_files sf ON photo.url = '/files/' || sf.id::text
+WHERE photo.url <> '';
+
+ALTER TABLE checklist_items DROP COLUMN IF EXISTS photo_urls;
+
+-- ============================================
+-- 4. Row Level Security
+-- ============================================
+
+ALTER TABLE checklist_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_checklist_photos" ON checklist_photos;
+CREATE POLICY "service_role_all_checklist_photos" ON checklist_photos
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
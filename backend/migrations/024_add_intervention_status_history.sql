@@ -0,0 +1,72 @@
+-- Migration: 024_add_intervention_status_history
+-- Description: Status transitions of interventions (start, check-in, completion, cancellation, rescheduling)
+--              with actor, reason and GPS position, shown as the intervention timeline
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Intervention status history
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS intervention_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "interventionId" UUID NOT NULL REFERENCES interventions(id) ON DELETE CASCADE,
+  transition VARCHAR(20) NOT NULL,
+  "fromStatus" VARCHAR(20) NOT NULL,
+  "toStatus" VARCHAR(20) NOT NULL,
+  "actorId" UUID REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+  latitude DECIMAL(10,7),
+  longitude DECIMAL(10,7),
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_intervention_status_history_intervention
+  ON intervention_status_history("interventionId", "createdAt");
+
+COMMENT ON TABLE intervention_status_history IS 'Every status transition of an intervention, written by InterventionStateMachineService';
+COMMENT ON COLUMN intervention_status_history.transition IS 'START, CHECK_IN, COMPLETE, CANCEL or RESCHEDULE';
+COMMENT ON COLUMN intervention_status_history."actorId" IS 'User making the transition, NULL for system transitions';
+COMMENT ON COLUMN intervention_status_history.reason IS 'Required to cancel an intervention in progress';
+
+-- ============================================
+-- 2. Known transitions of existing interventions
+-- ============================================
+
+-- Started interventions: the check-in (or start) is the only trace left
+INSERT INTO intervention_status_history
+  ("interventionId", transition, "fromStatus", "toStatus", latitude, longitude, "createdAt")
+SELECT
+  i.id,
+  CASE WHEN i."gpsCheckInTime" IS NOT NULL THEN 'CHECK_IN' ELSE 'START' END,
+  'SCHEDULED',
+  'IN_PROGRESS',
+  i."gpsCheckInLat",
+  i."gpsCheckInLng",
+  COALESCE(i."gpsCheckInTime", i."actualStartTime")
+FROM interventions i
+WHERE i."actualStartTime" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM intervention_status_history h WHERE h."interventionId" = i.id);
+
+INSERT INTO intervention_status_history
+  ("interventionId", transition, "fromStatus", "toStatus", latitude, longitude, "createdAt")
+SELECT i.id, 'COMPLETE', 'IN_PROGRESS', 'COMPLETED', i."gpsCheckOutLat", i."gpsCheckOutLng", i."actualEndTime"
+FROM interventions i
+WHERE i.status = 'COMPLETED'
+  AND i."actualEndTime" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM intervention_status_history h
+    WHERE h."interventionId" = i.id AND h.transition = 'COMPLETE'
+  );
+
+-- ============================================
+-- 3. Row Level Security
+-- ============================================
+
+ALTER TABLE intervention_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_intervention_status_history" ON intervention_status_history;
+CREATE POLICY "service_role_all_intervention_status_history" ON intervention_status_history
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
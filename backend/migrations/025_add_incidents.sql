@@ -0,0 +1,98 @@
+-- Migration: 025_add_incidents
+-- Description: Structured incident records (type, severity, damage, injury, resolution workflow) on
+--              interventions and sites, replacing the free-text interventions.incidents column
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Incidents
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS incidents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "incidentNumber" VARCHAR(20) NOT NULL UNIQUE,
+  "siteId" UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  "interventionId" UUID REFERENCES interventions(id) ON DELETE SET NULL,
+  "zoneId" UUID REFERENCES zones(id) ON DELETE SET NULL,
+  "reportedById" UUID REFERENCES users(id) ON DELETE SET NULL,
+  "assignedToId" UUID REFERENCES users(id) ON DELETE SET NULL,
+  type VARCHAR NOT NULL,
+  severity VARCHAR NOT NULL DEFAULT 'MEDIUM',
+  status VARCHAR NOT NULL DEFAULT 'OPEN',
+  description TEXT NOT NULL,
+  "photoUrls" TEXT,
+  "propertyDamage" BOOLEAN NOT NULL DEFAULT false,
+  "damageDescription" TEXT,
+  "estimatedDamageCost" DECIMAL(10,2),
+  injury BOOLEAN NOT NULL DEFAULT false,
+  "injuryDescription" TEXT,
+  "occurredAt" TIMESTAMP NOT NULL,
+  resolution TEXT,
+  "resolvedById" UUID REFERENCES users(id) ON DELETE SET NULL,
+  "resolvedAt" TIMESTAMP,
+  "closedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incidents_site_id ON incidents("siteId");
+CREATE INDEX IF NOT EXISTS idx_incidents_intervention_id ON incidents("interventionId");
+CREATE INDEX IF NOT EXISTS idx_incidents_zone_occurred_at ON incidents("zoneId", "occurredAt");
+CREATE INDEX IF NOT EXISTS idx_incidents_reported_by_id ON incidents("reportedById");
+CREATE INDEX IF NOT EXISTS idx_incidents_status ON incidents(status);
+
+COMMENT ON TABLE incidents IS 'Incidents reported on an intervention or a site, routed to the zone chief';
+COMMENT ON COLUMN incidents.type IS 'PROPERTY_DAMAGE, INJURY, SAFETY_HAZARD, EQUIPMENT_FAILURE, THEFT, ACCESS_ISSUE, OTHER';
+COMMENT ON COLUMN incidents.severity IS 'LOW, MEDIUM, HIGH, CRITICAL';
+COMMENT ON COLUMN incidents.status IS 'OPEN, INVESTIGATING, RESOLVED, CLOSED';
+COMMENT ON COLUMN incidents."photoUrls" IS 'Comma-separated photo URLs or /files/:id references';
+COMMENT ON COLUMN incidents.resolution IS 'Corrective action, required to resolve the incident';
+
+-- ============================================
+-- 2. Free-text incidents of existing interventions
+-- ============================================
+
+-- Kept as OPEN incidents of type OTHER so supervisors can qualify them
+INSERT INTO incidents
+  ("incidentNumber", "siteId", "interventionId", "zoneId", "reportedById", "assignedToId",
+   type, severity, status, description, "occurredAt")
+SELECT
+  'INC-' || lpad(CAST(row_number() OVER (ORDER BY i."scheduledDate", i."createdAt") AS TEXT), 4, '0'),
+  i."siteId",
+  i.id,
+  sa."zoneId",
+  i."assignedTeamChiefId",
+  z."zoneChiefId",
+  'OTHER',
+  'MEDIUM',
+  'OPEN',
+  i.incidents,
+  COALESCE(i."actualEndTime", i."actualStartTime", i."scheduledDate")
+FROM interventions i
+LEFT JOIN LATERAL (
+  SELECT s."zoneId" FROM site_assignments s
+  WHERE s."siteId" = i."siteId" AND s."isActive" = true
+  ORDER BY s."startDate" DESC
+  LIMIT 1
+) sa ON true
+LEFT JOIN zones z ON z.id = sa."zoneId"
+WHERE trim(COALESCE(i.incidents, '')) <> ''
+  AND NOT EXISTS (SELECT 1 FROM incidents x WHERE x."interventionId" = i.id);
+
+INSERT INTO numbering_counters ("entityType", period, "lastValue")
+SELECT 'INCIDENT', '', COALESCE(MAX(CAST(substring("incidentNumber" FROM '^INC-(\d+)$') AS INTEGER)), 0) FROM incidents
+ON CONFLICT ("entityType", period) DO NOTHING;
+
+ALTER TABLE interventions DROP COLUMN IF EXISTS incidents;
+
+-- ============================================
+-- 3. Row Level Security
+-- ============================================
+
+ALTER TABLE incidents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_role_all_incidents" ON incidents;
+CREATE POLICY "service_role_all_incidents" ON incidents
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,36 @@
+-- Migration: 026_add_client_sign_off
+-- Description: Client sign-off of interventions (contact name, drawn signature, comments), optional or
+--              required per contract, and an HMAC-SHA256 of the completion data for tamper evidence
+-- Date: 2026-10-19
+
+-- ============================================
+-- 1. Contracts requiring the sign-off
+-- ============================================
+
+ALTER TABLE contracts ADD COLUMN IF NOT EXISTS "requiresClientSignOff" BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN contracts."requiresClientSignOff" IS 'Interventions of the contract cannot be completed without the client sign-off';
+
+-- ============================================
+-- 2. Sign-off and completion hash of interventions
+-- ============================================
+
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS "signOffContactName" VARCHAR(200);
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS "signOffSignatureUrl" VARCHAR(500);
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS "signOffComments" TEXT;
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS "signedOffAt" TIMESTAMP;
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS "signedOffById" UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS "completionHash" VARCHAR(64);
+
+COMMENT ON COLUMN interventions."signOffContactName" IS 'Client contact who acknowledged the intervention on site';
+COMMENT ON COLUMN interventions."signOffSignatureUrl" IS '/files/:id reference of the drawn signature image';
+COMMENT ON COLUMN interventions."signedOffById" IS 'Agent who collected the sign-off';
+COMMENT ON COLUMN interventions."completionHash" IS 'HMAC-SHA256 (server secret) of the completion data (times, GPS, sign-off, signature checksum), NULL for interventions completed before this migration';
+
+-- ============================================
+-- 3. Checksum of stored files
+-- ============================================
+
+ALTER TABLE stored_files ADD COLUMN IF NOT EXISTS checksum VARCHAR(64);
+
+COMMENT ON COLUMN stored_files.checksum IS 'SHA-256 of the stored content, NULL for files uploaded before this migration';
@@ -22,6 +22,14 @@ import { AuditModule } from './modules/audit/audit.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
 import { AttendanceModule } from './modules/attendance/attendance.module';
 import { ReportsModule } from './modules/reports/reports.module';
+import { InvoicesModule } from './modules/invoices/invoices.module';
+import { PortalModule } from './modules/portal/portal.module';
+import { ComplaintsModule } from './modules/complaints/complaints.module';
+import { IncidentsModule } from './modules/incidents/incidents.module';
+import { TimesheetsModule } from './modules/timesheets/timesheets.module';
+import { HolidaysModule } from './modules/holidays/holidays.module';
+import { NumberingModule } from './modules/numbering/numbering.module';
+import { StorageModule } from './modules/storage/storage.module';
 import { JwtAuthGuard } from './common/guards';
 
 @Module({
@@ -51,6 +59,14 @@ import { JwtAuthGuard } from './common/guards';
     NotificationsModule,
     AttendanceModule,
     ReportsModule,
+    InvoicesModule,
+    PortalModule,
+    ComplaintsModule,
+    IncidentsModule,
+    TimesheetsModule,
+    HolidaysModule,
+    NumberingModule,
+    StorageModule,
   ],
   controllers: [AppController],
   providers: [
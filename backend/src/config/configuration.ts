@@ -16,4 +16,79 @@ export default () => ({
     privateKey: process.env.FIREBASE_PRIVATE_KEY || '',
     clientEmail: process.env.FIREBASE_CLIENT_EMAIL || '',
   },
+  feedback: {
+    windowDays: parseInt(process.env.FEEDBACK_WINDOW_DAYS || '14', 10),
+    lowRatingThreshold: parseInt(process.env.FEEDBACK_LOW_RATING_THRESHOLD || '2', 10),
+  },
+  geofence: {
+    defaultRadiusMeters: parseInt(process.env.GEOFENCE_DEFAULT_RADIUS_METERS || '200', 10),
+    // 'flag' records out-of-zone check-ins, 'reject' refuses them
+    enforcement: process.env.GEOFENCE_ENFORCEMENT || 'flag',
+  },
+  attendance: {
+    // Opt-in: heartbeats stop while the screen is locked or the app is in the background,
+    // so auto-pausing would deduct time agents actually worked
+    idleAutoPause: process.env.ATTENDANCE_IDLE_AUTO_PAUSE === 'true',
+    // Active shifts without a heartbeat for this long are auto-paused (when enabled)
+    idleTimeoutMinutes: parseInt(process.env.ATTENDANCE_IDLE_TIMEOUT_MINUTES || '15', 10),
+    // Clock-ins later than this after an intervention start are reported as late
+    lateGraceMinutes: parseInt(process.env.ATTENDANCE_LATE_GRACE_MINUTES || '5', 10),
+  },
+  timesheets: {
+    // Hours worked past this threshold in a week are counted as overtime
+    weeklyOvertimeThreshold: parseFloat(process.env.TIMESHEET_WEEKLY_OVERTIME_THRESHOLD || '35'),
+    // Night work window (local hours), 21:00-06:00 by default
+    nightStartHour: parseInt(process.env.TIMESHEET_NIGHT_START_HOUR || '21', 10),
+    nightEndHour: parseInt(process.env.TIMESHEET_NIGHT_END_HOUR || '6', 10),
+  },
+  schedules: {
+    // Interventions are kept generated this many days ahead for every ACTIVE schedule
+    generationHorizonDays: parseInt(process.env.SCHEDULE_GENERATION_HORIZON_DAYS || '21', 10),
+    autoGeneration: process.env.SCHEDULE_AUTO_GENERATION !== 'false',
+  },
+  calendar: {
+    // Working week as day numbers (0 = Sunday), holidays are managed in the holidays table
+    workingDays: (process.env.WORKING_DAYS || '1,2,3,4,5')
+      .split(',')
+      .map((day) => parseInt(day, 10)),
+  },
+  numbering: {
+    // {SEQ:n} = counter padded to n digits, {YYYY}/{YY} = year (the counter then restarts every year)
+    formats: {
+      CLIENT: process.env.NUMBERING_CLIENT_FORMAT || 'CLI-{SEQ:4}',
+      CONTRACT: process.env.NUMBERING_CONTRACT_FORMAT || 'CNT-{SEQ:4}',
+      INTERVENTION: process.env.NUMBERING_INTERVENTION_FORMAT || 'INT-{SEQ:4}',
+      INVOICE: process.env.NUMBERING_INVOICE_FORMAT || 'INV-{SEQ:4}',
+      COMPLAINT: process.env.NUMBERING_COMPLAINT_FORMAT || 'CMP-{SEQ:4}',
+      INCIDENT: process.env.NUMBERING_INCIDENT_FORMAT || 'INC-{SEQ:4}',
+    },
+  },
+  availability: {
+    // Worked + planned hours of a week above which assigning an agent needs force
+    maxWeeklyHours: parseFloat(process.env.AVAILABILITY_MAX_WEEKLY_HOURS || '48'),
+  },
+  interventions: {
+    // Completion hashes are HMACs keyed with this secret (JWT secret when empty)
+    completionSigningSecret: process.env.INTERVENTIONS_COMPLETION_SIGNING_SECRET || '',
+  },
+  storage: {
+    // 'local' keeps files below localRoot, 's3' in a bucket of any S3-compatible store
+    driver: process.env.STORAGE_DRIVER || 'local',
+    localRoot: process.env.STORAGE_LOCAL_ROOT || './uploads',
+    s3: {
+      endpoint: process.env.STORAGE_S3_ENDPOINT || '',
+      region: process.env.STORAGE_S3_REGION || 'us-east-1',
+      bucket: process.env.STORAGE_S3_BUCKET || '',
+      accessKeyId: process.env.STORAGE_S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.STORAGE_S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.STORAGE_S3_FORCE_PATH_STYLE === 'true',
+    },
+    maxFileSizeMb: parseFloat(process.env.STORAGE_MAX_FILE_SIZE_MB || '10'),
+    thumbnailSize: parseInt(process.env.STORAGE_THUMBNAIL_SIZE || '320', 10),
+    // Download links are signed with this secret (JWT secret when empty) and expire after the TTL
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || '',
+    signedUrlTtlSeconds: parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '900', 10),
+    // Public URL of the API, prefix of the download links
+    publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL || 'http://localhost:3000/api',
+  },
 });
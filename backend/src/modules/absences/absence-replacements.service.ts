@@ -0,0 +1,357 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Absence } from './entities/absence.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { InterventionStaffingService } from '../interventions/intervention-staffing.service';
+import { InterventionAssignmentsService } from '../interventions/intervention-assignments.service';
+import { AgentAvailabilityService } from '../interventions/agent-availability.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import { ReassignInterventionsDto } from './dto';
+import {
+  AbsenceStatus,
+  AffectedIntervention,
+  ReassignmentResult,
+} from '../../shared/types/absence.types';
+import { InterventionStatus, AssignmentRole } from '../../shared/types/intervention.types';
+
+// Replacements proposed per intervention
+const SUGGESTIONS_PER_INTERVENTION = 3;
+
+/**
+ * Interventions left without their agent by an approved absence, and their replacement
+ */
+@Injectable()
+export class AbsenceReplacementsService {
+  private readonly logger = new Logger(AbsenceReplacementsService.name);
+
+  constructor(
+    @InjectRepository(Absence)
+    private readonly absenceRepository: Repository<Absence>,
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(SiteAssignment)
+    private readonly siteAssignmentRepository: Repository<SiteAssignment>,
+    private readonly staffingService: InterventionStaffingService,
+    private readonly assignmentsService: InterventionAssignmentsService,
+    private readonly availabilityService: AgentAvailabilityService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Scheduled interventions of the absent agent during the absence, with suggested replacements
+   */
+  async findAffected(absence: Absence, withSuggestions = true): Promise<AffectedIntervention[]> {
+    const interventions = await this.findInterventions(absence);
+
+    const affected: AffectedIntervention[] = [];
+    for (const intervention of interventions) {
+      const role =
+        intervention.assignments.find((assignment) => assignment.userId === absence.agentId)
+          ?.role ?? AssignmentRole.AGENT;
+      const item = this.toAffected(intervention, role);
+
+      if (withSuggestions) {
+        // People already on the team are not replacements
+        const teamIds = intervention.assignments.map((assignment) => assignment.userId);
+        item.suggestions = (
+          await this.staffingService.suggestAgents({
+            siteId: item.siteId,
+            contractId: intervention.contractId,
+            date: item.date,
+            startTime: item.startTime,
+            endTime: item.endTime,
+            interventionId: intervention.id,
+          })
+        )
+          .filter((suggestion) => !teamIds.includes(suggestion.agentId))
+          .slice(0, SUGGESTIONS_PER_INTERVENTION);
+      }
+
+      affected.push(item);
+    }
+
+    return affected;
+  }
+
+  /**
+   * Affected interventions of an approved absence (reviewer's replacement screen)
+   */
+  async getReplacementPlan(absenceId: string): Promise<AffectedIntervention[]> {
+    const absence = await this.findApprovedAbsence(absenceId);
+    return this.findAffected(absence);
+  }
+
+  /**
+   * Tell the supervisors of the affected sites which interventions need a replacement
+   */
+  async notifySupervisors(absence: Absence, affected: AffectedIntervention[]): Promise<void> {
+    if (affected.length === 0) return;
+
+    const agentName = absence.agent?.fullName ?? 'An agent';
+    const period = `${this.formatDate(absence.startDate)} to ${this.formatDate(absence.endDate)}`;
+    const bySupervisor = await this.groupBySupervisor(affected);
+
+    for (const [supervisorId, items] of bySupervisor) {
+      await this.notificationsService.notify(
+        supervisorId,
+        NotificationType.WARNING,
+        `Replacement needed for ${agentName}`,
+        `${agentName} is absent from ${period}: ${items
+          .map((item) => `${item.interventionCode} (${item.siteName}, ${item.date})`)
+          .join(', ')} need a replacement.`,
+        '/personnel/absences',
+      );
+    }
+  }
+
+  /**
+   * Move the absent agent's interventions to the chosen replacements in one step
+   * Every replacement is checked before any change, a team chief is replaced as team chief
+   * @throws BadRequestException when an intervention is not affected, the plan overlaps itself or a replacement is unavailable
+   * @throws ConflictException (409) on availability warnings or planning conflicts, unless forced
+   */
+  async reassign(
+    absenceId: string,
+    reassignDto: ReassignInterventionsDto,
+  ): Promise<ReassignmentResult> {
+    const absence = await this.findApprovedAbsence(absenceId);
+    const interventions = await this.findInterventions(absence);
+
+    const plan = reassignDto.replacements.map((replacement) => {
+      const intervention = interventions.find((item) => item.id === replacement.interventionId);
+      if (!intervention) {
+        throw new BadRequestException(
+          `Intervention ${replacement.interventionId} is not assigned to the absent agent during the absence`,
+        );
+      }
+      if (replacement.agentId === absence.agentId) {
+        throw new BadRequestException('The replacement cannot be the absent agent');
+      }
+      return { intervention, agentId: replacement.agentId };
+    });
+    this.assertConsistentPlan(plan);
+
+    for (const { intervention, agentId } of plan) {
+      await this.availabilityService.assertBookable(
+        {
+          date: this.formatDate(intervention.scheduledDate),
+          startTime: intervention.scheduledStartTime.slice(0, 5),
+          endTime: intervention.scheduledEndTime.slice(0, 5),
+          siteId: intervention.siteId,
+          agentIds: [agentId],
+          interventionId: intervention.id,
+        },
+        reassignDto.force,
+      );
+    }
+
+    const result: ReassignmentResult = { reassigned: [], remaining: [] };
+    const agentName = absence.agent?.fullName ?? 'the absent agent';
+
+    for (const { intervention, agentId } of plan) {
+      const absentRole = intervention.assignments.find(
+        (assignment) => assignment.userId === absence.agentId,
+      )?.role;
+
+      let teamChiefId = intervention.assignedTeamChiefId;
+      if (absentRole === AssignmentRole.TEAM_CHIEF) {
+        teamChiefId = agentId;
+        await this.interventionRepository.update(intervention.id, {
+          assignedTeamChiefId: agentId,
+        });
+      }
+
+      const agentIds = intervention.assignments
+        .filter(
+          (assignment) =>
+            assignment.role === AssignmentRole.AGENT && assignment.userId !== absence.agentId,
+        )
+        .map((assignment) => assignment.userId);
+      if (absentRole !== AssignmentRole.TEAM_CHIEF) {
+        agentIds.push(agentId);
+      }
+
+      await this.assignmentsService.setTeam(intervention.id, agentIds, teamChiefId);
+      const replacement = (await this.assignmentsService.findByIntervention(intervention.id)).find(
+        (assignment) => assignment.userId === agentId,
+      );
+
+      await this.notificationsService.notify(
+        agentId,
+        NotificationType.INFO,
+        `New intervention ${intervention.interventionCode}`,
+        `${intervention.site?.name ?? 'Site'} on ${this.formatDate(intervention.scheduledDate)} ` +
+          `${intervention.scheduledStartTime.slice(0, 5)}-${intervention.scheduledEndTime.slice(0, 5)}, replacing ${agentName}.`,
+        `/my-missions/${intervention.id}`,
+      );
+
+      this.logger.log(
+        `Intervention ${intervention.interventionCode}: ${absence.agentId} replaced by ${agentId}`,
+      );
+      result.reassigned.push({
+        interventionId: intervention.id,
+        interventionCode: intervention.interventionCode,
+        agentId,
+        agentName: replacement?.user?.fullName ?? agentId,
+      });
+    }
+
+    // Supervisors of the sites learn who replaces the absent agent
+    const reassigned = plan.map(({ intervention }) =>
+      this.toAffected(intervention, AssignmentRole.AGENT),
+    );
+    const bySupervisor = await this.groupBySupervisor(reassigned);
+    for (const [supervisorId, items] of bySupervisor) {
+      await this.notificationsService.notify(
+        supervisorId,
+        NotificationType.INFO,
+        `${agentName} replaced`,
+        items
+          .map((item) => {
+            const done = result.reassigned.find(
+              (entry) => entry.interventionId === item.interventionId,
+            );
+            return `${item.interventionCode} (${item.siteName}, ${item.date}): ${done?.agentName}`;
+          })
+          .join(', '),
+        '/interventions',
+      );
+    }
+
+    result.remaining = await this.findAffected(absence);
+    return result;
+  }
+
+  private async findApprovedAbsence(absenceId: string): Promise<Absence> {
+    const absence = await this.absenceRepository.findOne({
+      where: { id: absenceId },
+      relations: ['agent'],
+    });
+
+    if (!absence) {
+      throw new NotFoundException(`Absence with ID ${absenceId} not found`);
+    }
+
+    if (absence.status !== AbsenceStatus.APPROVED) {
+      throw new BadRequestException('Replacements are only needed for approved absences');
+    }
+
+    return absence;
+  }
+
+  /**
+   * The plan against itself: each intervention once, no replacement booked twice at the same time
+   * The availability check only sees the bookings already saved, not the rest of the plan
+   */
+  private assertConsistentPlan(plan: { intervention: Intervention; agentId: string }[]): void {
+    plan.forEach(({ intervention, agentId }, index) => {
+      for (const other of plan.slice(0, index)) {
+        if (other.intervention.id === intervention.id) {
+          throw new BadRequestException(
+            `Intervention ${intervention.interventionCode} is replaced more than once`,
+          );
+        }
+        if (
+          other.agentId === agentId &&
+          this.formatDate(other.intervention.scheduledDate) ===
+            this.formatDate(intervention.scheduledDate) &&
+          other.intervention.scheduledStartTime.slice(0, 5) <
+            intervention.scheduledEndTime.slice(0, 5) &&
+          intervention.scheduledStartTime.slice(0, 5) <
+            other.intervention.scheduledEndTime.slice(0, 5)
+        ) {
+          throw new BadRequestException(
+            `The same replacement cannot cover ${other.intervention.interventionCode} and ` +
+              `${intervention.interventionCode}: their time slots overlap`,
+          );
+        }
+      }
+    });
+  }
+
+  // Scheduled interventions the agent is on between the absence dates
+  private async findInterventions(absence: Absence): Promise<Intervention[]> {
+    return this.interventionRepository
+      .createQueryBuilder('intervention')
+      .innerJoin(
+        'intervention.assignments',
+        'absentAssignment',
+        'absentAssignment.userId = :agentId',
+        { agentId: absence.agentId },
+      )
+      .leftJoinAndSelect('intervention.site', 'site')
+      .leftJoinAndSelect('intervention.assignments', 'assignment')
+      .where('intervention.status = :status', { status: InterventionStatus.SCHEDULED })
+      .andWhere('intervention.scheduledDate BETWEEN :startDate AND :endDate', {
+        startDate: this.formatDate(absence.startDate),
+        endDate: this.formatDate(absence.endDate),
+      })
+      .orderBy('intervention.scheduledDate', 'ASC')
+      .addOrderBy('intervention.scheduledStartTime', 'ASC')
+      .getMany();
+  }
+
+  // Zone chief of each site's active zone, and the zone chief set on the intervention
+  private async groupBySupervisor(
+    items: AffectedIntervention[],
+  ): Promise<Map<string, AffectedIntervention[]>> {
+    const siteIds = [...new Set(items.map((item) => item.siteId))];
+    const [siteZones, interventions] = await Promise.all([
+      this.siteAssignmentRepository.find({
+        where: { siteId: In(siteIds), isActive: true },
+        relations: ['zone'],
+      }),
+      this.interventionRepository.find({
+        where: { id: In(items.map((item) => item.interventionId)) },
+        select: ['id', 'assignedZoneChiefId'],
+      }),
+    ]);
+
+    const bySupervisor = new Map<string, AffectedIntervention[]>();
+    for (const item of items) {
+      const supervisorIds = new Set(
+        [
+          ...siteZones
+            .filter((assignment) => assignment.siteId === item.siteId)
+            .map((assignment) => assignment.zone?.zoneChiefId),
+          interventions.find((intervention) => intervention.id === item.interventionId)
+            ?.assignedZoneChiefId,
+        ].filter((id): id is string => Boolean(id)),
+      );
+      for (const supervisorId of supervisorIds) {
+        bySupervisor.set(supervisorId, [...(bySupervisor.get(supervisorId) ?? []), item]);
+      }
+    }
+
+    if (bySupervisor.size === 0) {
+      this.logger.warn(`No supervisor found for sites ${siteIds.join(', ')}`);
+    }
+
+    return bySupervisor;
+  }
+
+  private toAffected(intervention: Intervention, role: AssignmentRole): AffectedIntervention {
+    return {
+      interventionId: intervention.id,
+      interventionCode: intervention.interventionCode,
+      siteId: intervention.siteId,
+      siteName: intervention.site?.name ?? '',
+      date: this.formatDate(intervention.scheduledDate),
+      startTime: intervention.scheduledStartTime.slice(0, 5),
+      endTime: intervention.scheduledEndTime.slice(0, 5),
+      role,
+      suggestions: [],
+    };
+  }
+
+  // Date columns come back as YYYY-MM-DD strings
+  private formatDate(value: Date | string): string {
+    if (typeof value === 'string') return value.slice(0, 10);
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+}
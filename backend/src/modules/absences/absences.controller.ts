@@ -8,9 +8,18 @@ import {
   Delete,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { AbsencesService } from './absences.service';
-import { CreateAbsenceDto, UpdateAbsenceDto, ReviewAbsenceDto } from './dto';
+import { AbsenceReplacementsService } from './absence-replacements.service';
+import {
+  CreateAbsenceDto,
+  UpdateAbsenceDto,
+  ReviewAbsenceDto,
+  ReassignInterventionsDto,
+} from './dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
@@ -21,7 +30,10 @@ import { AbsenceType, AbsenceStatus } from '../../shared/types/absence.types';
 @Controller('absences')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class AbsencesController {
-  constructor(private readonly absencesService: AbsencesService) {}
+  constructor(
+    private readonly absencesService: AbsencesService,
+    private readonly replacementsService: AbsenceReplacementsService,
+  ) {}
 
   /**
    * Create absence request
@@ -145,6 +157,41 @@ export class AbsencesController {
     return this.absencesService.review(id, reviewAbsenceDto, user.id);
   }
 
+  /**
+   * Scheduled interventions of an approved absence's agent, with suggested replacements
+   * Access: Supervisors and admins
+   */
+  @Get(':id/replacements')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  getReplacements(@Param('id') id: string) {
+    return this.replacementsService.getReplacementPlan(id);
+  }
+
+  /**
+   * Reassign the interventions of an approved absence to replacements in one step
+   * Access: Supervisors and admins
+   */
+  @Post(':id/replacements')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  reassign(@Param('id') id: string, @Body() reassignDto: ReassignInterventionsDto) {
+    return this.replacementsService.reassign(id, reassignDto);
+  }
+
+  /**
+   * Upload the supporting document (multipart "file": image or PDF)
+   * Access: Staff who requested it or admins
+   */
+  @Post(':id/attachment')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  @UseInterceptors(FileInterceptor('file'))
+  uploadAttachment(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: any,
+  ) {
+    return this.absencesService.uploadAttachment(id, file, user);
+  }
+
   /**
    * Cancel absence (self-cancellation or admin)
    * Access: Staff who requested it or admins
@@ -1,17 +1,28 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AbsencesService } from './absences.service';
+import { AbsenceReplacementsService } from './absence-replacements.service';
 import { AbsencesController } from './absences.controller';
 import { Absence } from './entities/absence.entity';
 import { User } from '../users/entities/user.entity';
 import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { HolidaysModule } from '../holidays/holidays.module';
+import { InterventionsModule } from '../interventions/interventions.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Absence, User, AgentZoneAssignment]),
+    TypeOrmModule.forFeature([Absence, User, AgentZoneAssignment, SiteAssignment, Intervention]),
+    HolidaysModule,
+    InterventionsModule,
+    NotificationsModule,
+    StorageModule,
   ],
   controllers: [AbsencesController],
-  providers: [AbsencesService],
+  providers: [AbsencesService, AbsenceReplacementsService],
   exports: [AbsencesService],
 })
 export class AbsencesModule {}
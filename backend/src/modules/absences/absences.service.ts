@@ -9,13 +9,18 @@ import { Repository } from 'typeorm';
 import { Absence } from './entities/absence.entity';
 import { User } from '../users/entities/user.entity';
 import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+import { HolidaysService } from '../holidays/holidays.service';
+import { AbsenceReplacementsService } from './absence-replacements.service';
+import { StorageService } from '../storage/storage.service';
 import { CreateAbsenceDto, UpdateAbsenceDto, ReviewAbsenceDto } from './dto';
 import {
   AbsenceType,
   AbsenceStatus,
   AbsenceBalance,
+  AffectedIntervention,
 } from '../../shared/types/absence.types';
 import { UserRole } from '../../shared/types/user.types';
+import { StoredFileOwner } from '../../shared/types/storage.types';
 
 @Injectable()
 export class AbsencesService {
@@ -26,26 +31,22 @@ export class AbsencesService {
     private readonly userRepository: Repository<User>,
     @InjectRepository(AgentZoneAssignment)
     private readonly agentZoneAssignmentRepository: Repository<AgentZoneAssignment>,
+    private readonly holidaysService: HolidaysService,
+    private readonly replacementsService: AbsenceReplacementsService,
+    private readonly storageService: StorageService,
   ) {}
 
   /**
-   * Calculate working days between two dates (excluding weekends)
+   * Calculate working days between two dates
+   * (working week from configuration, holidays of the agent's zone excluded)
    */
-  private calculateWorkingDays(startDate: Date, endDate: Date): number {
-    let count = 0;
-    const current = new Date(startDate);
-    const end = new Date(endDate);
-
-    while (current <= end) {
-      const dayOfWeek = current.getDay();
-      // Exclude Sundays (0) and Saturdays (6)
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        count++;
-      }
-      current.setDate(current.getDate() + 1);
-    }
-
-    return count;
+  private async calculateWorkingDays(
+    agentId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<number> {
+    const zoneId = await this.holidaysService.getAgentZoneId(agentId);
+    return this.holidaysService.countWorkingDays(startDate, endDate, zoneId);
   }
 
   /**
@@ -104,7 +105,11 @@ export class AbsencesService {
     }
 
     // Calculate total working days
-    const totalDays = this.calculateWorkingDays(startDate, endDate);
+    const totalDays = await this.calculateWorkingDays(
+      createAbsenceDto.agentId,
+      startDate,
+      endDate,
+    );
 
     // Create absence
     const absence = this.absenceRepository.create({
@@ -239,7 +244,8 @@ export class AbsencesService {
         throw new BadRequestException('End date must be after start date');
       }
 
-      updateAbsenceDto['totalDays'] = this.calculateWorkingDays(
+      updateAbsenceDto['totalDays'] = await this.calculateWorkingDays(
+        absence.agentId,
         startDate,
         endDate,
       );
@@ -251,12 +257,14 @@ export class AbsencesService {
 
   /**
    * Review absence (approve/reject)
+   * An approval returns the agent's scheduled interventions during the absence with
+   * suggested replacements, and warns the supervisors of the affected sites
    */
   async review(
     id: string,
     reviewAbsenceDto: ReviewAbsenceDto,
     reviewerId: string,
-  ): Promise<Absence> {
+  ): Promise<Absence & { affectedInterventions?: AffectedIntervention[] }> {
     const absence = await this.findOne(id);
 
     // Check reviewer role
@@ -303,7 +311,44 @@ export class AbsencesService {
     absence.reviewedAt = new Date();
     absence.reviewNotes = reviewAbsenceDto.reviewNotes || null;
 
-    return this.absenceRepository.save(absence);
+    const saved = await this.absenceRepository.save(absence);
+    if (saved.status !== AbsenceStatus.APPROVED) {
+      return saved;
+    }
+
+    const affectedInterventions = await this.replacementsService.findAffected(saved);
+    await this.replacementsService.notifySupervisors(saved, affectedInterventions);
+
+    return Object.assign(saved, { affectedInterventions });
+  }
+
+  /**
+   * Upload the supporting document of an absence (medical certificate, ...)
+   * Replaces the previous uploaded attachment
+   */
+  async uploadAttachment(id: string, file: Express.Multer.File, user: any): Promise<Absence> {
+    const absence = await this.findOne(id);
+
+    const isAdmin = [UserRole.SUPER_ADMIN, UserRole.ADMIN].includes(user.role);
+    if (absence.agentId !== user.id && !isAdmin) {
+      throw new ForbiddenException('You can only add attachments to your own absences');
+    }
+
+    if (absence.status === AbsenceStatus.CANCELLED) {
+      throw new BadRequestException('Cannot add an attachment to a cancelled absence');
+    }
+
+    const storedFile = await this.storageService.upload(file, StoredFileOwner.ABSENCE, id, user.id);
+    const previous = await this.storageService.findByReference(absence.attachmentUrl);
+
+    absence.attachmentUrl = this.storageService.toReference(storedFile);
+    const saved = await this.absenceRepository.save(absence);
+
+    if (previous) {
+      await this.storageService.remove(previous);
+    }
+
+    return saved;
   }
 
   /**
@@ -1,3 +1,4 @@
 export { CreateAbsenceDto } from './create-absence.dto';
 export { UpdateAbsenceDto } from './update-absence.dto';
 export { ReviewAbsenceDto } from './review-absence.dto';
+export { ReassignInterventionsDto, InterventionReplacementDto } from './reassign-interventions.dto';
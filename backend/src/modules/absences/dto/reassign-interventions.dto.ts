@@ -0,0 +1,35 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsUUID,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+
+/**
+ * Replacement agent for one intervention of the absent agent
+ */
+export class InterventionReplacementDto {
+  @IsUUID()
+  interventionId: string;
+
+  @IsUUID()
+  agentId: string;
+}
+
+/**
+ * DTO for reassigning the interventions of an approved absence in one step
+ */
+export class ReassignInterventionsDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => InterventionReplacementDto)
+  @ArrayMinSize(1, { message: 'At least one replacement is required' })
+  replacements: InterventionReplacementDto[];
+
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean; // Book replacements despite availability warnings or planning conflicts
+}
@@ -0,0 +1,269 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, Not, In, MoreThanOrEqual, Raw } from 'typeorm';
+import { Attendance } from './entities/attendance.entity';
+import { ShiftBreak } from './entities/shift-break.entity';
+import { AttendanceService } from './attendance.service';
+import { User } from '../users/entities/user.entity';
+import { UserSettings, ShiftSettings } from '../users/entities/user-settings.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { Notification, NotificationType } from '../notifications/entities/notification.entity';
+import { AttendanceStatus } from '../../shared/types/attendance.types';
+import { InterventionStatus, AssignmentRole } from '../../shared/types/intervention.types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Background jobs driven by each user's ShiftSettings:
+ * - auto clock-out after autoClockOutHours (with optional supervisor notification)
+ * - end-of-shift and break reminders on open shifts
+ * - missed clock-in reminders for agents scheduled on an intervention today
+ */
+@Injectable()
+export class AttendanceSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AttendanceSchedulerService.name);
+  private checkTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private readonly CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes in ms
+
+  constructor(
+    @InjectRepository(Attendance)
+    private readonly attendanceRepository: Repository<Attendance>,
+    @InjectRepository(ShiftBreak)
+    private readonly shiftBreakRepository: Repository<ShiftBreak>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(UserSettings)
+    private readonly settingsRepository: Repository<UserSettings>,
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    private readonly attendanceService: AttendanceService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.checkTimer = setInterval(() => {
+      this.runChecks().catch((error) =>
+        this.logger.error(`Attendance scheduler failed: ${error.message}`),
+      );
+    }, this.CHECK_INTERVAL);
+  }
+
+  onModuleDestroy(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * Run every attendance check once; overlapping runs are skipped
+   */
+  async runChecks(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      await this.processOpenShifts();
+      await this.processMissedClockIns();
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Auto clock-out shifts past their limit and remind users of upcoming limits and breaks
+   */
+  private async processOpenShifts(): Promise<void> {
+    const openShifts = await this.attendanceRepository.find({
+      where: { clockOut: IsNull() },
+    });
+    if (openShifts.length === 0) return;
+
+    const settingsByUser = await this.getShiftSettings(openShifts.map((shift) => shift.userId));
+    const now = Date.now();
+
+    for (const shift of openShifts) {
+      const settings = settingsByUser.get(shift.userId)!;
+      const cutoff = new Date(shift.clockIn.getTime() + settings.autoClockOutHours * HOUR_MS);
+
+      if (cutoff.getTime() <= now) {
+        await this.autoClockOut(shift, settings, cutoff);
+        continue;
+      }
+
+      if (
+        settings.endShiftReminder > 0 &&
+        cutoff.getTime() - now <= settings.endShiftReminder * MINUTE_MS
+      ) {
+        await this.notifyOnce(
+          shift.clockIn,
+          shift.userId,
+          NotificationType.WARNING,
+          'Shift ending soon',
+          `You will be clocked out automatically at ${this.formatTime(cutoff)}. Clock out if you have finished.`,
+          '/dashboard',
+        );
+      }
+
+      if (settings.breakReminderHours > 0 && shift.status === AttendanceStatus.ACTIVE) {
+        const lastBreak = await this.shiftBreakRepository.findOne({
+          where: { attendanceId: shift.id, breakEnd: Not(IsNull()) },
+          order: { breakEnd: 'DESC' },
+        });
+        const workingSince = lastBreak?.breakEnd ?? shift.clockIn;
+
+        if (now - workingSince.getTime() >= settings.breakReminderHours * HOUR_MS) {
+          await this.notifyOnce(
+            workingSince,
+            shift.userId,
+            NotificationType.INFO,
+            'Time for a break',
+            `You have been working for ${settings.breakReminderHours} hours without a break.`,
+            '/dashboard',
+          );
+        }
+      }
+    }
+  }
+
+  private async autoClockOut(
+    shift: Attendance,
+    settings: ShiftSettings,
+    cutoff: Date,
+  ): Promise<void> {
+    const saved = await this.attendanceService.autoClockOut(shift, cutoff);
+
+    await this.notificationsService.notify(
+      saved.userId,
+      NotificationType.WARNING,
+      'Automatically clocked out',
+      `Your shift was closed after ${settings.autoClockOutHours} hours. Contact your supervisor if this is wrong.`,
+      '/dashboard',
+    );
+
+    if (!settings.notifySupervisorAutoClockOut) return;
+
+    const user = await this.userRepository.findOne({ where: { id: saved.userId } });
+    if (user?.supervisorId) {
+      await this.notificationsService.notify(
+        user.supervisorId,
+        NotificationType.WARNING,
+        'Agent automatically clocked out',
+        `${user.fullName} was clocked out automatically after ${settings.autoClockOutHours} hours.`,
+        '/personnel/attendance',
+      );
+    }
+  }
+
+  /**
+   * Remind agents assigned to an intervention that started without them clocking in today
+   */
+  private async processMissedClockIns(): Promise<void> {
+    const now = new Date();
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const interventions = await this.interventionRepository.find({
+      where: {
+        scheduledDate: Raw((column) => `${column} = :today`, { today: this.formatDate(now) }),
+        status: In([InterventionStatus.SCHEDULED, InterventionStatus.RESCHEDULED]),
+      },
+      relations: ['site', 'assignments'],
+    });
+
+    const agentIds = [
+      ...new Set(interventions.flatMap((intervention) => this.getAgentIds(intervention))),
+    ];
+    if (agentIds.length === 0) return;
+
+    const clockedIn = await this.attendanceRepository.find({
+      select: ['userId'],
+      where: { userId: In(agentIds), clockIn: MoreThanOrEqual(startOfDay) },
+    });
+    const clockedInIds = new Set(clockedIn.map((attendance) => attendance.userId));
+    const settingsByUser = await this.getShiftSettings(agentIds);
+
+    for (const intervention of interventions) {
+      const [hours, minutes] = intervention.scheduledStartTime.split(':').map(Number);
+      const startsAt = new Date(startOfDay);
+      startsAt.setHours(hours, minutes, 0, 0);
+
+      for (const agentId of this.getAgentIds(intervention)) {
+        const delay = settingsByUser.get(agentId)!.missedClockInReminder;
+        if (delay <= 0 || clockedInIds.has(agentId)) continue;
+        if (now.getTime() < startsAt.getTime() + delay * MINUTE_MS) continue;
+
+        await this.notifyOnce(
+          startOfDay,
+          agentId,
+          NotificationType.WARNING,
+          'You have not clocked in',
+          `${intervention.interventionCode} at ${intervention.site?.name ?? 'your site'} started at ${intervention.scheduledStartTime.slice(0, 5)}. Please clock in.`,
+          `/my-missions/${intervention.id}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Shift settings per user, falling back to defaults for users who never saved settings
+   */
+  private async getShiftSettings(userIds: string[]): Promise<Map<string, ShiftSettings>> {
+    const defaults = UserSettings.createDefaults().shift as ShiftSettings;
+    const uniqueIds = [...new Set(userIds)];
+    const rows = await this.settingsRepository.find({
+      select: ['userId', 'shift'],
+      where: { userId: In(uniqueIds) },
+    });
+
+    const settingsByUser = new Map<string, ShiftSettings>();
+    for (const userId of uniqueIds) {
+      settingsByUser.set(userId, defaults);
+    }
+    for (const row of rows) {
+      settingsByUser.set(row.userId, { ...defaults, ...row.shift });
+    }
+    return settingsByUser;
+  }
+
+  /**
+   * Send a reminder unless the same one (user, title, link) was already stored since `since`
+   * Deduplicating on stored notifications keeps reminders from being re-sent after a restart
+   */
+  private async notifyOnce(
+    since: Date,
+    userId: string,
+    type: NotificationType,
+    title: string,
+    message: string,
+    actionUrl: string,
+  ): Promise<void> {
+    const alreadySent = await this.notificationRepository.exist({
+      where: { userId, title, actionUrl, createdAt: MoreThanOrEqual(since) },
+    });
+    if (alreadySent) return;
+
+    await this.notificationsService.notify(userId, type, title, message, actionUrl);
+  }
+
+  private getAgentIds(intervention: Intervention): string[] {
+    return (intervention.assignments || [])
+      .filter((assignment) => assignment.role === AssignmentRole.AGENT)
+      .map((assignment) => assignment.userId);
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private formatTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  }
+}
@@ -6,7 +6,13 @@ import {
   Query,
 } from '@nestjs/common';
 import { AttendanceService, DailySummary } from './attendance.service';
-import { ClockInDto, ClockOutDto } from './dto/attendance.dto';
+import {
+  ClockInDto,
+  ClockOutDto,
+  PauseShiftDto,
+  ResumeShiftDto,
+  HeartbeatDto,
+} from './dto/attendance.dto';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
 @Controller('attendance')
@@ -34,6 +40,21 @@ export class AttendanceController {
     return this.attendanceService.clockOut(userId, dto);
   }
 
+  @Post('pause')
+  async pauseShift(@CurrentUser('id') userId: string, @Body() dto: PauseShiftDto) {
+    return this.attendanceService.pauseShift(userId, dto);
+  }
+
+  @Post('resume')
+  async resumeShift(@CurrentUser('id') userId: string, @Body() dto: ResumeShiftDto) {
+    return this.attendanceService.resumeShift(userId, dto);
+  }
+
+  @Post('heartbeat')
+  async heartbeat(@CurrentUser('id') userId: string, @Body() dto: HeartbeatDto) {
+    return this.attendanceService.heartbeat(userId, dto);
+  }
+
   @Get('today')
   async getTodayAttendance(@CurrentUser('id') userId: string) {
     return this.attendanceService.getTodayAttendance(userId);
@@ -1,13 +1,36 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Attendance } from './entities/attendance.entity';
+import { ShiftBreak } from './entities/shift-break.entity';
 import { AttendanceService } from './attendance.service';
+import { AttendanceSchedulerService } from './attendance-scheduler.service';
+import { TeamAttendanceService } from './team-attendance.service';
 import { AttendanceController } from './attendance.controller';
+import { TeamAttendanceController } from './team-attendance.controller';
+import { User } from '../users/entities/user.entity';
+import { UserSettings } from '../users/entities/user-settings.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Attendance])],
-  controllers: [AttendanceController],
-  providers: [AttendanceService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Attendance,
+      ShiftBreak,
+      User,
+      UserSettings,
+      Intervention,
+      AgentZoneAssignment,
+      Notification,
+    ]),
+    NotificationsModule,
+    AuditModule,
+  ],
+  controllers: [AttendanceController, TeamAttendanceController],
+  providers: [AttendanceService, AttendanceSchedulerService, TeamAttendanceService],
   exports: [AttendanceService],
 })
 export class AttendanceModule {}
@@ -1,22 +1,41 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, IsNull, Between } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, Between, LessThan } from 'typeorm';
 import { Attendance } from './entities/attendance.entity';
-import { ClockInDto, ClockOutDto } from './dto/attendance.dto';
+import { ShiftBreak } from './entities/shift-break.entity';
+import {
+  ClockInDto,
+  ClockOutDto,
+  PauseShiftDto,
+  ResumeShiftDto,
+  HeartbeatDto,
+} from './dto/attendance.dto';
+import { AttendanceStatus, BreakType } from '../../shared/types/attendance.types';
 
 export interface DailySummary {
   date: string;
   firstClockIn: Date | null;
   lastClockOut: Date | null;
   totalHoursWorked: number;
+  totalBreakMinutes: number;
   sessionsCount: number;
   isCurrentlyOnShift: boolean;
-  currentShiftElapsed?: number; // seconds
+  currentStatus: AttendanceStatus | 'off';
+  currentShiftElapsed?: number; // seconds, breaks excluded
 }
 
 @Injectable()
-export class AttendanceService {
+export class AttendanceService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(AttendanceService.name);
+  private idleCheckTimer: NodeJS.Timeout | null = null;
+  private readonly IDLE_CHECK_INTERVAL = 60 * 1000; // 1 minute in ms
 
   // Rate limiting map: userId -> { count, resetTime }
   private rateLimitMap = new Map<string, { count: number; resetTime: number }>();
@@ -26,8 +45,31 @@ export class AttendanceService {
   constructor(
     @InjectRepository(Attendance)
     private readonly attendanceRepository: Repository<Attendance>,
+    @InjectRepository(ShiftBreak)
+    private readonly shiftBreakRepository: Repository<ShiftBreak>,
+    private readonly configService: ConfigService,
   ) {}
 
+  onModuleInit(): void {
+    if (!this.configService.get<boolean>('attendance.idleAutoPause')) {
+      this.logger.log('Idle auto-pause is disabled');
+      return;
+    }
+
+    this.idleCheckTimer = setInterval(() => {
+      this.detectIdleShifts().catch((error) =>
+        this.logger.error(`Idle detection failed: ${error.message}`),
+      );
+    }, this.IDLE_CHECK_INTERVAL);
+  }
+
+  onModuleDestroy(): void {
+    if (this.idleCheckTimer) {
+      clearInterval(this.idleCheckTimer);
+      this.idleCheckTimer = null;
+    }
+  }
+
   private checkRateLimit(userId: string): void {
     const now = Date.now();
     const userLimit = this.rateLimitMap.get(userId);
@@ -53,9 +95,13 @@ export class AttendanceService {
       throw new BadRequestException('You already have an active shift. Please clock out first.');
     }
 
+    const now = new Date();
     const attendance = this.attendanceRepository.create({
       userId,
-      clockIn: new Date(),
+      clockIn: now,
+      status: AttendanceStatus.ACTIVE,
+      lastHeartbeat: now,
+      breakMinutes: 0,
       notes: dto.notes,
       clockInLocation: dto.latitude && dto.longitude ? `(${dto.latitude},${dto.longitude})` : null,
     });
@@ -73,12 +119,7 @@ export class AttendanceService {
       throw new BadRequestException('No active shift found. Please clock in first.');
     }
 
-    const clockOutTime = new Date();
-    const totalMinutes = (clockOutTime.getTime() - activeShift.clockIn.getTime()) / (1000 * 60);
-    const hoursWorked = Math.max(0, totalMinutes / 60);
-
-    activeShift.clockOut = clockOutTime;
-    activeShift.hoursWorked = parseFloat(hoursWorked.toFixed(2));
+    await this.closeShift(activeShift, new Date());
     activeShift.clockOutLocation = dto.latitude && dto.longitude ? `(${dto.latitude},${dto.longitude})` : null;
     
     if (dto.notes) {
@@ -90,6 +131,42 @@ export class AttendanceService {
     return saved;
   }
 
+  /**
+   * Close a shift left open past the user's autoClockOutHours
+   * The shift ends at the given cutoff, not when the scheduler runs
+   */
+  async autoClockOut(shift: Attendance, clockOutTime: Date): Promise<Attendance> {
+    await this.closeShift(shift, clockOutTime);
+    shift.autoClosed = true;
+
+    const saved = await this.attendanceRepository.save(shift);
+    this.logger.log(
+      `User ${shift.userId} auto clocked out at ${saved.clockOut}. Hours worked: ${saved.hoursWorked}`,
+    );
+    return saved;
+  }
+
+  /**
+   * Apply corrected clock-in/clock-out times and recompute hours worked
+   * Setting a clock-out on an open shift closes it
+   */
+  async correctShift(shift: Attendance, clockIn?: Date, clockOut?: Date): Promise<Attendance> {
+    if (clockIn) {
+      shift.clockIn = clockIn;
+    }
+
+    if (clockOut && !shift.clockOut) {
+      await this.closeShift(shift, clockOut);
+    } else if (shift.clockOut) {
+      if (clockOut) {
+        shift.clockOut = clockOut;
+      }
+      shift.hoursWorked = this.computeHoursWorked(shift);
+    }
+
+    return this.attendanceRepository.save(shift);
+  }
+
   async getActiveShift(userId: string): Promise<Attendance | null> {
     return this.attendanceRepository.findOne({
       where: { 
@@ -100,8 +177,200 @@ export class AttendanceService {
     });
   }
 
+  /**
+   * Start a break on the current shift
+   */
+  async pauseShift(
+    userId: string,
+    dto: PauseShiftDto,
+    breakType: BreakType = BreakType.MANUAL,
+  ): Promise<Attendance> {
+    const activeShift = await this.getActiveShift(userId);
+    if (!activeShift) {
+      throw new BadRequestException('No active shift found. Please clock in first.');
+    }
+    if (activeShift.status === AttendanceStatus.PAUSED) {
+      throw new BadRequestException('Shift is already paused.');
+    }
+
+    await this.startBreak(activeShift, new Date(), breakType, dto.reason, dto.notes);
+    this.logger.log(`User ${userId} paused shift ${activeShift.id} (${breakType})`);
+    return this.getShiftWithBreaks(activeShift.id);
+  }
+
+  /**
+   * End the current break and resume the shift
+   */
+  async resumeShift(userId: string, dto: ResumeShiftDto): Promise<Attendance> {
+    const activeShift = await this.getActiveShift(userId);
+    if (!activeShift) {
+      throw new BadRequestException('No active shift found. Please clock in first.');
+    }
+    if (activeShift.status !== AttendanceStatus.PAUSED) {
+      throw new BadRequestException('Shift is not paused.');
+    }
+
+    const now = new Date();
+    await this.closeOpenBreak(activeShift, now, dto.notes);
+    activeShift.status = AttendanceStatus.ACTIVE;
+    activeShift.lastHeartbeat = now;
+    await this.attendanceRepository.save(activeShift);
+
+    this.logger.log(`User ${userId} resumed shift ${activeShift.id}`);
+    return this.getShiftWithBreaks(activeShift.id);
+  }
+
+  /**
+   * Record client activity on the current shift
+   * A shift auto-paused for inactivity is resumed by the next heartbeat
+   */
+  async heartbeat(
+    userId: string,
+    dto: HeartbeatDto,
+  ): Promise<{ success: boolean; attendance: Attendance | null }> {
+    const activeShift = await this.getActiveShift(userId);
+    if (!activeShift) {
+      return { success: false, attendance: null };
+    }
+
+    const now = new Date();
+    if (activeShift.status === AttendanceStatus.PAUSED) {
+      const openBreak = await this.findOpenBreak(activeShift.id);
+      if (openBreak?.breakType === BreakType.IDLE) {
+        await this.closeOpenBreak(activeShift, now);
+        activeShift.status = AttendanceStatus.ACTIVE;
+        this.logger.log(`User ${userId} back from idle on shift ${activeShift.id}`);
+      }
+    }
+
+    activeShift.lastHeartbeat = now;
+    if (dto.deviceId) {
+      activeShift.deviceId = dto.deviceId;
+    }
+    await this.attendanceRepository.save(activeShift);
+
+    return { success: true, attendance: await this.getShiftWithBreaks(activeShift.id) };
+  }
+
+  /**
+   * Auto-pause active shifts whose last heartbeat is older than the idle timeout
+   * The idle break starts at the last heartbeat so idle time is not counted as worked
+   */
+  async detectIdleShifts(): Promise<number> {
+    const timeoutMinutes = this.configService.get<number>('attendance.idleTimeoutMinutes') ?? 15;
+    const threshold = new Date(Date.now() - timeoutMinutes * 60 * 1000);
+
+    const idleShifts = await this.attendanceRepository.find({
+      where: {
+        clockOut: IsNull(),
+        status: AttendanceStatus.ACTIVE,
+        lastHeartbeat: LessThan(threshold),
+      },
+    });
+
+    for (const shift of idleShifts) {
+      await this.startBreak(shift, shift.lastHeartbeat!, BreakType.IDLE);
+      this.logger.log(
+        `Shift ${shift.id} auto-paused after ${timeoutMinutes} min without heartbeat`,
+      );
+    }
+
+    return idleShifts.length;
+  }
+
+  private async startBreak(
+    shift: Attendance,
+    breakStart: Date,
+    breakType: BreakType,
+    reason?: ShiftBreak['reason'],
+    notes?: string,
+  ): Promise<void> {
+    await this.shiftBreakRepository.save(
+      this.shiftBreakRepository.create({
+        attendanceId: shift.id,
+        breakStart,
+        breakType,
+        reason: reason || null,
+        notes: notes || null,
+      }),
+    );
+    shift.status = AttendanceStatus.PAUSED;
+    await this.attendanceRepository.save(shift);
+  }
+
+  /**
+   * End a shift: close any open break and compute hours worked without breaks
+   * Does not save the attendance itself
+   */
+  private async closeShift(shift: Attendance, clockOutTime: Date): Promise<void> {
+    // Clocking out while paused ends the current break
+    if (shift.status === AttendanceStatus.PAUSED) {
+      await this.closeOpenBreak(shift, clockOutTime);
+    }
+
+    shift.clockOut = clockOutTime;
+    shift.status = AttendanceStatus.COMPLETED;
+    shift.hoursWorked = this.computeHoursWorked(shift);
+  }
+
+  private computeHoursWorked(shift: Attendance): number {
+    const totalMinutes = (shift.clockOut.getTime() - shift.clockIn.getTime()) / (1000 * 60);
+    const hoursWorked = Math.max(0, (totalMinutes - (shift.breakMinutes || 0)) / 60);
+    return parseFloat(hoursWorked.toFixed(2));
+  }
+
+  private async findOpenBreak(attendanceId: string): Promise<ShiftBreak | null> {
+    return this.shiftBreakRepository.findOne({
+      where: { attendanceId, breakEnd: IsNull() },
+      order: { breakStart: 'DESC' },
+    });
+  }
+
+  /**
+   * End the open break of a shift and add its duration to breakMinutes
+   * Does not save the attendance itself
+   */
+  private async closeOpenBreak(shift: Attendance, breakEnd: Date, notes?: string): Promise<void> {
+    const openBreak = await this.findOpenBreak(shift.id);
+    if (!openBreak) return;
+
+    const duration = Math.max(
+      0,
+      Math.round((breakEnd.getTime() - openBreak.breakStart.getTime()) / (1000 * 60)),
+    );
+    openBreak.breakEnd = breakEnd;
+    openBreak.durationMinutes = duration;
+    if (notes) {
+      openBreak.notes = openBreak.notes ? `${openBreak.notes}\n${notes}` : notes;
+    }
+    await this.shiftBreakRepository.save(openBreak);
+
+    shift.breakMinutes = (shift.breakMinutes || 0) + duration;
+  }
+
+  private async getShiftWithBreaks(id: string): Promise<Attendance> {
+    return this.attendanceRepository.findOneOrFail({
+      where: { id },
+      relations: ['breaks'],
+      order: { breaks: { breakStart: 'ASC' } },
+    });
+  }
+
+  /**
+   * Seconds worked on an open shift, excluding completed and ongoing breaks
+   */
+  private getActiveShiftElapsedSeconds(shift: Attendance, openBreak: ShiftBreak | null): number {
+    const now = Date.now();
+    let elapsed = (now - shift.clockIn.getTime()) / 1000 - (shift.breakMinutes || 0) * 60;
+    if (openBreak) {
+      elapsed -= (now - openBreak.breakStart.getTime()) / 1000;
+    }
+    return Math.max(0, Math.floor(elapsed));
+  }
+
   async getShiftStatus(userId: string): Promise<{ isOnShift: boolean; currentShift: Attendance | null }> {
-    const currentShift = await this.getActiveShift(userId);
+    const activeShift = await this.getActiveShift(userId);
+    const currentShift = activeShift ? await this.getShiftWithBreaks(activeShift.id) : null;
     return {
       isOnShift: !!currentShift,
       currentShift,
@@ -129,8 +398,10 @@ export class AttendanceService {
         firstClockIn: null,
         lastClockOut: null,
         totalHoursWorked: 0,
+        totalBreakMinutes: 0,
         sessionsCount: 0,
         isCurrentlyOnShift: false,
+        currentStatus: 'off',
       };
     }
 
@@ -140,17 +411,24 @@ export class AttendanceService {
     const isCurrentlyOnShift = !lastRecord.clockOut;
 
     let totalHoursWorked = 0;
+    let totalBreakMinutes = 0;
     let currentShiftElapsed: number | undefined;
 
     for (const att of attendances) {
+      totalBreakMinutes += att.breakMinutes || 0;
       if (att.hoursWorked) {
-        totalHoursWorked += att.hoursWorked;
+        totalHoursWorked += parseFloat(String(att.hoursWorked)) || 0;
       } else if (!att.clockOut) {
-        // Active shift - calculate elapsed
-        const now = new Date();
-        const elapsed = (now.getTime() - att.clockIn.getTime()) / (1000 * 60 * 60);
-        currentShiftElapsed = Math.floor((now.getTime() - att.clockIn.getTime()) / 1000);
-        totalHoursWorked += elapsed;
+        // Active shift - calculate elapsed without breaks
+        const openBreak =
+          att.status === AttendanceStatus.PAUSED ? await this.findOpenBreak(att.id) : null;
+        if (openBreak) {
+          totalBreakMinutes += Math.floor(
+            (Date.now() - openBreak.breakStart.getTime()) / (1000 * 60),
+          );
+        }
+        currentShiftElapsed = this.getActiveShiftElapsedSeconds(att, openBreak);
+        totalHoursWorked += currentShiftElapsed / 3600;
       }
     }
 
@@ -159,8 +437,10 @@ export class AttendanceService {
       firstClockIn,
       lastClockOut,
       totalHoursWorked: parseFloat(totalHoursWorked.toFixed(2)),
+      totalBreakMinutes,
       sessionsCount: attendances.length,
       isCurrentlyOnShift,
+      currentStatus: isCurrentlyOnShift ? lastRecord.status : 'off',
       currentShiftElapsed,
     };
   }
@@ -174,6 +454,7 @@ export class AttendanceService {
 
     return this.attendanceRepository.find({
       where,
+      relations: ['breaks'],
       order: { clockIn: 'DESC' },
     });
   }
@@ -189,6 +470,7 @@ export class AttendanceService {
         userId,
         clockIn: Between(today, tomorrow),
       },
+      relations: ['breaks'],
       order: { clockIn: 'ASC' },
     });
   }
@@ -215,8 +497,11 @@ export class AttendanceService {
     // Add current active shift time if applicable
     const activeShift = await this.getActiveShift(userId);
     if (activeShift) {
-      const elapsed = (Date.now() - activeShift.clockIn.getTime()) / (1000 * 60 * 60);
-      total += elapsed;
+      const openBreak =
+        activeShift.status === AttendanceStatus.PAUSED
+          ? await this.findOpenBreak(activeShift.id)
+          : null;
+      total += this.getActiveShiftElapsedSeconds(activeShift, openBreak) / 3600;
     }
 
     return parseFloat(total.toFixed(2));
@@ -1,4 +1,13 @@
-import { IsOptional, IsString, IsNumber } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsNumber,
+  IsEnum,
+  IsDateString,
+  IsNotEmpty,
+  MaxLength,
+} from 'class-validator';
+import { BreakReason } from '../../../shared/types/attendance.types';
 
 export class ClockInDto {
   @IsOptional()
@@ -27,3 +36,43 @@ export class ClockOutDto {
   @IsNumber()
   longitude?: number;
 }
+
+export class PauseShiftDto {
+  @IsOptional()
+  @IsEnum(BreakReason)
+  reason?: BreakReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class ResumeShiftDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class HeartbeatDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  deviceId?: string;
+}
+
+export class CorrectAttendanceDto {
+  @IsOptional()
+  @IsDateString()
+  clockIn?: string;
+
+  @IsOptional()
+  @IsDateString()
+  clockOut?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
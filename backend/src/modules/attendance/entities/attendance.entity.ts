@@ -3,10 +3,13 @@ import {
   PrimaryGeneratedColumn,
   Column,
   ManyToOne,
+  OneToMany,
   CreateDateColumn,
   JoinColumn,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { ShiftBreak } from './shift-break.entity';
+import { AttendanceStatus } from '../../../shared/types/attendance.types';
 
 @Entity('attendances')
 export class Attendance {
@@ -38,6 +41,36 @@ export class Attendance {
   @Column({ type: 'point', nullable: true })
   clockOutLocation: string;
 
+  // Break tracking (columns from migration 003)
+  @Column({ type: 'varchar', length: 20, default: AttendanceStatus.ACTIVE })
+  status: AttendanceStatus;
+
+  @Column({ name: 'last_heartbeat', type: 'timestamp', nullable: true })
+  lastHeartbeat: Date | null;
+
+  @Column({ name: 'device_id', type: 'varchar', length: 255, nullable: true })
+  deviceId: string | null;
+
+  @Column({ name: 'break_minutes', type: 'int', default: 0 })
+  breakMinutes: number;
+
+  // Closed by the scheduler after ShiftSettings.autoClockOutHours
+  @Column({ name: 'auto_closed', type: 'boolean', default: false })
+  autoClosed: boolean;
+
+  // Last manual correction by a supervisor (details in the audit log)
+  @Column({ name: 'corrected_by', type: 'uuid', nullable: true })
+  correctedBy: string | null;
+
+  @Column({ name: 'corrected_at', type: 'timestamp', nullable: true })
+  correctedAt: Date | null;
+
+  @Column({ name: 'correction_reason', type: 'varchar', length: 500, nullable: true })
+  correctionReason: string | null;
+
+  @OneToMany(() => ShiftBreak, (shiftBreak) => shiftBreak.attendance)
+  breaks: ShiftBreak[];
+
   @CreateDateColumn()
   createdAt: Date;
 }
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+} from 'typeorm';
+import { Attendance } from './attendance.entity';
+import { BreakType, BreakReason } from '../../../shared/types/attendance.types';
+
+@Entity('shift_breaks')
+export class ShiftBreak {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'attendance_id', type: 'uuid' })
+  attendanceId: string;
+
+  @ManyToOne(() => Attendance, (attendance) => attendance.breaks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'attendance_id' })
+  attendance: Attendance;
+
+  @Column({ name: 'break_start', type: 'timestamp' })
+  breakStart: Date;
+
+  @Column({ name: 'break_end', type: 'timestamp', nullable: true })
+  breakEnd: Date | null;
+
+  @Column({ name: 'duration_minutes', type: 'int', nullable: true })
+  durationMinutes: number | null;
+
+  @Column({
+    name: 'break_type',
+    type: 'varchar',
+    length: 20,
+    default: BreakType.MANUAL,
+  })
+  breakType: BreakType;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  reason: BreakReason | null;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
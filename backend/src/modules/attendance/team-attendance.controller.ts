@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { TeamAttendanceService } from './team-attendance.service';
+import { CorrectAttendanceDto } from './dto/attendance.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../../shared/types/user.types';
+
+@Controller('attendance/team')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+export class TeamAttendanceController {
+  constructor(private readonly teamAttendanceService: TeamAttendanceService) {}
+
+  /**
+   * Team members and their open shift (who is on shift right now)
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Get('live')
+  getLiveStatus(@CurrentUser() user: User) {
+    return this.teamAttendanceService.getLiveStatus(user);
+  }
+
+  /**
+   * Late or missing clock-ins compared with scheduled intervention start times
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Get('late')
+  getLateArrivals(@CurrentUser() user: User, @Query('date') date?: string) {
+    return this.teamAttendanceService.getLateArrivals(user, date);
+  }
+
+  /**
+   * Shifts left open from a previous day or closed by the auto clock-out
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Get('missing-clock-outs')
+  getMissingClockOuts(@CurrentUser() user: User, @Query('days') days?: string) {
+    return this.teamAttendanceService.getMissingClockOuts(user, days ? parseInt(days) : 7);
+  }
+
+  /**
+   * Attendance records of the team (last 7 days by default)
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Get('records')
+  getRecords(
+    @CurrentUser() user: User,
+    @Query('userId') userId?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.teamAttendanceService.getRecords(user, userId, startDate, endDate);
+  }
+
+  /**
+   * Correct the clock-in/clock-out times of a shift (recorded in the audit log)
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Patch('records/:id')
+  correct(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() correctDto: CorrectAttendanceDto,
+  ) {
+    return this.teamAttendanceService.correct(id, user, correctDto);
+  }
+}
@@ -0,0 +1,314 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, IsNull, Between, LessThan, MoreThanOrEqual, Raw } from 'typeorm';
+import { Attendance } from './entities/attendance.entity';
+import { AttendanceService } from './attendance.service';
+import { CorrectAttendanceDto } from './dto/attendance.dto';
+import { User } from '../users/entities/user.entity';
+import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { AuditService } from '../audit/audit.service';
+import { UserRole, UserStatus } from '../../shared/types/user.types';
+import { InterventionStatus, AssignmentRole } from '../../shared/types/intervention.types';
+
+export interface TeamMemberShift {
+  user: User;
+  shift: Attendance | null;
+}
+
+export interface LateArrival {
+  user: User;
+  intervention: Intervention;
+  scheduledStart: Date;
+  clockIn: Date | null;
+  minutesLate: number;
+}
+
+/**
+ * Attendance of a supervisor's team
+ * The team is resolved through User.supervisorId and active agent zone assignments
+ */
+@Injectable()
+export class TeamAttendanceService {
+  constructor(
+    @InjectRepository(Attendance)
+    private readonly attendanceRepository: Repository<Attendance>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(AgentZoneAssignment)
+    private readonly agentZoneAssignmentRepository: Repository<AgentZoneAssignment>,
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    private readonly attendanceService: AttendanceService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Employees visible to the current user (admins see every agent and supervisor)
+   */
+  async getTeam(currentUser: User): Promise<User[]> {
+    if (currentUser.role !== UserRole.SUPERVISOR) {
+      return this.userRepository.find({
+        where: {
+          role: In([UserRole.AGENT, UserRole.SUPERVISOR]),
+          status: UserStatus.ACTIVE,
+        },
+        order: { lastName: 'ASC' },
+      });
+    }
+
+    const zoneAssignments = await this.agentZoneAssignmentRepository
+      .createQueryBuilder('assignment')
+      .innerJoin('assignment.zone', 'zone')
+      .select('assignment.agentId', 'agentId')
+      .where('assignment.isActive = true')
+      .andWhere('(zone.zoneChiefId = :userId OR assignment.teamChiefId = :userId)', {
+        userId: currentUser.id,
+      })
+      .getRawMany<{ agentId: string }>();
+
+    return this.userRepository
+      .createQueryBuilder('user')
+      .where('user.status = :status', { status: UserStatus.ACTIVE })
+      .andWhere('user.id != :userId', { userId: currentUser.id })
+      .andWhere(
+        zoneAssignments.length
+          ? '(user.supervisorId = :userId OR user.id IN (:...agentIds))'
+          : 'user.supervisorId = :userId',
+        { userId: currentUser.id, agentIds: zoneAssignments.map((row) => row.agentId) },
+      )
+      .orderBy('user.lastName', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Every team member with their open shift, if any
+   */
+  async getLiveStatus(currentUser: User): Promise<TeamMemberShift[]> {
+    const team = await this.getTeam(currentUser);
+    if (team.length === 0) return [];
+
+    const openShifts = await this.attendanceRepository.find({
+      where: { userId: In(team.map((user) => user.id)), clockOut: IsNull() },
+      relations: ['breaks'],
+      order: { clockIn: 'DESC' },
+    });
+
+    return team.map((user) => ({
+      user,
+      shift: openShifts.find((shift) => shift.userId === user.id) || null,
+    }));
+  }
+
+  /**
+   * Team members who clocked in after the start of a scheduled intervention, or not at all
+   */
+  async getLateArrivals(currentUser: User, date?: string): Promise<LateArrival[]> {
+    const graceMinutes = this.configService.get<number>('attendance.lateGraceMinutes') ?? 5;
+    const team = await this.getTeam(currentUser);
+    const teamById = new Map(team.map((user) => [user.id, user]));
+
+    const dayStart = date ? new Date(`${date.slice(0, 10)}T00:00:00`) : new Date();
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    const interventions = await this.interventionRepository.find({
+      where: {
+        scheduledDate: Raw((column) => `${column} = :day`, { day: this.formatDate(dayStart) }),
+        status: In([
+          InterventionStatus.SCHEDULED,
+          InterventionStatus.RESCHEDULED,
+          InterventionStatus.IN_PROGRESS,
+          InterventionStatus.COMPLETED,
+        ]),
+      },
+      relations: ['site', 'assignments'],
+      order: { scheduledStartTime: 'ASC' },
+    });
+
+    const attendances = await this.attendanceRepository.find({
+      where: { userId: In(team.map((user) => user.id)), clockIn: Between(dayStart, dayEnd) },
+      order: { clockIn: 'ASC' },
+    });
+
+    const now = Date.now();
+    const lateArrivals: LateArrival[] = [];
+    for (const intervention of interventions) {
+      const [hours, minutes] = intervention.scheduledStartTime.split(':').map(Number);
+      const scheduledStart = new Date(dayStart);
+      scheduledStart.setHours(hours, minutes, 0, 0);
+      const deadline = scheduledStart.getTime() + graceMinutes * 60 * 1000;
+      if (deadline > now) continue;
+
+      for (const agentId of this.getAgentIds(intervention)) {
+        const user = teamById.get(agentId);
+        if (!user) continue;
+
+        // First clock-in of the day counts, a later session does not make the agent late
+        const firstClockIn = attendances.find((attendance) => attendance.userId === agentId);
+        const clockIn = firstClockIn?.clockIn ?? null;
+        if (clockIn && clockIn.getTime() <= deadline) continue;
+
+        lateArrivals.push({
+          user,
+          intervention,
+          scheduledStart,
+          clockIn,
+          minutesLate: Math.round(
+            ((clockIn?.getTime() ?? now) - scheduledStart.getTime()) / (60 * 1000),
+          ),
+        });
+      }
+    }
+
+    return lateArrivals;
+  }
+
+  /**
+   * Shifts still open from a previous day, and shifts closed by the auto clock-out
+   */
+  async getMissingClockOuts(currentUser: User, days = 7): Promise<Attendance[]> {
+    const team = await this.getTeam(currentUser);
+    if (team.length === 0) return [];
+    const teamIds = In(team.map((user) => user.id));
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const since = new Date(today);
+    since.setDate(since.getDate() - days);
+
+    return this.attendanceRepository.find({
+      where: [
+        { userId: teamIds, clockOut: IsNull(), clockIn: LessThan(today) },
+        {
+          userId: teamIds,
+          autoClosed: true,
+          correctedAt: IsNull(),
+          clockIn: MoreThanOrEqual(since),
+        },
+      ],
+      relations: ['user'],
+      order: { clockIn: 'DESC' },
+    });
+  }
+
+  /**
+   * Attendance records of the team over a date range
+   */
+  async getRecords(
+    currentUser: User,
+    userId?: string,
+    startDate?: string,
+    endDate?: string,
+  ): Promise<Attendance[]> {
+    const team = await this.getTeam(currentUser);
+    const teamIds = team.map((user) => user.id);
+    if (userId && !teamIds.includes(userId)) {
+      throw new ForbiddenException('This employee is not part of your team');
+    }
+    if (teamIds.length === 0) return [];
+
+    const end = endDate ? new Date(`${endDate.slice(0, 10)}T00:00:00`) : new Date();
+    end.setHours(0, 0, 0, 0);
+    end.setDate(end.getDate() + 1);
+    const start = startDate
+      ? new Date(`${startDate.slice(0, 10)}T00:00:00`)
+      : new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    return this.attendanceRepository.find({
+      where: {
+        userId: userId || In(teamIds),
+        clockIn: Between(start, end),
+      },
+      relations: ['user', 'breaks'],
+      order: { clockIn: 'DESC' },
+    });
+  }
+
+  /**
+   * Correct the clock-in/clock-out times of a team member's shift
+   */
+  async correct(id: string, currentUser: User, dto: CorrectAttendanceDto): Promise<Attendance> {
+    if (!dto.clockIn && !dto.clockOut) {
+      throw new BadRequestException('Provide a corrected clockIn or clockOut');
+    }
+
+    const attendance = await this.attendanceRepository.findOne({ where: { id } });
+    if (!attendance) {
+      throw new NotFoundException(`Attendance with ID ${id} not found`);
+    }
+    if (attendance.userId === currentUser.id) {
+      throw new ForbiddenException('You cannot correct your own attendance');
+    }
+
+    const team = await this.getTeam(currentUser);
+    if (!team.some((user) => user.id === attendance.userId)) {
+      throw new ForbiddenException('This employee is not part of your team');
+    }
+
+    const clockIn = dto.clockIn ? new Date(dto.clockIn) : attendance.clockIn;
+    const clockOut = dto.clockOut ? new Date(dto.clockOut) : attendance.clockOut;
+    if (clockOut && clockOut <= clockIn) {
+      throw new BadRequestException('clockOut must be after clockIn');
+    }
+    if (clockOut && clockOut.getTime() > Date.now()) {
+      throw new BadRequestException('clockOut cannot be in the future');
+    }
+
+    const before = {
+      clockIn: attendance.clockIn,
+      clockOut: attendance.clockOut,
+      hoursWorked: attendance.hoursWorked,
+      status: attendance.status,
+    };
+
+    attendance.correctedBy = currentUser.id;
+    attendance.correctedAt = new Date();
+    attendance.correctionReason = dto.reason;
+    const saved = await this.attendanceService.correctShift(
+      attendance,
+      dto.clockIn ? clockIn : undefined,
+      dto.clockOut ? clockOut : undefined,
+    );
+
+    await this.auditService.log({
+      actorId: currentUser.id,
+      action: 'ATTENDANCE_CORRECTION',
+      entityType: 'attendance',
+      entityId: saved.id,
+      changes: {
+        userId: saved.userId,
+        before,
+        after: {
+          clockIn: saved.clockIn,
+          clockOut: saved.clockOut,
+          hoursWorked: saved.hoursWorked,
+          status: saved.status,
+        },
+      },
+      description: dto.reason,
+    });
+
+    return saved;
+  }
+
+  private getAgentIds(intervention: Intervention): string[] {
+    return (intervention.assignments || [])
+      .filter((assignment) => assignment.role === AssignmentRole.AGENT)
+      .map((assignment) => assignment.userId);
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
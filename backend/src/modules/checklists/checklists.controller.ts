@@ -8,7 +8,10 @@ import {
   Delete,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ChecklistsService } from './checklists.service';
 import {
   CreateTemplateDto,
@@ -16,10 +19,12 @@ import {
   CreateInstanceDto,
   CompleteItemDto,
   ReviewInstanceDto,
+  AddChecklistPhotoDto,
 } from './dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UserRole } from '../../shared/types/user.types';
 import { ChecklistFrequency, ChecklistStatus } from '../../shared/types/checklist.types';
 
@@ -126,6 +131,16 @@ export class ChecklistsController {
     return this.checklistsService.getInstanceByIntervention(interventionId);
   }
 
+  /**
+   * Get the checklist photo gallery of an intervention
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get('instances/intervention/:interventionId/photos')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  getPhotoGallery(@Param('interventionId') interventionId: string) {
+    return this.checklistsService.getPhotoGallery(interventionId);
+  }
+
   /**
    * Get a single instance by ID
    * Access: All roles
@@ -165,8 +180,12 @@ export class ChecklistsController {
    */
   @Post('items/:id/complete')
   @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
-  completeItem(@Param('id') id: string, @Body() dto: CompleteItemDto) {
-    return this.checklistsService.completeItem(id, dto);
+  completeItem(
+    @Param('id') id: string,
+    @Body() dto: CompleteItemDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.checklistsService.completeItem(id, dto, userId);
   }
 
   /**
@@ -180,12 +199,32 @@ export class ChecklistsController {
   }
 
   /**
-   * Add photo to a checklist item
+   * Add photo to a checklist item, uploaded as multipart "file" or given as a photoUrl,
+   * with its tag (BEFORE, AFTER, ISSUE) and capture metadata
    * Access: ZONE_CHIEF, TEAM_CHIEF, AGENT
    */
   @Post('items/:id/photos')
   @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
-  addPhotoToItem(@Param('id') id: string, @Body('photoUrl') photoUrl: string) {
-    return this.checklistsService.addPhotoToItem(id, photoUrl);
+  @UseInterceptors(FileInterceptor('file'))
+  addPhotoToItem(
+    @Param('id') id: string,
+    @Body() dto: AddChecklistPhotoDto,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser('id') userId: string,
+  ) {
+    if (file || !dto.photoUrl) {
+      return this.checklistsService.uploadPhotoToItem(id, file, dto, userId);
+    }
+    return this.checklistsService.addPhotoToItem(id, dto, userId);
+  }
+
+  /**
+   * Remove a checklist photo
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, AGENT (own photos)
+   */
+  @Delete('photos/:id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  removePhoto(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.checklistsService.removePhoto(id, user);
   }
 }
@@ -5,7 +5,9 @@ import { ChecklistsController } from './checklists.controller';
 import { ChecklistTemplate } from './entities/checklist-template.entity';
 import { ChecklistInstance } from './entities/checklist-instance.entity';
 import { ChecklistItem } from './entities/checklist-item.entity';
+import { ChecklistPhoto } from './entities/checklist-photo.entity';
 import { Intervention } from '../interventions/entities/intervention.entity';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
@@ -13,8 +15,10 @@ import { Intervention } from '../interventions/entities/intervention.entity';
       ChecklistTemplate,
       ChecklistInstance,
       ChecklistItem,
+      ChecklistPhoto,
       Intervention,
     ]),
+    StorageModule,
   ],
   controllers: [ChecklistsController],
   providers: [ChecklistsService],
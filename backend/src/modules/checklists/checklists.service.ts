@@ -2,25 +2,36 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ChecklistTemplate } from './entities/checklist-template.entity';
 import { ChecklistInstance } from './entities/checklist-instance.entity';
 import { ChecklistItem } from './entities/checklist-item.entity';
+import { ChecklistPhoto } from './entities/checklist-photo.entity';
 import { Intervention } from '../interventions/entities/intervention.entity';
+import { User } from '../users/entities/user.entity';
+import { StorageService } from '../storage/storage.service';
+import { StoredFileOwner } from '../../shared/types/storage.types';
 import {
   CreateTemplateDto,
   UpdateTemplateDto,
   CreateInstanceDto,
   CompleteItemDto,
   ReviewInstanceDto,
+  AddChecklistPhotoDto,
 } from './dto';
 import {
   ChecklistStatus,
   ChecklistFrequency,
+  ChecklistPhotoTag,
   CompletionStats,
 } from '../../shared/types/checklist.types';
+import { UserRole } from '../../shared/types/user.types';
+
+// Roles removing any checklist photo, others only their own
+const PHOTO_MANAGER_ROLES = [UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR];
 
 @Injectable()
 export class ChecklistsService {
@@ -31,8 +42,11 @@ export class ChecklistsService {
     private readonly instanceRepository: Repository<ChecklistInstance>,
     @InjectRepository(ChecklistItem)
     private readonly itemRepository: Repository<ChecklistItem>,
+    @InjectRepository(ChecklistPhoto)
+    private readonly photoRepository: Repository<ChecklistPhoto>,
     @InjectRepository(Intervention)
     private readonly interventionRepository: Repository<Intervention>,
+    private readonly storageService: StorageService,
   ) {}
 
   /**
@@ -136,10 +150,13 @@ export class ChecklistsService {
     const items: ChecklistItem[] = [];
     for (const zone of template.zones) {
       for (const task of zone.tasks) {
+        const config =
+          typeof task === 'string' ? { description: task, requiresPhoto: false } : task;
         const item = this.itemRepository.create({
           checklistInstanceId: savedInstance.id,
           zoneName: zone.zoneName,
-          taskDescription: task,
+          taskDescription: config.description,
+          requiresPhoto: config.requiresPhoto ?? false,
           isCompleted: false,
         });
         items.push(item);
@@ -176,7 +193,7 @@ export class ChecklistsService {
   async findOneInstance(id: string): Promise<ChecklistInstance> {
     const instance = await this.instanceRepository.findOne({
       where: { id },
-      relations: ['template', 'intervention', 'items', 'items.completedByUser'],
+      relations: ['template', 'intervention', 'items', 'items.completedByUser', 'items.photos'],
     });
 
     if (!instance) {
@@ -194,7 +211,7 @@ export class ChecklistsService {
   ): Promise<ChecklistInstance> {
     const instance = await this.instanceRepository.findOne({
       where: { interventionId },
-      relations: ['template', 'intervention', 'items', 'items.completedByUser'],
+      relations: ['template', 'intervention', 'items', 'items.completedByUser', 'items.photos'],
     });
 
     if (!instance) {
@@ -217,14 +234,16 @@ export class ChecklistsService {
 
   /**
    * Complete a checklist item
+   * Items requiring a photo are refused until one is attached through items/:id/photos
    */
   async completeItem(
     itemId: string,
     dto: CompleteItemDto,
+    userId: string,
   ): Promise<ChecklistItem> {
     const item = await this.itemRepository.findOne({
       where: { id: itemId },
-      relations: ['checklistInstance', 'checklistInstance.items'],
+      relations: ['checklistInstance', 'checklistInstance.items', 'photos'],
     });
 
     if (!item) {
@@ -235,11 +254,14 @@ export class ChecklistsService {
       throw new BadRequestException('Item is already completed');
     }
 
+    if (item.requiresPhoto && item.photos.length === 0) {
+      throw new BadRequestException('A photo is required to complete this task');
+    }
+
     // Update item
     item.isCompleted = true;
     item.completedAt = new Date();
-    item.completedBy = dto.completedBy;
-    if (dto.photoUrls) item.photoUrls = dto.photoUrls;
+    item.completedBy = userId;
     if (dto.notes) item.notes = dto.notes;
     if (dto.qualityRating) item.qualityRating = dto.qualityRating;
 
@@ -310,21 +332,139 @@ export class ChecklistsService {
   }
 
   /**
-   * Add photo to a checklist item
+   * Add an external photo to a checklist item
+   */
+  async addPhotoToItem(
+    itemId: string,
+    dto: AddChecklistPhotoDto,
+    userId: string,
+  ): Promise<ChecklistPhoto> {
+    if (!dto.photoUrl) {
+      throw new BadRequestException('A photo file or photoUrl is required');
+    }
+
+    const item = await this.findOneItem(itemId);
+    return this.createPhoto(item, dto.photoUrl, dto, userId, null);
+  }
+
+  /**
+   * Store an uploaded photo and record it on a checklist item with its capture metadata
+   */
+  async uploadPhotoToItem(
+    itemId: string,
+    file: Express.Multer.File,
+    dto: AddChecklistPhotoDto,
+    userId: string,
+  ): Promise<ChecklistPhoto> {
+    const item = await this.findOneItem(itemId);
+
+    const storedFile = await this.storageService.upload(
+      file,
+      StoredFileOwner.CHECKLIST_ITEM,
+      itemId,
+      userId,
+    );
+    return this.createPhoto(
+      item,
+      this.storageService.toReference(storedFile),
+      dto,
+      userId,
+      storedFile.id,
+    );
+  }
+
+  /**
+   * Remove a photo (and its stored file)
+   * The last photo of a completed item requiring one is kept, the item must be uncompleted first
    */
-  async addPhotoToItem(itemId: string, photoUrl: string): Promise<ChecklistItem> {
+  async removePhoto(photoId: string, user: { id: string; role: UserRole }): Promise<void> {
+    const photo = await this.photoRepository.findOne({
+      where: { id: photoId },
+      relations: ['checklistItem', 'checklistItem.photos'],
+    });
+
+    if (!photo) {
+      throw new NotFoundException(`Checklist photo with ID ${photoId} not found`);
+    }
+
+    if (photo.uploadedById !== user.id && !PHOTO_MANAGER_ROLES.includes(user.role)) {
+      throw new ForbiddenException('You can only remove your own photos');
+    }
+
+    const item = photo.checklistItem;
+    if (item.isCompleted && item.requiresPhoto && item.photos.length <= 1) {
+      throw new BadRequestException(
+        'This task requires a photo, uncomplete it before removing its last photo',
+      );
+    }
+
+    await this.photoRepository.remove(photo);
+
+    if (photo.storedFileId) {
+      const storedFile = await this.storageService.findOne(photo.storedFileId).catch(() => null);
+      if (storedFile) await this.storageService.remove(storedFile);
+    }
+  }
+
+  /**
+   * Photo gallery of an intervention's checklist, ordered by zone and capture time
+   * Tasks requiring a photo are listed even without one so missing evidence shows
+   */
+  async getPhotoGallery(interventionId: string): Promise<ChecklistItem[]> {
+    const instanceCount = await this.instanceRepository.count({ where: { interventionId } });
+
+    if (instanceCount === 0) {
+      throw new NotFoundException(`No checklist found for intervention ${interventionId}`);
+    }
+
+    const items = await this.itemRepository.find({
+      where: { checklistInstance: { interventionId } },
+      relations: ['photos', 'photos.uploadedBy'],
+      order: { zoneName: 'ASC', createdAt: 'ASC', photos: { capturedAt: 'ASC' } },
+    });
+
+    // Only the name of the uploader is returned
+    for (const photo of items.flatMap((item) => item.photos)) {
+      if (photo.uploadedBy) {
+        const { id, firstName, lastName } = photo.uploadedBy;
+        photo.uploadedBy = { id, firstName, lastName } as User;
+      }
+    }
+
+    return items.filter((item) => item.photos.length > 0 || item.requiresPhoto);
+  }
+
+  private async findOneItem(itemId: string): Promise<ChecklistItem> {
     const item = await this.itemRepository.findOne({ where: { id: itemId } });
 
     if (!item) {
       throw new NotFoundException(`Checklist item with ID ${itemId} not found`);
     }
 
-    if (!item.photoUrls) {
-      item.photoUrls = [];
-    }
+    return item;
+  }
 
-    item.photoUrls.push(photoUrl);
-    return await this.itemRepository.save(item);
+  private async createPhoto(
+    item: ChecklistItem,
+    url: string,
+    dto: AddChecklistPhotoDto,
+    userId: string,
+    storedFileId: string | null,
+  ): Promise<ChecklistPhoto> {
+    return await this.photoRepository.save(
+      this.photoRepository.create({
+        checklistItemId: item.id,
+        tag: dto.tag ?? ChecklistPhotoTag.AFTER,
+        url,
+        storedFileId,
+        capturedAt: dto.capturedAt ? new Date(dto.capturedAt) : new Date(),
+        latitude: dto.latitude ?? null,
+        longitude: dto.longitude ?? null,
+        accuracy: dto.accuracy ?? null,
+        deviceInfo: dto.deviceInfo ?? null,
+        uploadedById: userId,
+      }),
+    );
   }
 
   /**
@@ -358,7 +498,7 @@ export class ChecklistsService {
     const totalItems = instance.items.length;
     const completedItems = instance.items.filter((item) => item.isCompleted).length;
     const withPhotos = instance.items.filter(
-      (item) => item.photoUrls && item.photoUrls.length > 0,
+      (item) => item.photos && item.photos.length > 0,
     ).length;
 
     return {
@@ -0,0 +1,53 @@
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsNumber,
+  IsDateString,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ChecklistPhotoTag } from '../../../shared/types/checklist.types';
+
+// Multipart fields arrive as strings, numbers are converted before validation
+export class AddChecklistPhotoDto {
+  // External photo, when no file is uploaded
+  @IsOptional()
+  @IsString()
+  photoUrl?: string;
+
+  @IsOptional()
+  @IsEnum(ChecklistPhotoTag)
+  tag?: ChecklistPhotoTag;
+
+  @IsOptional()
+  @IsDateString()
+  capturedAt?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  deviceInfo?: string;
+}
@@ -1,24 +1,7 @@
-import {
-  IsNotEmpty,
-  IsUUID,
-  IsOptional,
-  IsString,
-  IsArray,
-  IsInt,
-  Min,
-  Max,
-} from 'class-validator';
+import { IsOptional, IsString, IsInt, Min, Max } from 'class-validator';
 
+// The person completing the item is the authenticated user, photos are added through items/:id/photos
 export class CompleteItemDto {
-  @IsNotEmpty()
-  @IsUUID()
-  completedBy: string;
-
-  @IsOptional()
-  @IsArray()
-  @IsString({ each: true })
-  photoUrls?: string[];
-
   @IsOptional()
   @IsString()
   notes?: string;
@@ -6,20 +6,45 @@ import {
   IsOptional,
   IsArray,
   ValidateNested,
+  IsInt,
+  Min,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Type, Transform, plainToInstance } from 'class-transformer';
 import { ChecklistFrequency } from '../../../shared/types/checklist.types';
 import { SiteSize } from '../../../shared/types/site.types';
 
+class TaskConfigDto {
+  @IsNotEmpty()
+  @IsString()
+  description: string;
+
+  @IsOptional()
+  @IsBoolean()
+  requiresPhoto: boolean = false;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  estimatedMinutes?: number;
+}
+
 class ZoneConfigDto {
   @IsNotEmpty()
   @IsString()
   zoneName: string;
 
+  // Plain descriptions are tasks without a required photo
   @IsNotEmpty()
   @IsArray()
-  @IsString({ each: true })
-  tasks: string[];
+  @Transform(({ value }) =>
+    Array.isArray(value)
+      ? value.map((task) =>
+          plainToInstance(TaskConfigDto, typeof task === 'string' ? { description: task } : task),
+        )
+      : value,
+  )
+  @ValidateNested({ each: true })
+  tasks: TaskConfigDto[];
 }
 
 export class CreateTemplateDto {
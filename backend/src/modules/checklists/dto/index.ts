@@ -3,3 +3,4 @@ export { UpdateTemplateDto } from './update-template.dto';
 export { CreateInstanceDto } from './create-instance.dto';
 export { CompleteItemDto } from './complete-item.dto';
 export { ReviewInstanceDto } from './review-instance.dto';
+export { AddChecklistPhotoDto } from './add-checklist-photo.dto';
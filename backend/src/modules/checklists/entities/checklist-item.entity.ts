@@ -4,11 +4,13 @@ import {
   Column,
   ManyToOne,
   JoinColumn,
+  OneToMany,
   CreateDateColumn,
   UpdateDateColumn,
 } from 'typeorm';
 import { ChecklistInstance } from './checklist-instance.entity';
 import { User } from '../../users/entities/user.entity';
+import { ChecklistPhoto } from './checklist-photo.entity';
 
 @Entity('checklist_items')
 export class ChecklistItem {
@@ -43,8 +45,12 @@ export class ChecklistItem {
   @JoinColumn({ name: 'completed_by' })
   completedByUser: User;
 
-  @Column({ type: 'simple-array', name: 'photo_urls', nullable: true })
-  photoUrls: string[];
+  // Completion is refused until a photo is attached (TaskConfig.requiresPhoto of the template)
+  @Column({ name: 'requires_photo', default: false })
+  requiresPhoto: boolean;
+
+  @OneToMany(() => ChecklistPhoto, (photo) => photo.checklistItem)
+  photos: ChecklistPhoto[];
 
   @Column({ type: 'text', nullable: true })
   notes: string;
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { ChecklistItem } from './checklist-item.entity';
+import { User } from '../../users/entities/user.entity';
+import { ChecklistPhotoTag } from '../../../shared/types/checklist.types';
+
+/**
+ * Checklist Photo Entity
+ * Photo evidence of a checklist item with where, when and how it was taken
+ */
+@Entity('checklist_photos')
+@Index(['checklistItemId'])
+export class ChecklistPhoto {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'checklist_item_id' })
+  checklistItemId: string;
+
+  @ManyToOne(() => ChecklistItem, (item) => item.photos, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'checklist_item_id' })
+  checklistItem: ChecklistItem;
+
+  @Column({ type: 'varchar', length: 20, default: ChecklistPhotoTag.AFTER })
+  tag: ChecklistPhotoTag;
+
+  // /files/:id for uploaded photos, or an external URL
+  @Column({ length: 500 })
+  url: string;
+
+  @Column({ name: 'stored_file_id', type: 'uuid', nullable: true })
+  storedFileId: string | null;
+
+  // Taken time reported by the device, upload time when unknown
+  @Column({ name: 'captured_at', type: 'timestamp' })
+  capturedAt: Date;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  latitude: number | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  longitude: number | null;
+
+  // GPS accuracy in meters
+  @Column({ type: 'decimal', precision: 8, scale: 2, nullable: true })
+  accuracy: number | null;
+
+  @Column({ name: 'device_info', type: 'varchar', length: 255, nullable: true })
+  deviceInfo: string | null;
+
+  @Column({ name: 'uploaded_by', type: 'uuid', nullable: true })
+  uploadedById: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'uploaded_by' })
+  uploadedBy: User;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -6,7 +6,7 @@ import {
   UpdateDateColumn,
   DeleteDateColumn,
 } from 'typeorm';
-import { ChecklistFrequency } from '../../../shared/types/checklist.types';
+import { ChecklistFrequency, ZoneConfig } from '../../../shared/types/checklist.types';
 import { SiteSize } from '../../../shared/types/site.types';
 
 @Entity('checklist_templates')
@@ -32,10 +32,7 @@ export class ChecklistTemplate {
   siteSize: SiteSize; // Template can be specific to site size (SMALL, MEDIUM, LARGE)
 
   @Column({ type: 'simple-json' })
-  zones: {
-    zoneName: string;
-    tasks: string[];
-  }[];
+  zones: ZoneConfig[];
 
   @Column({ name: 'is_active', default: true })
   isActive: boolean;
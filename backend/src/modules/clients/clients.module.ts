@@ -4,11 +4,13 @@ import { ClientsController } from './clients.controller';
 import { ClientsService } from './clients.service';
 import { Client } from './entities/client.entity';
 import { UsersModule } from '../users/users.module';
+import { NumberingModule } from '../numbering/numbering.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Client]),
     forwardRef(() => UsersModule),
+    NumberingModule,
   ],
   controllers: [ClientsController],
   providers: [ClientsService],
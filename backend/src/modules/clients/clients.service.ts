@@ -21,6 +21,8 @@ import {
   BatchUpdateClientsDto,
   BatchIdsDto,
 } from './dto';
+import { NumberingService } from '../numbering/numbering.service';
+import { NumberedEntity } from '../../shared/types/numbering.types';
 
 @Injectable()
 export class ClientsService {
@@ -31,35 +33,11 @@ export class ClientsService {
     private readonly clientRepository: Repository<Client>,
     @Inject(forwardRef(() => UsersService))
     private readonly usersService: UsersService,
+    private readonly numberingService: NumberingService,
   ) {}
 
   // ==================== CREATE OPERATIONS ====================
 
-  /**
-   * Generate unique client code (CLI-0001, CLI-0002, etc.)
-   */
-  private async generateClientCode(): Promise<string> {
-    // Get the latest client code
-    const latestClient = await this.clientRepository.findOne({
-      where: {},
-      order: { createdAt: 'DESC' },
-      withDeleted: true,
-    });
-
-    if (!latestClient || !latestClient.clientCode) {
-      return 'CLI-0001';
-    }
-
-    // Extract number from code (CLI-0001 -> 1)
-    const match = latestClient.clientCode.match(/CLI-(\d+)/);
-    if (!match) {
-      return 'CLI-0001';
-    }
-
-    const nextNumber = parseInt(match[1], 10) + 1;
-    return `CLI-${nextNumber.toString().padStart(4, '0')}`;
-  }
-
   /**
    * Create a single client
    * If createUserAccount is true, also creates a user account for login
@@ -96,7 +74,7 @@ export class ClientsService {
     }
 
     // Generate unique client code
-    const clientCode = await this.generateClientCode();
+    const clientCode = await this.numberingService.next(NumberedEntity.CLIENT);
 
     let userId: string | null = null;
 
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { ComplaintsService } from './complaints.service';
+import {
+  CreateComplaintDto,
+  UpdateComplaintStatusDto,
+  RespondComplaintDto,
+  AssignComplaintDto,
+} from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../../shared/types/user.types';
+import { ComplaintStatus } from '../../shared/types/complaint.types';
+
+@Controller('complaints')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ComplaintsController {
+  constructor(private readonly complaintsService: ComplaintsService) {}
+
+  /**
+   * File a complaint against a site or an intervention
+   * Access: CLIENT
+   */
+  @Post()
+  @Roles(UserRole.CLIENT)
+  create(@CurrentUser('id') userId: string, @Body() createComplaintDto: CreateComplaintDto) {
+    return this.complaintsService.create(userId, createComplaintDto);
+  }
+
+  /**
+   * Complaints filed by the logged-in client
+   * Access: CLIENT
+   */
+  @Get('my')
+  @Roles(UserRole.CLIENT)
+  findMine(@CurrentUser('id') userId: string) {
+    return this.complaintsService.findForClientUser(userId);
+  }
+
+  /**
+   * Get all complaints with filters
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  findAll(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('clientId') clientId?: string,
+    @Query('siteId') siteId?: string,
+    @Query('assignedToId') assignedToId?: string,
+    @Query('status') status?: ComplaintStatus,
+  ) {
+    return this.complaintsService.findAll(page ? parseInt(page) : 1, limit ? parseInt(limit) : 10, {
+      clientId,
+      siteId,
+      assignedToId,
+      status,
+    });
+  }
+
+  /**
+   * Response-time SLA statistics
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get('stats/sla')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  getSlaStats(@Query('assignedToId') assignedToId?: string) {
+    return this.complaintsService.getSlaStats(assignedToId);
+  }
+
+  /**
+   * Get a complaint with its history
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, CLIENT (own complaints)
+   */
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.CLIENT)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: User) {
+    return this.complaintsService.findOne(id, user);
+  }
+
+  /**
+   * Respond to a complaint (first response stops the SLA clock)
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Post(':id/respond')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  respond(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() respondDto: RespondComplaintDto,
+  ) {
+    return this.complaintsService.respond(id, user, respondDto);
+  }
+
+  /**
+   * Change complaint status
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Patch(':id/status')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() statusDto: UpdateComplaintStatusDto,
+  ) {
+    return this.complaintsService.updateStatus(id, user, statusDto);
+  }
+
+  /**
+   * Reassign a complaint
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Patch(':id/assign')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  assign(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() assignDto: AssignComplaintDto,
+  ) {
+    return this.complaintsService.assign(id, user, assignDto);
+  }
+
+  /**
+   * Confirm a resolved complaint
+   * Access: CLIENT
+   */
+  @Post(':id/close')
+  @Roles(UserRole.CLIENT)
+  close(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: User) {
+    return this.complaintsService.close(id, user);
+  }
+
+  /**
+   * Reopen a resolved complaint
+   * Access: CLIENT
+   */
+  @Post(':id/reopen')
+  @Roles(UserRole.CLIENT)
+  reopen(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() respondDto: RespondComplaintDto,
+  ) {
+    return this.complaintsService.reopen(id, user, respondDto);
+  }
+}
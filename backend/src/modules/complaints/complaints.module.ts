@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ComplaintsService } from './complaints.service';
+import { ComplaintsController } from './complaints.controller';
+import { Complaint } from './entities/complaint.entity';
+import { ComplaintUpdate } from './entities/complaint-update.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { User } from '../users/entities/user.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { NumberingModule } from '../numbering/numbering.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Complaint,
+      ComplaintUpdate,
+      Client,
+      Site,
+      Intervention,
+      SiteAssignment,
+      User,
+    ]),
+    NotificationsModule,
+    NumberingModule,
+  ],
+  controllers: [ComplaintsController],
+  providers: [ComplaintsService],
+  exports: [ComplaintsService],
+})
+export class ComplaintsModule {}
@@ -0,0 +1,531 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { Complaint } from './entities/complaint.entity';
+import { ComplaintUpdate } from './entities/complaint-update.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { User } from '../users/entities/user.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import {
+  CreateComplaintDto,
+  UpdateComplaintStatusDto,
+  RespondComplaintDto,
+  AssignComplaintDto,
+} from './dto';
+import {
+  ComplaintPriority,
+  ComplaintStatus,
+  ComplaintSlaStatus,
+} from '../../shared/types/complaint.types';
+import { UserRole } from '../../shared/types/user.types';
+import { NumberingService } from '../numbering/numbering.service';
+import { NumberedEntity } from '../../shared/types/numbering.types';
+
+// Allowed status transitions
+const STATUS_TRANSITIONS: Record<ComplaintStatus, ComplaintStatus[]> = {
+  [ComplaintStatus.OPEN]: [
+    ComplaintStatus.ACKNOWLEDGED,
+    ComplaintStatus.IN_PROGRESS,
+    ComplaintStatus.RESOLVED,
+    ComplaintStatus.CLOSED,
+  ],
+  [ComplaintStatus.ACKNOWLEDGED]: [
+    ComplaintStatus.IN_PROGRESS,
+    ComplaintStatus.RESOLVED,
+    ComplaintStatus.CLOSED,
+  ],
+  [ComplaintStatus.IN_PROGRESS]: [ComplaintStatus.RESOLVED, ComplaintStatus.CLOSED],
+  [ComplaintStatus.RESOLVED]: [ComplaintStatus.IN_PROGRESS, ComplaintStatus.CLOSED],
+  [ComplaintStatus.CLOSED]: [],
+};
+
+// Hours allowed before the first staff response, per priority
+const RESPONSE_SLA_HOURS: Record<ComplaintPriority, number> = {
+  [ComplaintPriority.URGENT]: 4,
+  [ComplaintPriority.HIGH]: 8,
+  [ComplaintPriority.MEDIUM]: 24,
+  [ComplaintPriority.LOW]: 48,
+};
+
+export type ComplaintWithSla = Complaint & { slaStatus: ComplaintSlaStatus };
+
+@Injectable()
+export class ComplaintsService {
+  private readonly logger = new Logger(ComplaintsService.name);
+
+  constructor(
+    @InjectRepository(Complaint)
+    private readonly complaintRepository: Repository<Complaint>,
+    @InjectRepository(ComplaintUpdate)
+    private readonly updateRepository: Repository<ComplaintUpdate>,
+    @InjectRepository(Client)
+    private readonly clientRepository: Repository<Client>,
+    @InjectRepository(Site)
+    private readonly siteRepository: Repository<Site>,
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(SiteAssignment)
+    private readonly siteAssignmentRepository: Repository<SiteAssignment>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly notificationsService: NotificationsService,
+    private readonly numberingService: NumberingService,
+  ) {}
+
+  /**
+   * Resolve the client records linked to a user account
+   */
+  private async getClientIdsForUser(userId: string): Promise<string[]> {
+    const clients = await this.clientRepository.find({
+      where: { userId },
+      select: ['id'],
+    });
+
+    if (clients.length === 0) {
+      throw new ForbiddenException('No client account is linked to this user');
+    }
+
+    return clients.map((c) => c.id);
+  }
+
+  /**
+   * Find the zone chief responsible for a site through its active SiteAssignment
+   */
+  private async resolveZoneChief(
+    siteId: string,
+  ): Promise<{ zoneId: string | null; zoneChiefId: string | null }> {
+    const assignment = await this.siteAssignmentRepository.findOne({
+      where: { siteId, isActive: true },
+      relations: ['zone'],
+      order: { startDate: 'DESC' },
+    });
+
+    return {
+      zoneId: assignment?.zoneId || null,
+      zoneChiefId: assignment?.zone?.zoneChiefId || null,
+    };
+  }
+
+  /**
+   * Compute SLA status from the response deadline and first response time
+   */
+  private withSla(complaint: Complaint): ComplaintWithSla {
+    const due = new Date(complaint.responseDueAt).getTime();
+    let slaStatus: ComplaintSlaStatus;
+
+    if (complaint.firstResponseAt) {
+      slaStatus =
+        new Date(complaint.firstResponseAt).getTime() <= due
+          ? ComplaintSlaStatus.MET
+          : ComplaintSlaStatus.BREACHED;
+    } else {
+      slaStatus = Date.now() <= due ? ComplaintSlaStatus.ON_TRACK : ComplaintSlaStatus.BREACHED;
+    }
+
+    return Object.assign(complaint, { slaStatus });
+  }
+
+  /**
+   * Find a complaint, enforcing that CLIENT users only see their own
+   */
+  private async findAccessible(id: string, user: User): Promise<Complaint> {
+    const complaint = await this.complaintRepository.findOne({
+      where: { id },
+      relations: [
+        'client',
+        'site',
+        'intervention',
+        'zone',
+        'assignedTo',
+        'updates',
+        'updates.author',
+      ],
+      order: { updates: { createdAt: 'ASC' } },
+    });
+
+    if (!complaint) {
+      throw new NotFoundException(`Complaint with ID ${id} not found`);
+    }
+
+    if (user.role === UserRole.CLIENT) {
+      const clientIds = await this.getClientIdsForUser(user.id);
+      if (!clientIds.includes(complaint.clientId)) {
+        throw new NotFoundException(`Complaint with ID ${id} not found`);
+      }
+    }
+
+    return complaint;
+  }
+
+  /**
+   * Record a history entry on a complaint
+   */
+  private async addUpdate(
+    complaintId: string,
+    authorId: string,
+    fromStatus: ComplaintStatus | null,
+    toStatus: ComplaintStatus | null,
+    message?: string | null,
+  ): Promise<void> {
+    await this.updateRepository.save(
+      this.updateRepository.create({
+        complaintId,
+        authorId,
+        fromStatus,
+        toStatus,
+        message: message || null,
+      }),
+    );
+  }
+
+  /**
+   * File a complaint as a CLIENT user
+   * The complaint is routed to the zone chief of the site
+   */
+  async create(userId: string, createDto: CreateComplaintDto): Promise<ComplaintWithSla> {
+    const clientIds = await this.getClientIdsForUser(userId);
+    let siteId = createDto.siteId;
+
+    if (createDto.interventionId) {
+      const intervention = await this.interventionRepository.findOne({
+        where: { id: createDto.interventionId },
+        relations: ['contract'],
+      });
+      if (!intervention || !clientIds.includes(intervention.contract.clientId)) {
+        throw new NotFoundException(`Intervention with ID ${createDto.interventionId} not found`);
+      }
+      if (siteId && siteId !== intervention.siteId) {
+        throw new BadRequestException('Intervention does not belong to the given site');
+      }
+      siteId = intervention.siteId;
+    }
+
+    if (!siteId) {
+      throw new BadRequestException('A site or an intervention is required');
+    }
+
+    const site = await this.siteRepository.findOne({
+      where: { id: siteId, clientId: In(clientIds) },
+    });
+    if (!site) {
+      throw new NotFoundException(`Site with ID ${siteId} not found`);
+    }
+
+    const priority = createDto.priority || ComplaintPriority.MEDIUM;
+    const responseDueAt = new Date(Date.now() + RESPONSE_SLA_HOURS[priority] * 60 * 60 * 1000);
+    const { zoneId, zoneChiefId } = await this.resolveZoneChief(site.id);
+
+    const complaint = this.complaintRepository.create({
+      complaintNumber: await this.numberingService.next(NumberedEntity.COMPLAINT),
+      clientId: site.clientId,
+      siteId: site.id,
+      interventionId: createDto.interventionId || null,
+      zoneId,
+      assignedToId: zoneChiefId,
+      submittedById: userId,
+      category: createDto.category,
+      priority,
+      status: ComplaintStatus.OPEN,
+      subject: createDto.subject,
+      description: createDto.description,
+      attachmentUrls: createDto.attachmentUrls || null,
+      responseDueAt,
+    });
+    const saved = await this.complaintRepository.save(complaint);
+    await this.addUpdate(saved.id, userId, null, ComplaintStatus.OPEN, null);
+
+    if (zoneChiefId) {
+      await this.notificationsService.notify(
+        zoneChiefId,
+        NotificationType.WARNING,
+        `New complaint ${saved.complaintNumber}`,
+        `${site.name}: ${saved.subject}`,
+        `/client-complaints/${saved.id}`,
+      );
+    } else {
+      this.logger.warn(`Complaint ${saved.complaintNumber} has no zone chief for site ${site.id}`);
+    }
+
+    return this.withSla(saved);
+  }
+
+  /**
+   * Get all complaints filed by the clients linked to a user
+   */
+  async findForClientUser(userId: string): Promise<ComplaintWithSla[]> {
+    const clientIds = await this.getClientIdsForUser(userId);
+    const complaints = await this.complaintRepository.find({
+      where: { clientId: In(clientIds) },
+      relations: ['site', 'intervention'],
+      order: { createdAt: 'DESC' },
+    });
+    return complaints.map((c) => this.withSla(c));
+  }
+
+  /**
+   * Find all complaints with optional filters and pagination (staff)
+   */
+  async findAll(
+    page: number = 1,
+    limit: number = 10,
+    filters: {
+      clientId?: string;
+      siteId?: string;
+      assignedToId?: string;
+      status?: ComplaintStatus;
+    } = {},
+  ): Promise<{ data: ComplaintWithSla[]; total: number; page: number; limit: number }> {
+    const where: any = {};
+
+    if (filters.clientId) where.clientId = filters.clientId;
+    if (filters.siteId) where.siteId = filters.siteId;
+    if (filters.assignedToId) where.assignedToId = filters.assignedToId;
+    if (filters.status) where.status = filters.status;
+
+    const [data, total] = await this.complaintRepository.findAndCount({
+      where,
+      relations: ['client', 'site', 'assignedTo'],
+      skip: (page - 1) * limit,
+      take: limit,
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      data: data.map((c) => this.withSla(c)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Get a single complaint with its history
+   */
+  async findOne(id: string, user: User): Promise<ComplaintWithSla> {
+    return this.withSla(await this.findAccessible(id, user));
+  }
+
+  /**
+   * Post a staff response; the first response stops the SLA clock
+   */
+  async respond(
+    id: string,
+    user: User,
+    respondDto: RespondComplaintDto,
+  ): Promise<ComplaintWithSla> {
+    const complaint = await this.findAccessible(id, user);
+
+    if (complaint.status === ComplaintStatus.CLOSED) {
+      throw new BadRequestException('Cannot respond to a closed complaint');
+    }
+
+    const fromStatus = complaint.status;
+    if (!complaint.firstResponseAt) {
+      complaint.firstResponseAt = new Date();
+    }
+    if (complaint.status === ComplaintStatus.OPEN) {
+      complaint.status = ComplaintStatus.ACKNOWLEDGED;
+    }
+
+    await this.complaintRepository.save(complaint);
+    await this.addUpdate(
+      id,
+      user.id,
+      fromStatus,
+      complaint.status !== fromStatus ? complaint.status : null,
+      respondDto.message,
+    );
+    await this.notifySubmitter(complaint, `New response on complaint ${complaint.complaintNumber}`);
+
+    return this.findOne(id, user);
+  }
+
+  /**
+   * Move a complaint through its lifecycle (staff)
+   */
+  async updateStatus(
+    id: string,
+    user: User,
+    statusDto: UpdateComplaintStatusDto,
+  ): Promise<ComplaintWithSla> {
+    const complaint = await this.findAccessible(id, user);
+    const fromStatus = complaint.status;
+
+    if (!STATUS_TRANSITIONS[fromStatus].includes(statusDto.status)) {
+      throw new BadRequestException(
+        `Cannot change complaint status from ${fromStatus} to ${statusDto.status}`,
+      );
+    }
+
+    complaint.status = statusDto.status;
+    if (!complaint.firstResponseAt) {
+      complaint.firstResponseAt = new Date();
+    }
+    if (statusDto.status === ComplaintStatus.RESOLVED) {
+      complaint.resolvedAt = new Date();
+      complaint.resolution = statusDto.resolution || complaint.resolution;
+    }
+    if (statusDto.status === ComplaintStatus.CLOSED) {
+      complaint.closedAt = new Date();
+    }
+
+    await this.complaintRepository.save(complaint);
+    await this.addUpdate(id, user.id, fromStatus, statusDto.status, statusDto.message);
+    await this.notifySubmitter(
+      complaint,
+      `Complaint ${complaint.complaintNumber} is now ${statusDto.status.toLowerCase().replace('_', ' ')}`,
+    );
+
+    return this.findOne(id, user);
+  }
+
+  /**
+   * Reassign a complaint and optionally change its priority (staff)
+   * A priority change recomputes the response deadline from the filing time
+   */
+  async assign(id: string, user: User, assignDto: AssignComplaintDto): Promise<ComplaintWithSla> {
+    const complaint = await this.findAccessible(id, user);
+
+    const assignee = await this.userRepository.findOne({
+      where: { id: assignDto.assignedToId },
+    });
+    if (!assignee) {
+      throw new NotFoundException(`User with ID ${assignDto.assignedToId} not found`);
+    }
+
+    complaint.assignedToId = assignee.id;
+    if (assignDto.priority && assignDto.priority !== complaint.priority) {
+      complaint.priority = assignDto.priority;
+      complaint.responseDueAt = new Date(
+        new Date(complaint.createdAt).getTime() +
+          RESPONSE_SLA_HOURS[assignDto.priority] * 60 * 60 * 1000,
+      );
+    }
+
+    await this.complaintRepository.save(complaint);
+    await this.addUpdate(
+      id,
+      user.id,
+      null,
+      null,
+      `Assigned to ${assignee.firstName} ${assignee.lastName}`,
+    );
+    await this.notificationsService.notify(
+      assignee.id,
+      NotificationType.INFO,
+      `Complaint ${complaint.complaintNumber} assigned to you`,
+      complaint.subject,
+      `/client-complaints/${complaint.id}`,
+    );
+
+    return this.findOne(id, user);
+  }
+
+  /**
+   * Client confirms a resolved complaint
+   */
+  async close(id: string, user: User): Promise<ComplaintWithSla> {
+    const complaint = await this.findAccessible(id, user);
+
+    if (complaint.status !== ComplaintStatus.RESOLVED) {
+      throw new BadRequestException('Only resolved complaints can be closed');
+    }
+
+    complaint.status = ComplaintStatus.CLOSED;
+    complaint.closedAt = new Date();
+    await this.complaintRepository.save(complaint);
+    await this.addUpdate(id, user.id, ComplaintStatus.RESOLVED, ComplaintStatus.CLOSED, null);
+
+    return this.findOne(id, user);
+  }
+
+  /**
+   * Client reopens a resolved complaint that was not fixed
+   */
+  async reopen(id: string, user: User, respondDto: RespondComplaintDto): Promise<ComplaintWithSla> {
+    const complaint = await this.findAccessible(id, user);
+
+    if (complaint.status !== ComplaintStatus.RESOLVED) {
+      throw new BadRequestException('Only resolved complaints can be reopened');
+    }
+
+    complaint.status = ComplaintStatus.IN_PROGRESS;
+    complaint.resolvedAt = null;
+    await this.complaintRepository.save(complaint);
+    await this.addUpdate(
+      id,
+      user.id,
+      ComplaintStatus.RESOLVED,
+      ComplaintStatus.IN_PROGRESS,
+      respondDto.message,
+    );
+
+    if (complaint.assignedToId) {
+      await this.notificationsService.notify(
+        complaint.assignedToId,
+        NotificationType.WARNING,
+        `Complaint ${complaint.complaintNumber} reopened`,
+        respondDto.message,
+        `/client-complaints/${complaint.id}`,
+      );
+    }
+
+    return this.findOne(id, user);
+  }
+
+  /**
+   * SLA statistics over open and answered complaints (staff)
+   */
+  async getSlaStats(assignedToId?: string): Promise<{
+    open: number;
+    onTrack: number;
+    breached: number;
+    met: number;
+    averageResponseHours: number;
+  }> {
+    const where: any = {};
+    if (assignedToId) where.assignedToId = assignedToId;
+
+    const complaints = (await this.complaintRepository.find({ where })).map((c) => this.withSla(c));
+    const answered = complaints.filter((c) => c.firstResponseAt);
+    const totalResponseHours = answered.reduce(
+      (sum, c) =>
+        sum +
+        (new Date(c.firstResponseAt!).getTime() - new Date(c.createdAt).getTime()) /
+          (1000 * 60 * 60),
+      0,
+    );
+
+    return {
+      open: complaints.filter((c) => c.status !== ComplaintStatus.CLOSED).length,
+      onTrack: complaints.filter((c) => c.slaStatus === ComplaintSlaStatus.ON_TRACK).length,
+      breached: complaints.filter((c) => c.slaStatus === ComplaintSlaStatus.BREACHED).length,
+      met: complaints.filter((c) => c.slaStatus === ComplaintSlaStatus.MET).length,
+      averageResponseHours:
+        answered.length > 0 ? Math.round((totalResponseHours / answered.length) * 100) / 100 : 0,
+    };
+  }
+
+  /**
+   * Notify the client user who filed the complaint
+   */
+  private async notifySubmitter(complaint: Complaint, title: string): Promise<void> {
+    await this.notificationsService.notify(
+      complaint.submittedById,
+      NotificationType.INFO,
+      title,
+      complaint.subject,
+      '/complaints',
+    );
+  }
+}
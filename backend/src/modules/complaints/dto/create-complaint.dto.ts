@@ -0,0 +1,44 @@
+import {
+  IsUUID,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { ComplaintCategory, ComplaintPriority } from '../../../shared/types/complaint.types';
+
+export class CreateComplaintDto {
+  // Required unless interventionId is given (the site is then taken from the intervention)
+  @IsUUID()
+  @IsOptional()
+  siteId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  interventionId?: string;
+
+  @IsEnum(ComplaintCategory)
+  @IsNotEmpty()
+  category: ComplaintCategory;
+
+  @IsEnum(ComplaintPriority)
+  @IsOptional()
+  priority?: ComplaintPriority;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  subject: string;
+
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @IsArray()
+  @IsUrl({}, { each: true })
+  @IsOptional()
+  attachmentUrls?: string[];
+}
@@ -0,0 +1,6 @@
+export { CreateComplaintDto } from './create-complaint.dto';
+export {
+  UpdateComplaintStatusDto,
+  RespondComplaintDto,
+  AssignComplaintDto,
+} from './update-complaint.dto';
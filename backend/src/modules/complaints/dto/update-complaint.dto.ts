@@ -0,0 +1,33 @@
+import { IsEnum, IsOptional, IsString, IsNotEmpty, IsUUID } from 'class-validator';
+import { ComplaintPriority, ComplaintStatus } from '../../../shared/types/complaint.types';
+
+export class UpdateComplaintStatusDto {
+  @IsEnum(ComplaintStatus)
+  @IsNotEmpty()
+  status: ComplaintStatus;
+
+  @IsString()
+  @IsOptional()
+  message?: string;
+
+  // Recorded on the complaint when moving to RESOLVED
+  @IsString()
+  @IsOptional()
+  resolution?: string;
+}
+
+export class RespondComplaintDto {
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+}
+
+export class AssignComplaintDto {
+  @IsUUID()
+  @IsNotEmpty()
+  assignedToId: string;
+
+  @IsEnum(ComplaintPriority)
+  @IsOptional()
+  priority?: ComplaintPriority;
+}
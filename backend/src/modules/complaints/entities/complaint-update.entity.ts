@@ -0,0 +1,49 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Complaint } from './complaint.entity';
+import { User } from '../../users/entities/user.entity';
+import { ComplaintStatus } from '../../../shared/types/complaint.types';
+
+/**
+ * One entry in a complaint history: a status change, a response or both
+ */
+@Entity('complaint_updates')
+@Index(['complaintId'])
+export class ComplaintUpdate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  complaintId: string;
+
+  @Column({ type: 'uuid' })
+  authorId: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  fromStatus: ComplaintStatus | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  toStatus: ComplaintStatus | null;
+
+  @Column({ type: 'text', nullable: true })
+  message: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => Complaint, (complaint) => complaint.updates, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'complaintId' })
+  complaint: Complaint;
+
+  @ManyToOne(() => User, { eager: false })
+  @JoinColumn({ name: 'authorId' })
+  author: User;
+}
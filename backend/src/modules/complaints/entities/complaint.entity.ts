@@ -0,0 +1,130 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Client } from '../../clients/entities/client.entity';
+import { Site } from '../../sites/entities/site.entity';
+import { Intervention } from '../../interventions/entities/intervention.entity';
+import { Zone } from '../../zones/entities/zone.entity';
+import { User } from '../../users/entities/user.entity';
+import { ComplaintUpdate } from './complaint-update.entity';
+import {
+  ComplaintCategory,
+  ComplaintPriority,
+  ComplaintStatus,
+} from '../../../shared/types/complaint.types';
+
+@Entity('complaints')
+@Index(['complaintNumber'], { unique: true })
+@Index(['clientId'])
+@Index(['siteId'])
+@Index(['assignedToId'])
+@Index(['status'])
+export class Complaint {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20, unique: true })
+  complaintNumber: string;
+
+  @Column({ type: 'uuid' })
+  clientId: string;
+
+  @Column({ type: 'uuid' })
+  siteId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  interventionId: string | null;
+
+  // Zone of the site when the complaint was filed (via active SiteAssignment)
+  @Column({ type: 'uuid', nullable: true })
+  zoneId: string | null;
+
+  // Zone chief responsible for handling the complaint
+  @Column({ type: 'uuid', nullable: true })
+  assignedToId: string | null;
+
+  @Column({ type: 'uuid' })
+  submittedById: string;
+
+  @Column({ type: 'varchar' })
+  category: ComplaintCategory;
+
+  @Column({
+    type: 'varchar',
+    default: ComplaintPriority.MEDIUM,
+  })
+  priority: ComplaintPriority;
+
+  @Column({
+    type: 'varchar',
+    default: ComplaintStatus.OPEN,
+  })
+  status: ComplaintStatus;
+
+  @Column({ type: 'varchar', length: 200 })
+  subject: string;
+
+  @Column({ type: 'text' })
+  description: string;
+
+  @Column({ type: 'simple-array', nullable: true })
+  attachmentUrls: string[] | null;
+
+  // Response-time SLA
+  @Column({ type: 'timestamp' })
+  responseDueAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  firstResponseAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  resolution: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @OneToMany(() => ComplaintUpdate, (update) => update.complaint, { cascade: true })
+  updates: ComplaintUpdate[];
+
+  @ManyToOne(() => Client, { eager: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'clientId' })
+  client: Client;
+
+  @ManyToOne(() => Site, { eager: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'siteId' })
+  site: Site;
+
+  @ManyToOne(() => Intervention, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'interventionId' })
+  intervention: Intervention | null;
+
+  @ManyToOne(() => Zone, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'zoneId' })
+  zone: Zone | null;
+
+  @ManyToOne(() => User, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assignedToId' })
+  assignedTo: User | null;
+
+  @ManyToOne(() => User, { eager: false })
+  @JoinColumn({ name: 'submittedById' })
+  submittedBy: User;
+}
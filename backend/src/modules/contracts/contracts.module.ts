@@ -5,9 +5,10 @@ import { ContractsController } from './contracts.controller';
 import { Contract } from './entities/contract.entity';
 import { Client } from '../clients/entities/client.entity';
 import { Site } from '../sites/entities/site.entity';
+import { NumberingModule } from '../numbering/numbering.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Contract, Client, Site])],
+  imports: [TypeOrmModule.forFeature([Contract, Client, Site]), NumberingModule],
   controllers: [ContractsController],
   providers: [ContractsService],
   exports: [ContractsService],
@@ -21,6 +21,8 @@ import {
   ContractType,
   ContractStatus,
 } from '../../shared/types/contract.types';
+import { NumberingService } from '../numbering/numbering.service';
+import { NumberedEntity } from '../../shared/types/numbering.types';
 
 @Injectable()
 export class ContractsService {
@@ -31,29 +33,9 @@ export class ContractsService {
     private readonly clientRepository: Repository<Client>,
     @InjectRepository(Site)
     private readonly siteRepository: Repository<Site>,
+    private readonly numberingService: NumberingService,
   ) {}
 
-  /**
-   * Generate unique contract code (CNT-0001, CNT-0002, etc.)
-   */
-  private async generateContractCode(): Promise<string> {
-    const lastContract = await this.contractRepository.findOne({
-      where: {},
-      order: { createdAt: 'DESC' },
-      withDeleted: true,
-    });
-
-    let nextNumber = 1;
-    if (lastContract && lastContract.contractCode) {
-      const match = lastContract.contractCode.match(/CNT-(\d+)/);
-      if (match) {
-        nextNumber = parseInt(match[1], 10) + 1;
-      }
-    }
-
-    return `CNT-${nextNumber.toString().padStart(4, '0')}`;
-  }
-
   /**
    * Validate client and site existence
    */
@@ -131,7 +113,7 @@ export class ContractsService {
     this.validateContractType(createContractDto);
 
     // Generate contract code
-    const contractCode = await this.generateContractCode();
+    const contractCode = await this.numberingService.next(NumberedEntity.CONTRACT);
 
     // Create contract
     const contract = this.contractRepository.create({
@@ -5,6 +5,7 @@ import {
   IsOptional,
   IsObject,
   IsString,
+  IsBoolean,
   IsNotEmpty,
   ValidateIf,
 } from 'class-validator';
@@ -49,6 +50,10 @@ export class CreateContractDto {
   @IsOptional()
   serviceScope?: ServiceScope;
 
+  @IsBoolean()
+  @IsOptional()
+  requiresClientSignOff?: boolean;
+
   @IsString()
   @IsOptional()
   notes?: string;
@@ -4,6 +4,7 @@ import {
   IsOptional,
   IsObject,
   IsString,
+  IsBoolean,
 } from 'class-validator';
 import {
   ContractType,
@@ -42,6 +43,10 @@ export class UpdateContractDto {
   @IsOptional()
   serviceScope?: ServiceScope;
 
+  @IsBoolean()
+  @IsOptional()
+  requiresClientSignOff?: boolean;
+
   @IsString()
   @IsOptional()
   notes?: string;
@@ -68,6 +68,10 @@ export class Contract {
   @Column({ type: 'simple-json', nullable: true })
   serviceScope: ServiceScope | null;
 
+  // Interventions cannot be completed without the signature of the client contact
+  @Column({ type: 'boolean', default: false })
+  requiresClientSignOff: boolean;
+
   @Column({ type: 'text', nullable: true })
   notes: string | null;
 
@@ -7,9 +7,11 @@ import { Client } from '../clients/entities/client.entity';
 import { Site } from '../sites/entities/site.entity';
 import { Contract } from '../contracts/entities/contract.entity';
 import { Zone } from '../zones/entities/zone.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
 import { Intervention } from '../interventions/entities/intervention.entity';
 import { ChecklistInstance } from '../checklists/entities/checklist-instance.entity';
 import { Absence } from '../absences/entities/absence.entity';
+import { Incident } from '../incidents/entities/incident.entity';
 
 @Module({
   imports: [
@@ -19,9 +21,11 @@ import { Absence } from '../absences/entities/absence.entity';
       Site,
       Contract,
       Zone,
+      SiteAssignment,
       Intervention,
       ChecklistInstance,
       Absence,
+      Incident,
     ]),
   ],
   controllers: [DashboardController],
@@ -0,0 +1,147 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DashboardService } from './dashboard.service';
+import { User } from '../users/entities/user.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Zone } from '../zones/entities/zone.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { ChecklistInstance } from '../checklists/entities/checklist-instance.entity';
+import { Absence } from '../absences/entities/absence.entity';
+import { Incident } from '../incidents/entities/incident.entity';
+import { ContractPricing } from '../../shared/types/contract.types';
+
+describe('DashboardService', () => {
+  let service: DashboardService;
+  const contractRepository = { find: jest.fn() };
+  const interventionRepository = { find: jest.fn() };
+  const siteAssignmentRepository = { find: jest.fn() };
+
+  // Date columns come back as 'YYYY-MM-DD' strings, as from the database
+  const buildContract = (
+    id: string,
+    pricing: ContractPricing | null,
+    overrides: Record<string, unknown> = {},
+  ): Contract =>
+    Object.assign(new Contract(), {
+      id,
+      clientId: `client-${id}`,
+      siteId: `site-${id}`,
+      client: { name: `Client ${id}` },
+      site: { name: `Site ${id}` },
+      startDate: '2025-01-01',
+      endDate: null,
+      pricing,
+      ...overrides,
+    });
+
+  // January 2026, as getMonthlyReport passes it
+  const calculateRevenue = () =>
+    service['calculateRevenue'](new Date(2026, 0, 1), new Date(2026, 0, 31, 23, 59, 59));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    interventionRepository.find.mockResolvedValue([]);
+    siteAssignmentRepository.find.mockResolvedValue([]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        DashboardService,
+        ...[User, Client, Site, Zone, ChecklistInstance, Absence, Incident].map((entity) => ({
+          provide: getRepositoryToken(entity),
+          useValue: {},
+        })),
+        { provide: getRepositoryToken(Contract), useValue: contractRepository },
+        { provide: getRepositoryToken(Intervention), useValue: interventionRepository },
+        { provide: getRepositoryToken(SiteAssignment), useValue: siteAssignmentRepository },
+      ],
+    }).compile();
+
+    service = moduleRef.get(DashboardService);
+  });
+
+  describe('calculateRevenue', () => {
+    it('returns zero without priced contracts', async () => {
+      contractRepository.find.mockResolvedValue([buildContract('a', null)]);
+
+      const revenue = await calculateRevenue();
+
+      expect(revenue.totalRevenue).toBe(0);
+      expect(revenue.revenueByCurrency).toEqual([]);
+    });
+
+    it('adds monthly, per-intervention and hourly fees of a single currency', async () => {
+      contractRepository.find.mockResolvedValue([
+        buildContract('a', {
+          currency: 'EUR',
+          monthlyFee: 1000,
+          perInterventionFee: 50,
+          hourlyRate: 20,
+        }),
+      ]);
+      interventionRepository.find.mockResolvedValue([
+        {
+          contractId: 'a',
+          actualStartTime: new Date(2026, 0, 5, 8, 0),
+          actualEndTime: new Date(2026, 0, 5, 9, 30),
+        },
+        { contractId: 'a', actualStartTime: null, actualEndTime: null },
+      ]);
+
+      const revenue = await calculateRevenue();
+
+      expect(revenue.revenueByCurrency).toEqual([{ currency: 'EUR', amount: 1130 }]);
+      expect(revenue.totalRevenue).toBe(1130);
+      expect(revenue.byClient[0]).toMatchObject({
+        id: 'client-a',
+        currency: 'EUR',
+        monthlyFees: 1000,
+        interventionFees: 100,
+        hourlyFees: 30,
+        total: 1130,
+      });
+    });
+
+    it('prorates the monthly fee by the active days of the contract', async () => {
+      contractRepository.find.mockResolvedValue([
+        buildContract('a', { currency: 'EUR', monthlyFee: 3100 }, { startDate: '2026-01-17' }),
+        buildContract(
+          'b',
+          { currency: 'EUR', monthlyFee: 3100 },
+          { endDate: new Date(2026, 0, 10) },
+        ),
+      ]);
+
+      const revenue = await calculateRevenue();
+
+      // 15 of 31 days, then 10 of 31 days
+      expect(revenue.bySite.map((entry) => [entry.id, entry.monthlyFees])).toEqual([
+        ['site-a', 1500],
+        ['site-b', 1000],
+      ]);
+      expect(revenue.totalRevenue).toBe(2500);
+    });
+
+    it('keeps currencies apart and has no total across them', async () => {
+      contractRepository.find.mockResolvedValue([
+        buildContract('a', { currency: 'EUR', monthlyFee: 1000 }),
+        buildContract('b', { currency: 'TND', monthlyFee: 3000 }),
+        buildContract('c', { currency: 'EUR', monthlyFee: 500 }, { clientId: 'client-a' }),
+      ]);
+
+      const revenue = await calculateRevenue();
+
+      expect(revenue.totalRevenue).toBeNull();
+      expect(revenue.revenueByCurrency).toEqual([
+        { currency: 'EUR', amount: 1500 },
+        { currency: 'TND', amount: 3000 },
+      ]);
+      expect(revenue.byClient.map((entry) => [entry.id, entry.currency, entry.total])).toEqual([
+        ['client-b', 'TND', 3000],
+        ['client-a', 'EUR', 1500],
+      ]);
+    });
+  });
+});
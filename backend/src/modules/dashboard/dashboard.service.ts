@@ -1,14 +1,16 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Between, MoreThanOrEqual, LessThanOrEqual } from 'typeorm';
+import { Repository, Between, MoreThanOrEqual, LessThanOrEqual, In, IsNull } from 'typeorm';
 import { User } from '../users/entities/user.entity';
 import { Client } from '../clients/entities/client.entity';
 import { Site } from '../sites/entities/site.entity';
 import { Contract } from '../contracts/entities/contract.entity';
 import { Zone } from '../zones/entities/zone.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
 import { Intervention } from '../interventions/entities/intervention.entity';
 import { ChecklistInstance } from '../checklists/entities/checklist-instance.entity';
 import { Absence } from '../absences/entities/absence.entity';
+import { Incident } from '../incidents/entities/incident.entity';
 import {
   DashboardSummary,
   InterventionSummary,
@@ -19,12 +21,20 @@ import {
   MonthlyReport,
   KPIMetrics,
   SiteVisit,
+  Issue,
+  RevenueAmount,
+  RevenueBreakdown,
+  AgentUtilization,
 } from '../../shared/types/dashboard.types';
 import { UserRole, UserStatus } from '../../shared/types/user.types';
 import { ClientStatus } from '../../shared/types/client.types';
 import { SiteStatus } from '../../shared/types/site.types';
 import { ContractStatus } from '../../shared/types/contract.types';
-import { InterventionStatus } from '../../shared/types/intervention.types';
+import {
+  InterventionStatus,
+  AssignmentRole,
+  AssignmentStatus,
+} from '../../shared/types/intervention.types';
 import { AbsenceStatus } from '../../shared/types/absence.types';
 
 @Injectable()
@@ -40,12 +50,16 @@ export class DashboardService {
     private readonly contractRepository: Repository<Contract>,
     @InjectRepository(Zone)
     private readonly zoneRepository: Repository<Zone>,
+    @InjectRepository(SiteAssignment)
+    private readonly siteAssignmentRepository: Repository<SiteAssignment>,
     @InjectRepository(Intervention)
     private readonly interventionRepository: Repository<Intervention>,
     @InjectRepository(ChecklistInstance)
     private readonly checklistRepository: Repository<ChecklistInstance>,
     @InjectRepository(Absence)
     private readonly absenceRepository: Repository<Absence>,
+    @InjectRepository(Incident)
+    private readonly incidentRepository: Repository<Incident>,
   ) {}
 
   /**
@@ -120,7 +134,7 @@ export class DashboardService {
       where: {
         scheduledDate: Between(today, tomorrow),
       },
-      relations: ['site', 'contract', 'contract.client'],
+      relations: ['site', 'contract', 'contract.client', 'assignments'],
       order: { scheduledStartTime: 'ASC' },
     });
 
@@ -133,7 +147,9 @@ export class DashboardService {
       scheduledStartTime: intervention.scheduledStartTime,
       scheduledEndTime: intervention.scheduledEndTime,
       status: intervention.status,
-      assignedAgents: intervention.assignedAgentIds?.length || 0,
+      assignedAgents: intervention.assignments.filter(
+        (assignment) => assignment.role === AssignmentRole.AGENT,
+      ).length,
       checklistCompleted: intervention.checklistCompleted,
     }));
   }
@@ -154,7 +170,7 @@ export class DashboardService {
       where: {
         scheduledDate: Between(startOfWeek, endOfWeek),
       },
-      relations: ['site', 'contract', 'contract.client'],
+      relations: ['site', 'contract', 'contract.client', 'assignments'],
       order: { scheduledDate: 'ASC', scheduledStartTime: 'ASC' },
     });
 
@@ -167,7 +183,9 @@ export class DashboardService {
       scheduledStartTime: intervention.scheduledStartTime,
       scheduledEndTime: intervention.scheduledEndTime,
       status: intervention.status,
-      assignedAgents: intervention.assignedAgentIds?.length || 0,
+      assignedAgents: intervention.assignments.filter(
+        (assignment) => assignment.role === AssignmentRole.AGENT,
+      ).length,
       checklistCompleted: intervention.checklistCompleted,
     }));
   }
@@ -249,8 +267,12 @@ export class DashboardService {
         ? (completedChecklists.length / checklists.length) * 100
         : 0;
 
-    // Incidents count (would need incidents tracking)
-    const incidentsCount = 0;
+    const incidentsCount = await this.incidentRepository.count({
+      where: {
+        zoneId: zone.id,
+        occurredAt: Between(startOfMonth, endOfMonth),
+      },
+    });
 
     return {
       zoneId: zone.id,
@@ -328,6 +350,30 @@ export class DashboardService {
       });
     });
 
+    // Get recent incidents
+    const recentIncidents = await this.incidentRepository.find({
+      where: {
+        createdAt: MoreThanOrEqual(sevenDaysAgo),
+      },
+      relations: ['site', 'reportedBy'],
+      order: { createdAt: 'DESC' },
+      take: limit / 4,
+    });
+
+    recentIncidents.forEach((incident) => {
+      activities.push({
+        id: incident.id,
+        type: 'INCIDENT_REPORTED',
+        title: 'Incident Reported',
+        description: `${incident.incidentNumber} (${incident.severity}) at ${incident.site?.name}`,
+        timestamp: incident.createdAt,
+        userId: incident.reportedById || undefined,
+        userName: incident.reportedBy
+          ? `${incident.reportedBy.firstName} ${incident.reportedBy.lastName}`
+          : undefined,
+      });
+    });
+
     // Get recent clients
     const recentClients = await this.clientRepository.find({
       where: {
@@ -371,8 +417,11 @@ export class DashboardService {
 
     const interventions = await this.interventionRepository.find({
       where: whereClause,
-      relations: ['site', 'zoneChief'],
+      relations: ['site', 'zoneChief', 'assignments'],
     });
+    const incidentsByIntervention = await this.getIncidentsByIntervention(
+      interventions.map((i) => i.id),
+    );
 
     // Group by zone
     const zoneGroups = new Map<string, any[]>();
@@ -399,13 +448,33 @@ export class DashboardService {
           interventionId: intervention.id,
           checkInTime: intervention.actualStartTime!,
           checkOutTime: intervention.actualEndTime!,
-          agentsPresent: intervention.assignedAgentIds || [],
+          agentsPresent: intervention.assignments
+            .filter((assignment) => assignment.checkInTime)
+            .map((assignment) => assignment.userId),
           checklistCompleted: intervention.checklistCompleted,
           qualityScore: intervention.qualityScore || 0,
-          issues: intervention.incidents ? [intervention.incidents] : [],
+          issues: (incidentsByIntervention.get(intervention.id) || []).map(
+            (incident) => incident.description,
+          ),
         }),
       );
 
+      const issuesFound: Issue[] = zoneInterventions.flatMap((intervention) =>
+        (incidentsByIntervention.get(intervention.id) || []).map((incident) => ({
+          incidentId: incident.id,
+          siteId: incident.siteId,
+          siteName: intervention.site?.name || 'Unknown',
+          type: incident.type,
+          severity: incident.severity,
+          status: incident.status,
+          description: incident.description,
+          reportedBy: incident.reportedBy
+            ? `${incident.reportedBy.firstName} ${incident.reportedBy.lastName}`
+            : 'Unknown',
+          reportedAt: incident.occurredAt,
+        })),
+      );
+
       const completedChecklists = zoneInterventions.filter(
         (i) => i.checklistCompleted,
       ).length;
@@ -421,11 +490,11 @@ export class DashboardService {
         zoneChief:
           zoneInterventions[0]?.zoneChief?.firstName || 'Not Assigned',
         sitesVisited,
-        issuesFound: [],
+        issuesFound,
         checklistCompletionRate: Math.round(checklistCompletionRate),
         uniformCompliance: true,
         stockAvailability: 'Adequate',
-        incidentsCount: zoneInterventions.filter((i) => i.incidents).length,
+        incidentsCount: issuesFound.length,
         summary: `Completed ${zoneInterventions.length} interventions`,
       });
     }
@@ -435,6 +504,29 @@ export class DashboardService {
       : reports;
   }
 
+  /**
+   * Incidents reported on the given interventions, grouped by intervention
+   */
+  private async getIncidentsByIntervention(
+    interventionIds: string[],
+  ): Promise<Map<string, Incident[]>> {
+    const grouped = new Map<string, Incident[]>();
+    if (interventionIds.length === 0) return grouped;
+
+    const incidents = await this.incidentRepository.find({
+      where: { interventionId: In(interventionIds) },
+      relations: ['reportedBy'],
+      order: { occurredAt: 'ASC' },
+    });
+    incidents.forEach((incident) => {
+      const list = grouped.get(incident.interventionId!) || [];
+      list.push(incident);
+      grouped.set(incident.interventionId!, list);
+    });
+
+    return grouped;
+  }
+
   /**
    * Get weekly report
    */
@@ -449,7 +541,7 @@ export class DashboardService {
       where: {
         scheduledDate: Between(startDate, endDate),
       },
-      relations: ['site'],
+      relations: ['site', 'assignments', 'assignments.user'],
     });
 
     const filteredInterventions = zoneId
@@ -474,9 +566,11 @@ export class DashboardService {
           qualityScores.length
         : 0;
 
-    const totalIncidents = filteredInterventions.filter(
-      (i) => i.incidents,
-    ).length;
+    const totalIncidents = filteredInterventions.length
+      ? await this.incidentRepository.count({
+          where: { interventionId: In(filteredInterventions.map((i) => i.id)) },
+        })
+      : 0;
     const sitesCovered = new Set(filteredInterventions.map((i) => i.siteId))
       .size;
 
@@ -491,12 +585,80 @@ export class DashboardService {
       averageQualityScore: Math.round(averageQualityScore * 100) / 100,
       totalIncidents,
       sitesCovered,
-      agentUtilization: [],
+      agentUtilization: this.getAgentUtilization(filteredInterventions),
       topPerformers: [],
       areasForImprovement: [],
     };
   }
 
+  /**
+   * Utilization of the agents assigned to interventions (cancelled ones excluded):
+   * hours worked over the hours of the slots they were assigned to
+   */
+  private getAgentUtilization(interventions: Intervention[]): AgentUtilization[] {
+    const byAgent = new Map<
+      string,
+      AgentUtilization & { scheduledHours: number; ratings: number[] }
+    >();
+
+    for (const intervention of interventions) {
+      if (intervention.status === InterventionStatus.CANCELLED) continue;
+
+      const [startHours, startMinutes] = intervention.scheduledStartTime.split(':').map(Number);
+      const [endHours, endMinutes] = intervention.scheduledEndTime.split(':').map(Number);
+      const slotHours = (endHours * 60 + endMinutes - (startHours * 60 + startMinutes)) / 60;
+
+      for (const assignment of intervention.assignments) {
+        if (assignment.role !== AssignmentRole.AGENT) continue;
+
+        if (!byAgent.has(assignment.userId)) {
+          byAgent.set(assignment.userId, {
+            agentId: assignment.userId,
+            agentName: assignment.user?.fullName || 'Unknown',
+            interventionsAssigned: 0,
+            interventionsCompleted: 0,
+            hoursWorked: 0,
+            noShows: 0,
+            utilizationRate: 0,
+            averageRating: 0,
+            scheduledHours: 0,
+            ratings: [],
+          });
+        }
+        const agent = byAgent.get(assignment.userId)!;
+
+        agent.interventionsAssigned++;
+        agent.scheduledHours += slotHours;
+        agent.hoursWorked += Number(assignment.hoursWorked ?? 0);
+        if (assignment.status === AssignmentStatus.NO_SHOW) {
+          agent.noShows++;
+          continue;
+        }
+        if (intervention.status === InterventionStatus.COMPLETED) {
+          agent.interventionsCompleted++;
+        }
+        if (intervention.qualityScore !== null) {
+          agent.ratings.push(intervention.qualityScore);
+        }
+      }
+    }
+
+    return [...byAgent.values()]
+      .map(({ scheduledHours, ratings, ...agent }) => ({
+        ...agent,
+        hoursWorked: Math.round(agent.hoursWorked * 100) / 100,
+        utilizationRate:
+          scheduledHours > 0 ? Math.round((agent.hoursWorked / scheduledHours) * 10000) / 100 : 0,
+        averageRating:
+          ratings.length > 0
+            ? Math.round(
+                (ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 100,
+              ) / 100
+            : 0,
+      }))
+      .sort((a, b) => b.utilizationRate - a.utilizationRate);
+  }
+
   /**
    * Get monthly report
    */
@@ -545,6 +707,8 @@ export class DashboardService {
           clientRatings.length
         : 0;
 
+    const revenue = await this.calculateRevenue(startDate, endDate);
+
     return {
       month,
       year,
@@ -554,12 +718,168 @@ export class DashboardService {
       completionRate: Math.round(completionRate * 100) / 100,
       averageQualityScore: Math.round(averageQualityScore * 100) / 100,
       clientSatisfaction: Math.round(clientSatisfaction * 100) / 100,
-      totalRevenue: 0, // TODO: Calculate from contracts/pricing
+      totalRevenue: revenue.totalRevenue,
+      revenueByCurrency: revenue.revenueByCurrency,
+      revenueByClient: revenue.byClient,
+      revenueBySite: revenue.bySite,
+      revenueByZone: revenue.byZone,
       zonePerformance: [],
       kpis: await this.getKPIMetrics('OVERALL', startDate, endDate),
     };
   }
 
+  /**
+   * Calculate revenue of active contracts over a period from their pricing:
+   * monthly fee prorated by the contract's active days in the period,
+   * per-intervention fee x completed interventions and hourly rate x actual hours worked.
+   * Amounts are never summed across currencies: totalRevenue is null when several are billed.
+   */
+  private async calculateRevenue(
+    startDate: Date,
+    endDate: Date,
+  ): Promise<{
+    totalRevenue: number | null;
+    revenueByCurrency: RevenueAmount[];
+    byClient: RevenueBreakdown[];
+    bySite: RevenueBreakdown[];
+    byZone: RevenueBreakdown[];
+  }> {
+    const contracts = await this.contractRepository.find({
+      where: [
+        {
+          status: ContractStatus.ACTIVE,
+          startDate: LessThanOrEqual(endDate),
+          endDate: IsNull(),
+        },
+        {
+          status: ContractStatus.ACTIVE,
+          startDate: LessThanOrEqual(endDate),
+          endDate: MoreThanOrEqual(startDate),
+        },
+      ],
+      relations: ['client', 'site'],
+    });
+    const priced = contracts.filter((c) => c.pricing);
+
+    if (priced.length === 0) {
+      return { totalRevenue: 0, revenueByCurrency: [], byClient: [], bySite: [], byZone: [] };
+    }
+
+    const [completed, assignments] = await Promise.all([
+      this.interventionRepository.find({
+        where: {
+          contractId: In(priced.map((c) => c.id)),
+          status: InterventionStatus.COMPLETED,
+          scheduledDate: Between(startDate, endDate),
+        },
+      }),
+      this.siteAssignmentRepository.find({
+        where: {
+          siteId: In(priced.map((c) => c.siteId)),
+          isActive: true,
+        },
+        relations: ['zone'],
+      }),
+    ]);
+
+    const zoneBySite = new Map(assignments.map((a) => [a.siteId, a.zone]));
+    const totals = new Map<string, number>();
+    const byClient = new Map<string, RevenueBreakdown>();
+    const bySite = new Map<string, RevenueBreakdown>();
+    const byZone = new Map<string, RevenueBreakdown>();
+
+    const addTo = (
+      map: Map<string, RevenueBreakdown>,
+      id: string | null,
+      name: string,
+      currency: string,
+      amounts: { monthlyFees: number; interventionFees: number; hourlyFees: number },
+    ) => {
+      const key = `${id}:${currency}`;
+      const entry = map.get(key) || {
+        id,
+        name,
+        currency,
+        monthlyFees: 0,
+        interventionFees: 0,
+        hourlyFees: 0,
+        total: 0,
+      };
+      entry.monthlyFees += amounts.monthlyFees;
+      entry.interventionFees += amounts.interventionFees;
+      entry.hourlyFees += amounts.hourlyFees;
+      entry.total += amounts.monthlyFees + amounts.interventionFees + amounts.hourlyFees;
+      map.set(key, entry);
+    };
+
+    // Calendar day numbers, date columns come back as 'YYYY-MM-DD' strings
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const dayNumber = (value: Date | string) =>
+      typeof value === 'string'
+        ? Date.parse(value.slice(0, 10)) / DAY_MS
+        : Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()) / DAY_MS;
+    const periodStart = dayNumber(startDate);
+    const periodEnd = dayNumber(endDate);
+    const periodDays = periodEnd - periodStart + 1;
+
+    for (const contract of priced) {
+      const pricing = contract.pricing!;
+      const contractInterventions = completed.filter((i) => i.contractId === contract.id);
+
+      const activeFrom = Math.max(dayNumber(contract.startDate), periodStart);
+      const activeTo = contract.endDate
+        ? Math.min(dayNumber(contract.endDate), periodEnd)
+        : periodEnd;
+      const activeDays = Math.max(activeTo - activeFrom + 1, 0);
+
+      const monthlyFees = ((pricing.monthlyFee || 0) * activeDays) / periodDays;
+      const interventionFees = (pricing.perInterventionFee || 0) * contractInterventions.length;
+      const hours = contractInterventions.reduce((sum, i) => {
+        if (!i.actualStartTime || !i.actualEndTime) return sum;
+        const ms = new Date(i.actualEndTime).getTime() - new Date(i.actualStartTime).getTime();
+        return sum + Math.max(ms / (1000 * 60 * 60), 0);
+      }, 0);
+      const hourlyFees = (pricing.hourlyRate || 0) * hours;
+
+      const amounts = { monthlyFees, interventionFees, hourlyFees };
+      const currency = pricing.currency;
+      const zone = zoneBySite.get(contract.siteId);
+
+      totals.set(
+        currency,
+        (totals.get(currency) || 0) + monthlyFees + interventionFees + hourlyFees,
+      );
+      addTo(byClient, contract.clientId, contract.client?.name || 'Unknown', currency, amounts);
+      addTo(bySite, contract.siteId, contract.site?.name || 'Unknown', currency, amounts);
+      addTo(byZone, zone?.id || null, zone?.zoneName || 'Unassigned', currency, amounts);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const finalize = (map: Map<string, RevenueBreakdown>) =>
+      Array.from(map.values())
+        .map((entry) => ({
+          ...entry,
+          monthlyFees: round(entry.monthlyFees),
+          interventionFees: round(entry.interventionFees),
+          hourlyFees: round(entry.hourlyFees),
+          total: round(entry.total),
+        }))
+        .sort((a, b) => b.total - a.total);
+
+    const revenueByCurrency = Array.from(totals.entries()).map(([currency, amount]) => ({
+      currency,
+      amount: round(amount),
+    }));
+
+    return {
+      totalRevenue: revenueByCurrency.length > 1 ? null : (revenueByCurrency[0]?.amount ?? 0),
+      revenueByCurrency,
+      byClient: finalize(byClient),
+      bySite: finalize(bySite),
+      byZone: finalize(byZone),
+    };
+  }
+
   /**
    * Get KPI metrics by role type
    */
@@ -609,12 +929,12 @@ export class DashboardService {
           100
         : 0;
 
+    // Share of interventions with at least one incident reported
+    const incidentsByIntervention = await this.getIncidentsByIntervention(
+      interventions.map((i) => i.id),
+    );
     const incidentRate =
-      totalInterventions > 0
-        ? (interventions.filter((i) => i.incidents).length /
-            totalInterventions) *
-          100
-        : 0;
+      totalInterventions > 0 ? (incidentsByIntervention.size / totalInterventions) * 100 : 0;
 
     const absences = await this.absenceRepository.count({
       where: {
@@ -0,0 +1,28 @@
+import {
+  IsDateString,
+  IsString,
+  IsNotEmpty,
+  IsUUID,
+  IsOptional,
+  IsBoolean,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateHolidayDto {
+  @IsDateString()
+  @IsNotEmpty()
+  date: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsUUID()
+  @IsOptional()
+  zoneId?: string; // Omitted for a company-wide holiday
+
+  @IsBoolean()
+  @IsOptional()
+  isWorkingDay?: boolean; // Zone override: the company holiday is worked in the zone
+}
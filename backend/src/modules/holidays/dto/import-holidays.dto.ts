@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty, IsUUID, IsOptional, MaxLength } from 'class-validator';
+
+export class ImportHolidaysDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100000)
+  ics: string; // Content of the .ics file
+
+  @IsUUID()
+  @IsOptional()
+  zoneId?: string; // Import as holidays of this zone only
+}
@@ -0,0 +1,3 @@
+export { CreateHolidayDto } from './create-holiday.dto';
+export { UpdateHolidayDto } from './update-holiday.dto';
+export { ImportHolidaysDto } from './import-holidays.dto';
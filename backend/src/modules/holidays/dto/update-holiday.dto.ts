@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateHolidayDto } from './create-holiday.dto';
+
+export class UpdateHolidayDto extends PartialType(CreateHolidayDto) {}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Zone } from '../../zones/entities/zone.entity';
+
+/**
+ * Holiday Entity
+ * Company-wide holiday (zoneId null) or zone override: an extra holiday for the zone,
+ * or a company holiday worked in the zone (isWorkingDay)
+ */
+@Entity('holidays')
+@Index(['date', 'zoneId'])
+export class Holiday {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'date' })
+  date: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  zoneId: string | null;
+
+  // Zone override only: the company holiday is worked in this zone
+  @Column({ type: 'boolean', default: false })
+  isWorkingDay: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Zone, { eager: false, nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'zoneId' })
+  zone: Zone | null;
+}
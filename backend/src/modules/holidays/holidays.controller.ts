@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { HolidaysService } from './holidays.service';
+import { CreateHolidayDto, UpdateHolidayDto, ImportHolidaysDto } from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../shared/types/user.types';
+
+@Controller('holidays')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class HolidaysController {
+  constructor(private readonly holidaysService: HolidaysService) {}
+
+  /**
+   * Add a company holiday or a zone override
+   * Access: SUPER_ADMIN, ADMIN
+   */
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  create(@Body() createHolidayDto: CreateHolidayDto) {
+    return this.holidaysService.create(createHolidayDto);
+  }
+
+  /**
+   * Import holidays from the content of an .ics file
+   * Access: SUPER_ADMIN, ADMIN
+   */
+  @Post('import')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  importIcs(@Body() importDto: ImportHolidaysDto) {
+    return this.holidaysService.importIcs(importDto);
+  }
+
+  /**
+   * Get the holiday calendar (optionally for one year and one zone)
+   * Access: All roles
+   */
+  @Get()
+  findAll(@Query('year') year?: string, @Query('zoneId') zoneId?: string) {
+    return this.holidaysService.findAll(year ? parseInt(year, 10) : undefined, zoneId);
+  }
+
+  /**
+   * Get a single holiday by ID
+   * Access: All roles
+   */
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.holidaysService.findOne(id);
+  }
+
+  /**
+   * Update a holiday
+   * Access: SUPER_ADMIN, ADMIN
+   */
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  update(@Param('id') id: string, @Body() updateHolidayDto: UpdateHolidayDto) {
+    return this.holidaysService.update(id, updateHolidayDto);
+  }
+
+  /**
+   * Delete a holiday
+   * Access: SUPER_ADMIN, ADMIN
+   */
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  remove(@Param('id') id: string) {
+    return this.holidaysService.remove(id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HolidaysService } from './holidays.service';
+import { HolidaysController } from './holidays.controller';
+import { Holiday } from './entities/holiday.entity';
+import { Zone } from '../zones/entities/zone.entity';
+import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Holiday, Zone, AgentZoneAssignment])],
+  controllers: [HolidaysController],
+  providers: [HolidaysService],
+  exports: [HolidaysService],
+})
+export class HolidaysModule {}
@@ -0,0 +1,308 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, Between, IsNull, In } from 'typeorm';
+import { Holiday } from './entities/holiday.entity';
+import { Zone } from '../zones/entities/zone.entity';
+import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+import { CreateHolidayDto, UpdateHolidayDto, ImportHolidaysDto } from './dto';
+import { parseIcsEvents, parseRRule, getRRuleOccurrences } from '../../shared/utils';
+
+export interface HolidayImportResult {
+  imported: number;
+  skipped: number; // Dates already in the calendar
+  errors: string[];
+}
+
+/**
+ * Company holiday calendar with per-zone overrides, and the configured working week
+ */
+@Injectable()
+export class HolidaysService {
+  constructor(
+    @InjectRepository(Holiday)
+    private readonly holidayRepository: Repository<Holiday>,
+    @InjectRepository(Zone)
+    private readonly zoneRepository: Repository<Zone>,
+    @InjectRepository(AgentZoneAssignment)
+    private readonly agentZoneAssignmentRepository: Repository<AgentZoneAssignment>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a holiday (or a zone override)
+   */
+  async create(createHolidayDto: CreateHolidayDto): Promise<Holiday> {
+    const date = createHolidayDto.date.slice(0, 10);
+    const zoneId = createHolidayDto.zoneId ?? null;
+    await this.validateEntry(date, zoneId, !!createHolidayDto.isWorkingDay);
+
+    const holiday = this.holidayRepository.create({
+      ...createHolidayDto,
+      date,
+      zoneId,
+      isWorkingDay: !!createHolidayDto.isWorkingDay,
+    });
+
+    return this.holidayRepository.save(holiday);
+  }
+
+  /**
+   * Get the holidays of a year, optionally only those applying to a zone
+   */
+  async findAll(year?: number, zoneId?: string): Promise<Holiday[]> {
+    const where: any = {};
+    if (year) {
+      where.date = Between(`${year}-01-01`, `${year}-12-31`);
+    }
+
+    return this.holidayRepository.find({
+      where: zoneId
+        ? [
+            { ...where, zoneId: IsNull() },
+            { ...where, zoneId },
+          ]
+        : where,
+      relations: ['zone'],
+      order: { date: 'ASC' },
+    });
+  }
+
+  /**
+   * Find a single holiday by ID
+   */
+  async findOne(id: string): Promise<Holiday> {
+    const holiday = await this.holidayRepository.findOne({
+      where: { id },
+      relations: ['zone'],
+    });
+
+    if (!holiday) {
+      throw new NotFoundException(`Holiday with ID ${id} not found`);
+    }
+
+    return holiday;
+  }
+
+  /**
+   * Update a holiday
+   */
+  async update(id: string, updateHolidayDto: UpdateHolidayDto): Promise<Holiday> {
+    const holiday = await this.findOne(id);
+
+    const date = updateHolidayDto.date?.slice(0, 10) ?? holiday.date;
+    const zoneId =
+      updateHolidayDto.zoneId !== undefined ? updateHolidayDto.zoneId || null : holiday.zoneId;
+    const isWorkingDay = updateHolidayDto.isWorkingDay ?? holiday.isWorkingDay;
+    await this.validateEntry(date, zoneId, isWorkingDay, holiday.id);
+
+    Object.assign(holiday, updateHolidayDto, { date, zoneId, isWorkingDay });
+    return this.holidayRepository.save(holiday);
+  }
+
+  /**
+   * Delete a holiday
+   */
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+    await this.holidayRepository.delete(id);
+  }
+
+  /**
+   * Import the all-day events of an .ics file as holidays
+   * Multi-day events add one holiday per day, recurring events are expanded up to the end of next year
+   */
+  async importIcs(importDto: ImportHolidaysDto): Promise<HolidayImportResult> {
+    const zoneId = importDto.zoneId ?? null;
+    if (zoneId) {
+      await this.findZone(zoneId);
+    }
+
+    let events: ReturnType<typeof parseIcsEvents>;
+    try {
+      events = parseIcsEvents(importDto.ics);
+    } catch (error) {
+      throw new BadRequestException(`Invalid ICS file: ${error.message}`);
+    }
+
+    const result: HolidayImportResult = { imported: 0, skipped: 0, errors: [] };
+    const horizon = new Date(new Date().getFullYear() + 1, 11, 31);
+    const entries = new Map<string, string>();
+
+    for (const event of events) {
+      const name = (event.summary || 'Holiday').slice(0, 100);
+      let starts = [event.start];
+      if (event.rrule) {
+        try {
+          starts = getRRuleOccurrences(parseRRule(event.rrule), event.start, horizon);
+        } catch (error) {
+          result.errors.push(`${name}: invalid RRULE (${error.message})`);
+          continue;
+        }
+      }
+
+      const length = Math.round(
+        (event.end.getTime() - event.start.getTime()) / (24 * 60 * 60 * 1000),
+      );
+      for (const start of starts) {
+        for (let offset = 0; offset < Math.max(length, 1); offset++) {
+          const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+          const key = this.formatDate(day);
+          if (!entries.has(key)) entries.set(key, name);
+        }
+      }
+    }
+
+    if (entries.size === 0) {
+      return result;
+    }
+
+    const existing = await this.holidayRepository.find({
+      where: { date: In([...entries.keys()]), zoneId: zoneId ?? IsNull() },
+    });
+    const existingDates = new Set(existing.map((holiday) => holiday.date));
+
+    const holidays: Holiday[] = [];
+    for (const [date, name] of entries) {
+      if (existingDates.has(date)) {
+        result.skipped++;
+        continue;
+      }
+      holidays.push(this.holidayRepository.create({ date, name, zoneId, isWorkingDay: false }));
+    }
+
+    await this.holidayRepository.save(holidays);
+    result.imported = holidays.length;
+    return result;
+  }
+
+  /**
+   * Holidays applying to a zone over a date range (YYYY-MM-DD -> name):
+   * company holidays not worked in the zone, plus the zone's own holidays
+   */
+  async getHolidays(
+    startDate: string,
+    endDate: string,
+    zoneId?: string | null,
+  ): Promise<Map<string, string>> {
+    const range = Between(startDate.slice(0, 10), endDate.slice(0, 10));
+    const rows = await this.holidayRepository.find({
+      where: zoneId
+        ? [
+            { date: range, zoneId: IsNull() },
+            { date: range, zoneId },
+          ]
+        : { date: range, zoneId: IsNull() },
+      order: { date: 'ASC' },
+    });
+
+    const holidays = new Map<string, string>();
+    for (const row of rows.filter((holiday) => !holiday.zoneId)) {
+      holidays.set(row.date, row.name);
+    }
+    for (const row of rows.filter((holiday) => holiday.zoneId)) {
+      if (row.isWorkingDay) {
+        holidays.delete(row.date);
+      } else {
+        holidays.set(row.date, row.name);
+      }
+    }
+
+    return holidays;
+  }
+
+  /**
+   * Whether a date falls on a day of the configured working week (holidays not considered)
+   */
+  isInWorkingWeek(date: Date): boolean {
+    const workingDays = this.configService.get<number[]>('calendar.workingDays') ?? [1, 2, 3, 4, 5];
+    return workingDays.includes(date.getDay());
+  }
+
+  /**
+   * Whether a date is in the working week and not a holiday
+   */
+  isWorkingDay(date: Date, holidays: Map<string, string>): boolean {
+    return this.isInWorkingWeek(date) && !holidays.has(this.formatDate(date));
+  }
+
+  /**
+   * First working day after a date
+   * The search stops after two weeks (e.g. an empty working week)
+   */
+  nextWorkingDay(date: Date, holidays: Map<string, string>): Date | null {
+    for (let offset = 1; offset <= 14; offset++) {
+      const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+      if (this.isWorkingDay(day, holidays)) return day;
+    }
+    return null;
+  }
+
+  /**
+   * Count working days between two dates, both included
+   */
+  async countWorkingDays(startDate: Date, endDate: Date, zoneId?: string | null): Promise<number> {
+    const holidays = await this.getHolidays(
+      this.formatDate(startDate),
+      this.formatDate(endDate),
+      zoneId,
+    );
+
+    let count = 0;
+    const current = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    while (current <= endDate) {
+      if (this.isWorkingDay(current, holidays)) {
+        count++;
+      }
+      current.setDate(current.getDate() + 1);
+    }
+
+    return count;
+  }
+
+  /**
+   * Zone of an agent's active zone assignment, used to apply zone holidays
+   */
+  async getAgentZoneId(agentId: string): Promise<string | null> {
+    const assignment = await this.agentZoneAssignmentRepository.findOne({
+      where: { agentId, isActive: true },
+      order: { startDate: 'DESC' },
+    });
+
+    return assignment?.zoneId ?? null;
+  }
+
+  private async validateEntry(
+    date: string,
+    zoneId: string | null,
+    isWorkingDay: boolean,
+    excludeId?: string,
+  ): Promise<void> {
+    if (zoneId) {
+      await this.findZone(zoneId);
+    } else if (isWorkingDay) {
+      throw new BadRequestException('Only zone overrides can be marked as working days');
+    }
+
+    const existing = await this.holidayRepository.findOne({
+      where: { date, zoneId: zoneId ?? IsNull() },
+    });
+    if (existing && existing.id !== excludeId) {
+      throw new BadRequestException(`${date} is already in the calendar (${existing.name})`);
+    }
+  }
+
+  private async findZone(zoneId: string): Promise<Zone> {
+    const zone = await this.zoneRepository.findOne({ where: { id: zoneId } });
+    if (!zone) {
+      throw new NotFoundException(`Zone with ID ${zoneId} not found`);
+    }
+    return zone;
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
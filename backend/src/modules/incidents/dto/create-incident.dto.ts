@@ -0,0 +1,68 @@
+import {
+  IsUUID,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsBoolean,
+  IsNumber,
+  IsDateString,
+  IsArray,
+  Min,
+} from 'class-validator';
+import { IncidentType, IncidentSeverity } from '../../../shared/types/incident.types';
+
+export class CreateIncidentDto {
+  // Required unless interventionId is given (the site is then taken from the intervention)
+  @IsUUID()
+  @IsOptional()
+  siteId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  interventionId?: string;
+
+  @IsEnum(IncidentType)
+  @IsNotEmpty()
+  type: IncidentType;
+
+  @IsEnum(IncidentSeverity)
+  @IsOptional()
+  severity?: IncidentSeverity;
+
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  // Photos uploaded later go through POST /incidents/:id/photos
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  photoUrls?: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  propertyDamage?: boolean;
+
+  @IsString()
+  @IsOptional()
+  damageDescription?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  estimatedDamageCost?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  injury?: boolean;
+
+  @IsString()
+  @IsOptional()
+  injuryDescription?: string;
+
+  // Defaults to the time of the report
+  @IsDateString()
+  @IsOptional()
+  occurredAt?: string;
+}
@@ -0,0 +1,2 @@
+export { CreateIncidentDto } from './create-incident.dto';
+export { UpdateIncidentDto, UpdateIncidentStatusDto } from './update-incident.dto';
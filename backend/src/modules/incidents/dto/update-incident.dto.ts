@@ -0,0 +1,24 @@
+import { IsEnum, IsOptional, IsString, IsNotEmpty, IsUUID } from 'class-validator';
+import { PartialType, OmitType } from '@nestjs/mapped-types';
+import { CreateIncidentDto } from './create-incident.dto';
+import { IncidentStatus } from '../../../shared/types/incident.types';
+
+// Details of an incident, the site and intervention cannot change
+export class UpdateIncidentDto extends PartialType(
+  OmitType(CreateIncidentDto, ['siteId', 'interventionId', 'photoUrls'] as const),
+) {
+  @IsUUID()
+  @IsOptional()
+  assignedToId?: string;
+}
+
+export class UpdateIncidentStatusDto {
+  @IsEnum(IncidentStatus)
+  @IsNotEmpty()
+  status: IncidentStatus;
+
+  // Required when moving to RESOLVED
+  @IsString()
+  @IsOptional()
+  resolution?: string;
+}
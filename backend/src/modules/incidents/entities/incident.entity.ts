@@ -0,0 +1,128 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Site } from '../../sites/entities/site.entity';
+import { Intervention } from '../../interventions/entities/intervention.entity';
+import { Zone } from '../../zones/entities/zone.entity';
+import { User } from '../../users/entities/user.entity';
+import {
+  IncidentType,
+  IncidentSeverity,
+  IncidentStatus,
+} from '../../../shared/types/incident.types';
+
+@Entity('incidents')
+@Index(['incidentNumber'], { unique: true })
+@Index(['siteId'])
+@Index(['interventionId'])
+@Index(['zoneId', 'occurredAt'])
+@Index(['status'])
+export class Incident {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20, unique: true })
+  incidentNumber: string;
+
+  @Column({ type: 'uuid' })
+  siteId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  interventionId: string | null;
+
+  // Zone of the site when the incident was reported (via active SiteAssignment)
+  @Column({ type: 'uuid', nullable: true })
+  zoneId: string | null;
+
+  // Null for incidents moved from the former Intervention.incidents text
+  @Column({ type: 'uuid', nullable: true })
+  reportedById: string | null;
+
+  // Supervisor handling the incident, the zone chief by default
+  @Column({ type: 'uuid', nullable: true })
+  assignedToId: string | null;
+
+  @Column({ type: 'varchar' })
+  type: IncidentType;
+
+  @Column({ type: 'varchar', default: IncidentSeverity.MEDIUM })
+  severity: IncidentSeverity;
+
+  @Column({ type: 'varchar', default: IncidentStatus.OPEN })
+  status: IncidentStatus;
+
+  @Column({ type: 'text' })
+  description: string;
+
+  @Column({ type: 'simple-array', nullable: true })
+  photoUrls: string[] | null;
+
+  // Damage to client property
+  @Column({ type: 'boolean', default: false })
+  propertyDamage: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  damageDescription: string | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  estimatedDamageCost: number | null;
+
+  @Column({ type: 'boolean', default: false })
+  injury: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  injuryDescription: string | null;
+
+  @Column({ type: 'timestamp' })
+  occurredAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  resolution: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  resolvedById: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Site, { eager: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'siteId' })
+  site: Site;
+
+  @ManyToOne(() => Intervention, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'interventionId' })
+  intervention: Intervention | null;
+
+  @ManyToOne(() => Zone, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'zoneId' })
+  zone: Zone | null;
+
+  @ManyToOne(() => User, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'reportedById' })
+  reportedBy: User | null;
+
+  @ManyToOne(() => User, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assignedToId' })
+  assignedTo: User | null;
+
+  @ManyToOne(() => User, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'resolvedById' })
+  resolvedBy: User | null;
+}
@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { IncidentsService } from './incidents.service';
+import { CreateIncidentDto, UpdateIncidentDto, UpdateIncidentStatusDto } from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../../shared/types/user.types';
+import { IncidentType, IncidentSeverity, IncidentStatus } from '../../shared/types/incident.types';
+
+@Controller('incidents')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class IncidentsController {
+  constructor(private readonly incidentsService: IncidentsService) {}
+
+  /**
+   * Report an incident on an intervention (or a site, staff only)
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, AGENT
+   */
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  create(@CurrentUser() user: User, @Body() createIncidentDto: CreateIncidentDto) {
+    return this.incidentsService.create(user, createIncidentDto);
+  }
+
+  /**
+   * Incidents reported by the logged-in user
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, AGENT
+   */
+  @Get('my')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  findMine(@CurrentUser('id') userId: string) {
+    return this.incidentsService.findReportedBy(userId);
+  }
+
+  /**
+   * Get all incidents with filters
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  findAll(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('siteId') siteId?: string,
+    @Query('interventionId') interventionId?: string,
+    @Query('zoneId') zoneId?: string,
+    @Query('assignedToId') assignedToId?: string,
+    @Query('status') status?: IncidentStatus,
+    @Query('severity') severity?: IncidentSeverity,
+    @Query('type') type?: IncidentType,
+  ) {
+    return this.incidentsService.findAll(page ? parseInt(page) : 1, limit ? parseInt(limit) : 10, {
+      siteId,
+      interventionId,
+      zoneId,
+      assignedToId,
+      status,
+      severity,
+      type,
+    });
+  }
+
+  /**
+   * Get an incident
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, AGENT (own reports)
+   */
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: User) {
+    return this.incidentsService.findOne(id, user);
+  }
+
+  /**
+   * Edit the details of an incident
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, AGENT (own reports while open)
+   */
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() updateIncidentDto: UpdateIncidentDto,
+  ) {
+    return this.incidentsService.update(id, user, updateIncidentDto);
+  }
+
+  /**
+   * Change incident status (resolution workflow)
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Patch(':id/status')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() statusDto: UpdateIncidentStatusDto,
+  ) {
+    return this.incidentsService.updateStatus(id, user, statusDto);
+  }
+
+  /**
+   * Add a photo to an incident (multipart "file")
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, AGENT (own reports)
+   */
+  @Post(':id/photos')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  @UseInterceptors(FileInterceptor('file'))
+  uploadPhoto(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: User,
+  ) {
+    return this.incidentsService.uploadPhoto(id, file, user);
+  }
+}
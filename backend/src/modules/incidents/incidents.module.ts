@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IncidentsService } from './incidents.service';
+import { IncidentsController } from './incidents.controller';
+import { Incident } from './entities/incident.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Incident, Site, Intervention, SiteAssignment]),
+    NotificationsModule,
+    NumberingModule,
+    StorageModule,
+  ],
+  controllers: [IncidentsController],
+  providers: [IncidentsService],
+  exports: [IncidentsService],
+})
+export class IncidentsModule {}
@@ -0,0 +1,343 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Incident } from './entities/incident.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { User } from '../users/entities/user.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import { StorageService } from '../storage/storage.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { CreateIncidentDto, UpdateIncidentDto, UpdateIncidentStatusDto } from './dto';
+import { IncidentType, IncidentSeverity, IncidentStatus } from '../../shared/types/incident.types';
+import { UserRole } from '../../shared/types/user.types';
+import { NumberedEntity } from '../../shared/types/numbering.types';
+import { StoredFileOwner } from '../../shared/types/storage.types';
+
+// Allowed status transitions (RESOLVED -> INVESTIGATING reopens the incident)
+const STATUS_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  [IncidentStatus.OPEN]: [
+    IncidentStatus.INVESTIGATING,
+    IncidentStatus.RESOLVED,
+    IncidentStatus.CLOSED,
+  ],
+  [IncidentStatus.INVESTIGATING]: [IncidentStatus.RESOLVED, IncidentStatus.CLOSED],
+  [IncidentStatus.RESOLVED]: [IncidentStatus.INVESTIGATING, IncidentStatus.CLOSED],
+  [IncidentStatus.CLOSED]: [],
+};
+
+// Roles handling incidents, others only see and edit the ones they reported
+const STAFF_ROLES = [UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR];
+
+@Injectable()
+export class IncidentsService {
+  private readonly logger = new Logger(IncidentsService.name);
+
+  constructor(
+    @InjectRepository(Incident)
+    private readonly incidentRepository: Repository<Incident>,
+    @InjectRepository(Site)
+    private readonly siteRepository: Repository<Site>,
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(SiteAssignment)
+    private readonly siteAssignmentRepository: Repository<SiteAssignment>,
+    private readonly notificationsService: NotificationsService,
+    private readonly storageService: StorageService,
+    private readonly numberingService: NumberingService,
+  ) {}
+
+  /**
+   * Find the zone chief responsible for a site through its active SiteAssignment
+   */
+  private async resolveZoneChief(
+    siteId: string,
+  ): Promise<{ zoneId: string | null; zoneChiefId: string | null }> {
+    const assignment = await this.siteAssignmentRepository.findOne({
+      where: { siteId, isActive: true },
+      relations: ['zone'],
+      order: { startDate: 'DESC' },
+    });
+
+    return {
+      zoneId: assignment?.zoneId || null,
+      zoneChiefId: assignment?.zone?.zoneChiefId || null,
+    };
+  }
+
+  /**
+   * Find an incident, enforcing that non-staff users only see the ones they reported
+   */
+  private async findAccessible(id: string, user: User): Promise<Incident> {
+    const incident = await this.incidentRepository.findOne({
+      where: { id },
+      relations: ['site', 'intervention', 'zone', 'reportedBy', 'assignedTo', 'resolvedBy'],
+    });
+
+    if (!incident || (!STAFF_ROLES.includes(user.role) && incident.reportedById !== user.id)) {
+      throw new NotFoundException(`Incident with ID ${id} not found`);
+    }
+
+    return this.withPeople(incident);
+  }
+
+  // Only the names of the people involved are returned
+  private withPeople(incident: Incident): Incident {
+    for (const key of ['reportedBy', 'assignedTo', 'resolvedBy'] as const) {
+      const person = incident[key];
+      if (person) {
+        const { id, firstName, lastName, role } = person;
+        incident[key] = { id, firstName, lastName, role } as User;
+      }
+    }
+    return incident;
+  }
+
+  /**
+   * Report an incident on an intervention or a site
+   * Agents report on the interventions they are assigned to; the zone chief is notified
+   */
+  async create(user: User, createDto: CreateIncidentDto): Promise<Incident> {
+    let siteId = createDto.siteId;
+
+    if (createDto.interventionId) {
+      const intervention = await this.interventionRepository.findOne({
+        where: { id: createDto.interventionId },
+        relations: ['assignments'],
+      });
+      if (!intervention) {
+        throw new NotFoundException(`Intervention with ID ${createDto.interventionId} not found`);
+      }
+      if (
+        !STAFF_ROLES.includes(user.role) &&
+        intervention.assignedTeamChiefId !== user.id &&
+        !(intervention.assignments || []).some((assignment) => assignment.userId === user.id)
+      ) {
+        throw new ForbiddenException('You are not assigned to this intervention');
+      }
+      if (siteId && siteId !== intervention.siteId) {
+        throw new BadRequestException('Intervention does not belong to the given site');
+      }
+      siteId = intervention.siteId;
+    } else if (!STAFF_ROLES.includes(user.role)) {
+      throw new BadRequestException('Incidents are reported on one of your interventions');
+    }
+
+    if (!siteId) {
+      throw new BadRequestException('A site or an intervention is required');
+    }
+
+    const site = await this.siteRepository.findOne({ where: { id: siteId } });
+    if (!site) {
+      throw new NotFoundException(`Site with ID ${siteId} not found`);
+    }
+
+    const { zoneId, zoneChiefId } = await this.resolveZoneChief(site.id);
+    const injury = createDto.injury ?? createDto.type === IncidentType.INJURY;
+
+    const incident = this.incidentRepository.create({
+      incidentNumber: await this.numberingService.next(NumberedEntity.INCIDENT),
+      siteId: site.id,
+      interventionId: createDto.interventionId || null,
+      zoneId,
+      reportedById: user.id,
+      assignedToId: zoneChiefId,
+      type: createDto.type,
+      severity: createDto.severity || IncidentSeverity.MEDIUM,
+      status: IncidentStatus.OPEN,
+      description: createDto.description,
+      photoUrls: createDto.photoUrls?.length ? createDto.photoUrls : null,
+      propertyDamage: createDto.propertyDamage ?? createDto.type === IncidentType.PROPERTY_DAMAGE,
+      damageDescription: createDto.damageDescription || null,
+      estimatedDamageCost: createDto.estimatedDamageCost ?? null,
+      injury,
+      injuryDescription: createDto.injuryDescription || null,
+      occurredAt: createDto.occurredAt ? new Date(createDto.occurredAt) : new Date(),
+    });
+    const saved = await this.incidentRepository.save(incident);
+
+    if (zoneChiefId) {
+      const urgent =
+        injury ||
+        saved.severity === IncidentSeverity.HIGH ||
+        saved.severity === IncidentSeverity.CRITICAL;
+      await this.notificationsService.notify(
+        zoneChiefId,
+        urgent ? NotificationType.WARNING : NotificationType.INFO,
+        `${urgent ? 'Urgent incident' : 'New incident'} ${saved.incidentNumber}`,
+        `${site.name}: ${saved.description.slice(0, 200)}`,
+        saved.interventionId
+          ? `/interventions/view/${saved.interventionId}`
+          : `/sites/view/${saved.siteId}`,
+      );
+    } else {
+      this.logger.warn(`Incident ${saved.incidentNumber} has no zone chief for site ${site.id}`);
+    }
+
+    return this.findAccessible(saved.id, user);
+  }
+
+  /**
+   * Find all incidents with optional filters and pagination (staff)
+   */
+  async findAll(
+    page: number = 1,
+    limit: number = 10,
+    filters: {
+      siteId?: string;
+      interventionId?: string;
+      zoneId?: string;
+      assignedToId?: string;
+      status?: IncidentStatus;
+      severity?: IncidentSeverity;
+      type?: IncidentType;
+    } = {},
+  ): Promise<{ data: Incident[]; total: number; page: number; limit: number }> {
+    const where: any = {};
+
+    if (filters.siteId) where.siteId = filters.siteId;
+    if (filters.interventionId) where.interventionId = filters.interventionId;
+    if (filters.zoneId) where.zoneId = filters.zoneId;
+    if (filters.assignedToId) where.assignedToId = filters.assignedToId;
+    if (filters.status) where.status = filters.status;
+    if (filters.severity) where.severity = filters.severity;
+    if (filters.type) where.type = filters.type;
+
+    const [data, total] = await this.incidentRepository.findAndCount({
+      where,
+      relations: ['site', 'intervention', 'reportedBy', 'assignedTo'],
+      skip: (page - 1) * limit,
+      take: limit,
+      order: { occurredAt: 'DESC' },
+    });
+
+    return { data: data.map((incident) => this.withPeople(incident)), total, page, limit };
+  }
+
+  /**
+   * Incidents reported by a user
+   */
+  async findReportedBy(userId: string): Promise<Incident[]> {
+    return this.incidentRepository.find({
+      where: { reportedById: userId },
+      relations: ['site', 'intervention'],
+      order: { occurredAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string, user: User): Promise<Incident> {
+    return this.findAccessible(id, user);
+  }
+
+  /**
+   * Edit the details of an incident
+   * Reporters can edit their incident while it is open, staff until it is closed
+   */
+  async update(id: string, user: User, updateDto: UpdateIncidentDto): Promise<Incident> {
+    const incident = await this.findAccessible(id, user);
+    const isStaff = STAFF_ROLES.includes(user.role);
+
+    if (incident.status === IncidentStatus.CLOSED) {
+      throw new BadRequestException('Cannot edit a closed incident');
+    }
+    if (!isStaff && incident.status !== IncidentStatus.OPEN) {
+      throw new ForbiddenException('The incident is already handled by a supervisor');
+    }
+    if (!isStaff && updateDto.assignedToId) {
+      throw new ForbiddenException('Only supervisors can assign incidents');
+    }
+
+    const { occurredAt, ...changes } = updateDto;
+    Object.assign(incident, changes);
+    if (occurredAt) incident.occurredAt = new Date(occurredAt);
+
+    await this.incidentRepository.save(incident);
+    return this.findAccessible(id, user);
+  }
+
+  /**
+   * Move an incident through its resolution workflow (staff)
+   */
+  async updateStatus(
+    id: string,
+    user: User,
+    statusDto: UpdateIncidentStatusDto,
+  ): Promise<Incident> {
+    const incident = await this.findAccessible(id, user);
+    const fromStatus = incident.status;
+
+    if (!STATUS_TRANSITIONS[fromStatus].includes(statusDto.status)) {
+      throw new BadRequestException(
+        `Cannot change incident status from ${fromStatus} to ${statusDto.status}`,
+      );
+    }
+
+    if (statusDto.status === IncidentStatus.RESOLVED) {
+      const resolution = statusDto.resolution?.trim() || incident.resolution;
+      if (!resolution) {
+        throw new BadRequestException('A resolution is required to resolve an incident');
+      }
+      incident.resolution = resolution;
+      incident.resolvedAt = new Date();
+      incident.resolvedById = user.id;
+    }
+    if (
+      statusDto.status === IncidentStatus.INVESTIGATING &&
+      fromStatus === IncidentStatus.RESOLVED
+    ) {
+      incident.resolvedAt = null;
+      incident.resolvedById = null;
+    }
+    if (statusDto.status === IncidentStatus.CLOSED) {
+      incident.closedAt = new Date();
+    }
+    incident.status = statusDto.status;
+
+    await this.incidentRepository.save(incident);
+
+    if (incident.reportedById && incident.reportedById !== user.id) {
+      await this.notificationsService.notify(
+        incident.reportedById,
+        NotificationType.INFO,
+        `Incident ${incident.incidentNumber} is now ${statusDto.status.toLowerCase()}`,
+        incident.resolution || incident.description.slice(0, 200),
+        incident.interventionId ? `/my-missions/${incident.interventionId}` : undefined,
+      );
+    }
+
+    return this.findAccessible(id, user);
+  }
+
+  /**
+   * Store an uploaded photo and add its /files/:id reference to the incident
+   */
+  async uploadPhoto(id: string, file: Express.Multer.File, user: User): Promise<Incident> {
+    const incident = await this.findAccessible(id, user);
+
+    if (incident.status === IncidentStatus.CLOSED) {
+      throw new BadRequestException('Cannot add photos to a closed incident');
+    }
+
+    const storedFile = await this.storageService.upload(
+      file,
+      StoredFileOwner.INCIDENT,
+      incident.id,
+      user.id,
+    );
+    incident.photoUrls = [
+      ...(incident.photoUrls || []),
+      this.storageService.toReference(storedFile),
+    ];
+    await this.incidentRepository.save(incident);
+
+    return this.findAccessible(id, user);
+  }
+}
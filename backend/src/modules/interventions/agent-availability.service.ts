@@ -0,0 +1,303 @@
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, Between, Not, Raw } from 'typeorm';
+import { InterventionAssignment } from './entities/intervention-assignment.entity';
+import { InterventionConflictsService } from './intervention-conflicts.service';
+import { User } from '../users/entities/user.entity';
+import { Absence } from '../absences/entities/absence.entity';
+import { Attendance } from '../attendance/entities/attendance.entity';
+import {
+  AgentAvailability,
+  AvailabilityIssue,
+  AvailabilityIssueCode,
+  AvailabilitySlot,
+} from '../../shared/types/availability.types';
+import { PlannedSlot } from '../../shared/types/schedule.types';
+import { InterventionStatus, AssignmentStatus } from '../../shared/types/intervention.types';
+import { AbsenceStatus } from '../../shared/types/absence.types';
+import { UserRole, UserStatus } from '../../shared/types/user.types';
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Whether agents can take an intervention slot, combining their status, absences,
+ * work preferences, existing assignments and the hours of their week
+ */
+@Injectable()
+export class AgentAvailabilityService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Absence)
+    private readonly absenceRepository: Repository<Absence>,
+    @InjectRepository(Attendance)
+    private readonly attendanceRepository: Repository<Attendance>,
+    @InjectRepository(InterventionAssignment)
+    private readonly assignmentRepository: Repository<InterventionAssignment>,
+    private readonly conflictsService: InterventionConflictsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Availability of agents for a slot, every agent when no IDs are given (assignment pickers)
+   */
+  async checkAgents(slot: AvailabilitySlot, agentIds?: string[]): Promise<AgentAvailability[]> {
+    if (!slot.date || !slot.startTime || !slot.endTime) {
+      throw new BadRequestException('date, startTime and endTime are required');
+    }
+    if (agentIds && agentIds.length === 0) return [];
+
+    const agents = await this.userRepository.find({
+      where: agentIds ? { id: In(agentIds) } : { role: UserRole.AGENT },
+      order: { firstName: 'ASC', lastName: 'ASC' },
+    });
+    if (agents.length === 0) return [];
+
+    const ids = agents.map((agent) => agent.id);
+    const date = slot.date.slice(0, 10);
+    const day = this.parseDate(date);
+    const weekStart = new Date(
+      day.getFullYear(),
+      day.getMonth(),
+      day.getDate() - ((day.getDay() + 6) % 7),
+    );
+    const weekEnd = new Date(
+      weekStart.getFullYear(),
+      weekStart.getMonth(),
+      weekStart.getDate() + 6,
+    );
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const [absences, bookings, attendances] = await Promise.all([
+      this.absenceRepository.find({
+        where: {
+          agentId: In(ids),
+          status: In([AbsenceStatus.APPROVED, AbsenceStatus.PENDING]),
+          startDate: Raw((column) => `${column} <= :absenceDay`, { absenceDay: date }),
+          endDate: Raw((column) => `${column} >= :absenceDay`, { absenceDay: date }),
+        },
+      }),
+      this.findBookings(ids, weekStart, weekEnd, slot.interventionId),
+      // Hours already worked this week (days before today)
+      weekStart < today
+        ? this.attendanceRepository.find({
+            where: {
+              userId: In(ids),
+              clockIn: Between(weekStart, today < weekEnd ? today : this.endOfDay(weekEnd)),
+            },
+          })
+        : Promise.resolve([] as Attendance[]),
+    ]);
+
+    const maxWeeklyHours = this.configService.get<number>('availability.maxWeeklyHours') ?? 48;
+    const slotHours = this.toHours(slot.startTime, slot.endTime);
+
+    return agents.map((agent) => {
+      const issues: AvailabilityIssue[] = [];
+
+      if (agent.status !== UserStatus.ACTIVE) {
+        issues.push({
+          code: AvailabilityIssueCode.INACTIVE,
+          severity: 'ERROR',
+          message: `${agent.fullName} is ${agent.status.toLowerCase()}`,
+        });
+      }
+
+      for (const absence of absences.filter((item) => item.agentId === agent.id)) {
+        const period = `${this.formatDate(absence.startDate)} to ${this.formatDate(absence.endDate)}`;
+        const approved = absence.status === AbsenceStatus.APPROVED;
+        issues.push({
+          code: approved ? AvailabilityIssueCode.ABSENT : AvailabilityIssueCode.ABSENCE_PENDING,
+          severity: approved ? 'ERROR' : 'WARNING',
+          message: approved
+            ? `${agent.fullName} is absent (${absence.absenceType}) from ${period}`
+            : `${agent.fullName} requested an absence (${absence.absenceType}) from ${period}`,
+        });
+      }
+
+      const preferences = agent.workPreferences;
+      if (
+        preferences?.daysAvailable?.length &&
+        !this.isDayAvailable(preferences.daysAvailable, day)
+      ) {
+        issues.push({
+          code: AvailabilityIssueCode.DAY_UNAVAILABLE,
+          severity: 'WARNING',
+          message: `${agent.fullName} is not available on ${DAY_NAMES[day.getDay()]}s`,
+        });
+      }
+      if (
+        preferences?.preferredHours?.start &&
+        preferences.preferredHours.end &&
+        (this.toMinutes(slot.startTime) < this.toMinutes(preferences.preferredHours.start) ||
+          this.toMinutes(slot.endTime) > this.toMinutes(preferences.preferredHours.end))
+      ) {
+        issues.push({
+          code: AvailabilityIssueCode.OUTSIDE_PREFERRED_HOURS,
+          severity: 'WARNING',
+          message: `${agent.fullName} prefers to work ${preferences.preferredHours.start}-${preferences.preferredHours.end}`,
+        });
+      }
+
+      const agentBookings = bookings.filter((booking) => booking.userId === agent.id);
+      for (const booking of agentBookings) {
+        const intervention = booking.intervention;
+        if (
+          this.formatDate(intervention.scheduledDate) === date &&
+          this.toMinutes(intervention.scheduledStartTime) < this.toMinutes(slot.endTime) &&
+          this.toMinutes(slot.startTime) < this.toMinutes(intervention.scheduledEndTime)
+        ) {
+          issues.push({
+            code: AvailabilityIssueCode.ALREADY_BOOKED,
+            severity: 'WARNING',
+            message: `${agent.fullName} is already assigned to ${intervention.interventionCode} at ${intervention.scheduledStartTime.slice(0, 5)}-${intervention.scheduledEndTime.slice(0, 5)}`,
+          });
+        }
+      }
+
+      // Worked hours up to yesterday, planned hours from today
+      const workedHours = attendances
+        .filter((attendance) => attendance.userId === agent.id)
+        .reduce((sum, attendance) => sum + (Number(attendance.hoursWorked) || 0), 0);
+      const plannedHours = agentBookings
+        .filter(
+          (booking) => this.parseDate(this.formatDate(booking.intervention.scheduledDate)) >= today,
+        )
+        .reduce(
+          (sum, booking) =>
+            sum +
+            this.toHours(
+              booking.intervention.scheduledStartTime,
+              booking.intervention.scheduledEndTime,
+            ),
+          0,
+        );
+      const weeklyHours = Math.round((workedHours + plannedHours + slotHours) * 100) / 100;
+      if (weeklyHours > maxWeeklyHours) {
+        issues.push({
+          code: AvailabilityIssueCode.OVER_WEEKLY_HOURS,
+          severity: 'WARNING',
+          message: `${agent.fullName} would work ${weeklyHours} h this week (limit: ${maxWeeklyHours} h)`,
+        });
+      }
+
+      return {
+        agentId: agent.id,
+        agentName: agent.fullName,
+        available: !issues.some((issue) => issue.severity === 'ERROR'),
+        issues,
+        weeklyHours,
+        maxWeeklyHours,
+      };
+    });
+  }
+
+  /**
+   * Reject a booking when an agent cannot take the slot (absent, inactive), and unless
+   * forced when an agent should not (warnings) or the slot clashes with other bookings
+   * @throws BadRequestException (400) listing the unavailable agents
+   * @throws ConflictException (409) listing the warnings and the planning conflicts
+   */
+  async assertBookable(slot: PlannedSlot, force?: boolean): Promise<void> {
+    // Overlapping bookings are reported by the conflicts check, with the site overlaps
+    const availability = (await this.checkAgents(slot, slot.agentIds)).map((agent) => ({
+      ...agent,
+      issues: agent.issues.filter((issue) => issue.code !== AvailabilityIssueCode.ALREADY_BOOKED),
+    }));
+
+    const unavailable = availability.filter((agent) => !agent.available);
+    if (unavailable.length > 0) {
+      const errors = unavailable.flatMap((agent) =>
+        agent.issues.filter((issue) => issue.severity === 'ERROR'),
+      );
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Cannot assign: ${errors.map((issue) => issue.message).join('; ')}`,
+        availability: unavailable,
+      });
+    }
+
+    if (force) return;
+
+    const warnings = availability.filter((agent) => agent.issues.length > 0);
+    const conflicts = await this.conflictsService.detectConflicts([slot]);
+    if (warnings.length === 0 && conflicts.length === 0) return;
+
+    const details = [
+      ...warnings.flatMap((agent) => agent.issues.map((issue) => issue.message)),
+      ...conflicts.map((conflict) => conflict.details),
+    ];
+    const more = details.length > 1 ? ` (+${details.length - 1} more)` : '';
+    throw new ConflictException({
+      statusCode: 409,
+      error: 'Conflict',
+      message: `Planning conflict: ${details[0]}${more}. Use force to book anyway.`,
+      conflicts,
+      availability: warnings,
+    });
+  }
+
+  /**
+   * Interventions the agents are assigned to in a date range (cancelled ones and no-shows excluded)
+   */
+  private async findBookings(
+    agentIds: string[],
+    startDate: Date,
+    endDate: Date,
+    excludeInterventionId?: string,
+  ): Promise<InterventionAssignment[]> {
+    return this.assignmentRepository.find({
+      where: {
+        userId: In(agentIds),
+        status: Not(AssignmentStatus.NO_SHOW),
+        intervention: {
+          scheduledDate: Raw((column) => `${column} BETWEEN :startDate AND :endDate`, {
+            startDate: this.formatDate(startDate),
+            endDate: this.formatDate(endDate),
+          }),
+          status: Not(InterventionStatus.CANCELLED),
+          ...(excludeInterventionId ? { id: Not(excludeInterventionId) } : {}),
+        },
+      },
+      relations: ['intervention'],
+    });
+  }
+
+  // daysAvailable entries are day names ('monday', 'Mon') or numbers (0 = Sunday)
+  private isDayAvailable(daysAvailable: string[], day: Date): boolean {
+    const name = DAY_NAMES[day.getDay()];
+    return daysAvailable.some((value) => {
+      const entry = String(value).trim().toLowerCase();
+      return entry === name || entry === name.slice(0, 3) || entry === String(day.getDay());
+    });
+  }
+
+  private toHours(startTime: string, endTime: string): number {
+    return Math.max(this.toMinutes(endTime) - this.toMinutes(startTime), 0) / 60;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private parseDate(value: string): Date {
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  private endOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+  }
+
+  // Date columns come back as YYYY-MM-DD strings
+  private formatDate(value: Date | string): string {
+    if (typeof value === 'string') return value.slice(0, 10);
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+}
@@ -0,0 +1,13 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsInt, Min, Max } from 'class-validator';
+
+export class AutoAssignDto {
+  @IsDateString()
+  @IsNotEmpty()
+  weekStart: string; // Any day of the week, the week runs Monday to Sunday
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  agentsPerIntervention?: number; // Defaults to the site size (SMALL 1, MEDIUM 2, LARGE 3)
+}
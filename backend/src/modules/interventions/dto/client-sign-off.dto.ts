@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Acknowledgement of the on-site client contact, sent as multipart fields with the
+ * drawn signature image ("file")
+ */
+export class ClientSignOffDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  contactName: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  comments?: string;
+}
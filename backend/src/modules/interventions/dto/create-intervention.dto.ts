@@ -5,6 +5,7 @@ import {
   IsNotEmpty,
   IsOptional,
   IsArray,
+  IsBoolean,
   Matches,
   ArrayMinSize,
 } from 'class-validator';
@@ -56,4 +57,8 @@ export class CreateInterventionDto {
   @IsString()
   @IsOptional()
   notes?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean; // Book even if an agent or the site is already booked on the slot
 }
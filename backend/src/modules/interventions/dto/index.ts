@@ -3,3 +3,7 @@ export { UpdateInterventionDto } from './update-intervention.dto';
 export { GpsCheckInDto } from './gps-checkin.dto';
 export { GpsCheckOutDto } from './gps-checkout.dto';
 export { RescheduleInterventionDto } from './reschedule-intervention.dto';
+export { UpdateAssignmentDto } from './update-assignment.dto';
+export { AutoAssignDto } from './auto-assign.dto';
+export { InterventionTransitionDto } from './intervention-transition.dto';
+export { ClientSignOffDto } from './client-sign-off.dto';
@@ -0,0 +1,23 @@
+import { IsOptional, IsString, IsNumber, MaxLength, Min, Max } from 'class-validator';
+
+/**
+ * Optional reason and GPS position of a status change (start, complete, cancel)
+ */
+export class InterventionTransitionDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string; // Required to cancel an intervention in progress
+
+  @IsNumber()
+  @IsOptional()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+}
@@ -1,4 +1,11 @@
-import { IsDateString, IsNotEmpty } from 'class-validator';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 
 export class RescheduleInterventionDto {
   @IsDateString()
@@ -10,4 +17,13 @@ export class RescheduleInterventionDto {
 
   @IsNotEmpty()
   newEndTime: string;
+
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean; // Book even if an agent or the site is already booked on the slot
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string; // Kept in the status history
 }
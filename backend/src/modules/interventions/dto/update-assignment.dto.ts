@@ -0,0 +1,16 @@
+import { IsEnum, IsOptional, IsDateString } from 'class-validator';
+import { AssignmentStatus } from '../../../shared/types/intervention.types';
+
+export class UpdateAssignmentDto {
+  @IsEnum(AssignmentStatus)
+  @IsOptional()
+  status?: AssignmentStatus;
+
+  @IsDateString()
+  @IsOptional()
+  checkInTime?: string;
+
+  @IsDateString()
+  @IsOptional()
+  checkOutTime?: string;
+}
@@ -4,14 +4,14 @@ import {
   IsString,
   IsOptional,
   IsArray,
-  IsEnum,
+  IsBoolean,
   IsNumber,
   Min,
   Max,
   Matches,
 } from 'class-validator';
-import { InterventionStatus } from '../../../shared/types/intervention.types';
 
+// Status changes go through the transition endpoints (InterventionStateMachineService)
 export class UpdateInterventionDto {
   @IsDateString()
   @IsOptional()
@@ -27,10 +27,6 @@ export class UpdateInterventionDto {
   @Matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
   scheduledEndTime?: string;
 
-  @IsEnum(InterventionStatus)
-  @IsOptional()
-  status?: InterventionStatus;
-
   @IsUUID()
   @IsOptional()
   assignedZoneChiefId?: string;
@@ -66,9 +62,9 @@ export class UpdateInterventionDto {
 
   @IsString()
   @IsOptional()
-  incidents?: string;
+  notes?: string;
 
-  @IsString()
+  @IsBoolean()
   @IsOptional()
-  notes?: string;
+  force?: boolean; // Book even if an agent or the site is already booked on the slot
 }
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Intervention } from './intervention.entity';
+import { User } from '../../users/entities/user.entity';
+import { AssignmentRole, AssignmentStatus } from '../../../shared/types/intervention.types';
+
+/**
+ * Intervention Assignment Entity
+ * One person (team chief or agent) on an intervention, with their own attendance
+ */
+@Entity('intervention_assignments')
+@Index(['interventionId', 'userId'], { unique: true })
+@Index(['userId'])
+export class InterventionAssignment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  interventionId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', default: AssignmentRole.AGENT })
+  role: AssignmentRole;
+
+  @Column({ type: 'varchar', default: AssignmentStatus.ASSIGNED })
+  status: AssignmentStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  checkInTime: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  checkOutTime: Date | null;
+
+  // Computed at check-out (checkOutTime - checkInTime)
+  @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true })
+  hoursWorked: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Intervention, (intervention) => intervention.assignments, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'interventionId' })
+  intervention: Intervention;
+
+  @ManyToOne(() => User, { eager: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Intervention } from './intervention.entity';
+import { User } from '../../users/entities/user.entity';
+import {
+  InterventionStatus,
+  InterventionTransition,
+} from '../../../shared/types/intervention.types';
+
+/**
+ * Intervention Status History Entity
+ * One status transition of an intervention, with who made it, why and where
+ */
+@Entity('intervention_status_history')
+@Index(['interventionId', 'createdAt'])
+export class InterventionStatusHistory {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  interventionId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  transition: InterventionTransition;
+
+  @Column({ type: 'varchar', length: 20 })
+  fromStatus: InterventionStatus;
+
+  @Column({ type: 'varchar', length: 20 })
+  toStatus: InterventionStatus;
+
+  // Null for system transitions
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  latitude: number | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  longitude: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => Intervention, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'interventionId' })
+  intervention: Intervention;
+
+  @ManyToOne(() => User, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: User | null;
+}
@@ -6,6 +6,7 @@ import {
   UpdateDateColumn,
   DeleteDateColumn,
   ManyToOne,
+  OneToMany,
   JoinColumn,
   Index,
 } from 'typeorm';
@@ -13,6 +14,7 @@ import { Contract } from '../../contracts/entities/contract.entity';
 import { Site } from '../../sites/entities/site.entity';
 import { User } from '../../users/entities/user.entity';
 import { InterventionStatus } from '../../../shared/types/intervention.types';
+import { InterventionAssignment } from './intervention-assignment.entity';
 
 @Entity('interventions')
 @Index(['interventionCode'], { unique: true })
@@ -60,9 +62,6 @@ export class Intervention {
   @Column({ type: 'uuid', nullable: true })
   assignedTeamChiefId: string | null;
 
-  @Column({ type: 'simple-array', nullable: true })
-  assignedAgentIds: string[] | null;
-
   @Column({ type: 'uuid', nullable: true })
   checklistTemplateId: string | null;
 
@@ -87,6 +86,19 @@ export class Intervention {
   @Column({ type: 'timestamp', nullable: true })
   gpsCheckOutTime: Date | null;
 
+  // Geofence results (distance from the site coordinates, in meters)
+  @Column({ type: 'integer', nullable: true })
+  checkInDistanceMeters: number | null;
+
+  @Column({ type: 'boolean', default: false })
+  checkInOutOfZone: boolean;
+
+  @Column({ type: 'integer', nullable: true })
+  checkOutDistanceMeters: number | null;
+
+  @Column({ type: 'boolean', default: false })
+  checkOutOutOfZone: boolean;
+
   @Column({ type: 'simple-array', nullable: true })
   photoUrls: string[] | null;
 
@@ -99,12 +111,36 @@ export class Intervention {
   @Column({ type: 'text', nullable: true })
   clientFeedback: string | null;
 
-  @Column({ type: 'text', nullable: true })
-  incidents: string | null;
+  @Column({ type: 'timestamp', nullable: true })
+  clientRatedAt: Date | null;
 
   @Column({ type: 'text', nullable: true })
   notes: string | null;
 
+  // Client sign-off collected on site before completion
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  signOffContactName: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  signOffSignatureUrl: string | null; // /files/:id of the drawn signature
+
+  @Column({ type: 'text', nullable: true })
+  signOffComments: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  signedOffAt: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  signedOffById: string | null;
+
+  // HMAC-SHA256 of the completion data (times, GPS, sign-off), see InterventionsService.complete
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  completionHash: string | null;
+
+  // Slot or team changed by hand: schedule edits no longer propagate to it by default
+  @Column({ type: 'timestamp', nullable: true })
+  manuallyEditedAt: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -130,4 +166,8 @@ export class Intervention {
   @ManyToOne(() => User, { eager: false, nullable: true })
   @JoinColumn({ name: 'assignedTeamChiefId' })
   teamChief: User | null;
+
+  // Team chief and agents on the job, with their own arrival and departure
+  @OneToMany(() => InterventionAssignment, (assignment) => assignment.intervention)
+  assignments: InterventionAssignment[];
 }
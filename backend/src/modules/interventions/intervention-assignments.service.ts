@@ -0,0 +1,210 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { InterventionAssignment } from './entities/intervention-assignment.entity';
+import { UpdateAssignmentDto } from './dto';
+import { AssignmentRole, AssignmentStatus } from '../../shared/types/intervention.types';
+
+/**
+ * People assigned to an intervention (team chief and agents), with their own attendance
+ */
+@Injectable()
+export class InterventionAssignmentsService {
+  constructor(
+    @InjectRepository(InterventionAssignment)
+    private readonly assignmentRepository: Repository<InterventionAssignment>,
+  ) {}
+
+  /**
+   * Replace the team of an intervention
+   * People staying on the job keep their attendance, the team chief wins over an agent entry
+   */
+  async setTeam(
+    interventionId: string,
+    agentIds: string[],
+    teamChiefId?: string | null,
+  ): Promise<InterventionAssignment[]> {
+    const roles = new Map<string, AssignmentRole>();
+    for (const agentId of agentIds) {
+      roles.set(agentId, AssignmentRole.AGENT);
+    }
+    if (teamChiefId) {
+      roles.set(teamChiefId, AssignmentRole.TEAM_CHIEF);
+    }
+
+    const existing = await this.assignmentRepository.find({ where: { interventionId } });
+    const removed = existing.filter((assignment) => !roles.has(assignment.userId));
+    if (removed.length > 0) {
+      await this.assignmentRepository.delete({
+        id: In(removed.map((assignment) => assignment.id)),
+      });
+    }
+
+    const assignments: InterventionAssignment[] = [];
+    for (const [userId, role] of roles) {
+      const assignment =
+        existing.find((current) => current.userId === userId) ??
+        this.assignmentRepository.create({
+          interventionId,
+          userId,
+          status: AssignmentStatus.ASSIGNED,
+        });
+      assignment.role = role;
+      assignments.push(assignment);
+    }
+
+    return this.assignmentRepository.save(assignments);
+  }
+
+  /**
+   * Team of an intervention, team chief first
+   */
+  async findByIntervention(interventionId: string): Promise<InterventionAssignment[]> {
+    return this.assignmentRepository.find({
+      where: { interventionId },
+      relations: ['user'],
+      order: { role: 'DESC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Record the arrival of an assigned person
+   */
+  async checkIn(
+    interventionId: string,
+    userId: string,
+    time = new Date(),
+  ): Promise<InterventionAssignment> {
+    const assignment = await this.findAssignment(interventionId, userId);
+
+    if (
+      assignment.status !== AssignmentStatus.ASSIGNED &&
+      assignment.status !== AssignmentStatus.NO_SHOW
+    ) {
+      throw new BadRequestException('Already checked in to this intervention');
+    }
+
+    assignment.status = AssignmentStatus.CHECKED_IN;
+    assignment.checkInTime = time;
+    assignment.checkOutTime = null;
+    assignment.hoursWorked = null;
+
+    return this.assignmentRepository.save(assignment);
+  }
+
+  /**
+   * Record the departure of an assigned person and their hours
+   */
+  async checkOut(
+    interventionId: string,
+    userId: string,
+    time = new Date(),
+  ): Promise<InterventionAssignment> {
+    const assignment = await this.findAssignment(interventionId, userId);
+
+    if (assignment.status !== AssignmentStatus.CHECKED_IN) {
+      throw new BadRequestException('Must check in before checking out');
+    }
+
+    assignment.status = AssignmentStatus.CHECKED_OUT;
+    assignment.checkOutTime = time;
+    assignment.hoursWorked = this.computeHours(assignment.checkInTime, time);
+
+    return this.assignmentRepository.save(assignment);
+  }
+
+  /**
+   * Check out everyone still on site (e.g. when the intervention is completed)
+   */
+  async checkOutAll(interventionId: string, time = new Date()): Promise<void> {
+    const onSite = await this.assignmentRepository.find({
+      where: { interventionId, status: AssignmentStatus.CHECKED_IN },
+    });
+
+    for (const assignment of onSite) {
+      assignment.status = AssignmentStatus.CHECKED_OUT;
+      assignment.checkOutTime = time;
+      assignment.hoursWorked = this.computeHours(assignment.checkInTime, time);
+    }
+
+    await this.assignmentRepository.save(onSite);
+  }
+
+  /**
+   * Correct the attendance of an assignment (late check-in, missed check-out, no-show)
+   */
+  async update(
+    interventionId: string,
+    assignmentId: string,
+    updateAssignmentDto: UpdateAssignmentDto,
+  ): Promise<InterventionAssignment> {
+    const assignment = await this.assignmentRepository.findOne({
+      where: { id: assignmentId, interventionId },
+      relations: ['user'],
+    });
+
+    if (!assignment) {
+      throw new NotFoundException(`Assignment with ID ${assignmentId} not found`);
+    }
+
+    if (updateAssignmentDto.checkInTime) {
+      assignment.checkInTime = new Date(updateAssignmentDto.checkInTime);
+    }
+    if (updateAssignmentDto.checkOutTime) {
+      assignment.checkOutTime = new Date(updateAssignmentDto.checkOutTime);
+    }
+
+    // Without an explicit status, the times given tell where the person is
+    let status = updateAssignmentDto.status;
+    if (!status && (updateAssignmentDto.checkInTime || updateAssignmentDto.checkOutTime)) {
+      status = assignment.checkOutTime ? AssignmentStatus.CHECKED_OUT : AssignmentStatus.CHECKED_IN;
+    }
+    if (status) {
+      assignment.status = status;
+    }
+
+    if (
+      assignment.status === AssignmentStatus.ASSIGNED ||
+      assignment.status === AssignmentStatus.NO_SHOW
+    ) {
+      assignment.checkInTime = null;
+      assignment.checkOutTime = null;
+    } else if (!assignment.checkInTime) {
+      throw new BadRequestException('Check-in time is required');
+    } else if (assignment.status === AssignmentStatus.CHECKED_IN) {
+      assignment.checkOutTime = null;
+    } else if (!assignment.checkOutTime) {
+      throw new BadRequestException('Check-out time is required');
+    } else if (assignment.checkOutTime <= assignment.checkInTime) {
+      throw new BadRequestException('Check-out time must be after check-in time');
+    }
+
+    assignment.hoursWorked =
+      assignment.checkInTime && assignment.checkOutTime
+        ? this.computeHours(assignment.checkInTime, assignment.checkOutTime)
+        : null;
+
+    return this.assignmentRepository.save(assignment);
+  }
+
+  private async findAssignment(
+    interventionId: string,
+    userId: string,
+  ): Promise<InterventionAssignment> {
+    const assignment = await this.assignmentRepository.findOne({
+      where: { interventionId, userId },
+    });
+
+    if (!assignment) {
+      throw new NotFoundException('You are not assigned to this intervention');
+    }
+
+    return assignment;
+  }
+
+  private computeHours(checkInTime: Date | null, checkOutTime: Date): number | null {
+    if (!checkInTime) return null;
+    const hours = (checkOutTime.getTime() - new Date(checkInTime).getTime()) / (60 * 60 * 1000);
+    return Math.round(hours * 100) / 100;
+  }
+}
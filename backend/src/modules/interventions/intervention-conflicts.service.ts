@@ -0,0 +1,218 @@
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Not, Raw } from 'typeorm';
+import { Intervention } from './entities/intervention.entity';
+import { User } from '../users/entities/user.entity';
+import { ScheduleConflict, PlannedSlot } from '../../shared/types/schedule.types';
+import { InterventionStatus, AssignmentRole } from '../../shared/types/intervention.types';
+
+/**
+ * Planning conflicts between bookings on overlapping time slots:
+ * - AGENT_DOUBLE_BOOKING: an agent assigned to both
+ * - SITE_OVERLAP: both on the same site
+ */
+@Injectable()
+export class InterventionConflictsService {
+  constructor(
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Conflicts of planned slots with existing interventions, and with other planned
+   * slots not saved yet (e.g. the upcoming dates of other schedules)
+   */
+  async detectConflicts(
+    slots: PlannedSlot[],
+    otherPlannedSlots: PlannedSlot[] = [],
+  ): Promise<ScheduleConflict[]> {
+    if (slots.length === 0) return [];
+
+    const dates = slots.map((slot) => slot.date).sort();
+    const interventions = await this.findBookings(dates[0], dates[dates.length - 1]);
+    const names = await this.getAgentNames(slots.flatMap((slot) => slot.agentIds));
+
+    const conflicts: ScheduleConflict[] = [];
+    for (const slot of slots) {
+      for (const intervention of interventions) {
+        if (intervention.id === slot.interventionId) continue;
+        conflicts.push(
+          ...this.compareSlots(
+            slot,
+            this.toSlot(intervention),
+            intervention.interventionCode,
+            names,
+          ),
+        );
+      }
+      for (const other of otherPlannedSlots) {
+        conflicts.push(...this.compareSlots(slot, other, 'another schedule', names));
+      }
+    }
+
+    // A schedule date already generated as an intervention is reported once
+    const seen = new Set<string>();
+    return conflicts.filter((conflict) => {
+      const key = [conflict.conflictType, conflict.agentId, conflict.date, conflict.timeSlot].join(
+        '|',
+      );
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Reject planned slots that conflict with existing bookings, unless forced
+   * @throws ConflictException (409) listing the conflicts
+   */
+  async assertNoConflicts(
+    slots: PlannedSlot[],
+    force?: boolean,
+    otherPlannedSlots: PlannedSlot[] = [],
+  ): Promise<void> {
+    if (force) return;
+
+    const conflicts = await this.detectConflicts(slots, otherPlannedSlots);
+    if (conflicts.length > 0) {
+      const more = conflicts.length > 1 ? ` (+${conflicts.length - 1} more)` : '';
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: `Planning conflict: ${conflicts[0].details}${more}. Use force to book anyway.`,
+        conflicts,
+      });
+    }
+  }
+
+  /**
+   * Every clash between interventions scheduled in a date range
+   */
+  async findConflicts(startDate: string, endDate: string): Promise<ScheduleConflict[]> {
+    if (!startDate || !endDate) {
+      throw new BadRequestException('startDate and endDate are required');
+    }
+
+    const interventions = await this.findBookings(startDate.slice(0, 10), endDate.slice(0, 10));
+    const names = await this.getAgentNames(
+      interventions.flatMap((intervention) => this.toSlot(intervention).agentIds),
+    );
+
+    const conflicts: ScheduleConflict[] = [];
+    for (let i = 0; i < interventions.length; i++) {
+      const slot = this.toSlot(interventions[i]);
+      for (let j = i + 1; j < interventions.length; j++) {
+        const other = this.toSlot(interventions[j]);
+        // Sorted by date then start time: nothing further can overlap
+        if (
+          other.date !== slot.date ||
+          this.toMinutes(other.startTime) >= this.toMinutes(slot.endTime)
+        ) {
+          break;
+        }
+        conflicts.push(...this.compareSlots(slot, other, interventions[j].interventionCode, names));
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Interventions still occupying their slot (everything but cancelled ones)
+   */
+  private async findBookings(startDate: string, endDate: string): Promise<Intervention[]> {
+    return this.interventionRepository.find({
+      where: {
+        scheduledDate: Raw((column) => `${column} BETWEEN :startDate AND :endDate`, {
+          startDate,
+          endDate,
+        }),
+        status: Not(InterventionStatus.CANCELLED),
+      },
+      relations: ['assignments'],
+      order: { scheduledDate: 'ASC', scheduledStartTime: 'ASC' },
+    });
+  }
+
+  private compareSlots(
+    slot: PlannedSlot,
+    other: PlannedSlot,
+    otherLabel: string,
+    names: Map<string, string>,
+  ): ScheduleConflict[] {
+    if (slot.date !== other.date) return [];
+    if (
+      this.toMinutes(slot.startTime) >= this.toMinutes(other.endTime) ||
+      this.toMinutes(other.startTime) >= this.toMinutes(slot.endTime)
+    ) {
+      return [];
+    }
+
+    const timeSlot = `${other.startTime.slice(0, 5)}-${other.endTime.slice(0, 5)}`;
+    const base = {
+      scheduleId: slot.scheduleId,
+      conflictingScheduleId: other.scheduleId,
+      interventionId: slot.interventionId,
+      conflictingInterventionId: other.interventionId,
+      siteId: slot.siteId,
+      date: slot.date,
+      timeSlot,
+    };
+
+    const conflicts: ScheduleConflict[] = [];
+    if (other.siteId === slot.siteId) {
+      conflicts.push({
+        ...base,
+        conflictType: 'SITE_OVERLAP',
+        details: `The site is already booked by ${otherLabel} on ${slot.date} at ${timeSlot}`,
+      });
+    }
+    for (const agentId of slot.agentIds) {
+      if (!other.agentIds.includes(agentId)) continue;
+      conflicts.push({
+        ...base,
+        conflictType: 'AGENT_DOUBLE_BOOKING',
+        agentId,
+        details: `${names.get(agentId) ?? agentId} is already assigned to ${otherLabel} on ${slot.date} at ${timeSlot}`,
+      });
+    }
+
+    return conflicts;
+  }
+
+  private toSlot(intervention: Intervention): PlannedSlot {
+    return {
+      date: this.toDateKey(intervention.scheduledDate),
+      startTime: intervention.scheduledStartTime,
+      endTime: intervention.scheduledEndTime,
+      siteId: intervention.siteId,
+      agentIds: (intervention.assignments || [])
+        .filter((assignment) => assignment.role === AssignmentRole.AGENT)
+        .map((assignment) => assignment.userId),
+      interventionId: intervention.id,
+    };
+  }
+
+  private async getAgentNames(agentIds: string[]): Promise<Map<string, string>> {
+    const ids = [...new Set(agentIds)];
+    if (ids.length === 0) return new Map();
+
+    const agents = await this.userRepository.find({ where: { id: In(ids) } });
+    return new Map(agents.map((agent) => [agent.id, agent.fullName]));
+  }
+
+  // Date columns come back as YYYY-MM-DD strings
+  private toDateKey(value: Date | string): string {
+    if (typeof value === 'string') return value.slice(0, 10);
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,396 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, Raw } from 'typeorm';
+import { Intervention } from './entities/intervention.entity';
+import { InterventionAssignment } from './entities/intervention-assignment.entity';
+import { AgentAvailabilityService } from './agent-availability.service';
+import { InterventionAssignmentsService } from './intervention-assignments.service';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Site } from '../sites/entities/site.entity';
+import { User } from '../users/entities/user.entity';
+import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { Schedule } from '../schedules/entities/schedule.entity';
+import { AutoAssignDto } from './dto';
+import {
+  StaffingTarget,
+  StaffingSuggestion,
+  StaffingScoreBreakdown,
+  AutoAssignResult,
+} from '../../shared/types/staffing.types';
+import {
+  InterventionStatus,
+  AssignmentRole,
+  AssignmentStatus,
+} from '../../shared/types/intervention.types';
+import { SiteSize } from '../../shared/types/site.types';
+
+// Maximum points of each criterion (total 100)
+const SCORE_WEIGHTS: StaffingScoreBreakdown = {
+  zone: 25,
+  availability: 15,
+  skills: 20,
+  preferences: 10,
+  quality: 15,
+  workload: 15,
+};
+
+// Points lost per availability warning, and when the agent asked to avoid the site
+const WARNING_PENALTY = 5;
+const AVOIDED_SITE_PENALTY = 20;
+
+// Agents put on an auto-assigned intervention when the request does not say
+const AGENTS_PER_SITE_SIZE: Record<SiteSize, number> = {
+  [SiteSize.SMALL]: 1,
+  [SiteSize.MEDIUM]: 2,
+  [SiteSize.LARGE]: 3,
+};
+
+/**
+ * Ranks agents for an intervention slot and staffs the generated interventions of a week
+ */
+@Injectable()
+export class InterventionStaffingService {
+  constructor(
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(InterventionAssignment)
+    private readonly assignmentRepository: Repository<InterventionAssignment>,
+    @InjectRepository(Contract)
+    private readonly contractRepository: Repository<Contract>,
+    @InjectRepository(Site)
+    private readonly siteRepository: Repository<Site>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(AgentZoneAssignment)
+    private readonly agentZoneRepository: Repository<AgentZoneAssignment>,
+    @InjectRepository(SiteAssignment)
+    private readonly siteAssignmentRepository: Repository<SiteAssignment>,
+    @InjectRepository(Schedule)
+    private readonly scheduleRepository: Repository<Schedule>,
+    private readonly availabilityService: AgentAvailabilityService,
+    private readonly assignmentsService: InterventionAssignmentsService,
+  ) {}
+
+  /**
+   * Agents that can take a slot, best first
+   * Unavailable agents (absent, inactive) are left out
+   */
+  async suggestAgents(target: StaffingTarget, limit?: number): Promise<StaffingSuggestion[]> {
+    if (!target.siteId) {
+      throw new BadRequestException('siteId is required');
+    }
+
+    const site = await this.siteRepository.findOne({ where: { id: target.siteId } });
+    if (!site) {
+      throw new NotFoundException(`Site with ID ${target.siteId} not found`);
+    }
+
+    const contract = target.contractId
+      ? await this.contractRepository.findOne({ where: { id: target.contractId } })
+      : null;
+    const tasks = (contract?.serviceScope?.tasks ?? []).map((task) => task.trim()).filter(Boolean);
+
+    const availability = (
+      await this.availabilityService.checkAgents({
+        date: target.date,
+        startTime: target.startTime,
+        endTime: target.endTime,
+        interventionId: target.interventionId,
+      })
+    ).filter((agent) => agent.available);
+    if (availability.length === 0) return [];
+
+    const agentIds = availability.map((agent) => agent.agentId);
+    const siteZones = await this.siteAssignmentRepository.find({
+      where: { siteId: site.id, isActive: true },
+      relations: ['zone'],
+    });
+    const zoneIds = siteZones.map((assignment) => assignment.zoneId);
+
+    const [agents, memberships, quality] = await Promise.all([
+      this.userRepository.find({ where: { id: In(agentIds) } }),
+      zoneIds.length > 0
+        ? this.agentZoneRepository.find({
+            where: { agentId: In(agentIds), zoneId: In(zoneIds), isActive: true },
+          })
+        : Promise.resolve([] as AgentZoneAssignment[]),
+      this.getSiteQuality(site.id, agentIds),
+    ]);
+
+    const suggestions = availability.map((agentAvailability): StaffingSuggestion => {
+      const agent = agents.find((user) => user.id === agentAvailability.agentId);
+      const reasons: string[] = [];
+      const breakdown: StaffingScoreBreakdown = {
+        zone: 0,
+        availability: 0,
+        skills: 0,
+        preferences: 0,
+        quality: 0,
+        workload: 0,
+      };
+
+      // Zone membership
+      const membership = memberships.find((item) => item.agentId === agentAvailability.agentId);
+      if (membership) {
+        breakdown.zone = SCORE_WEIGHTS.zone;
+        const zone = siteZones.find((item) => item.zoneId === membership.zoneId)?.zone;
+        reasons.push(`Member of zone ${zone?.zoneName ?? membership.zoneId}`);
+      }
+
+      // Availability warnings (pending absence, day off, already booked...)
+      const warnings = agentAvailability.issues;
+      breakdown.availability = Math.max(
+        SCORE_WEIGHTS.availability - warnings.length * WARNING_PENALTY,
+        0,
+      );
+      reasons.push(...warnings.map((issue) => issue.message));
+
+      // Skills matching the contract tasks
+      if (agent && tasks.length > 0) {
+        const skills = this.getSkills(agent);
+        const matched = tasks.filter((task) => this.matchesSkill(task, skills));
+        breakdown.skills = Math.round((SCORE_WEIGHTS.skills * matched.length) / tasks.length);
+        if (matched.length > 0) {
+          reasons.push(`Skilled for ${matched.join(', ')}`);
+        }
+      }
+
+      // Work preferences
+      const preferences = agent?.workPreferences;
+      const preferredZone = siteZones.find((item) =>
+        preferences?.preferredZones?.some((value) =>
+          [item.zoneId, item.zone?.zoneName, item.zone?.zoneCode]
+            .filter(Boolean)
+            .some((zone) => String(zone).toLowerCase() === String(value).trim().toLowerCase()),
+        ),
+      );
+      if (preferredZone) {
+        breakdown.preferences = SCORE_WEIGHTS.preferences;
+        reasons.push(`Prefers zone ${preferredZone.zone?.zoneName ?? preferredZone.zoneId}`);
+      }
+      const avoided = preferences?.sitesToAvoid?.find((item) => item.siteId === site.id);
+      if (avoided) {
+        breakdown.preferences -= AVOIDED_SITE_PENALTY;
+        reasons.push(`Asked to avoid this site${avoided.reason ? ` (${avoided.reason})` : ''}`);
+      }
+
+      // Past quality at the site, neutral without history
+      const siteQuality = quality.get(agentAvailability.agentId);
+      if (siteQuality) {
+        breakdown.quality = Math.round((SCORE_WEIGHTS.quality * siteQuality.average) / 5);
+        reasons.push(
+          `Quality ${siteQuality.average.toFixed(1)}/5 over ${siteQuality.count} intervention(s) at this site`,
+        );
+      } else {
+        breakdown.quality = Math.round(SCORE_WEIGHTS.quality / 2);
+      }
+
+      // Workload of the week
+      const load = agentAvailability.weeklyHours / agentAvailability.maxWeeklyHours;
+      breakdown.workload = Math.round(SCORE_WEIGHTS.workload * Math.max(1 - load, 0));
+      reasons.push(
+        `${agentAvailability.weeklyHours} h of ${agentAvailability.maxWeeklyHours} h this week`,
+      );
+
+      const total = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+
+      return {
+        agentId: agentAvailability.agentId,
+        agentName: agentAvailability.agentName,
+        score: Math.min(Math.max(total, 0), 100),
+        breakdown,
+        reasons,
+        availability: agentAvailability,
+      };
+    });
+
+    suggestions.sort(
+      (a, b) => b.score - a.score || a.availability.weeklyHours - b.availability.weeklyHours,
+    );
+
+    return limit ? suggestions.slice(0, limit) : suggestions;
+  }
+
+  /**
+   * Agents ranked for an existing intervention
+   */
+  async suggestForIntervention(id: string, limit?: number): Promise<StaffingSuggestion[]> {
+    const intervention = await this.interventionRepository.findOne({ where: { id } });
+
+    if (!intervention) {
+      throw new NotFoundException(`Intervention with ID ${id} not found`);
+    }
+
+    return this.suggestAgents(this.toTarget(intervention), limit);
+  }
+
+  /**
+   * Staff the generated interventions of a week that have no agent yet
+   * Only agents without any availability warning who did not ask to avoid the site are picked,
+   * interventions are staffed in chronological order so each pick counts for the next ones
+   */
+  async autoAssignWeek(autoAssignDto: AutoAssignDto): Promise<AutoAssignResult> {
+    const day = this.parseDate(autoAssignDto.weekStart);
+    const weekStart = new Date(
+      day.getFullYear(),
+      day.getMonth(),
+      day.getDate() - ((day.getDay() + 6) % 7),
+    );
+    const weekEnd = new Date(
+      weekStart.getFullYear(),
+      weekStart.getMonth(),
+      weekStart.getDate() + 6,
+    );
+
+    const result: AutoAssignResult = {
+      weekStart: this.formatDate(weekStart),
+      weekEnd: this.formatDate(weekEnd),
+      assigned: [],
+      skipped: [],
+    };
+
+    const schedules = await this.scheduleRepository.find({
+      select: ['id', 'generatedInterventionIds'],
+    });
+    const generatedIds = new Set(
+      schedules.flatMap((schedule) => schedule.generatedInterventionIds ?? []).filter(Boolean),
+    );
+
+    const interventions = (
+      await this.interventionRepository.find({
+        where: {
+          scheduledDate: Raw((column) => `${column} BETWEEN :weekStart AND :weekEnd`, {
+            weekStart: result.weekStart,
+            weekEnd: result.weekEnd,
+          }),
+          status: In([InterventionStatus.SCHEDULED, InterventionStatus.RESCHEDULED]),
+        },
+        relations: ['site', 'assignments'],
+        order: { scheduledDate: 'ASC', scheduledStartTime: 'ASC' },
+      })
+    ).filter(
+      (intervention) =>
+        generatedIds.has(intervention.id) &&
+        !intervention.assignments?.some((assignment) => assignment.role === AssignmentRole.AGENT),
+    );
+
+    for (const intervention of interventions) {
+      const needed =
+        autoAssignDto.agentsPerIntervention ?? AGENTS_PER_SITE_SIZE[intervention.site?.size] ?? 1;
+      const suggestions = await this.suggestAgents(this.toTarget(intervention));
+      const picks = suggestions
+        .filter(
+          (suggestion) =>
+            suggestion.availability.issues.length === 0 && suggestion.breakdown.preferences >= 0,
+        )
+        .slice(0, needed);
+
+      if (picks.length === 0) {
+        result.skipped.push({
+          interventionId: intervention.id,
+          interventionCode: intervention.interventionCode,
+          date: this.formatDate(intervention.scheduledDate),
+          reason: 'No available agent without warnings',
+        });
+        continue;
+      }
+
+      const agentIds = picks.map((pick) => pick.agentId);
+      await this.assignmentsService.setTeam(
+        intervention.id,
+        agentIds,
+        intervention.assignedTeamChiefId,
+      );
+
+      result.assigned.push({
+        interventionId: intervention.id,
+        interventionCode: intervention.interventionCode,
+        date: this.formatDate(intervention.scheduledDate),
+        agentIds,
+        agentNames: picks.map((pick) => pick.agentName),
+        complete: picks.length >= needed,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Average quality score of the completed interventions each agent worked at the site
+   */
+  private async getSiteQuality(
+    siteId: string,
+    agentIds: string[],
+  ): Promise<Map<string, { average: number; count: number }>> {
+    const rows: { userId: string; average: string; count: string }[] =
+      await this.assignmentRepository
+        .createQueryBuilder('assignment')
+        .innerJoin('assignment.intervention', 'intervention')
+        .select('assignment.userId', 'userId')
+        .addSelect('AVG(intervention.qualityScore)', 'average')
+        .addSelect('COUNT(*)', 'count')
+        .where('assignment.userId IN (:...agentIds)', { agentIds })
+        .andWhere('assignment.status != :noShow', { noShow: AssignmentStatus.NO_SHOW })
+        .andWhere('intervention.siteId = :siteId', { siteId })
+        .andWhere('intervention.status = :completed', { completed: InterventionStatus.COMPLETED })
+        .andWhere('intervention.qualityScore IS NOT NULL')
+        .groupBy('assignment.userId')
+        .getRawMany();
+
+    return new Map(
+      rows.map((row) => [
+        row.userId,
+        { average: parseFloat(row.average), count: Number(row.count) },
+      ]),
+    );
+  }
+
+  // Valid certifications, certified equipment and special skills, lowercased
+  private getSkills(agent: User): string[] {
+    return [
+      ...(agent.certifications ?? [])
+        .filter((certification) => certification.status !== 'expired')
+        .map((certification) => certification.name),
+      ...(agent.equipmentCompetencies ?? [])
+        .filter((competency) => competency.certified)
+        .map((competency) => competency.equipment),
+      ...(agent.specialSkills ?? []),
+    ]
+      .map((skill) =>
+        String(skill ?? '')
+          .trim()
+          .toLowerCase(),
+      )
+      .filter(Boolean);
+  }
+
+  private matchesSkill(task: string, skills: string[]): boolean {
+    const name = task.toLowerCase();
+    return skills.some((skill) => skill.includes(name) || name.includes(skill));
+  }
+
+  private toTarget(intervention: Intervention): StaffingTarget {
+    return {
+      siteId: intervention.siteId,
+      contractId: intervention.contractId,
+      date: this.formatDate(intervention.scheduledDate),
+      startTime: intervention.scheduledStartTime.slice(0, 5),
+      endTime: intervention.scheduledEndTime.slice(0, 5),
+      interventionId: intervention.id,
+    };
+  }
+
+  private parseDate(value: string): Date {
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  // Date columns come back as YYYY-MM-DD strings
+  private formatDate(value: Date | string): string {
+    if (typeof value === 'string') return value.slice(0, 10);
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+}
@@ -0,0 +1,191 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { InterventionStateMachineService } from './intervention-state-machine.service';
+import { Intervention } from './entities/intervention.entity';
+import { InterventionStatusHistory } from './entities/intervention-status-history.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { InterventionStatus, InterventionTransition } from '../../shared/types/intervention.types';
+
+describe('InterventionStateMachineService', () => {
+  let stateMachine: InterventionStateMachineService;
+  const historyRepository = {
+    create: jest.fn((entry: Partial<InterventionStatusHistory>) => entry),
+    save: jest.fn(async (entry: InterventionStatusHistory) => entry),
+  };
+
+  const buildIntervention = (overrides: Partial<Intervention> = {}): Intervention =>
+    Object.assign(new Intervention(), {
+      id: 'intervention-1',
+      status: InterventionStatus.SCHEDULED,
+      gpsCheckOutLat: null,
+      gpsCheckOutLng: null,
+      signedOffAt: null,
+      contract: Object.assign(new Contract(), { requiresClientSignOff: false }),
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InterventionStateMachineService,
+        { provide: getRepositoryToken(InterventionStatusHistory), useValue: historyRepository },
+      ],
+    }).compile();
+
+    stateMachine = moduleRef.get(InterventionStateMachineService);
+  });
+
+  describe('getAvailableTransitions', () => {
+    it('offers start, check-in, cancel and reschedule to a scheduled intervention', () => {
+      expect(stateMachine.getAvailableTransitions(InterventionStatus.SCHEDULED)).toEqual([
+        InterventionTransition.START,
+        InterventionTransition.CHECK_IN,
+        InterventionTransition.CANCEL,
+        InterventionTransition.RESCHEDULE,
+      ]);
+    });
+
+    it('offers complete and cancel to an intervention in progress', () => {
+      expect(stateMachine.getAvailableTransitions(InterventionStatus.IN_PROGRESS)).toEqual([
+        InterventionTransition.COMPLETE,
+        InterventionTransition.CANCEL,
+      ]);
+    });
+
+    it('offers nothing once completed or cancelled', () => {
+      expect(stateMachine.getAvailableTransitions(InterventionStatus.COMPLETED)).toEqual([]);
+      expect(stateMachine.getAvailableTransitions(InterventionStatus.CANCELLED)).toEqual([]);
+    });
+  });
+
+  describe('apply', () => {
+    it('moves the intervention and returns the history row of the move', () => {
+      const intervention = buildIntervention({ status: InterventionStatus.RESCHEDULED });
+
+      const entry = stateMachine.apply(intervention, InterventionTransition.START, {
+        actorId: 'user-1',
+        reason: '  On site early  ',
+      });
+
+      expect(intervention.status).toBe(InterventionStatus.IN_PROGRESS);
+      expect(entry).toMatchObject({
+        interventionId: 'intervention-1',
+        transition: InterventionTransition.START,
+        fromStatus: InterventionStatus.RESCHEDULED,
+        toStatus: InterventionStatus.IN_PROGRESS,
+        actorId: 'user-1',
+        reason: 'On site early',
+      });
+      expect(historyRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses a move from a status the transition does not start from', () => {
+      const intervention = buildIntervention({ status: InterventionStatus.COMPLETED });
+
+      expect(() => stateMachine.apply(intervention, InterventionTransition.START)).toThrow(
+        new BadRequestException('Only scheduled or rescheduled interventions can be started'),
+      );
+      expect(intervention.status).toBe(InterventionStatus.COMPLETED);
+    });
+
+    it('refuses to complete an intervention that is not in progress', () => {
+      expect(() =>
+        stateMachine.apply(buildIntervention(), InterventionTransition.COMPLETE),
+      ).toThrow('Only in-progress interventions can be completed');
+    });
+
+    it('requires a GPS position to check in', () => {
+      const intervention = buildIntervention();
+
+      expect(() =>
+        stateMachine.apply(intervention, InterventionTransition.CHECK_IN, { latitude: 36.8 }),
+      ).toThrow('A GPS position is required to check in');
+      expect(intervention.status).toBe(InterventionStatus.SCHEDULED);
+    });
+
+    describe('COMPLETE', () => {
+      it('requires the GPS checkout', () => {
+        const intervention = buildIntervention({ status: InterventionStatus.IN_PROGRESS });
+
+        expect(() => stateMachine.apply(intervention, InterventionTransition.COMPLETE)).toThrow(
+          'GPS checkout is required to complete intervention',
+        );
+        expect(intervention.status).toBe(InterventionStatus.IN_PROGRESS);
+      });
+
+      it('requires the client sign-off when the contract asks for it', () => {
+        const intervention = buildIntervention({
+          status: InterventionStatus.IN_PROGRESS,
+          gpsCheckOutLat: 36.8,
+          gpsCheckOutLng: 10.18,
+          contract: Object.assign(new Contract(), { requiresClientSignOff: true }),
+        });
+
+        expect(() => stateMachine.apply(intervention, InterventionTransition.COMPLETE)).toThrow(
+          'The contract requires the client sign-off to complete intervention',
+        );
+
+        intervention.signedOffAt = new Date();
+        stateMachine.apply(intervention, InterventionTransition.COMPLETE);
+        expect(intervention.status).toBe(InterventionStatus.COMPLETED);
+      });
+
+      it('completes after the GPS checkout when no sign-off is required', () => {
+        const intervention = buildIntervention({
+          status: InterventionStatus.IN_PROGRESS,
+          gpsCheckOutLat: 36.8,
+          gpsCheckOutLng: 10.18,
+        });
+
+        const entry = stateMachine.apply(intervention, InterventionTransition.COMPLETE);
+
+        expect(intervention.status).toBe(InterventionStatus.COMPLETED);
+        expect(entry.toStatus).toBe(InterventionStatus.COMPLETED);
+      });
+    });
+
+    describe('CANCEL', () => {
+      it('cancels a scheduled intervention without a reason', () => {
+        const intervention = buildIntervention();
+
+        const entry = stateMachine.apply(intervention, InterventionTransition.CANCEL);
+
+        expect(intervention.status).toBe(InterventionStatus.CANCELLED);
+        expect(entry.reason).toBeNull();
+      });
+
+      it('requires a reason once the intervention is in progress', () => {
+        const intervention = buildIntervention({ status: InterventionStatus.IN_PROGRESS });
+
+        expect(() =>
+          stateMachine.apply(intervention, InterventionTransition.CANCEL, { reason: '   ' }),
+        ).toThrow('A reason is required to cancel an intervention in progress');
+
+        stateMachine.apply(intervention, InterventionTransition.CANCEL, { reason: 'Site closed' });
+        expect(intervention.status).toBe(InterventionStatus.CANCELLED);
+      });
+
+      it('refuses to cancel a completed or cancelled intervention', () => {
+        for (const status of [InterventionStatus.COMPLETED, InterventionStatus.CANCELLED]) {
+          expect(() =>
+            stateMachine.apply(buildIntervention({ status }), InterventionTransition.CANCEL, {
+              reason: 'Too late',
+            }),
+          ).toThrow('Only scheduled, rescheduled or in-progress interventions can be cancelled');
+        }
+      });
+    });
+  });
+
+  describe('record', () => {
+    it('saves the history row', async () => {
+      const entry = stateMachine.apply(buildIntervention(), InterventionTransition.RESCHEDULE);
+
+      await stateMachine.record(entry);
+
+      expect(historyRepository.save).toHaveBeenCalledWith(entry);
+    });
+  });
+});
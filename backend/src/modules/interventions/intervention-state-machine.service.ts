@@ -0,0 +1,163 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Intervention } from './entities/intervention.entity';
+import { InterventionStatusHistory } from './entities/intervention-status-history.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  InterventionStatus,
+  InterventionTransition,
+  TransitionContext,
+} from '../../shared/types/intervention.types';
+
+interface TransitionRule {
+  from: InterventionStatus[];
+  to: InterventionStatus;
+  verb: string; // "Only scheduled interventions can be <verb>"
+  // Condition of the move besides the current status, returns why it is refused
+  check?: (intervention: Intervention, context: TransitionContext) => string | null;
+}
+
+/**
+ * Allowed status moves of an intervention
+ * COMPLETED and CANCELLED are final
+ */
+const INTERVENTION_TRANSITIONS: Record<InterventionTransition, TransitionRule> = {
+  [InterventionTransition.START]: {
+    from: [InterventionStatus.SCHEDULED, InterventionStatus.RESCHEDULED],
+    to: InterventionStatus.IN_PROGRESS,
+    verb: 'started',
+  },
+  [InterventionTransition.CHECK_IN]: {
+    from: [InterventionStatus.SCHEDULED, InterventionStatus.RESCHEDULED],
+    to: InterventionStatus.IN_PROGRESS,
+    verb: 'checked in to',
+    check: (_intervention, context) =>
+      context.latitude == null || context.longitude == null
+        ? 'A GPS position is required to check in'
+        : null,
+  },
+  [InterventionTransition.COMPLETE]: {
+    from: [InterventionStatus.IN_PROGRESS],
+    to: InterventionStatus.COMPLETED,
+    verb: 'completed',
+    check: (intervention) => {
+      if (!intervention.gpsCheckOutLat || !intervention.gpsCheckOutLng) {
+        return 'GPS checkout is required to complete intervention';
+      }
+      if (intervention.contract?.requiresClientSignOff && !intervention.signedOffAt) {
+        return 'The contract requires the client sign-off to complete intervention';
+      }
+      return null;
+    },
+  },
+  [InterventionTransition.CANCEL]: {
+    from: [
+      InterventionStatus.SCHEDULED,
+      InterventionStatus.RESCHEDULED,
+      InterventionStatus.IN_PROGRESS,
+    ],
+    to: InterventionStatus.CANCELLED,
+    verb: 'cancelled',
+    check: (intervention, context) =>
+      intervention.status === InterventionStatus.IN_PROGRESS && !context.reason?.trim()
+        ? 'A reason is required to cancel an intervention in progress'
+        : null,
+  },
+  [InterventionTransition.RESCHEDULE]: {
+    from: [InterventionStatus.SCHEDULED, InterventionStatus.RESCHEDULED],
+    to: InterventionStatus.RESCHEDULED,
+    verb: 'rescheduled',
+  },
+};
+
+/**
+ * Intervention lifecycle: the only place statuses change, every move is written to the history
+ */
+@Injectable()
+export class InterventionStateMachineService {
+  constructor(
+    @InjectRepository(InterventionStatusHistory)
+    private readonly historyRepository: Repository<InterventionStatusHistory>,
+  ) {}
+
+  /**
+   * Transitions allowed from a status (rules depending on the context are not checked)
+   */
+  getAvailableTransitions(status: InterventionStatus): InterventionTransition[] {
+    return (Object.keys(INTERVENTION_TRANSITIONS) as InterventionTransition[]).filter(
+      (transition) => INTERVENTION_TRANSITIONS[transition].from.includes(status),
+    );
+  }
+
+  /**
+   * Move an intervention to the status of a transition
+   * The returned history row is saved with record() once the intervention is saved
+   * @throws BadRequestException when the move is not allowed or its rule refuses it
+   */
+  apply(
+    intervention: Intervention,
+    transition: InterventionTransition,
+    context: TransitionContext = {},
+  ): InterventionStatusHistory {
+    const rule = INTERVENTION_TRANSITIONS[transition];
+
+    if (!rule.from.includes(intervention.status)) {
+      throw new BadRequestException(
+        `Only ${this.describeStatuses(rule.from)} interventions can be ${rule.verb}`,
+      );
+    }
+
+    const refusal = rule.check?.(intervention, context);
+    if (refusal) {
+      throw new BadRequestException(refusal);
+    }
+
+    const entry = this.historyRepository.create({
+      interventionId: intervention.id,
+      transition,
+      fromStatus: intervention.status,
+      toStatus: rule.to,
+      actorId: context.actorId ?? null,
+      reason: context.reason?.trim() || null,
+      latitude: context.latitude ?? null,
+      longitude: context.longitude ?? null,
+    });
+    intervention.status = rule.to;
+
+    return entry;
+  }
+
+  async record(entry: InterventionStatusHistory): Promise<InterventionStatusHistory> {
+    return this.historyRepository.save(entry);
+  }
+
+  /**
+   * Status timeline of an intervention, oldest first
+   */
+  async getHistory(interventionId: string): Promise<InterventionStatusHistory[]> {
+    const history = await this.historyRepository.find({
+      where: { interventionId },
+      relations: ['actor'],
+      order: { createdAt: 'ASC' },
+    });
+
+    // Only the name and role of the actor are returned
+    for (const entry of history) {
+      if (entry.actor) {
+        const { id, firstName, lastName, role } = entry.actor;
+        entry.actor = { id, firstName, lastName, role } as User;
+      }
+    }
+
+    return history;
+  }
+
+  // "scheduled or rescheduled", "in-progress"
+  private describeStatuses(statuses: InterventionStatus[]): string {
+    const names = statuses.map((status) => status.toLowerCase().replace('_', '-'));
+    return names.length > 1
+      ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+      : names[0];
+  }
+}
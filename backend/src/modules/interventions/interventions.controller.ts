@@ -8,24 +8,42 @@ import {
   Delete,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { InterventionsService } from './interventions.service';
+import { InterventionConflictsService } from './intervention-conflicts.service';
+import { InterventionAssignmentsService } from './intervention-assignments.service';
+import { AgentAvailabilityService } from './agent-availability.service';
+import { InterventionStaffingService } from './intervention-staffing.service';
 import {
   CreateInterventionDto,
   UpdateInterventionDto,
   GpsCheckInDto,
   GpsCheckOutDto,
   RescheduleInterventionDto,
+  UpdateAssignmentDto,
+  AutoAssignDto,
+  InterventionTransitionDto,
+  ClientSignOffDto,
 } from './dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UserRole } from '../../shared/types/user.types';
 
 @Controller('interventions')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class InterventionsController {
-  constructor(private readonly interventionsService: InterventionsService) {}
+  constructor(
+    private readonly interventionsService: InterventionsService,
+    private readonly conflictsService: InterventionConflictsService,
+    private readonly assignmentsService: InterventionAssignmentsService,
+    private readonly availabilityService: AgentAvailabilityService,
+    private readonly staffingService: InterventionStaffingService,
+  ) {}
 
   /**
    * Create a new intervention
@@ -54,6 +72,8 @@ export class InterventionsController {
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
     @Query('clientId') clientId?: string,
+    @Query('outOfZone') outOfZone?: string,
+    @Query('agentId') agentId?: string,
   ) {
     return this.interventionsService.findAll(
       page ? parseInt(page) : 1,
@@ -64,6 +84,8 @@ export class InterventionsController {
       startDate,
       endDate,
       clientId,
+      outOfZone === 'true',
+      agentId,
     );
   }
 
@@ -79,6 +101,68 @@ export class InterventionsController {
     return this.interventionsService.getCalendar(startDate, endDate);
   }
 
+  /**
+   * List agent double-bookings and site overlaps in a date range
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get('conflicts')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  getConflicts(@Query('startDate') startDate: string, @Query('endDate') endDate: string) {
+    return this.conflictsService.findConflicts(startDate, endDate);
+  }
+
+  /**
+   * Availability of agents for a slot (absences, status, preferences, weekly hours)
+   * agentIds is a comma-separated list, every agent is checked without it
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get('availability')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  getAvailability(
+    @Query('date') date: string,
+    @Query('startTime') startTime: string,
+    @Query('endTime') endTime: string,
+    @Query('interventionId') interventionId?: string,
+    @Query('agentIds') agentIds?: string,
+  ) {
+    return this.availabilityService.checkAgents(
+      { date, startTime, endTime, interventionId },
+      agentIds ? agentIds.split(',').filter(Boolean) : undefined,
+    );
+  }
+
+  /**
+   * Agents ranked for a slot (zone, availability, skills, preferences, quality, workload)
+   * Used while creating an intervention, see GET :id/suggestions for an existing one
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get('suggestions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  getSuggestions(
+    @Query('siteId') siteId: string,
+    @Query('date') date: string,
+    @Query('startTime') startTime: string,
+    @Query('endTime') endTime: string,
+    @Query('contractId') contractId?: string,
+    @Query('interventionId') interventionId?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.staffingService.suggestAgents(
+      { siteId, contractId, date, startTime, endTime, interventionId },
+      limit ? parseInt(limit, 10) : undefined,
+    );
+  }
+
+  /**
+   * Staff the generated interventions of a week that have no agent yet
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Post('auto-assign')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  autoAssign(@Body() autoAssignDto: AutoAssignDto) {
+    return this.staffingService.autoAssignWeek(autoAssignDto);
+  }
+
   /**
    * Get a single intervention by ID
    * Access: All roles
@@ -120,8 +204,12 @@ export class InterventionsController {
    */
   @Post(':id/start')
   @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
-  start(@Param('id') id: string) {
-    return this.interventionsService.start(id);
+  start(
+    @Param('id') id: string,
+    @Body() transitionDto: InterventionTransitionDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.interventionsService.start(id, transitionDto, userId);
   }
 
   /**
@@ -130,12 +218,42 @@ export class InterventionsController {
    */
   @Post(':id/complete')
   @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
-  complete(@Param('id') id: string) {
-    return this.interventionsService.complete(id);
+  complete(
+    @Param('id') id: string,
+    @Body() transitionDto: InterventionTransitionDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.interventionsService.complete(id, transitionDto, userId);
+  }
+
+  /**
+   * Client sign-off: contact name, comments and drawn signature (multipart "file")
+   * Access: ZONE_CHIEF, TEAM_CHIEF, AGENT
+   */
+  @Post(':id/sign-off')
+  @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
+  @UseInterceptors(FileInterceptor('file'))
+  signOff(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() signOffDto: ClientSignOffDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.interventionsService.signOff(id, file, signOffDto, userId);
+  }
+
+  /**
+   * Check a completed intervention against its completion hash
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get(':id/verify')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  verifyCompletion(@Param('id') id: string) {
+    return this.interventionsService.verifyCompletion(id);
   }
 
   /**
-   * Cancel an intervention
+   * Cancel an intervention (a reason is required once in progress)
    * Access: SUPER_ADMIN, DIRECTOR, SECTOR_CHIEF, ZONE_CHIEF, TEAM_CHIEF
    */
   @Post(':id/cancel')
@@ -143,8 +261,12 @@ export class InterventionsController {
     UserRole.SUPER_ADMIN,
     UserRole.SUPERVISOR,
   )
-  cancel(@Param('id') id: string) {
-    return this.interventionsService.cancel(id);
+  cancel(
+    @Param('id') id: string,
+    @Body() transitionDto: InterventionTransitionDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.interventionsService.cancel(id, transitionDto, userId);
   }
 
   /**
@@ -159,8 +281,18 @@ export class InterventionsController {
   reschedule(
     @Param('id') id: string,
     @Body() rescheduleDto: RescheduleInterventionDto,
+    @CurrentUser('id') userId: string,
   ) {
-    return this.interventionsService.reschedule(id, rescheduleDto);
+    return this.interventionsService.reschedule(id, rescheduleDto, userId);
+  }
+
+  /**
+   * Status history of an intervention (who, when, why, where), oldest first
+   * Access: All roles
+   */
+  @Get(':id/history')
+  getHistory(@Param('id') id: string) {
+    return this.interventionsService.getHistory(id);
   }
 
   /**
@@ -169,8 +301,12 @@ export class InterventionsController {
    */
   @Post(':id/checkin')
   @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
-  checkIn(@Param('id') id: string, @Body() gpsDto: GpsCheckInDto) {
-    return this.interventionsService.checkIn(id, gpsDto);
+  checkIn(
+    @Param('id') id: string,
+    @Body() gpsDto: GpsCheckInDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.interventionsService.checkIn(id, gpsDto, userId);
   }
 
   /**
@@ -179,17 +315,83 @@ export class InterventionsController {
    */
   @Post(':id/checkout')
   @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
-  checkOut(@Param('id') id: string, @Body() gpsDto: GpsCheckOutDto) {
-    return this.interventionsService.checkOut(id, gpsDto);
+  checkOut(
+    @Param('id') id: string,
+    @Body() gpsDto: GpsCheckOutDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.interventionsService.checkOut(id, gpsDto, userId);
+  }
+
+  /**
+   * Agents ranked for an intervention, best first
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Get(':id/suggestions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  getInterventionSuggestions(@Param('id') id: string, @Query('limit') limit?: string) {
+    return this.staffingService.suggestForIntervention(id, limit ? parseInt(limit, 10) : undefined);
+  }
+
+  /**
+   * Get the team of an intervention with each person's attendance
+   * Access: All roles
+   */
+  @Get(':id/assignments')
+  getAssignments(@Param('id') id: string) {
+    return this.assignmentsService.findByIntervention(id);
+  }
+
+  /**
+   * Record my own arrival on an intervention
+   * Access: SUPERVISOR, AGENT
+   */
+  @Post(':id/assignments/me/checkin')
+  @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
+  checkInAssignment(@Param('id') id: string, @CurrentUser('id') userId: string) {
+    return this.interventionsService.checkInAssignment(id, userId);
   }
 
   /**
-   * Add a photo to an intervention
+   * Record my own departure from an intervention
+   * Access: SUPERVISOR, AGENT
+   */
+  @Post(':id/assignments/me/checkout')
+  @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
+  checkOutAssignment(@Param('id') id: string, @CurrentUser('id') userId: string) {
+    return this.interventionsService.checkOutAssignment(id, userId);
+  }
+
+  /**
+   * Correct a person's attendance (times, no-show)
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR
+   */
+  @Patch(':id/assignments/:assignmentId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  updateAssignment(
+    @Param('id') id: string,
+    @Param('assignmentId') assignmentId: string,
+    @Body() updateAssignmentDto: UpdateAssignmentDto,
+  ) {
+    return this.assignmentsService.update(id, assignmentId, updateAssignmentDto);
+  }
+
+  /**
+   * Add a photo to an intervention, uploaded as multipart "file" or given as a photoUrl
    * Access: ZONE_CHIEF, TEAM_CHIEF, AGENT
    */
   @Post(':id/photos')
   @Roles(UserRole.SUPERVISOR, UserRole.AGENT)
-  addPhoto(@Param('id') id: string, @Body('photoUrl') photoUrl: string) {
+  @UseInterceptors(FileInterceptor('file'))
+  addPhoto(
+    @Param('id') id: string,
+    @Body('photoUrl') photoUrl: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser('id') userId: string,
+  ) {
+    if (file || !photoUrl) {
+      return this.interventionsService.uploadPhoto(id, file, userId);
+    }
     return this.interventionsService.addPhoto(id, photoUrl);
   }
 }
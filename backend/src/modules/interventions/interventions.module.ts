@@ -1,18 +1,59 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { InterventionsService } from './interventions.service';
+import { InterventionConflictsService } from './intervention-conflicts.service';
+import { InterventionAssignmentsService } from './intervention-assignments.service';
+import { AgentAvailabilityService } from './agent-availability.service';
+import { InterventionStaffingService } from './intervention-staffing.service';
+import { InterventionStateMachineService } from './intervention-state-machine.service';
 import { InterventionsController } from './interventions.controller';
 import { Intervention } from './entities/intervention.entity';
+import { InterventionAssignment } from './entities/intervention-assignment.entity';
+import { InterventionStatusHistory } from './entities/intervention-status-history.entity';
 import { Contract } from '../contracts/entities/contract.entity';
 import { Site } from '../sites/entities/site.entity';
 import { User } from '../users/entities/user.entity';
+import { Absence } from '../absences/entities/absence.entity';
+import { Attendance } from '../attendance/entities/attendance.entity';
+import { AgentZoneAssignment } from '../zones/entities/agent-zone-assignment.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { Schedule } from '../schedules/entities/schedule.entity';
+import { NumberingModule } from '../numbering/numbering.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Intervention, Contract, Site, User]),
+    TypeOrmModule.forFeature([
+      Intervention,
+      InterventionAssignment,
+      InterventionStatusHistory,
+      Contract,
+      Site,
+      User,
+      Absence,
+      Attendance,
+      AgentZoneAssignment,
+      SiteAssignment,
+      Schedule,
+    ]),
+    NumberingModule,
+    StorageModule,
   ],
   controllers: [InterventionsController],
-  providers: [InterventionsService],
-  exports: [InterventionsService],
+  providers: [
+    InterventionsService,
+    InterventionConflictsService,
+    InterventionAssignmentsService,
+    AgentAvailabilityService,
+    InterventionStaffingService,
+    InterventionStateMachineService,
+  ],
+  exports: [
+    InterventionsService,
+    InterventionConflictsService,
+    InterventionAssignmentsService,
+    AgentAvailabilityService,
+    InterventionStateMachineService,
+  ],
 })
 export class InterventionsModule {}
@@ -4,21 +4,42 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { Repository, Between, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
 import { Intervention } from './entities/intervention.entity';
+import { InterventionAssignment } from './entities/intervention-assignment.entity';
 import { Contract } from '../contracts/entities/contract.entity';
 import { Site } from '../sites/entities/site.entity';
 import { User } from '../users/entities/user.entity';
+import { InterventionConflictsService } from './intervention-conflicts.service';
+import { InterventionAssignmentsService } from './intervention-assignments.service';
+import { AgentAvailabilityService } from './agent-availability.service';
+import { InterventionStateMachineService } from './intervention-state-machine.service';
+import { InterventionStatusHistory } from './entities/intervention-status-history.entity';
 import {
   CreateInterventionDto,
   UpdateInterventionDto,
   GpsCheckInDto,
   GpsCheckOutDto,
   RescheduleInterventionDto,
+  InterventionTransitionDto,
+  ClientSignOffDto,
 } from './dto';
-import { InterventionStatus } from '../../shared/types/intervention.types';
+import {
+  InterventionStatus,
+  InterventionTransition,
+  AssignmentRole,
+  AssignmentStatus,
+  CompletionVerification,
+} from '../../shared/types/intervention.types';
 import { ContractStatus } from '../../shared/types/contract.types';
 import { UserRole } from '../../shared/types/user.types';
+import { distanceInMeters } from '../../shared/utils';
+import { NumberingService } from '../numbering/numbering.service';
+import { NumberedEntity } from '../../shared/types/numbering.types';
+import { StorageService } from '../storage/storage.service';
+import { StoredFileOwner } from '../../shared/types/storage.types';
 
 @Injectable()
 export class InterventionsService {
@@ -31,29 +52,15 @@ export class InterventionsService {
     private readonly siteRepository: Repository<Site>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    private readonly configService: ConfigService,
+    private readonly conflictsService: InterventionConflictsService,
+    private readonly assignmentsService: InterventionAssignmentsService,
+    private readonly availabilityService: AgentAvailabilityService,
+    private readonly stateMachine: InterventionStateMachineService,
+    private readonly numberingService: NumberingService,
+    private readonly storageService: StorageService,
   ) {}
 
-  /**
-   * Generate unique intervention code (INT-0001, INT-0002, etc.)
-   */
-  private async generateInterventionCode(): Promise<string> {
-    const lastIntervention = await this.interventionRepository.findOne({
-      where: {},
-      order: { createdAt: 'DESC' },
-      withDeleted: true,
-    });
-
-    let nextNumber = 1;
-    if (lastIntervention && lastIntervention.interventionCode) {
-      const match = lastIntervention.interventionCode.match(/INT-(\d+)/);
-      if (match) {
-        nextNumber = parseInt(match[1], 10) + 1;
-      }
-    }
-
-    return `INT-${nextNumber.toString().padStart(4, '0')}`;
-  }
-
   /**
    * Validate contract and site
    */
@@ -232,17 +239,33 @@ export class InterventionsService {
       createInterventionDto.assignedTeamChiefId,
     );
 
+    // Check agent and site availability
+    const { force, assignedAgentIds, ...interventionData } = createInterventionDto;
+    await this.availabilityService.assertBookable(
+      {
+        date: interventionData.scheduledDate.slice(0, 10),
+        startTime: interventionData.scheduledStartTime,
+        endTime: interventionData.scheduledEndTime,
+        siteId: interventionData.siteId,
+        agentIds: assignedAgentIds,
+      },
+      force,
+    );
+
     // Generate intervention code
-    const interventionCode = await this.generateInterventionCode();
+    const interventionCode = await this.numberingService.next(NumberedEntity.INTERVENTION);
 
     // Create intervention
     const intervention = this.interventionRepository.create({
-      ...createInterventionDto,
+      ...interventionData,
       interventionCode,
       status: InterventionStatus.SCHEDULED,
     });
 
-    return await this.interventionRepository.save(intervention);
+    const saved = await this.interventionRepository.save(intervention);
+    await this.assignmentsService.setTeam(saved.id, assignedAgentIds, saved.assignedTeamChiefId);
+
+    return this.findOne(saved.id);
   }
 
   /**
@@ -257,13 +280,27 @@ export class InterventionsService {
     startDate?: string,
     endDate?: string,
     clientId?: string,
+    outOfZone?: boolean,
+    agentId?: string,
   ): Promise<{ data: Intervention[]; total: number; page: number; limit: number }> {
     const queryBuilder = this.interventionRepository.createQueryBuilder('intervention');
     queryBuilder
       .leftJoinAndSelect('intervention.contract', 'contract')
       .leftJoinAndSelect('intervention.site', 'site')
       .leftJoinAndSelect('intervention.zoneChief', 'zoneChief')
-      .leftJoinAndSelect('intervention.teamChief', 'teamChief');
+      .leftJoinAndSelect('intervention.teamChief', 'teamChief')
+      .leftJoinAndSelect('intervention.assignments', 'assignments')
+      .leftJoinAndSelect('assignments.user', 'assignmentUser');
+
+    // Interventions the person is assigned to (as team chief or agent)
+    if (agentId) {
+      queryBuilder.innerJoin(
+        'intervention.assignments',
+        'agentAssignment',
+        'agentAssignment.userId = :agentId',
+        { agentId },
+      );
+    }
 
     if (clientId) {
       queryBuilder.where('contract.clientId = :clientId', { clientId });
@@ -284,6 +321,11 @@ export class InterventionsService {
     } else if (endDate) {
       queryBuilder.andWhere('intervention.scheduledDate <= :endDate', { endDate });
     }
+    if (outOfZone) {
+      queryBuilder.andWhere(
+        '(intervention.checkInOutOfZone = true OR intervention.checkOutOutOfZone = true)',
+      );
+    }
     
     queryBuilder
       .orderBy('intervention.scheduledDate', 'DESC')
@@ -304,7 +346,7 @@ export class InterventionsService {
       where: {
         scheduledDate: Between(new Date(startDate), new Date(endDate)),
       },
-      relations: ['contract', 'site', 'zoneChief', 'teamChief'],
+      relations: ['contract', 'site', 'zoneChief', 'teamChief', 'assignments', 'assignments.user'],
       order: { scheduledDate: 'ASC', scheduledStartTime: 'ASC' },
     });
   }
@@ -315,7 +357,7 @@ export class InterventionsService {
   async findOne(id: string): Promise<Intervention> {
     const intervention = await this.interventionRepository.findOne({
       where: { id },
-      relations: ['contract', 'site', 'zoneChief', 'teamChief'],
+      relations: ['contract', 'site', 'zoneChief', 'teamChief', 'assignments', 'assignments.user'],
     });
 
     if (!intervention) {
@@ -367,8 +409,52 @@ export class InterventionsService {
       );
     }
 
-    Object.assign(intervention, updateInterventionDto);
-    return await this.interventionRepository.save(intervention);
+    // Check agent and site availability when the slot or the team changes
+    const { force, assignedAgentIds, ...changes } = updateInterventionDto;
+    const scheduledDate = changes.scheduledDate ?? this.formatDate(intervention.scheduledDate);
+    const slotChanged = !!(
+      changes.scheduledDate ||
+      changes.scheduledStartTime ||
+      changes.scheduledEndTime ||
+      assignedAgentIds
+    );
+    if (slotChanged) {
+      await this.availabilityService.assertBookable(
+        {
+          date: scheduledDate.slice(0, 10),
+          startTime: changes.scheduledStartTime ?? intervention.scheduledStartTime,
+          endTime: changes.scheduledEndTime ?? intervention.scheduledEndTime,
+          siteId: intervention.siteId,
+          agentIds: assignedAgentIds ?? this.getAgentIds(intervention),
+          interventionId: intervention.id,
+        },
+        force,
+      );
+    }
+
+    Object.assign(intervention, changes);
+
+    // Schedule edits no longer overwrite it (see SchedulesService.updateAndPropagate)
+    if (
+      slotChanged ||
+      changes.assignedZoneChiefId !== undefined ||
+      changes.assignedTeamChiefId !== undefined
+    ) {
+      intervention.manuallyEditedAt = new Date();
+    }
+
+    const agentIds = assignedAgentIds ?? this.getAgentIds(intervention);
+    await this.interventionRepository.save(intervention);
+
+    if (assignedAgentIds || changes.assignedTeamChiefId !== undefined) {
+      await this.assignmentsService.setTeam(
+        intervention.id,
+        agentIds,
+        intervention.assignedTeamChiefId,
+      );
+    }
+
+    return this.findOne(id);
   }
 
   /**
@@ -389,63 +475,141 @@ export class InterventionsService {
   /**
    * Start an intervention (change status to IN_PROGRESS)
    */
-  async start(id: string): Promise<Intervention> {
+  async start(
+    id: string,
+    transitionDto: InterventionTransitionDto = {},
+    userId?: string,
+  ): Promise<Intervention> {
     const intervention = await this.findOne(id);
+    const entry = this.stateMachine.apply(intervention, InterventionTransition.START, {
+      ...transitionDto,
+      actorId: userId,
+    });
 
-    if (intervention.status !== InterventionStatus.SCHEDULED) {
-      throw new BadRequestException(
-        'Only scheduled interventions can be started',
-      );
-    }
-
-    intervention.status = InterventionStatus.IN_PROGRESS;
     intervention.actualStartTime = new Date();
 
-    return await this.interventionRepository.save(intervention);
+    await this.interventionRepository.save(intervention);
+    await this.stateMachine.record(entry);
+
+    return this.findOne(id);
   }
 
   /**
    * Complete an intervention (change status to COMPLETED)
    */
-  async complete(id: string): Promise<Intervention> {
+  async complete(
+    id: string,
+    transitionDto: InterventionTransitionDto = {},
+    userId?: string,
+  ): Promise<Intervention> {
+    const intervention = await this.findOne(id);
+    const entry = this.stateMachine.apply(intervention, InterventionTransition.COMPLETE, {
+      ...transitionDto,
+      actorId: userId,
+    });
+
+    intervention.actualEndTime = new Date();
+
+    await this.interventionRepository.save(intervention);
+    await this.stateMachine.record(entry);
+    await this.assignmentsService.checkOutAll(intervention.id, intervention.actualEndTime);
+
+    // Hashed as read back, so that a later verification reads the same values
+    const completed = await this.findOne(id);
+    completed.completionHash = await this.computeCompletionHash(completed);
+    await this.interventionRepository.update(id, { completionHash: completed.completionHash });
+
+    return completed;
+  }
+
+  /**
+   * Record the acknowledgement of the client contact on site, with their drawn signature
+   * Collected before completion so that it is covered by the completion hash
+   */
+  async signOff(
+    id: string,
+    file: Express.Multer.File,
+    signOffDto: ClientSignOffDto,
+    userId: string,
+  ): Promise<Intervention> {
     const intervention = await this.findOne(id);
 
     if (intervention.status !== InterventionStatus.IN_PROGRESS) {
-      throw new BadRequestException(
-        'Only in-progress interventions can be completed',
-      );
+      throw new BadRequestException('The client can only sign off in-progress interventions');
     }
-
-    // Validate GPS checkout
-    if (!intervention.gpsCheckOutLat || !intervention.gpsCheckOutLng) {
-      throw new BadRequestException(
-        'GPS checkout is required to complete intervention',
-      );
+    if (intervention.signedOffAt) {
+      throw new BadRequestException('The client has already signed off this intervention');
     }
 
-    intervention.status = InterventionStatus.COMPLETED;
-    intervention.actualEndTime = new Date();
+    const storedFile = await this.storageService.upload(
+      file,
+      StoredFileOwner.INTERVENTION,
+      id,
+      userId,
+    );
 
-    return await this.interventionRepository.save(intervention);
+    intervention.signOffContactName = signOffDto.contactName.trim();
+    intervention.signOffSignatureUrl = this.storageService.toReference(storedFile);
+    intervention.signOffComments = signOffDto.comments?.trim() || null;
+    intervention.signedOffAt = new Date();
+    intervention.signedOffById = userId;
+
+    await this.interventionRepository.save(intervention);
+
+    return this.findOne(id);
   }
 
   /**
-   * Cancel an intervention
+   * Check a completed intervention against the hash taken at completion
+   * and its signature image against the checksum taken at upload
    */
-  async cancel(id: string): Promise<Intervention> {
+  async verifyCompletion(id: string): Promise<CompletionVerification> {
     const intervention = await this.findOne(id);
 
-    if (
-      intervention.status === InterventionStatus.COMPLETED ||
-      intervention.status === InterventionStatus.CANCELLED
-    ) {
-      throw new BadRequestException(
-        `Cannot cancel ${intervention.status.toLowerCase()} intervention`,
-      );
+    const computedHash =
+      intervention.status === InterventionStatus.COMPLETED
+        ? await this.computeCompletionHash(intervention)
+        : null;
+
+    let signatureIntact: boolean | null = null;
+    if (intervention.signOffSignatureUrl) {
+      const signature = await this.storageService.findByReference(intervention.signOffSignatureUrl);
+      signatureIntact = !!signature && (await this.storageService.matchesChecksum(signature));
     }
 
-    intervention.status = InterventionStatus.CANCELLED;
-    return await this.interventionRepository.save(intervention);
+    // The recomputed hash is not returned: it would be a valid hash for altered records
+    const hashIntact =
+      !!intervention.completionHash &&
+      !!computedHash &&
+      intervention.completionHash.length === computedHash.length &&
+      timingSafeEqual(Buffer.from(intervention.completionHash), Buffer.from(computedHash));
+
+    return {
+      interventionId: intervention.id,
+      completionHash: intervention.completionHash,
+      signatureIntact,
+      valid: hashIntact && signatureIntact !== false,
+    };
+  }
+
+  /**
+   * Cancel an intervention
+   */
+  async cancel(
+    id: string,
+    transitionDto: InterventionTransitionDto = {},
+    userId?: string,
+  ): Promise<Intervention> {
+    const intervention = await this.findOne(id);
+    const entry = this.stateMachine.apply(intervention, InterventionTransition.CANCEL, {
+      ...transitionDto,
+      actorId: userId,
+    });
+
+    await this.interventionRepository.save(intervention);
+    await this.stateMachine.record(entry);
+
+    return this.findOne(id);
   }
 
   /**
@@ -454,12 +618,13 @@ export class InterventionsService {
   async reschedule(
     id: string,
     rescheduleDto: RescheduleInterventionDto,
+    userId?: string,
   ): Promise<Intervention> {
     const intervention = await this.findOne(id);
-
-    if (intervention.status !== InterventionStatus.SCHEDULED) {
-      throw new BadRequestException('Only scheduled interventions can be rescheduled');
-    }
+    const entry = this.stateMachine.apply(intervention, InterventionTransition.RESCHEDULE, {
+      reason: rescheduleDto.reason,
+      actorId: userId,
+    });
 
     // Validate new times
     this.validateTimes(rescheduleDto.newStartTime, rescheduleDto.newEndTime);
@@ -471,40 +636,109 @@ export class InterventionsService {
       new Date(rescheduleDto.newDate),
     );
 
+    // Check agent and site availability on the new slot
+    await this.availabilityService.assertBookable(
+      {
+        date: rescheduleDto.newDate.slice(0, 10),
+        startTime: rescheduleDto.newStartTime,
+        endTime: rescheduleDto.newEndTime,
+        siteId: intervention.siteId,
+        agentIds: this.getAgentIds(intervention),
+        interventionId: intervention.id,
+      },
+      rescheduleDto.force,
+    );
+
     intervention.scheduledDate = new Date(rescheduleDto.newDate);
     intervention.scheduledStartTime = rescheduleDto.newStartTime;
     intervention.scheduledEndTime = rescheduleDto.newEndTime;
-    intervention.status = InterventionStatus.RESCHEDULED;
+    intervention.manuallyEditedAt = new Date();
 
-    return await this.interventionRepository.save(intervention);
+    await this.interventionRepository.save(intervention);
+    await this.stateMachine.record(entry);
+
+    return this.findOne(id);
   }
 
   /**
-   * GPS Check-in
+   * Status timeline of an intervention
    */
-  async checkIn(id: string, gpsDto: GpsCheckInDto): Promise<Intervention> {
-    const intervention = await this.findOne(id);
+  async getHistory(id: string): Promise<InterventionStatusHistory[]> {
+    await this.findOne(id);
+    return this.stateMachine.getHistory(id);
+  }
 
-    if (intervention.status !== InterventionStatus.SCHEDULED && 
-        intervention.status !== InterventionStatus.RESCHEDULED) {
+  /**
+   * Check a GPS position against the site geofence
+   * Sites without coordinates are not geofenced (distance is null)
+   */
+  private checkGeofence(
+    site: Site,
+    latitude: number,
+    longitude: number,
+  ): { distanceMeters: number | null; outOfZone: boolean } {
+    if (site.latitude === null || site.longitude === null) {
+      return { distanceMeters: null, outOfZone: false };
+    }
+
+    const distanceMeters = Math.round(
+      distanceInMeters(Number(site.latitude), Number(site.longitude), latitude, longitude),
+    );
+    const radius =
+      site.geofenceRadiusMeters ??
+      this.configService.get<number>('geofence.defaultRadiusMeters') ??
+      200;
+    const outOfZone = distanceMeters > radius;
+
+    if (outOfZone && this.configService.get<string>('geofence.enforcement') === 'reject') {
       throw new BadRequestException(
-        'Can only check in to scheduled interventions',
+        `You are ${distanceMeters} m from the site (allowed radius: ${radius} m)`,
       );
     }
 
+    return { distanceMeters, outOfZone };
+  }
+
+  /**
+   * GPS Check-in
+   * Also records the arrival of the person checking in, when assigned
+   */
+  async checkIn(id: string, gpsDto: GpsCheckInDto, userId?: string): Promise<Intervention> {
+    const intervention = await this.findOne(id);
+    const entry = this.stateMachine.apply(intervention, InterventionTransition.CHECK_IN, {
+      actorId: userId,
+      latitude: gpsDto.latitude,
+      longitude: gpsDto.longitude,
+    });
+
+    const geofence = this.checkGeofence(intervention.site, gpsDto.latitude, gpsDto.longitude);
+
     intervention.gpsCheckInLat = gpsDto.latitude;
     intervention.gpsCheckInLng = gpsDto.longitude;
     intervention.gpsCheckInTime = new Date();
-    intervention.status = InterventionStatus.IN_PROGRESS;
+    intervention.checkInDistanceMeters = geofence.distanceMeters;
+    intervention.checkInOutOfZone = geofence.outOfZone;
     intervention.actualStartTime = new Date();
 
-    return await this.interventionRepository.save(intervention);
+    await this.interventionRepository.save(intervention);
+    await this.stateMachine.record(entry);
+
+    const assignment = this.findAssignment(intervention, userId);
+    if (
+      assignment?.status === AssignmentStatus.ASSIGNED ||
+      assignment?.status === AssignmentStatus.NO_SHOW
+    ) {
+      await this.assignmentsService.checkIn(id, assignment.userId, intervention.gpsCheckInTime);
+    }
+
+    return this.findOne(id);
   }
 
   /**
    * GPS Check-out
+   * Also records the departure of the person checking out, when on site
    */
-  async checkOut(id: string, gpsDto: GpsCheckOutDto): Promise<Intervention> {
+  async checkOut(id: string, gpsDto: GpsCheckOutDto, userId?: string): Promise<Intervention> {
     const intervention = await this.findOne(id);
 
     if (intervention.status !== InterventionStatus.IN_PROGRESS) {
@@ -517,11 +751,52 @@ export class InterventionsService {
       throw new BadRequestException('Must check in before checking out');
     }
 
+    const geofence = this.checkGeofence(intervention.site, gpsDto.latitude, gpsDto.longitude);
+
     intervention.gpsCheckOutLat = gpsDto.latitude;
     intervention.gpsCheckOutLng = gpsDto.longitude;
     intervention.gpsCheckOutTime = new Date();
+    intervention.checkOutDistanceMeters = geofence.distanceMeters;
+    intervention.checkOutOutOfZone = geofence.outOfZone;
 
-    return await this.interventionRepository.save(intervention);
+    await this.interventionRepository.save(intervention);
+
+    const assignment = this.findAssignment(intervention, userId);
+    if (assignment?.status === AssignmentStatus.CHECKED_IN) {
+      await this.assignmentsService.checkOut(id, assignment.userId, intervention.gpsCheckOutTime);
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Record the arrival of an assigned person (e.g. an agent joining the team on site)
+   */
+  async checkInAssignment(id: string, userId: string): Promise<InterventionAssignment> {
+    const intervention = await this.findOne(id);
+
+    if (
+      intervention.status !== InterventionStatus.SCHEDULED &&
+      intervention.status !== InterventionStatus.RESCHEDULED &&
+      intervention.status !== InterventionStatus.IN_PROGRESS
+    ) {
+      throw new BadRequestException('Can only check in to scheduled or in-progress interventions');
+    }
+
+    return this.assignmentsService.checkIn(id, userId);
+  }
+
+  /**
+   * Record the departure of an assigned person
+   */
+  async checkOutAssignment(id: string, userId: string): Promise<InterventionAssignment> {
+    const intervention = await this.findOne(id);
+
+    if (intervention.status !== InterventionStatus.IN_PROGRESS) {
+      throw new BadRequestException('Can only check out from in-progress interventions');
+    }
+
+    return this.assignmentsService.checkOut(id, userId);
   }
 
   /**
@@ -537,4 +812,76 @@ export class InterventionsService {
     intervention.photoUrls.push(photoUrl);
     return await this.interventionRepository.save(intervention);
   }
+
+  /**
+   * Store an uploaded photo and add its /files/:id reference to the intervention
+   */
+  async uploadPhoto(id: string, file: Express.Multer.File, userId: string): Promise<Intervention> {
+    await this.findOne(id);
+    const storedFile = await this.storageService.upload(
+      file,
+      StoredFileOwner.INTERVENTION,
+      id,
+      userId,
+    );
+    return this.addPhoto(id, this.storageService.toReference(storedFile));
+  }
+
+  // HMAC-SHA256 of the completion data: times, GPS positions and client sign-off
+  // (with the checksum of the signature image), keyed so that edited records cannot be re-hashed
+  private async computeCompletionHash(intervention: Intervention): Promise<string> {
+    const signature = await this.storageService.findByReference(intervention.signOffSignatureUrl);
+    // Decimals come back as strings and timestamps as dates
+    const time = (value: Date | null) => (value ? new Date(value).toISOString() : null);
+    const coordinate = (value: number | string | null) =>
+      value === null ? null : Number(value).toFixed(7);
+
+    const data = [
+      intervention.id,
+      intervention.interventionCode,
+      intervention.siteId,
+      this.formatDate(intervention.scheduledDate),
+      time(intervention.actualStartTime),
+      time(intervention.actualEndTime),
+      coordinate(intervention.gpsCheckInLat),
+      coordinate(intervention.gpsCheckInLng),
+      time(intervention.gpsCheckInTime),
+      coordinate(intervention.gpsCheckOutLat),
+      coordinate(intervention.gpsCheckOutLng),
+      time(intervention.gpsCheckOutTime),
+      intervention.signOffContactName,
+      intervention.signOffComments,
+      time(intervention.signedOffAt),
+      intervention.signedOffById,
+      signature?.checksum ?? null,
+    ];
+
+    const secret =
+      this.configService.get<string>('interventions.completionSigningSecret') ||
+      this.configService.get<string>('jwt.secret') ||
+      '';
+    return createHmac('sha256', secret).update(JSON.stringify(data)).digest('hex');
+  }
+
+  private getAgentIds(intervention: Intervention): string[] {
+    return (intervention.assignments || [])
+      .filter((assignment) => assignment.role === AssignmentRole.AGENT)
+      .map((assignment) => assignment.userId);
+  }
+
+  private findAssignment(
+    intervention: Intervention,
+    userId?: string,
+  ): InterventionAssignment | undefined {
+    if (!userId) return undefined;
+    return (intervention.assignments || []).find((assignment) => assignment.userId === userId);
+  }
+
+  // Date columns come back as YYYY-MM-DD strings
+  private formatDate(value: Date | string): string {
+    if (typeof value === 'string') return value;
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
 }
@@ -0,0 +1,32 @@
+import { IsUUID, IsDateString, IsOptional, IsString, IsNotEmpty, IsArray } from 'class-validator';
+
+export class GenerateInvoiceDto {
+  @IsUUID()
+  @IsNotEmpty()
+  contractId: string;
+
+  @IsDateString()
+  @IsNotEmpty()
+  periodStart: string;
+
+  // Defaults to the end of the contract billing cycle
+  @IsDateString()
+  @IsOptional()
+  periodEnd?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class GenerateInvoicesBatchDto {
+  @IsDateString()
+  @IsNotEmpty()
+  periodStart: string;
+
+  // Defaults to every ACTIVE contract
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  contractIds?: string[];
+}
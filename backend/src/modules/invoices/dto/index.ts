@@ -0,0 +1,2 @@
+export { GenerateInvoiceDto, GenerateInvoicesBatchDto } from './generate-invoice.dto';
+export { UpdateInvoiceDto } from './update-invoice.dto';
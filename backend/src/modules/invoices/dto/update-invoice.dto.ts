@@ -0,0 +1,15 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class UpdateInvoiceDto {
+  @IsDateString()
+  @IsOptional()
+  dueDate?: string;
+
+  @IsString()
+  @IsOptional()
+  paymentTerms?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
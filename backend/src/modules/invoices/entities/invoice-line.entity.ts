@@ -0,0 +1,53 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Invoice } from './invoice.entity';
+import { Intervention } from '../../interventions/entities/intervention.entity';
+import { InvoiceLineType } from '../../../shared/types/invoice.types';
+
+@Entity('invoice_lines')
+@Index(['invoiceId'])
+@Index(['interventionId'])
+export class InvoiceLine {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  invoiceId: string;
+
+  @Column({ type: 'varchar' })
+  type: InvoiceLineType;
+
+  @Column({ type: 'varchar', length: 255 })
+  description: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  interventionId: string | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, default: 1 })
+  quantity: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  unitPrice: number;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2 })
+  amount: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => Invoice, (invoice) => invoice.lines, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invoiceId' })
+  invoice: Invoice;
+
+  @ManyToOne(() => Intervention, { eager: false, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'interventionId' })
+  intervention: Intervention | null;
+}
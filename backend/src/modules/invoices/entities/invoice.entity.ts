@@ -0,0 +1,98 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Contract } from '../../contracts/entities/contract.entity';
+import { Client } from '../../clients/entities/client.entity';
+import { Site } from '../../sites/entities/site.entity';
+import { InvoiceLine } from './invoice-line.entity';
+import { InvoiceStatus } from '../../../shared/types/invoice.types';
+
+@Entity('invoices')
+@Index(['invoiceNumber'], { unique: true })
+@Index(['contractId'])
+@Index(['clientId'])
+@Index(['status'])
+@Index(['dueDate'])
+export class Invoice {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20, unique: true })
+  invoiceNumber: string;
+
+  @Column({ type: 'uuid' })
+  contractId: string;
+
+  @Column({ type: 'uuid' })
+  clientId: string;
+
+  @Column({ type: 'uuid' })
+  siteId: string;
+
+  @Column({
+    type: 'varchar',
+    default: InvoiceStatus.DRAFT,
+  })
+  status: InvoiceStatus;
+
+  @Column({ type: 'date' })
+  periodStart: string;
+
+  @Column({ type: 'date' })
+  periodEnd: string;
+
+  @Column({ type: 'date', nullable: true })
+  issueDate: string | null;
+
+  @Column({ type: 'date', nullable: true })
+  dueDate: string | null;
+
+  @Column({ type: 'varchar', length: 10 })
+  currency: string;
+
+  @Column({ type: 'decimal', precision: 12, scale: 2, default: 0 })
+  totalAmount: number;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  paymentTerms: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  paidAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @DeleteDateColumn()
+  deletedAt: Date | null;
+
+  // Relations
+  @OneToMany(() => InvoiceLine, (line) => line.invoice, { cascade: true })
+  lines: InvoiceLine[];
+
+  @ManyToOne(() => Contract, { eager: false, onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'contractId' })
+  contract: Contract;
+
+  @ManyToOne(() => Client, { eager: false, onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'clientId' })
+  client: Client;
+
+  @ManyToOne(() => Site, { eager: false, onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'siteId' })
+  site: Site;
+}
@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  DefaultValuePipe,
+  UseGuards,
+} from '@nestjs/common';
+import { InvoicesService } from './invoices.service';
+import { GenerateInvoiceDto, GenerateInvoicesBatchDto, UpdateInvoiceDto } from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../shared/types/user.types';
+import { InvoiceStatus } from '../../shared/types/invoice.types';
+
+@Controller('invoices')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class InvoicesController {
+  constructor(private readonly invoicesService: InvoicesService) {}
+
+  /**
+   * Generate a draft invoice for a contract and billing period
+   * POST /api/invoices/generate
+   * Body: { contractId: "xxx", periodStart: "2026-01-01" }
+   */
+  @Post('generate')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  generate(@Body() generateDto: GenerateInvoiceDto) {
+    return this.invoicesService.generate(generateDto);
+  }
+
+  /**
+   * Generate draft invoices for several contracts (all ACTIVE contracts by default)
+   * POST /api/invoices/generate/batch
+   */
+  @Post('generate/batch')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  generateBatch(@Body() batchDto: GenerateInvoicesBatchDto) {
+    return this.invoicesService.generateBatch(batchDto);
+  }
+
+  /**
+   * Get all invoices with optional filters and pagination
+   * GET /api/invoices?page=1&limit=10&clientId=xxx&contractId=xxx&status=ISSUED
+   */
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query('clientId') clientId?: string,
+    @Query('contractId') contractId?: string,
+    @Query('status') status?: InvoiceStatus,
+  ) {
+    return this.invoicesService.findAll(page, limit, clientId, contractId, status);
+  }
+
+  /**
+   * Get a single invoice by ID
+   * GET /api/invoices/:id
+   */
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.invoicesService.findOne(id);
+  }
+
+  /**
+   * Update a draft invoice
+   * PATCH /api/invoices/:id
+   */
+  @Patch(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  update(@Param('id', ParseUUIDPipe) id: string, @Body() updateInvoiceDto: UpdateInvoiceDto) {
+    return this.invoicesService.update(id, updateInvoiceDto);
+  }
+
+  /**
+   * Rebuild the lines of a draft invoice
+   * POST /api/invoices/:id/regenerate
+   */
+  @Post(':id/regenerate')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  regenerate(@Param('id', ParseUUIDPipe) id: string) {
+    return this.invoicesService.regenerate(id);
+  }
+
+  /**
+   * Issue a draft invoice
+   * POST /api/invoices/:id/issue
+   */
+  @Post(':id/issue')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  issue(@Param('id', ParseUUIDPipe) id: string) {
+    return this.invoicesService.issue(id);
+  }
+
+  /**
+   * Mark an invoice as paid
+   * POST /api/invoices/:id/pay
+   */
+  @Post(':id/pay')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  markPaid(@Param('id', ParseUUIDPipe) id: string) {
+    return this.invoicesService.markPaid(id);
+  }
+
+  /**
+   * Delete a draft invoice
+   * DELETE /api/invoices/:id
+   */
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  remove(@Param('id', ParseUUIDPipe) id: string) {
+    return this.invoicesService.remove(id);
+  }
+}
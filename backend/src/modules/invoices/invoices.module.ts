@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InvoicesService } from './invoices.service';
+import { InvoicesController } from './invoices.controller';
+import { Invoice } from './entities/invoice.entity';
+import { InvoiceLine } from './entities/invoice-line.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { NumberingModule } from '../numbering/numbering.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Invoice, InvoiceLine, Contract, Client, Intervention]),
+    NumberingModule,
+  ],
+  controllers: [InvoicesController],
+  providers: [InvoicesService],
+  exports: [InvoicesService],
+})
+export class InvoicesModule {}
@@ -0,0 +1,127 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { InvoicesService } from './invoices.service';
+import { Invoice } from './entities/invoice.entity';
+import { InvoiceLine } from './entities/invoice-line.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { NumberingService } from '../numbering/numbering.service';
+import { ContractPricing } from '../../shared/types/contract.types';
+
+describe('InvoicesService', () => {
+  let service: InvoicesService;
+  const manager = {
+    findOne: jest.fn(),
+    save: jest.fn(async (invoice: Invoice) => ({ ...invoice, id: 'invoice-1' })),
+  };
+  const invoiceRepository = {
+    create: jest.fn((invoice: Partial<Invoice>) => invoice),
+    findOne: jest.fn(),
+    manager: {
+      transaction: jest.fn(async (work: (m: typeof manager) => unknown) => work(manager)),
+    },
+  };
+  const invoiceLineRepository = { create: jest.fn((line: Partial<InvoiceLine>) => line) };
+  const contractRepository = { findOne: jest.fn() };
+  const numberingService = { next: jest.fn() };
+
+  const contract = Object.assign(new Contract(), {
+    id: 'contract-1',
+    contractCode: 'CTR-0001',
+    clientId: 'client-1',
+    siteId: 'site-1',
+    pricing: { currency: 'EUR', monthlyFee: 1000 } as ContractPricing,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    contractRepository.findOne.mockResolvedValue(contract);
+    numberingService.next.mockResolvedValue('INV-2026-0001');
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        InvoicesService,
+        ...[Client, Intervention].map((entity) => ({
+          provide: getRepositoryToken(entity),
+          useValue: {},
+        })),
+        { provide: getRepositoryToken(Invoice), useValue: invoiceRepository },
+        { provide: getRepositoryToken(InvoiceLine), useValue: invoiceLineRepository },
+        { provide: getRepositoryToken(Contract), useValue: contractRepository },
+        { provide: NumberingService, useValue: numberingService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(InvoicesService);
+  });
+
+  describe('getPeriodEnd', () => {
+    it('ends the period the day before the next cycle starts', () => {
+      expect(service['getPeriodEnd']('2026-01-01')).toBe('2026-01-31');
+      expect(service['getPeriodEnd']('2026-02-01', 'MONTHLY')).toBe('2026-02-28');
+      expect(service['getPeriodEnd']('2026-01-01', 'QUARTERLY')).toBe('2026-03-31');
+      expect(service['getPeriodEnd']('2026-01-01', 'ANNUALLY')).toBe('2026-12-31');
+      expect(service['getPeriodEnd']('2026-01-05', 'WEEKLY')).toBe('2026-01-11');
+    });
+  });
+
+  describe('generate', () => {
+    it('bills the cycle after locking the contract', async () => {
+      manager.findOne.mockResolvedValue(null);
+      const findOne = jest.spyOn(service, 'findOne').mockResolvedValue(new Invoice());
+
+      await service.generate({ contractId: 'contract-1', periodStart: '2026-01-01T00:00:00Z' });
+
+      expect(manager.findOne).toHaveBeenNthCalledWith(1, Contract, {
+        where: { id: 'contract-1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceNumber: 'INV-2026-0001',
+          periodStart: '2026-01-01',
+          periodEnd: '2026-01-31',
+          totalAmount: 1000,
+        }),
+      );
+      expect(findOne).toHaveBeenCalledWith('invoice-1');
+    });
+
+    it('refuses a period overlapping an existing invoice of the contract', async () => {
+      manager.findOne.mockResolvedValueOnce(contract).mockResolvedValueOnce(
+        Object.assign(new Invoice(), {
+          invoiceNumber: 'INV-2026-0001',
+          periodStart: '2026-01-01',
+          periodEnd: '2026-01-31',
+        }),
+      );
+
+      await expect(
+        service.generate({
+          contractId: 'contract-1',
+          periodStart: '2026-01-15',
+          periodEnd: '2026-02-14',
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Invoice INV-2026-0001 already covers 2026-01-01 - 2026-01-31 for contract CTR-0001',
+        ),
+      );
+      expect(numberingService.next).not.toHaveBeenCalled();
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses a period ending before it starts', async () => {
+      await expect(
+        service.generate({
+          contractId: 'contract-1',
+          periodStart: '2026-02-01',
+          periodEnd: '2026-01-31',
+        }),
+      ).rejects.toThrow('Period end must be after period start');
+      expect(invoiceRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,525 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Between, In, LessThan, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
+import { Invoice } from './entities/invoice.entity';
+import { InvoiceLine } from './entities/invoice-line.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { GenerateInvoiceDto, GenerateInvoicesBatchDto, UpdateInvoiceDto } from './dto';
+import { InvoiceStatus, InvoiceLineType } from '../../shared/types/invoice.types';
+import { ContractStatus, ContractPricing } from '../../shared/types/contract.types';
+import { InterventionStatus } from '../../shared/types/intervention.types';
+import { NumberingService } from '../numbering/numbering.service';
+import { NumberedEntity } from '../../shared/types/numbering.types';
+
+const DEFAULT_PAYMENT_DAYS = 30;
+
+@Injectable()
+export class InvoicesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(InvoicesService.name);
+  private overdueTimer: NodeJS.Timeout | null = null;
+  private readonly OVERDUE_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour in ms
+
+  constructor(
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    @InjectRepository(InvoiceLine)
+    private readonly invoiceLineRepository: Repository<InvoiceLine>,
+    @InjectRepository(Contract)
+    private readonly contractRepository: Repository<Contract>,
+    @InjectRepository(Client)
+    private readonly clientRepository: Repository<Client>,
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    private readonly numberingService: NumberingService,
+  ) {}
+
+  onModuleInit(): void {
+    const check = () =>
+      this.markOverdueInvoices().catch((error) =>
+        this.logger.error(`Overdue invoice check failed: ${error.message}`),
+      );
+
+    check();
+    this.overdueTimer = setInterval(check, this.OVERDUE_CHECK_INTERVAL);
+  }
+
+  onModuleDestroy(): void {
+    if (this.overdueTimer) {
+      clearInterval(this.overdueTimer);
+      this.overdueTimer = null;
+    }
+  }
+
+  /**
+   * Number of months covered by one billing cycle (defaults to MONTHLY)
+   */
+  private getCycleMonths(billingCycle?: ContractPricing['billingCycle']): number {
+    switch (billingCycle) {
+      case 'WEEKLY':
+        return 12 / 52;
+      case 'QUARTERLY':
+        return 3;
+      case 'ANNUALLY':
+        return 12;
+      case 'MONTHLY':
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * Compute the last day of the billing cycle starting at periodStart
+   */
+  private getPeriodEnd(
+    periodStart: string,
+    billingCycle?: ContractPricing['billingCycle'],
+  ): string {
+    const end = new Date(`${periodStart}T00:00:00Z`);
+
+    if (billingCycle === 'WEEKLY') {
+      end.setUTCDate(end.getUTCDate() + 6);
+    } else {
+      end.setUTCMonth(end.getUTCMonth() + this.getCycleMonths(billingCycle));
+      end.setUTCDate(end.getUTCDate() - 1);
+    }
+
+    return end.toISOString().split('T')[0];
+  }
+
+  /**
+   * Parse payment terms such as "Net 30 days" or "Due on receipt" into a number of days
+   */
+  private getPaymentDays(paymentTerms?: string | null): number {
+    if (!paymentTerms) {
+      return DEFAULT_PAYMENT_DAYS;
+    }
+
+    const match = paymentTerms.match(/(\d+)/);
+    if (match) {
+      return parseInt(match[1], 10);
+    }
+
+    if (/receipt|immediate/i.test(paymentTerms)) {
+      return 0;
+    }
+
+    return DEFAULT_PAYMENT_DAYS;
+  }
+
+  /**
+   * Compute due date from issue date and payment terms
+   */
+  private calculateDueDate(issueDate: string, paymentTerms?: string | null): string {
+    const due = new Date(`${issueDate}T00:00:00Z`);
+    due.setUTCDate(due.getUTCDate() + this.getPaymentDays(paymentTerms));
+    return due.toISOString().split('T')[0];
+  }
+
+  /**
+   * Hours worked on an intervention (actual times, falling back to scheduled times)
+   */
+  private getInterventionHours(intervention: Intervention): number {
+    if (intervention.actualStartTime && intervention.actualEndTime) {
+      const ms =
+        new Date(intervention.actualEndTime).getTime() -
+        new Date(intervention.actualStartTime).getTime();
+      return Math.max(ms / (1000 * 60 * 60), 0);
+    }
+
+    const [startH, startM] = intervention.scheduledStartTime.split(':').map(Number);
+    const [endH, endM] = intervention.scheduledEndTime.split(':').map(Number);
+    return Math.max((endH * 60 + endM - (startH * 60 + startM)) / 60, 0);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Build invoice lines from the contract pricing and completed interventions
+   */
+  private async buildLines(
+    contract: Contract,
+    periodStart: string,
+    periodEnd: string,
+  ): Promise<Partial<InvoiceLine>[]> {
+    const pricing = contract.pricing!;
+    const lines: Partial<InvoiceLine>[] = [];
+
+    if (pricing.monthlyFee) {
+      const months = this.getCycleMonths(pricing.billingCycle);
+      const quantity = months >= 1 ? months : 1;
+      const unitPrice = months >= 1 ? pricing.monthlyFee : this.round(pricing.monthlyFee * months);
+
+      lines.push({
+        type: InvoiceLineType.MONTHLY_FEE,
+        description: `${pricing.billingCycle || 'MONTHLY'} service fee (${periodStart} - ${periodEnd})`,
+        interventionId: null,
+        quantity,
+        unitPrice,
+        amount: this.round(quantity * unitPrice),
+      });
+    }
+
+    if (!pricing.perInterventionFee && !pricing.hourlyRate) {
+      return lines;
+    }
+
+    const interventions = await this.interventionRepository.find({
+      where: {
+        contractId: contract.id,
+        status: InterventionStatus.COMPLETED,
+        scheduledDate: Between(new Date(periodStart), new Date(periodEnd)),
+      },
+      order: { scheduledDate: 'ASC' },
+    });
+
+    // Skip interventions already billed on another invoice
+    const invoicedIds = new Set<string>();
+    if (interventions.length > 0) {
+      const invoicedLines = await this.invoiceLineRepository
+        .createQueryBuilder('line')
+        .innerJoin('line.invoice', 'invoice')
+        .where('line.interventionId IN (:...ids)', { ids: interventions.map((i) => i.id) })
+        .andWhere('invoice.deletedAt IS NULL')
+        .getMany();
+      invoicedLines.forEach((line) => invoicedIds.add(line.interventionId!));
+    }
+
+    for (const intervention of interventions) {
+      if (invoicedIds.has(intervention.id)) {
+        continue;
+      }
+
+      const date = new Date(intervention.scheduledDate).toISOString().split('T')[0];
+
+      if (pricing.perInterventionFee) {
+        lines.push({
+          type: InvoiceLineType.INTERVENTION,
+          description: `Intervention ${intervention.interventionCode} (${date})`,
+          interventionId: intervention.id,
+          quantity: 1,
+          unitPrice: pricing.perInterventionFee,
+          amount: this.round(pricing.perInterventionFee),
+        });
+      }
+
+      if (pricing.hourlyRate) {
+        const hours = this.round(this.getInterventionHours(intervention));
+        lines.push({
+          type: InvoiceLineType.HOURLY,
+          description: `Intervention ${intervention.interventionCode} (${date}) - ${hours}h`,
+          interventionId: intervention.id,
+          quantity: hours,
+          unitPrice: pricing.hourlyRate,
+          amount: this.round(hours * pricing.hourlyRate),
+        });
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Mark issued invoices past their due date as OVERDUE (run hourly in the background)
+   */
+  async markOverdueInvoices(): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+    await this.invoiceRepository.update(
+      { status: InvoiceStatus.ISSUED, dueDate: LessThan(today) },
+      { status: InvoiceStatus.OVERDUE },
+    );
+  }
+
+  /**
+   * Generate a draft invoice for a contract and billing period
+   */
+  async generate(generateDto: GenerateInvoiceDto): Promise<Invoice> {
+    const contract = await this.contractRepository.findOne({
+      where: { id: generateDto.contractId },
+    });
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${generateDto.contractId} not found`);
+    }
+
+    if (!contract.pricing) {
+      throw new BadRequestException(
+        `Contract ${contract.contractCode} has no pricing and cannot be invoiced`,
+      );
+    }
+
+    const periodStart = generateDto.periodStart.split('T')[0];
+    const periodEnd = generateDto.periodEnd
+      ? generateDto.periodEnd.split('T')[0]
+      : this.getPeriodEnd(periodStart, contract.pricing.billingCycle);
+
+    if (periodEnd < periodStart) {
+      throw new BadRequestException('Period end must be after period start');
+    }
+
+    // The contract row is locked so that parallel generations for the same contract
+    // run one after the other and the overlap check sees the invoice saved before
+    const saved = await this.invoiceRepository.manager.transaction(async (manager) => {
+      await manager.findOne(Contract, {
+        where: { id: contract.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      // Deleted drafts are excluded by the soft delete, any other invoice already bills these days
+      const existing = await manager.findOne(Invoice, {
+        where: {
+          contractId: contract.id,
+          periodStart: LessThanOrEqual(periodEnd),
+          periodEnd: MoreThanOrEqual(periodStart),
+        },
+      });
+      if (existing) {
+        throw new BadRequestException(
+          `Invoice ${existing.invoiceNumber} already covers ${existing.periodStart} - ${existing.periodEnd} for contract ${contract.contractCode}`,
+        );
+      }
+
+      const lines = await this.buildLines(contract, periodStart, periodEnd);
+      if (lines.length === 0) {
+        throw new BadRequestException(
+          `Nothing to invoice for contract ${contract.contractCode} in this period`,
+        );
+      }
+
+      const invoiceNumber = await this.numberingService.next(NumberedEntity.INVOICE);
+
+      const invoice = this.invoiceRepository.create({
+        invoiceNumber,
+        contractId: contract.id,
+        clientId: contract.clientId,
+        siteId: contract.siteId,
+        status: InvoiceStatus.DRAFT,
+        periodStart,
+        periodEnd,
+        currency: contract.pricing.currency,
+        paymentTerms: contract.pricing.paymentTerms || null,
+        totalAmount: this.round(lines.reduce((sum, line) => sum + (line.amount || 0), 0)),
+        notes: generateDto.notes || null,
+        lines: lines.map((line) => this.invoiceLineRepository.create(line)),
+      });
+
+      return manager.save(invoice);
+    });
+
+    return this.findOne(saved.id);
+  }
+
+  /**
+   * Generate draft invoices for several contracts at once
+   */
+  async generateBatch(
+    batchDto: GenerateInvoicesBatchDto,
+  ): Promise<{ created: Invoice[]; errors: any[] }> {
+    const created: Invoice[] = [];
+    const errors: any[] = [];
+
+    const contractIds = batchDto.contractIds?.length
+      ? batchDto.contractIds
+      : (
+          await this.contractRepository.find({
+            where: { status: ContractStatus.ACTIVE },
+            select: ['id'],
+          })
+        ).map((c) => c.id);
+
+    for (const contractId of contractIds) {
+      try {
+        const invoice = await this.generate({
+          contractId,
+          periodStart: batchDto.periodStart,
+        });
+        created.push(invoice);
+      } catch (error) {
+        errors.push({
+          contractId,
+          error: error.message,
+        });
+      }
+    }
+
+    return { created, errors };
+  }
+
+  /**
+   * Find all invoices with optional filters and pagination
+   */
+  async findAll(
+    page: number = 1,
+    limit: number = 10,
+    clientId?: string,
+    contractId?: string,
+    status?: InvoiceStatus,
+  ): Promise<{ data: Invoice[]; total: number; page: number; limit: number }> {
+    const where: any = {};
+
+    if (clientId) where.clientId = clientId;
+    if (contractId) where.contractId = contractId;
+    if (status) where.status = status;
+
+    const [data, total] = await this.invoiceRepository.findAndCount({
+      where,
+      relations: ['client', 'site', 'contract'],
+      skip: (page - 1) * limit,
+      take: limit,
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Find invoices visible to a client user (drafts are never shown)
+   */
+  async findForClientUser(userId: string): Promise<Invoice[]> {
+    const clients = await this.clientRepository.find({ where: { userId } });
+    const clientIds = clients.map((c) => c.id);
+    if (clientIds.length === 0) {
+      return [];
+    }
+
+    return this.invoiceRepository.find({
+      where: {
+        clientId: In(clientIds),
+        status: In([InvoiceStatus.ISSUED, InvoiceStatus.PAID, InvoiceStatus.OVERDUE]),
+      },
+      relations: ['site', 'contract', 'lines'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Find a single invoice by ID
+   */
+  async findOne(id: string): Promise<Invoice> {
+    const invoice = await this.invoiceRepository.findOne({
+      where: { id },
+      relations: ['client', 'site', 'contract', 'lines'],
+      order: { lines: { createdAt: 'ASC' } },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException(`Invoice with ID ${id} not found`);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Update a draft invoice
+   */
+  async update(id: string, updateInvoiceDto: UpdateInvoiceDto): Promise<Invoice> {
+    const invoice = await this.findOne(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Only draft invoices can be updated');
+    }
+
+    Object.assign(invoice, updateInvoiceDto);
+    await this.invoiceRepository.save(invoice);
+    return this.findOne(id);
+  }
+
+  /**
+   * Recompute the lines of a draft invoice from current contract data
+   */
+  async regenerate(id: string): Promise<Invoice> {
+    const invoice = await this.findOne(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Only draft invoices can be regenerated');
+    }
+
+    if (!invoice.contract.pricing) {
+      throw new BadRequestException(
+        `Contract ${invoice.contract.contractCode} has no pricing and cannot be invoiced`,
+      );
+    }
+
+    // Release this invoice's interventions before rebuilding
+    await this.invoiceLineRepository.delete({ invoiceId: id });
+
+    const lines = await this.buildLines(invoice.contract, invoice.periodStart, invoice.periodEnd);
+    await this.invoiceLineRepository.save(
+      lines.map((line) => this.invoiceLineRepository.create({ ...line, invoiceId: id })),
+    );
+
+    await this.invoiceRepository.update(id, {
+      currency: invoice.contract.pricing.currency,
+      totalAmount: this.round(lines.reduce((sum, line) => sum + (line.amount || 0), 0)),
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Issue a draft invoice (sets issue date and due date from payment terms)
+   */
+  async issue(id: string): Promise<Invoice> {
+    const invoice = await this.findOne(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Only draft invoices can be issued');
+    }
+
+    if (!invoice.lines || invoice.lines.length === 0) {
+      throw new BadRequestException('Cannot issue an invoice without lines');
+    }
+
+    const issueDate = new Date().toISOString().split('T')[0];
+    invoice.issueDate = issueDate;
+    invoice.dueDate = invoice.dueDate || this.calculateDueDate(issueDate, invoice.paymentTerms);
+    invoice.status = InvoiceStatus.ISSUED;
+
+    await this.invoiceRepository.save(invoice);
+    return this.findOne(id);
+  }
+
+  /**
+   * Mark an issued or overdue invoice as paid
+   */
+  async markPaid(id: string): Promise<Invoice> {
+    const invoice = await this.findOne(id);
+
+    if (invoice.status !== InvoiceStatus.ISSUED && invoice.status !== InvoiceStatus.OVERDUE) {
+      throw new BadRequestException('Only issued or overdue invoices can be marked as paid');
+    }
+
+    invoice.status = InvoiceStatus.PAID;
+    invoice.paidAt = new Date();
+
+    await this.invoiceRepository.save(invoice);
+    return this.findOne(id);
+  }
+
+  /**
+   * Soft delete a draft invoice
+   */
+  async remove(id: string): Promise<void> {
+    const invoice = await this.findOne(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Only draft invoices can be deleted');
+    }
+
+    await this.invoiceRepository.softDelete(id);
+  }
+}
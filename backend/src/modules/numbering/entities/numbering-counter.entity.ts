@@ -0,0 +1,22 @@
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+import { NumberedEntity } from '../../../shared/types/numbering.types';
+
+/**
+ * Numbering Counter Entity
+ * Last number given to an entity type, per year for formats with a yearly reset
+ */
+@Entity('numbering_counters')
+export class NumberingCounter {
+  @PrimaryColumn({ type: 'varchar', length: 30 })
+  entityType: NumberedEntity;
+
+  // Year (YYYY) for formats containing the year, '' for a counter that never resets
+  @PrimaryColumn({ type: 'varchar', length: 4 })
+  period: string;
+
+  @Column({ type: 'int', default: 0 })
+  lastValue: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
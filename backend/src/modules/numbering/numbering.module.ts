@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { NumberingCounter } from './entities/numbering-counter.entity';
+import { NumberingService } from './numbering.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([NumberingCounter])],
+  providers: [NumberingService],
+  exports: [NumberingService],
+})
+export class NumberingModule {}
@@ -0,0 +1,81 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { NumberingService } from './numbering.service';
+import { NumberingCounter } from './entities/numbering-counter.entity';
+import { NumberedEntity } from '../../shared/types/numbering.types';
+
+describe('NumberingService', () => {
+  let service: NumberingService;
+  let formats: Record<string, string>;
+  const counterRepository = { query: jest.fn() };
+  const configService = {
+    get: jest.fn((key: string) => formats[key.replace('numbering.formats.', '')]),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    formats = Object.fromEntries(
+      Object.values(NumberedEntity).map((entityType) => [entityType, `${entityType}-{SEQ}`]),
+    );
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        NumberingService,
+        { provide: getRepositoryToken(NumberingCounter), useValue: counterRepository },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(NumberingService);
+  });
+
+  describe('next', () => {
+    it('pads the counter to four digits by default', async () => {
+      formats.INVOICE = 'INV-{SEQ}';
+      counterRepository.query.mockResolvedValue([{ lastValue: '7' }]);
+
+      await expect(service.next(NumberedEntity.INVOICE)).resolves.toBe('INV-0007');
+      expect(counterRepository.query).toHaveBeenCalledWith(expect.any(String), ['INVOICE', '']);
+    });
+
+    it('uses a yearly counter when the format contains the year', async () => {
+      formats.INVOICE = 'FA{YY}/{YYYY}-{SEQ:6}';
+      counterRepository.query.mockResolvedValue([{ lastValue: 42 }]);
+
+      await expect(service.next(NumberedEntity.INVOICE, new Date(2026, 0, 1))).resolves.toBe(
+        'FA26/2026-000042',
+      );
+      expect(counterRepository.query).toHaveBeenCalledWith(expect.any(String), ['INVOICE', '2026']);
+    });
+
+    it('lets the counter outgrow its padding', async () => {
+      formats.CLIENT = 'CLI-{SEQ:2}';
+      counterRepository.query.mockResolvedValue([{ lastValue: 123 }]);
+
+      await expect(service.next(NumberedEntity.CLIENT)).resolves.toBe('CLI-123');
+    });
+  });
+
+  describe('onModuleInit', () => {
+    it('accepts formats containing the counter', () => {
+      expect(() => service.onModuleInit()).not.toThrow();
+    });
+
+    it('refuses a format without the counter', () => {
+      formats.CONTRACT = 'CNT-{YYYY}';
+
+      expect(() => service.onModuleInit()).toThrow(
+        'Numbering format of CONTRACT must contain {SEQ}: CNT-{YYYY}',
+      );
+    });
+
+    it('refuses a format longer than the number columns', () => {
+      formats.COMPLAINT = 'COMPLAINT-{YYYY}-{SEQ:6}';
+
+      expect(() => service.onModuleInit()).toThrow(
+        'Numbering format of COMPLAINT is longer than 20 characters: COMPLAINT-',
+      );
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { NumberingCounter } from './entities/numbering-counter.entity';
+import { NumberedEntity } from '../../shared/types/numbering.types';
+
+// Business numbers are stored in varchar(20) columns
+const MAX_NUMBER_LENGTH = 20;
+
+/**
+ * Business numbers (client, contract, intervention, invoice and complaint codes)
+ * Counters live in numbering_counters and are incremented by an atomic upsert,
+ * so parallel creates never get the same number.
+ */
+@Injectable()
+export class NumberingService implements OnModuleInit {
+  constructor(
+    @InjectRepository(NumberingCounter)
+    private readonly counterRepository: Repository<NumberingCounter>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Reject invalid formats at startup rather than on the first create
+   */
+  onModuleInit(): void {
+    for (const entityType of Object.values(NumberedEntity)) {
+      const format = this.getFormat(entityType);
+      if (!/\{SEQ(:\d+)?\}/.test(format)) {
+        throw new Error(`Numbering format of ${entityType} must contain {SEQ}: ${format}`);
+      }
+      const sample = this.formatNumber(format, 1, new Date());
+      if (sample.length > MAX_NUMBER_LENGTH) {
+        throw new Error(
+          `Numbering format of ${entityType} is longer than ${MAX_NUMBER_LENGTH} characters: ${sample}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Take the next number of an entity type
+   * Formats containing the year use one counter per year (numbering restarts on January 1st)
+   */
+  async next(entityType: NumberedEntity, date = new Date()): Promise<string> {
+    const format = this.getFormat(entityType);
+    const period = /\{YY(YY)?\}/.test(format) ? String(date.getFullYear()) : '';
+
+    const rows: { lastValue: number }[] = await this.counterRepository.query(
+      `INSERT INTO numbering_counters ("entityType", period, "lastValue", "updatedAt")
+       VALUES ($1, $2, 1, NOW())
+       ON CONFLICT ("entityType", period)
+       DO UPDATE SET "lastValue" = numbering_counters."lastValue" + 1, "updatedAt" = NOW()
+       RETURNING "lastValue"`,
+      [entityType, period],
+    );
+
+    return this.formatNumber(format, Number(rows[0].lastValue), date);
+  }
+
+  private getFormat(entityType: NumberedEntity): string {
+    return this.configService.get<string>(`numbering.formats.${entityType}`);
+  }
+
+  private formatNumber(format: string, value: number, date: Date): string {
+    const year = String(date.getFullYear());
+    return format
+      .replace(/\{YYYY\}/g, year)
+      .replace(/\{YY\}/g, year.slice(2))
+      .replace(/\{SEQ(?::(\d+))?\}/g, (_, width?: string) =>
+        String(value).padStart(width ? parseInt(width, 10) : 4, '0'),
+      );
+  }
+}
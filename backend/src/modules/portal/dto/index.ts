@@ -0,0 +1 @@
+export { SubmitFeedbackDto } from './submit-feedback.dto';
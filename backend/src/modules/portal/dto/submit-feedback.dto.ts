@@ -0,0 +1,14 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export class SubmitFeedbackDto {
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  @IsNotEmpty()
+  rating: number;
+
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  comment?: string;
+}
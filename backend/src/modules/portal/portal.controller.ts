@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  DefaultValuePipe,
+  UseGuards,
+} from '@nestjs/common';
+import { PortalService, PortalInterventionScope } from './portal.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { SubmitFeedbackDto } from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UserRole } from '../../shared/types/user.types';
+
+/**
+ * Client portal - endpoints for CLIENT users.
+ * All data is filtered to the clients linked to the logged-in user.
+ * Read-only except for intervention feedback.
+ */
+@Controller('portal')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.CLIENT)
+export class PortalController {
+  constructor(
+    private readonly portalService: PortalService,
+    private readonly invoicesService: InvoicesService,
+  ) {}
+
+  /**
+   * GET /api/portal/me
+   * Client records linked to the logged-in user
+   */
+  @Get('me')
+  getProfile(@CurrentUser('id') userId: string) {
+    return this.portalService.getProfile(userId);
+  }
+
+  /**
+   * GET /api/portal/contracts
+   */
+  @Get('contracts')
+  getContracts(@CurrentUser('id') userId: string) {
+    return this.portalService.getContracts(userId);
+  }
+
+  /**
+   * GET /api/portal/contracts/:id
+   */
+  @Get('contracts/:id')
+  getContract(@CurrentUser('id') userId: string, @Param('id', ParseUUIDPipe) id: string) {
+    return this.portalService.getContract(userId, id);
+  }
+
+  /**
+   * GET /api/portal/sites
+   */
+  @Get('sites')
+  getSites(@CurrentUser('id') userId: string) {
+    return this.portalService.getSites(userId);
+  }
+
+  /**
+   * GET /api/portal/sites/:id
+   */
+  @Get('sites/:id')
+  getSite(@CurrentUser('id') userId: string, @Param('id', ParseUUIDPipe) id: string) {
+    return this.portalService.getSite(userId, id);
+  }
+
+  /**
+   * GET /api/portal/interventions?scope=upcoming|past&page=1&limit=10&siteId=xxx
+   */
+  @Get('interventions')
+  getInterventions(
+    @CurrentUser('id') userId: string,
+    @Query('scope', new DefaultValuePipe('upcoming')) scope: PortalInterventionScope,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query('siteId') siteId?: string,
+  ) {
+    return this.portalService.getInterventions(
+      userId,
+      scope === 'past' ? 'past' : 'upcoming',
+      page,
+      limit,
+      siteId,
+    );
+  }
+
+  /**
+   * GET /api/portal/feedback/pending
+   * Completed interventions still waiting for a rating
+   */
+  @Get('feedback/pending')
+  getPendingFeedback(@CurrentUser('id') userId: string) {
+    return this.portalService.getPendingFeedback(userId);
+  }
+
+  /**
+   * POST /api/portal/interventions/:id/feedback
+   * Body: { rating: 1-5, comment?: "..." }
+   */
+  @Post('interventions/:id/feedback')
+  submitFeedback(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() feedbackDto: SubmitFeedbackDto,
+  ) {
+    return this.portalService.submitFeedback(userId, id, feedbackDto);
+  }
+
+  /**
+   * GET /api/portal/interventions/:id
+   */
+  @Get('interventions/:id')
+  getIntervention(@CurrentUser('id') userId: string, @Param('id', ParseUUIDPipe) id: string) {
+    return this.portalService.getIntervention(userId, id);
+  }
+
+  /**
+   * GET /api/portal/interventions/:id/checklist
+   * Checklist results of an intervention
+   */
+  @Get('interventions/:id/checklist')
+  getChecklist(@CurrentUser('id') userId: string, @Param('id', ParseUUIDPipe) id: string) {
+    return this.portalService.getChecklist(userId, id);
+  }
+
+  /**
+   * GET /api/portal/interventions/:id/photos
+   * Intervention and checklist photos
+   */
+  @Get('interventions/:id/photos')
+  getPhotos(@CurrentUser('id') userId: string, @Param('id', ParseUUIDPipe) id: string) {
+    return this.portalService.getPhotos(userId, id);
+  }
+
+  /**
+   * GET /api/portal/invoices
+   */
+  @Get('invoices')
+  getInvoices(@CurrentUser('id') userId: string) {
+    return this.invoicesService.findForClientUser(userId);
+  }
+}
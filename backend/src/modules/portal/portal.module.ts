@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PortalService } from './portal.service';
+import { PortalController } from './portal.controller';
+import { Client } from '../clients/entities/client.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { ChecklistInstance } from '../checklists/entities/checklist-instance.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Client,
+      Contract,
+      Site,
+      Intervention,
+      ChecklistInstance,
+      SiteAssignment,
+    ]),
+    InvoicesModule,
+    NotificationsModule,
+  ],
+  controllers: [PortalController],
+  providers: [PortalService],
+  exports: [PortalService],
+})
+export class PortalModule {}
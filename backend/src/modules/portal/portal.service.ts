@@ -0,0 +1,466 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, IsNull } from 'typeorm';
+import { Client } from '../clients/entities/client.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { ChecklistInstance } from '../checklists/entities/checklist-instance.entity';
+import { ChecklistPhoto } from '../checklists/entities/checklist-photo.entity';
+import { SiteAssignment } from '../zones/entities/site-assignment.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/entities/notification.entity';
+import { SubmitFeedbackDto } from './dto';
+import { InterventionStatus } from '../../shared/types/intervention.types';
+import { ChecklistPhotoTag } from '../../shared/types/checklist.types';
+
+// Intervention fields never exposed to clients
+const INTERNAL_INTERVENTION_FIELDS: (keyof Intervention)[] = [
+  'gpsCheckInLat',
+  'gpsCheckInLng',
+  'gpsCheckOutLat',
+  'gpsCheckOutLng',
+  'checkInDistanceMeters',
+  'checkInOutOfZone',
+  'checkOutDistanceMeters',
+  'checkOutOutOfZone',
+  'notes',
+];
+
+export type PortalInterventionScope = 'upcoming' | 'past';
+
+export interface PortalPhoto {
+  url: string;
+  source: 'INTERVENTION' | 'CHECKLIST';
+  zoneName?: string;
+  taskDescription?: string;
+  tag?: ChecklistPhotoTag; // Checklist photos only
+  capturedAt?: Date;
+}
+
+/**
+ * Read-only data access for the client portal.
+ * Every query is scoped to the clients linked to the logged-in user (Client.userId).
+ */
+@Injectable()
+export class PortalService {
+  private readonly logger = new Logger(PortalService.name);
+
+  constructor(
+    @InjectRepository(Client)
+    private readonly clientRepository: Repository<Client>,
+    @InjectRepository(Contract)
+    private readonly contractRepository: Repository<Contract>,
+    @InjectRepository(Site)
+    private readonly siteRepository: Repository<Site>,
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(ChecklistInstance)
+    private readonly checklistRepository: Repository<ChecklistInstance>,
+    @InjectRepository(SiteAssignment)
+    private readonly siteAssignmentRepository: Repository<SiteAssignment>,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Resolve the client records linked to a user account
+   */
+  private async getClientIds(userId: string): Promise<string[]> {
+    const clients = await this.clientRepository.find({
+      where: { userId },
+      select: ['id'],
+    });
+
+    if (clients.length === 0) {
+      throw new ForbiddenException('No client account is linked to this user');
+    }
+
+    return clients.map((c) => c.id);
+  }
+
+  /**
+   * Remove internal fields (GPS traces, staff notes, contract pricing) before exposing an intervention
+   */
+  private toPortalIntervention(intervention: Intervention): Partial<Intervention> {
+    const portalIntervention: Partial<Intervention> = { ...intervention };
+    for (const field of INTERNAL_INTERVENTION_FIELDS) {
+      delete portalIntervention[field];
+    }
+
+    if (intervention.contract) {
+      portalIntervention.contract = this.toPortalContract(intervention.contract);
+    }
+
+    return portalIntervention;
+  }
+
+  /**
+   * What a client sees of a contract: pricing, terms and internal notes stay out
+   */
+  private toPortalContract(contract: Contract): Contract {
+    const {
+      id,
+      contractCode,
+      clientId,
+      siteId,
+      type,
+      frequency,
+      startDate,
+      endDate,
+      status,
+      serviceScope,
+      requiresClientSignOff,
+      site,
+    } = contract;
+    return {
+      id,
+      contractCode,
+      clientId,
+      siteId,
+      type,
+      frequency,
+      startDate,
+      endDate,
+      status,
+      serviceScope,
+      requiresClientSignOff,
+      site,
+    } as Contract;
+  }
+
+  /**
+   * Get the client profile linked to the user
+   */
+  async getProfile(userId: string): Promise<Client[]> {
+    const clientIds = await this.getClientIds(userId);
+    return this.clientRepository.find({ where: { id: In(clientIds) } });
+  }
+
+  /**
+   * Get all contracts of the client
+   */
+  async getContracts(userId: string): Promise<Contract[]> {
+    const clientIds = await this.getClientIds(userId);
+    const contracts = await this.contractRepository.find({
+      where: { clientId: In(clientIds) },
+      relations: ['site'],
+      order: { startDate: 'DESC' },
+    });
+    return contracts.map((contract) => this.toPortalContract(contract));
+  }
+
+  /**
+   * Get a single contract of the client
+   */
+  async getContract(userId: string, id: string): Promise<Contract> {
+    const clientIds = await this.getClientIds(userId);
+    const contract = await this.contractRepository.findOne({
+      where: { id, clientId: In(clientIds) },
+      relations: ['site'],
+    });
+
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+
+    return this.toPortalContract(contract);
+  }
+
+  /**
+   * Get all sites of the client
+   */
+  async getSites(userId: string): Promise<Site[]> {
+    const clientIds = await this.getClientIds(userId);
+    return this.siteRepository.find({
+      where: { clientId: In(clientIds) },
+      order: { name: 'ASC' },
+    });
+  }
+
+  /**
+   * Get a single site of the client
+   */
+  async getSite(userId: string, id: string): Promise<Site> {
+    const clientIds = await this.getClientIds(userId);
+    const site = await this.siteRepository.findOne({
+      where: { id, clientId: In(clientIds) },
+    });
+
+    if (!site) {
+      throw new NotFoundException(`Site with ID ${id} not found`);
+    }
+
+    return site;
+  }
+
+  /**
+   * Get upcoming or past interventions of the client
+   * Upcoming: scheduled today or later and not finished. Past: everything else.
+   */
+  async getInterventions(
+    userId: string,
+    scope: PortalInterventionScope = 'upcoming',
+    page: number = 1,
+    limit: number = 10,
+    siteId?: string,
+  ): Promise<{
+    data: Partial<Intervention>[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const clientIds = await this.getClientIds(userId);
+    const today = new Date().toISOString().split('T')[0];
+    const openStatuses = [
+      InterventionStatus.SCHEDULED,
+      InterventionStatus.RESCHEDULED,
+      InterventionStatus.IN_PROGRESS,
+    ];
+
+    const query = this.interventionRepository
+      .createQueryBuilder('intervention')
+      .innerJoinAndSelect('intervention.contract', 'contract')
+      .leftJoinAndSelect('intervention.site', 'site')
+      .where('contract.clientId IN (:...clientIds)', { clientIds });
+
+    if (siteId) {
+      query.andWhere('intervention.siteId = :siteId', { siteId });
+    }
+
+    if (scope === 'upcoming') {
+      query
+        .andWhere('intervention.scheduledDate >= :today', { today })
+        .andWhere('intervention.status IN (:...openStatuses)', { openStatuses })
+        .orderBy('intervention.scheduledDate', 'ASC')
+        .addOrderBy('intervention.scheduledStartTime', 'ASC');
+    } else {
+      query
+        .andWhere(
+          '(intervention.scheduledDate < :today OR intervention.status NOT IN (:...openStatuses))',
+          { today, openStatuses },
+        )
+        .orderBy('intervention.scheduledDate', 'DESC')
+        .addOrderBy('intervention.scheduledStartTime', 'DESC');
+    }
+
+    const [data, total] = await query
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: data.map((i) => this.toPortalIntervention(i)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Find an intervention belonging to the client
+   */
+  private async findClientIntervention(userId: string, id: string): Promise<Intervention> {
+    const clientIds = await this.getClientIds(userId);
+    const intervention = await this.interventionRepository.findOne({
+      where: { id, contract: { clientId: In(clientIds) } },
+      relations: ['contract', 'site'],
+    });
+
+    if (!intervention) {
+      throw new NotFoundException(`Intervention with ID ${id} not found`);
+    }
+
+    return intervention;
+  }
+
+  /**
+   * Get a single intervention of the client
+   */
+  async getIntervention(userId: string, id: string): Promise<Partial<Intervention>> {
+    const intervention = await this.findClientIntervention(userId, id);
+    return this.toPortalIntervention(intervention);
+  }
+
+  /**
+   * Get checklist results of an intervention
+   */
+  async getChecklist(userId: string, interventionId: string): Promise<ChecklistInstance | null> {
+    await this.findClientIntervention(userId, interventionId);
+
+    const checklist = await this.checklistRepository.findOne({
+      where: { interventionId },
+      relations: ['items', 'items.photos', 'template'],
+      order: { items: { zoneName: 'ASC', photos: { capturedAt: 'ASC' } } },
+    });
+
+    // Photos without their GPS position, device and uploader
+    for (const item of checklist?.items || []) {
+      item.photos = (item.photos || []).map(
+        ({ id, url, tag, capturedAt }) => ({ id, url, tag, capturedAt }) as ChecklistPhoto,
+      );
+    }
+
+    return checklist;
+  }
+
+  /**
+   * Get all photos of an intervention (intervention photos and checklist item photos)
+   */
+  async getPhotos(userId: string, interventionId: string): Promise<PortalPhoto[]> {
+    const intervention = await this.findClientIntervention(userId, interventionId);
+    const photos: PortalPhoto[] = (intervention.photoUrls || []).map((url) => ({
+      url,
+      source: 'INTERVENTION',
+    }));
+
+    const checklist = await this.checklistRepository.findOne({
+      where: { interventionId },
+      relations: ['items', 'items.photos'],
+      order: { items: { zoneName: 'ASC', photos: { capturedAt: 'ASC' } } },
+    });
+
+    for (const item of checklist?.items || []) {
+      for (const photo of item.photos || []) {
+        photos.push({
+          url: photo.url,
+          source: 'CHECKLIST',
+          zoneName: item.zoneName,
+          taskDescription: item.taskDescription,
+          tag: photo.tag,
+          capturedAt: photo.capturedAt,
+        });
+      }
+    }
+
+    return photos;
+  }
+
+  /**
+   * Start of the feedback window: completed interventions older than this can no longer be rated
+   */
+  private getFeedbackWindowStart(): Date {
+    const windowDays = this.configService.get<number>('feedback.windowDays') ?? 14;
+    const since = new Date();
+    since.setDate(since.getDate() - windowDays);
+    return since;
+  }
+
+  /**
+   * Get completed interventions still waiting for a client rating
+   */
+  async getPendingFeedback(userId: string): Promise<Partial<Intervention>[]> {
+    const clientIds = await this.getClientIds(userId);
+
+    const interventions = await this.interventionRepository
+      .createQueryBuilder('intervention')
+      .innerJoinAndSelect('intervention.contract', 'contract')
+      .leftJoinAndSelect('intervention.site', 'site')
+      .where('contract.clientId IN (:...clientIds)', { clientIds })
+      .andWhere('intervention.status = :status', { status: InterventionStatus.COMPLETED })
+      .andWhere('intervention.clientRatedAt IS NULL')
+      .andWhere('COALESCE(intervention.actualEndTime, intervention.scheduledDate) >= :since', {
+        since: this.getFeedbackWindowStart(),
+      })
+      .orderBy('intervention.scheduledDate', 'DESC')
+      .getMany();
+
+    return interventions.map((i) => this.toPortalIntervention(i));
+  }
+
+  /**
+   * Rate a completed intervention (1-5) with an optional comment.
+   * Each intervention can be rated once, within the feedback window.
+   */
+  async submitFeedback(
+    userId: string,
+    interventionId: string,
+    feedbackDto: SubmitFeedbackDto,
+  ): Promise<Partial<Intervention>> {
+    const intervention = await this.findClientIntervention(userId, interventionId);
+
+    if (intervention.status !== InterventionStatus.COMPLETED) {
+      throw new BadRequestException('Only completed interventions can be rated');
+    }
+
+    if (intervention.clientRatedAt) {
+      throw new BadRequestException('This intervention has already been rated');
+    }
+
+    const completedAt = new Date(intervention.actualEndTime || intervention.scheduledDate);
+    if (completedAt < this.getFeedbackWindowStart()) {
+      throw new BadRequestException('The feedback period for this intervention has ended');
+    }
+
+    // Conditional update: of two concurrent submissions, only the first one rates
+    const rating = {
+      clientRating: feedbackDto.rating,
+      clientFeedback: feedbackDto.comment || null,
+      clientRatedAt: new Date(),
+    };
+    const result = await this.interventionRepository.update(
+      { id: intervention.id, clientRatedAt: IsNull() },
+      rating,
+    );
+    if (!result.affected) {
+      throw new BadRequestException('This intervention has already been rated');
+    }
+    const saved = Object.assign(intervention, rating);
+
+    const threshold = this.configService.get<number>('feedback.lowRatingThreshold') ?? 2;
+    if (feedbackDto.rating <= threshold) {
+      await this.notifyLowRating(saved);
+    }
+
+    return this.toPortalIntervention(saved);
+  }
+
+  /**
+   * Alert the supervisors of an intervention about a low client rating
+   * Recipients: assigned zone chief and the chief of the zone the site belongs to
+   */
+  private async notifyLowRating(intervention: Intervention): Promise<void> {
+    const recipients = new Set<string>();
+
+    if (intervention.assignedZoneChiefId) {
+      recipients.add(intervention.assignedZoneChiefId);
+    }
+
+    const assignment = await this.siteAssignmentRepository.findOne({
+      where: { siteId: intervention.siteId, isActive: true },
+      relations: ['zone'],
+    });
+    if (assignment?.zone?.zoneChiefId) {
+      recipients.add(assignment.zone.zoneChiefId);
+    }
+
+    if (recipients.size === 0) {
+      this.logger.warn(
+        `No supervisor found for low rating on intervention ${intervention.interventionCode}`,
+      );
+      return;
+    }
+
+    const siteName = intervention.site?.name || 'site';
+    const comment = intervention.clientFeedback ? `: "${intervention.clientFeedback}"` : '';
+
+    for (const recipientId of recipients) {
+      await this.notificationsService.notify(
+        recipientId,
+        NotificationType.WARNING,
+        `Low client rating (${intervention.clientRating}/5)`,
+        `Intervention ${intervention.interventionCode} at ${siteName} was rated ${intervention.clientRating}/5${comment}`,
+        `/interventions/view/${intervention.id}`,
+      );
+    }
+  }
+}
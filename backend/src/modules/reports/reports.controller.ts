@@ -7,7 +7,10 @@ import {
   Param,
   ParseUUIDPipe,
   Query,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ReportsService } from './reports.service';
 import { CreateReportDto } from './dto/create-report.dto';
 import { UpdateReportDto, ResolveReportDto } from './dto/update-report.dto';
@@ -83,6 +86,20 @@ export class ReportsController {
     return this.reportsService.findOne(id, user.id, user.role);
   }
 
+  /**
+   * Upload the report screenshot (multipart "file")
+   * Reporter only
+   */
+  @Post(':id/screenshot')
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadScreenshot(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.reportsService.uploadScreenshot(id, file, user.id, user.role);
+  }
+
   /**
    * Update a report
    */
@@ -5,12 +5,14 @@ import { ReportsService } from './reports.service';
 import { Report } from './entities/report.entity';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { UsersModule } from '../users/users.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Report]),
     NotificationsModule,
     UsersModule,
+    StorageModule,
   ],
   controllers: [ReportsController],
   providers: [ReportsService],
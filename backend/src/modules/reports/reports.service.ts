@@ -7,7 +7,9 @@ import { UpdateReportDto, ResolveReportDto } from './dto/update-report.dto';
 import { NotificationsService } from '../notifications/notifications.service';
 import { NotificationType } from '../notifications/entities/notification.entity';
 import { UsersService } from '../users/users.service';
+import { StorageService } from '../storage/storage.service';
 import { UserRole } from '../../shared/types/user.types';
+import { StoredFileOwner } from '../../shared/types/storage.types';
 
 @Injectable()
 export class ReportsService {
@@ -18,6 +20,7 @@ export class ReportsService {
     private readonly reportRepository: Repository<Report>,
     private readonly notificationsService: NotificationsService,
     private readonly usersService: UsersService,
+    private readonly storageService: StorageService,
   ) {}
 
   /**
@@ -157,6 +160,34 @@ export class ReportsService {
     return report;
   }
 
+  /**
+   * Upload the screenshot of a report (reporter only), replacing the previous one
+   */
+  async uploadScreenshot(
+    id: string,
+    file: Express.Multer.File,
+    userId: string,
+    role: UserRole,
+  ): Promise<Report> {
+    const report = await this.findOne(id, userId, role);
+
+    if (report.reporterId !== userId) {
+      throw new ForbiddenException('Only the reporter can add a screenshot');
+    }
+
+    const storedFile = await this.storageService.upload(file, StoredFileOwner.REPORT, id, userId);
+    const previous = await this.storageService.findByReference(report.screenshotUrl);
+
+    report.screenshotUrl = this.storageService.toReference(storedFile);
+    const saved = await this.reportRepository.save(report);
+
+    if (previous) {
+      await this.storageService.remove(previous);
+    }
+
+    return saved;
+  }
+
   /**
    * Update a report (status, assignment, etc.)
    */
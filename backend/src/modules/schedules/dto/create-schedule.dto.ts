@@ -6,12 +6,14 @@ import {
   IsOptional,
   IsString,
   IsInt,
+  IsBoolean,
   Min,
   Max,
   Matches,
+  MaxLength,
   ArrayMinSize,
 } from 'class-validator';
-import { RecurrencePattern } from '../../../shared/types/schedule.types';
+import { RecurrencePattern, HolidayPolicy } from '../../../shared/types/schedule.types';
 
 export class CreateScheduleDto {
   @IsNotEmpty()
@@ -43,6 +45,11 @@ export class CreateScheduleDto {
   @Max(31)
   dayOfMonth?: number; // For MONTHLY pattern
 
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  rrule?: string; // For CUSTOM pattern: RFC 5545 RRULE, e.g. FREQ=DAILY;INTERVAL=10
+
   @IsNotEmpty()
   @IsString()
   @Matches(/^([01]\d|2[0-3]):([0-5]\d)$/, {
@@ -82,7 +89,15 @@ export class CreateScheduleDto {
   @IsString({ each: true })
   exceptionDates?: string[]; // ISO date strings to skip
 
+  @IsOptional()
+  @IsEnum(HolidayPolicy)
+  holidayPolicy?: HolidayPolicy; // Defaults to SKIP
+
   @IsOptional()
   @IsString()
   notes?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean; // Create even if the upcoming dates clash with existing bookings
 }
@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsOptional, IsInt, Min } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsInt, IsBoolean, Min } from 'class-validator';
 
 export class GenerateInterventionsDto {
   @IsNotEmpty()
@@ -11,4 +11,8 @@ export class GenerateInterventionsDto {
   @IsInt()
   @Min(1)
   daysAhead?: number; // Alternative: generate X days from startDate
+
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean; // Generate dates that clash with existing bookings instead of skipping them
 }
@@ -1,3 +1,6 @@
 export { CreateScheduleDto } from './create-schedule.dto';
 export { UpdateScheduleDto } from './update-schedule.dto';
 export { GenerateInterventionsDto } from './generate-interventions.dto';
+export { PreviewRRuleDto } from './preview-rrule.dto';
+export { RunGenerationDto } from './run-generation.dto';
+export { PropagateScheduleDto } from './propagate-schedule.dto';
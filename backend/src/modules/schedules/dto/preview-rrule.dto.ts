@@ -0,0 +1,27 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsDateString,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+
+export class PreviewRRuleDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  rrule: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string; // DTSTART of the rule, defaults to today
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  count?: number; // Number of dates to list, defaults to 10
+}
@@ -0,0 +1,8 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { UpdateScheduleDto } from './update-schedule.dto';
+
+export class PropagateScheduleDto extends UpdateScheduleDto {
+  @IsOptional()
+  @IsBoolean()
+  includeManuallyEdited?: boolean; // Also overwrite interventions edited by hand
+}
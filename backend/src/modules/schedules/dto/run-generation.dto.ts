@@ -0,0 +1,9 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+
+export class RunGenerationDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  horizonDays?: number; // Defaults to SCHEDULE_GENERATION_HORIZON_DAYS
+}
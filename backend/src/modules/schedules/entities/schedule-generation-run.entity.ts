@@ -0,0 +1,74 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { GenerationResult, ScheduleGenerationTrigger } from '../../../shared/types/schedule.types';
+
+/**
+ * Schedule Generation Run Entity
+ * Log of one pass generating interventions from every ACTIVE schedule
+ */
+@Entity('schedule_generation_runs')
+@Index(['startedAt'])
+export class ScheduleGenerationRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar' })
+  trigger: ScheduleGenerationTrigger;
+
+  // Admin who requested a MANUAL run
+  @Column({ type: 'uuid', nullable: true })
+  triggeredById: string | null;
+
+  // Generated range: rangeStart + horizonDays
+  @Column({ type: 'int' })
+  horizonDays: number;
+
+  @Column({ type: 'date' })
+  rangeStart: string;
+
+  @Column({ type: 'date' })
+  rangeEnd: string;
+
+  // Totals over every processed schedule
+  @Column({ type: 'int', default: 0 })
+  schedulesProcessed: number;
+
+  @Column({ type: 'int', default: 0 })
+  generatedCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  skippedCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  errorCount: number;
+
+  // Schedules switched to EXPIRED because their validUntil has passed
+  @Column({ type: 'jsonb', default: [] })
+  expiredScheduleIds: string[];
+
+  // GenerationResult per schedule ID
+  @Column({ type: 'jsonb', default: {} })
+  results: Record<string, GenerationResult>;
+
+  @Column({ type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Relations
+  @ManyToOne(() => User, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'triggeredById' })
+  triggeredBy: User;
+}
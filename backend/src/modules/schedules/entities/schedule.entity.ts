@@ -11,7 +11,11 @@ import {
 import { Contract } from '../../contracts/entities/contract.entity';
 import { Site } from '../../sites/entities/site.entity';
 import { Zone } from '../../zones/entities/zone.entity';
-import { RecurrencePattern, ScheduleStatus } from '../../../shared/types/schedule.types';
+import {
+  RecurrencePattern,
+  ScheduleStatus,
+  HolidayPolicy,
+} from '../../../shared/types/schedule.types';
 
 @Entity('schedules')
 export class Schedule {
@@ -53,6 +57,10 @@ export class Schedule {
   @Column({ name: 'day_of_month', nullable: true })
   dayOfMonth: number;
 
+  // For CUSTOM patterns: RFC 5545 RRULE, e.g. FREQ=MONTHLY;BYDAY=1MO,3MO (DTSTART is validFrom)
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  rrule: string;
+
   @Column({ name: 'start_time', type: 'time' })
   startTime: string; // HH:MM format
 
@@ -85,10 +93,18 @@ export class Schedule {
   @Column({ type: 'simple-array', name: 'generated_intervention_ids', default: '' })
   generatedInterventionIds: string[];
 
-  // Dates to skip (holidays, exceptions)
+  // Dates to skip (exceptions specific to this schedule)
   @Column({ type: 'simple-json', name: 'exception_dates', nullable: true })
   exceptionDates: string[]; // Array of ISO date strings
 
+  // Dates falling on a holiday of the holiday calendar (zone overrides included)
+  @Column({
+    type: 'varchar',
+    name: 'holiday_policy',
+    default: HolidayPolicy.SKIP,
+  })
+  holidayPolicy: HolidayPolicy;
+
   @Column({ type: 'text', nullable: true })
   notes: string;
 
@@ -0,0 +1,211 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, MoreThanOrEqual, Raw } from 'typeorm';
+import { Schedule } from './entities/schedule.entity';
+import { ScheduleGenerationRun } from './entities/schedule-generation-run.entity';
+import { SchedulesService } from './schedules.service';
+import { ScheduleStatus, ScheduleGenerationTrigger } from '../../shared/types/schedule.types';
+
+/**
+ * Rolling intervention generation
+ * Once a day, expires schedules past their validUntil and keeps the configured
+ * horizon of interventions generated for every ACTIVE schedule
+ */
+@Injectable()
+export class ScheduleGenerationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduleGenerationService.name);
+  private checkTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private readonly CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour in ms
+
+  constructor(
+    @InjectRepository(Schedule)
+    private readonly scheduleRepository: Repository<Schedule>,
+    @InjectRepository(ScheduleGenerationRun)
+    private readonly runRepository: Repository<ScheduleGenerationRun>,
+    private readonly schedulesService: SchedulesService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    if (this.configService.get<boolean>('schedules.autoGeneration') === false) {
+      this.logger.log('Automatic schedule generation is disabled');
+      return;
+    }
+
+    const check = () =>
+      this.runDailyGeneration().catch((error) =>
+        this.logger.error(`Schedule generation failed: ${error.message}`),
+      );
+
+    // Run at boot so a deploy late in the day does not skip that day's generation
+    check();
+    this.checkTimer = setInterval(check, this.CHECK_INTERVAL);
+  }
+
+  onModuleDestroy(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * Start an AUTO run unless one already ran today
+   */
+  async runDailyGeneration(): Promise<void> {
+    if (this.isRunning) return;
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const ranToday = await this.runRepository.count({
+      where: {
+        trigger: ScheduleGenerationTrigger.AUTO,
+        startedAt: MoreThanOrEqual(today),
+      },
+    });
+    if (ranToday > 0) return;
+
+    const run = await this.run(ScheduleGenerationTrigger.AUTO);
+    this.logger.log(
+      `Schedule generation: ${run.generatedCount} generated, ${run.skippedCount} skipped, ` +
+        `${run.errorCount} errors, ${run.expiredScheduleIds.length} schedules expired`,
+    );
+  }
+
+  /**
+   * Run an admin-requested generation now
+   */
+  async runManual(triggeredById: string, horizonDays?: number): Promise<ScheduleGenerationRun> {
+    if (this.isRunning) {
+      throw new BadRequestException('A generation run is already in progress');
+    }
+
+    return this.run(ScheduleGenerationTrigger.MANUAL, triggeredById, horizonDays);
+  }
+
+  /**
+   * Get the latest generation runs
+   */
+  async findAll(limit = 20): Promise<ScheduleGenerationRun[]> {
+    return this.runRepository.find({
+      relations: ['triggeredBy'],
+      order: { startedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get a single generation run by ID
+   */
+  async findOne(id: string): Promise<ScheduleGenerationRun> {
+    const run = await this.runRepository.findOne({
+      where: { id },
+      relations: ['triggeredBy'],
+    });
+
+    if (!run) {
+      throw new NotFoundException(`Generation run with ID ${id} not found`);
+    }
+
+    return run;
+  }
+
+  private async run(
+    trigger: ScheduleGenerationTrigger,
+    triggeredById?: string,
+    horizonDays?: number,
+  ): Promise<ScheduleGenerationRun> {
+    this.isRunning = true;
+
+    try {
+      const horizon =
+        horizonDays ?? this.configService.get<number>('schedules.generationHorizonDays') ?? 21;
+      const rangeStart = new Date();
+      rangeStart.setHours(0, 0, 0, 0);
+      const rangeEnd = new Date(rangeStart);
+      rangeEnd.setDate(rangeEnd.getDate() + horizon);
+
+      const run = this.runRepository.create({
+        trigger,
+        triggeredById: triggeredById ?? null,
+        horizonDays: horizon,
+        rangeStart: this.formatDate(rangeStart),
+        rangeEnd: this.formatDate(rangeEnd),
+        schedulesProcessed: 0,
+        generatedCount: 0,
+        skippedCount: 0,
+        errorCount: 0,
+        expiredScheduleIds: [],
+        results: {},
+        startedAt: new Date(),
+      });
+
+      run.expiredScheduleIds = await this.expireSchedules(rangeStart);
+
+      const schedules = await this.scheduleRepository.find({
+        where: { status: ScheduleStatus.ACTIVE },
+        order: { validFrom: 'ASC' },
+      });
+
+      for (const schedule of schedules) {
+        try {
+          run.results[schedule.id] = await this.schedulesService.generateInterventions(
+            schedule.id,
+            { startDate: rangeStart, endDate: rangeEnd },
+          );
+        } catch (error) {
+          run.results[schedule.id] = {
+            generated: 0,
+            skipped: 0,
+            errors: [error.message],
+            interventionIds: [],
+          };
+        }
+
+        const result = run.results[schedule.id];
+        run.generatedCount += result.generated;
+        run.skippedCount += result.skipped;
+        run.errorCount += result.errors.length;
+      }
+
+      run.schedulesProcessed = schedules.length;
+      run.finishedAt = new Date();
+      return await this.runRepository.save(run);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Switch ACTIVE and PAUSED schedules whose validUntil is before today to EXPIRED
+   */
+  private async expireSchedules(today: Date): Promise<string[]> {
+    const expired = await this.scheduleRepository.find({
+      select: ['id'],
+      where: {
+        status: In([ScheduleStatus.ACTIVE, ScheduleStatus.PAUSED]),
+        validUntil: Raw((column) => `${column} < :today`, { today: this.formatDate(today) }),
+      },
+    });
+    if (expired.length === 0) return [];
+
+    const ids = expired.map((schedule) => schedule.id);
+    await this.scheduleRepository.update({ id: In(ids) }, { status: ScheduleStatus.EXPIRED });
+    return ids;
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
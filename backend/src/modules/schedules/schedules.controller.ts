@@ -10,17 +10,29 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { SchedulesService } from './schedules.service';
-import { CreateScheduleDto, UpdateScheduleDto, GenerateInterventionsDto } from './dto';
+import { ScheduleGenerationService } from './schedule-generation.service';
+import {
+  CreateScheduleDto,
+  UpdateScheduleDto,
+  GenerateInterventionsDto,
+  PreviewRRuleDto,
+  RunGenerationDto,
+  PropagateScheduleDto,
+} from './dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UserRole } from '../../shared/types/user.types';
 import { ScheduleStatus } from '../../shared/types/schedule.types';
 
 @Controller('schedules')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class SchedulesController {
-  constructor(private readonly schedulesService: SchedulesService) {}
+  constructor(
+    private readonly schedulesService: SchedulesService,
+    private readonly scheduleGenerationService: ScheduleGenerationService,
+  ) {}
 
   /**
    * Create a new schedule
@@ -74,6 +86,46 @@ export class SchedulesController {
     return this.schedulesService.generateAllInterventions(dto);
   }
 
+  /**
+   * Get the latest automatic and manual generation runs
+   * Access: SUPER_ADMIN, ADMIN
+   */
+  @Get('generation-runs')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  findGenerationRuns(@Query('limit') limit?: string) {
+    return this.scheduleGenerationService.findAll(limit ? parseInt(limit, 10) : 20);
+  }
+
+  /**
+   * Get a generation run with its per-schedule results
+   * Access: SUPER_ADMIN, ADMIN
+   */
+  @Get('generation-runs/:runId')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  findGenerationRun(@Param('runId') runId: string) {
+    return this.scheduleGenerationService.findOne(runId);
+  }
+
+  /**
+   * Run the rolling generation now (expire schedules, then fill the horizon)
+   * Access: SUPER_ADMIN, ADMIN
+   */
+  @Post('generation-runs')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN)
+  runGeneration(@CurrentUser('id') userId: string, @Body() dto: RunGenerationDto) {
+    return this.scheduleGenerationService.runManual(userId, dto.horizonDays);
+  }
+
+  /**
+   * Preview the next dates of an RRULE before saving a CUSTOM schedule
+   * Access: SUPER_ADMIN, DIRECTOR, SECTOR_CHIEF
+   */
+  @Post('rrule/preview')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.SUPERVISOR)
+  previewRRule(@Body() dto: PreviewRRuleDto) {
+    return this.schedulesService.previewRRule(dto);
+  }
+
   /**
    * Get a single schedule by ID
    * Access: All roles
@@ -83,6 +135,15 @@ export class SchedulesController {
     return this.schedulesService.findOne(id);
   }
 
+  /**
+   * List the next N dates of a schedule (default 10, max 100)
+   * Access: All roles
+   */
+  @Get(':id/preview')
+  previewSchedule(@Param('id') id: string, @Query('count') count?: string) {
+    return this.schedulesService.previewSchedule(id, count ? parseInt(count, 10) : 10);
+  }
+
   /**
    * Update a schedule
    * Access: SUPER_ADMIN, DIRECTOR, SECTOR_CHIEF
@@ -93,6 +154,32 @@ export class SchedulesController {
     return this.schedulesService.update(id, updateScheduleDto);
   }
 
+  /**
+   * Preview how an update would change the future SCHEDULED or RESCHEDULED
+   * interventions of a schedule
+   * Access: SUPER_ADMIN, DIRECTOR, SECTOR_CHIEF
+   */
+  @Post(':id/propagation/preview')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.SUPERVISOR)
+  previewPropagation(@Param('id') id: string, @Body() propagateDto: PropagateScheduleDto) {
+    return this.schedulesService.previewPropagation(id, propagateDto);
+  }
+
+  /**
+   * Update a schedule and apply the change to its future SCHEDULED or RESCHEDULED
+   * interventions
+   * Access: SUPER_ADMIN, DIRECTOR, SECTOR_CHIEF
+   */
+  @Patch(':id/propagate')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.SUPERVISOR)
+  updateAndPropagate(
+    @Param('id') id: string,
+    @Body() propagateDto: PropagateScheduleDto,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.schedulesService.updateAndPropagate(id, propagateDto, userId);
+  }
+
   /**
    * Delete a schedule (soft delete)
    * Access: SUPER_ADMIN, DIRECTOR, SECTOR_CHIEF
@@ -1,18 +1,26 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { SchedulesService } from './schedules.service';
+import { ScheduleGenerationService } from './schedule-generation.service';
 import { SchedulesController } from './schedules.controller';
 import { Schedule } from './entities/schedule.entity';
+import { ScheduleGenerationRun } from './entities/schedule-generation-run.entity';
 import { Contract } from '../contracts/entities/contract.entity';
 import { Site } from '../sites/entities/site.entity';
 import { Intervention } from '../interventions/entities/intervention.entity';
+import { InterventionsModule } from '../interventions/interventions.module';
+import { HolidaysModule } from '../holidays/holidays.module';
+import { NumberingModule } from '../numbering/numbering.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Schedule, Contract, Site, Intervention]),
+    TypeOrmModule.forFeature([Schedule, ScheduleGenerationRun, Contract, Site, Intervention]),
+    InterventionsModule,
+    HolidaysModule,
+    NumberingModule,
   ],
   controllers: [SchedulesController],
-  providers: [SchedulesService],
+  providers: [SchedulesService, ScheduleGenerationService],
   exports: [SchedulesService],
 })
 export class SchedulesModule {}
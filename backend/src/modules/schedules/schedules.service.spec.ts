@@ -0,0 +1,198 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In } from 'typeorm';
+import { SchedulesService } from './schedules.service';
+import { Schedule } from './entities/schedule.entity';
+import { Contract } from '../contracts/entities/contract.entity';
+import { Site } from '../sites/entities/site.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { InterventionAssignment } from '../interventions/entities/intervention-assignment.entity';
+import { InterventionConflictsService } from '../interventions/intervention-conflicts.service';
+import { InterventionAssignmentsService } from '../interventions/intervention-assignments.service';
+import { InterventionStateMachineService } from '../interventions/intervention-state-machine.service';
+import { HolidaysService } from '../holidays/holidays.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { AssignmentRole, InterventionStatus } from '../../shared/types/intervention.types';
+import { ScheduleStatus } from '../../shared/types/schedule.types';
+
+describe('SchedulesService', () => {
+  let service: SchedulesService;
+  const scheduleRepository = {
+    create: jest.fn((schedule: Partial<Schedule>) => Object.assign(new Schedule(), schedule)),
+  };
+  const interventionRepository = { find: jest.fn() };
+  const conflictsService = { detectConflicts: jest.fn() };
+
+  const buildSchedule = (overrides: Partial<Schedule> = {}): Schedule =>
+    Object.assign(new Schedule(), {
+      id: 'schedule-1',
+      startTime: '08:00:00',
+      endTime: '10:00:00',
+      defaultAgentIds: ['agent-1', 'agent-2'],
+      defaultZoneChiefId: 'zone-chief-1',
+      defaultTeamChiefId: 'team-chief-1',
+      ...overrides,
+    });
+
+  const buildIntervention = (
+    agentIds: string[],
+    overrides: Partial<Intervention> = {},
+  ): Intervention =>
+    Object.assign(new Intervention(), {
+      id: 'intervention-1',
+      status: InterventionStatus.SCHEDULED,
+      scheduledStartTime: '08:00:00',
+      scheduledEndTime: '10:00:00',
+      assignedZoneChiefId: 'zone-chief-1',
+      assignedTeamChiefId: 'team-chief-1',
+      assignments: [
+        Object.assign(new InterventionAssignment(), {
+          userId: 'team-chief-1',
+          role: AssignmentRole.TEAM_CHIEF,
+        }),
+        ...agentIds.map((userId) =>
+          Object.assign(new InterventionAssignment(), { userId, role: AssignmentRole.AGENT }),
+        ),
+      ],
+      ...overrides,
+    });
+
+  const getPropagatedChanges = (
+    intervention: Intervention,
+    schedule: Schedule,
+    updated: Partial<Schedule>,
+  ) => service['getPropagatedChanges'](intervention, schedule, { ...schedule, ...updated });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    conflictsService.detectConflicts.mockResolvedValue([]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SchedulesService,
+        ...[Contract, Site].map((entity) => ({
+          provide: getRepositoryToken(entity),
+          useValue: {},
+        })),
+        { provide: getRepositoryToken(Schedule), useValue: scheduleRepository },
+        { provide: getRepositoryToken(Intervention), useValue: interventionRepository },
+        { provide: InterventionConflictsService, useValue: conflictsService },
+        ...[
+          InterventionAssignmentsService,
+          InterventionStateMachineService,
+          HolidaysService,
+          ConfigService,
+          NumberingService,
+        ].map((provider) => ({ provide: provider, useValue: {} })),
+      ],
+    }).compile();
+
+    service = moduleRef.get(SchedulesService);
+  });
+
+  describe('getPropagatedChanges', () => {
+    it('changes nothing when the schedule defaults are unchanged', () => {
+      const schedule = buildSchedule();
+
+      expect(getPropagatedChanges(buildIntervention(['agent-1', 'agent-2']), schedule, {})).toEqual(
+        [],
+      );
+    });
+
+    it('moves the times that changed, compared without seconds', () => {
+      const schedule = buildSchedule();
+
+      expect(
+        getPropagatedChanges(buildIntervention(['agent-1', 'agent-2']), schedule, {
+          startTime: '09:00',
+          endTime: '10:00',
+        }),
+      ).toEqual([{ field: 'scheduledStartTime', from: '08:00:00', to: '09:00' }]);
+    });
+
+    it('leaves a time the intervention already has', () => {
+      const schedule = buildSchedule();
+      const intervention = buildIntervention(['agent-1', 'agent-2'], {
+        scheduledStartTime: '09:00:00',
+      });
+
+      expect(getPropagatedChanges(intervention, schedule, { startTime: '09:00:00' })).toEqual([]);
+    });
+
+    it('swaps the previous default agents and keeps the extra ones', () => {
+      const schedule = buildSchedule();
+      const intervention = buildIntervention(['agent-1', 'agent-2', 'extra-agent']);
+
+      expect(
+        getPropagatedChanges(intervention, schedule, { defaultAgentIds: ['agent-2', 'agent-3'] }),
+      ).toEqual([
+        {
+          field: 'assignedAgentIds',
+          from: ['agent-1', 'agent-2', 'extra-agent'],
+          to: ['extra-agent', 'agent-2', 'agent-3'],
+        },
+      ]);
+    });
+
+    it('ignores a reordering of the same agents', () => {
+      const schedule = buildSchedule();
+
+      expect(
+        getPropagatedChanges(buildIntervention(['agent-1', 'agent-2']), schedule, {
+          defaultAgentIds: ['agent-2', 'agent-1'],
+        }),
+      ).toEqual([]);
+    });
+
+    it('follows a changed chief, including a removed one', () => {
+      const schedule = buildSchedule();
+
+      expect(
+        getPropagatedChanges(buildIntervention(['agent-1', 'agent-2']), schedule, {
+          defaultZoneChiefId: 'zone-chief-2',
+          defaultTeamChiefId: null,
+        }),
+      ).toEqual([
+        { field: 'assignedZoneChiefId', from: 'zone-chief-1', to: 'zone-chief-2' },
+        { field: 'assignedTeamChiefId', from: 'team-chief-1', to: null },
+      ]);
+    });
+  });
+
+  describe('buildPropagation', () => {
+    it('covers rescheduled interventions and skips them as manually edited', async () => {
+      const schedule = buildSchedule({
+        status: ScheduleStatus.ACTIVE,
+        generatedInterventionIds: ['intervention-1', 'intervention-2'],
+      });
+      const nextWeek = new Date();
+      nextWeek.setHours(0, 0, 0, 0);
+      nextWeek.setDate(nextWeek.getDate() + 7);
+      const date = service['formatDate'](nextWeek);
+      interventionRepository.find.mockResolvedValue([
+        buildIntervention(['agent-1', 'agent-2'], { scheduledDate: date as unknown as Date }),
+        buildIntervention(['agent-1', 'agent-2'], {
+          id: 'intervention-2',
+          status: InterventionStatus.RESCHEDULED,
+          scheduledDate: date as unknown as Date,
+          manuallyEditedAt: new Date(),
+        }),
+      ]);
+      jest.spyOn(service as any, 'getPlannedDates').mockResolvedValue([nextWeek]);
+
+      const { diff } = await service['buildPropagation'](schedule, { startTime: '09:00' }, false);
+
+      expect(interventionRepository.find.mock.calls[0][0].where.status).toEqual(
+        In([InterventionStatus.SCHEDULED, InterventionStatus.RESCHEDULED]),
+      );
+      expect(diff).toMatchObject({ updated: 1, skipped: 1, cancelled: 0, unchanged: 0 });
+      expect(
+        diff.interventions.map((entry) => [entry.interventionId, entry.action, entry.skipped]),
+      ).toEqual([
+        ['intervention-1', 'UPDATE', false],
+        ['intervention-2', 'UPDATE', true],
+      ]);
+    });
+  });
+});
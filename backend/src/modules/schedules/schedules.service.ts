@@ -4,19 +4,44 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, Raw } from 'typeorm';
 import { Schedule } from './entities/schedule.entity';
 import { Contract } from '../contracts/entities/contract.entity';
 import { Site } from '../sites/entities/site.entity';
 import { Intervention } from '../interventions/entities/intervention.entity';
-import { CreateScheduleDto, UpdateScheduleDto, GenerateInterventionsDto } from './dto';
+import { InterventionStatusHistory } from '../interventions/entities/intervention-status-history.entity';
+import { InterventionConflictsService } from '../interventions/intervention-conflicts.service';
+import { InterventionAssignmentsService } from '../interventions/intervention-assignments.service';
+import { InterventionStateMachineService } from '../interventions/intervention-state-machine.service';
+import { HolidaysService } from '../holidays/holidays.service';
+import {
+  CreateScheduleDto,
+  UpdateScheduleDto,
+  GenerateInterventionsDto,
+  PreviewRRuleDto,
+  PropagateScheduleDto,
+} from './dto';
 import {
   RecurrencePattern,
   ScheduleStatus,
   GenerationResult,
+  RRule,
+  PlannedSlot,
+  HolidayPolicy,
+  SchedulePropagationDiff,
+  InterventionPropagation,
+  PropagationFieldChange,
 } from '../../shared/types/schedule.types';
 import { ContractStatus } from '../../shared/types/contract.types';
-import { InterventionStatus } from '../../shared/types/intervention.types';
+import {
+  InterventionStatus,
+  InterventionTransition,
+  AssignmentRole,
+} from '../../shared/types/intervention.types';
+import { parseRRule, getRRuleOccurrences } from '../../shared/utils/rrule.util';
+import { NumberingService } from '../numbering/numbering.service';
+import { NumberedEntity } from '../../shared/types/numbering.types';
 
 @Injectable()
 export class SchedulesService {
@@ -29,29 +54,14 @@ export class SchedulesService {
     private readonly siteRepository: Repository<Site>,
     @InjectRepository(Intervention)
     private readonly interventionRepository: Repository<Intervention>,
+    private readonly conflictsService: InterventionConflictsService,
+    private readonly assignmentsService: InterventionAssignmentsService,
+    private readonly stateMachine: InterventionStateMachineService,
+    private readonly holidaysService: HolidaysService,
+    private readonly configService: ConfigService,
+    private readonly numberingService: NumberingService,
   ) {}
 
-  /**
-   * Generate unique intervention code (INT-0001, INT-0002, etc.)
-   */
-  private async generateInterventionCode(): Promise<string> {
-    const lastIntervention = await this.interventionRepository.findOne({
-      where: {},
-      order: { createdAt: 'DESC' },
-      withDeleted: true,
-    });
-
-    let nextNumber = 1;
-    if (lastIntervention && lastIntervention.interventionCode) {
-      const match = lastIntervention.interventionCode.match(/INT-(\d+)/);
-      if (match) {
-        nextNumber = parseInt(match[1], 10) + 1;
-      }
-    }
-
-    return `INT-${nextNumber.toString().padStart(4, '0')}`;
-  }
-
   /**
    * Validate schedule against contract
    */
@@ -122,6 +132,25 @@ export class SchedulesService {
         throw new BadRequestException('MONTHLY pattern requires dayOfMonth');
       }
     }
+
+    if (dto.recurrencePattern === RecurrencePattern.CUSTOM) {
+      this.parseScheduleRRule(dto.rrule);
+    }
+  }
+
+  /**
+   * Parse the RRULE of a CUSTOM schedule, rejecting missing or invalid rules
+   */
+  private parseScheduleRRule(rrule?: string): RRule {
+    if (!rrule) {
+      throw new BadRequestException('CUSTOM pattern requires rrule');
+    }
+
+    try {
+      return parseRRule(rrule);
+    } catch (error) {
+      throw new BadRequestException(`Invalid rrule: ${error.message}`);
+    }
   }
 
   /**
@@ -130,14 +159,68 @@ export class SchedulesService {
   async create(createScheduleDto: CreateScheduleDto): Promise<Schedule> {
     await this.validateSchedule(createScheduleDto);
 
+    const { force, ...scheduleData } = createScheduleDto;
     const schedule = this.scheduleRepository.create({
-      ...createScheduleDto,
+      ...scheduleData,
       status: ScheduleStatus.ACTIVE,
     });
 
+    await this.checkScheduleConflicts(schedule, force);
+
     return await this.scheduleRepository.save(schedule);
   }
 
+  /**
+   * Check the upcoming dates of a schedule (over the generation horizon) against
+   * existing interventions and the upcoming dates of other ACTIVE schedules
+   * sharing its site or agents. Later dates are checked when generated.
+   */
+  private async checkScheduleConflicts(schedule: Schedule, force?: boolean): Promise<void> {
+    if (force) return;
+
+    const horizonDays = this.configService.get<number>('schedules.generationHorizonDays') ?? 21;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const validFrom = new Date(schedule.validFrom);
+    const from = validFrom > today ? validFrom : today;
+    const to = new Date(from);
+    to.setDate(to.getDate() + horizonDays);
+
+    const agentIds = schedule.defaultAgentIds || [];
+    const otherSchedules = (
+      await this.scheduleRepository.find({ where: { status: ScheduleStatus.ACTIVE } })
+    ).filter(
+      (other) =>
+        other.id !== schedule.id &&
+        (other.siteId === schedule.siteId ||
+          (other.defaultAgentIds || []).some((agentId) => agentIds.includes(agentId))),
+    );
+
+    const dates = await this.getPlannedDates(schedule, from, to);
+    const otherSlots: PlannedSlot[] = [];
+    for (const other of otherSchedules) {
+      const otherDates = await this.getPlannedDates(other, from, to);
+      otherSlots.push(...otherDates.map((date) => this.toSlot(other, date)));
+    }
+
+    await this.conflictsService.assertNoConflicts(
+      dates.map((date) => this.toSlot(schedule, date)),
+      false,
+      otherSlots,
+    );
+  }
+
+  private toSlot(schedule: Schedule, date: Date): PlannedSlot {
+    return {
+      date: this.formatDate(date),
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      siteId: schedule.siteId,
+      agentIds: schedule.defaultAgentIds || [],
+      scheduleId: schedule.id,
+    };
+  }
+
   /**
    * Find all schedules with filters
    */
@@ -182,7 +265,16 @@ export class SchedulesService {
    */
   async update(id: string, updateScheduleDto: UpdateScheduleDto): Promise<Schedule> {
     const schedule = await this.findOne(id);
+    await this.validateUpdate(schedule, updateScheduleDto);
+
+    Object.assign(schedule, updateScheduleDto);
+    return await this.scheduleRepository.save(schedule);
+  }
 
+  private async validateUpdate(
+    schedule: Schedule,
+    updateScheduleDto: UpdateScheduleDto,
+  ): Promise<void> {
     if (updateScheduleDto.contractId || updateScheduleDto.siteId) {
       await this.validateSchedule({
         ...schedule,
@@ -190,8 +282,281 @@ export class SchedulesService {
       } as CreateScheduleDto);
     }
 
+    const recurrencePattern = updateScheduleDto.recurrencePattern ?? schedule.recurrencePattern;
+    if (recurrencePattern === RecurrencePattern.CUSTOM) {
+      this.parseScheduleRRule(updateScheduleDto.rrule ?? schedule.rrule);
+    }
+  }
+
+  /**
+   * Show how a schedule edit would change its future SCHEDULED or RESCHEDULED
+   * interventions, without saving
+   */
+  async previewPropagation(
+    id: string,
+    propagateDto: PropagateScheduleDto,
+  ): Promise<SchedulePropagationDiff> {
+    const { includeManuallyEdited, ...updateScheduleDto } = propagateDto;
+    const schedule = await this.findOne(id);
+    await this.validateUpdate(schedule, updateScheduleDto);
+
+    const { diff } = await this.buildPropagation(
+      schedule,
+      updateScheduleDto,
+      !!includeManuallyEdited,
+    );
+    return diff;
+  }
+
+  /**
+   * Update a schedule and apply the edit to its future SCHEDULED or RESCHEDULED
+   * interventions: new times and default personnel, dates that no longer match
+   * (or every date of a schedule that is no longer ACTIVE) are cancelled.
+   * Manually edited interventions, which includes every rescheduled one, are left
+   * alone unless includeManuallyEdited is set.
+   * @throws ConflictException (409) when the updated slots clash with other bookings, unless forced
+   */
+  async updateAndPropagate(
+    id: string,
+    propagateDto: PropagateScheduleDto,
+    userId?: string,
+  ): Promise<{ schedule: Schedule; propagation: SchedulePropagationDiff }> {
+    const { includeManuallyEdited, ...updateScheduleDto } = propagateDto;
+    const schedule = await this.findOne(id);
+    await this.validateUpdate(schedule, updateScheduleDto);
+
+    const { diff, interventions } = await this.buildPropagation(
+      schedule,
+      updateScheduleDto,
+      !!includeManuallyEdited,
+    );
+    if (diff.conflicts.length > 0) {
+      await this.conflictsService.assertNoConflicts(
+        this.toPropagatedSlots(diff, interventions),
+        updateScheduleDto.force,
+      );
+    }
+
     Object.assign(schedule, updateScheduleDto);
-    return await this.scheduleRepository.save(schedule);
+    const saved = await this.scheduleRepository.save(schedule);
+
+    // Dates dropped from the schedule are cancelled through the state machine, with their history
+    const changed: Intervention[] = [];
+    const history: InterventionStatusHistory[] = [];
+    for (const entry of diff.interventions.filter((item) => !item.skipped)) {
+      const intervention = interventions.get(entry.interventionId);
+      if (entry.action === 'CANCEL') {
+        history.push(
+          this.stateMachine.apply(intervention, InterventionTransition.CANCEL, {
+            reason: 'Schedule updated',
+            actorId: userId,
+          }),
+        );
+      } else {
+        for (const change of entry.changes.filter((item) => item.field !== 'assignedAgentIds')) {
+          Object.assign(intervention, { [change.field]: change.to });
+        }
+      }
+      changed.push(intervention);
+    }
+    await this.interventionRepository.save(changed);
+    for (const entry of history) {
+      await this.stateMachine.record(entry);
+    }
+
+    // Teams follow the new default agents and team chief
+    for (const entry of diff.interventions.filter((item) => !item.skipped)) {
+      const agents = entry.changes.find((change) => change.field === 'assignedAgentIds');
+      if (agents || entry.changes.some((change) => change.field === 'assignedTeamChiefId')) {
+        const intervention = interventions.get(entry.interventionId);
+        await this.assignmentsService.setTeam(
+          intervention.id,
+          (agents?.to as string[]) ?? this.getAgentIds(intervention),
+          intervention.assignedTeamChiefId,
+        );
+      }
+    }
+
+    return { schedule: saved, propagation: diff };
+  }
+
+  /**
+   * Compare the future SCHEDULED or RESCHEDULED interventions of a schedule with
+   * what the edited schedule would generate for them
+   */
+  private async buildPropagation(
+    schedule: Schedule,
+    updateScheduleDto: UpdateScheduleDto,
+    includeManuallyEdited: boolean,
+  ): Promise<{ diff: SchedulePropagationDiff; interventions: Map<string, Intervention> }> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const diff: SchedulePropagationDiff = {
+      scheduleId: schedule.id,
+      fromDate: this.formatDate(today),
+      updated: 0,
+      cancelled: 0,
+      skipped: 0,
+      unchanged: 0,
+      interventions: [],
+      conflicts: [],
+    };
+
+    const ids = schedule.generatedInterventionIds || [];
+    const interventions = ids.length
+      ? await this.interventionRepository.find({
+          where: {
+            id: In(ids),
+            status: In([InterventionStatus.SCHEDULED, InterventionStatus.RESCHEDULED]),
+            scheduledDate: Raw((column) => `${column} >= :fromDate`, { fromDate: diff.fromDate }),
+          },
+          relations: ['assignments'],
+          order: { scheduledDate: 'ASC', scheduledStartTime: 'ASC' },
+        })
+      : [];
+    const byId = new Map(interventions.map((intervention) => [intervention.id, intervention]));
+    if (interventions.length === 0) {
+      return { diff, interventions: byId };
+    }
+
+    const updated = this.scheduleRepository.create({ ...schedule, ...updateScheduleDto });
+    const lastDate = this.parseDate(interventions[interventions.length - 1].scheduledDate);
+    const plannedDates = new Set(
+      updated.status === ScheduleStatus.ACTIVE
+        ? (await this.getPlannedDates(updated, today, lastDate)).map((date) =>
+            this.formatDate(date),
+          )
+        : [],
+    );
+
+    for (const intervention of interventions) {
+      const date = this.formatDate(this.parseDate(intervention.scheduledDate));
+      const changes: PropagationFieldChange[] = plannedDates.has(date)
+        ? this.getPropagatedChanges(intervention, schedule, updated)
+        : [{ field: 'status', from: intervention.status, to: InterventionStatus.CANCELLED }];
+      if (changes.length === 0) {
+        diff.unchanged++;
+        continue;
+      }
+
+      const entry: InterventionPropagation = {
+        interventionId: intervention.id,
+        interventionCode: intervention.interventionCode,
+        date,
+        action: plannedDates.has(date) ? 'UPDATE' : 'CANCEL',
+        changes,
+        manuallyEdited: !!intervention.manuallyEditedAt,
+        skipped: !!intervention.manuallyEditedAt && !includeManuallyEdited,
+      };
+      diff.interventions.push(entry);
+
+      if (entry.skipped) {
+        diff.skipped++;
+      } else if (entry.action === 'UPDATE') {
+        diff.updated++;
+      } else {
+        diff.cancelled++;
+      }
+    }
+
+    diff.conflicts = await this.conflictsService.detectConflicts(
+      this.toPropagatedSlots(diff, byId),
+    );
+
+    return { diff, interventions: byId };
+  }
+
+  /**
+   * Fields of an intervention following a changed schedule default
+   * Agents are swapped: the previous default agents are replaced, extra agents are kept
+   */
+  private getPropagatedChanges(
+    intervention: Intervention,
+    schedule: Schedule,
+    updated: Schedule,
+  ): PropagationFieldChange[] {
+    const changes: PropagationFieldChange[] = [];
+    const sameTime = (a: string, b: string) => a.slice(0, 5) === b.slice(0, 5);
+
+    if (
+      !sameTime(schedule.startTime, updated.startTime) &&
+      !sameTime(intervention.scheduledStartTime, updated.startTime)
+    ) {
+      changes.push({
+        field: 'scheduledStartTime',
+        from: intervention.scheduledStartTime,
+        to: updated.startTime,
+      });
+    }
+    if (
+      !sameTime(schedule.endTime, updated.endTime) &&
+      !sameTime(intervention.scheduledEndTime, updated.endTime)
+    ) {
+      changes.push({
+        field: 'scheduledEndTime',
+        from: intervention.scheduledEndTime,
+        to: updated.endTime,
+      });
+    }
+
+    const previousAgents = schedule.defaultAgentIds || [];
+    const currentAgents = this.getAgentIds(intervention);
+    const agents = [
+      ...new Set([
+        ...currentAgents.filter((agentId) => !previousAgents.includes(agentId)),
+        ...(updated.defaultAgentIds || []),
+      ]),
+    ];
+    if (
+      agents.length !== currentAgents.length ||
+      agents.some((agentId) => !currentAgents.includes(agentId))
+    ) {
+      changes.push({ field: 'assignedAgentIds', from: currentAgents, to: agents });
+    }
+
+    const chiefs = [
+      ['assignedZoneChiefId', 'defaultZoneChiefId'],
+      ['assignedTeamChiefId', 'defaultTeamChiefId'],
+    ] as const;
+    for (const [field, defaultField] of chiefs) {
+      const next = updated[defaultField] ?? null;
+      if ((schedule[defaultField] ?? null) !== next && (intervention[field] ?? null) !== next) {
+        changes.push({ field, from: intervention[field] ?? null, to: next });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Slots of the interventions a propagation would update (cancelled ones are freed)
+   */
+  private toPropagatedSlots(
+    diff: SchedulePropagationDiff,
+    interventions: Map<string, Intervention>,
+  ): PlannedSlot[] {
+    return diff.interventions
+      .filter((entry) => entry.action === 'UPDATE' && !entry.skipped)
+      .map((entry) => {
+        const intervention = interventions.get(entry.interventionId);
+        const next = (field: PropagationFieldChange['field'], current: string | string[] | null) =>
+          entry.changes.find((change) => change.field === field)?.to ?? current;
+        return {
+          date: entry.date,
+          startTime: next('scheduledStartTime', intervention.scheduledStartTime) as string,
+          endTime: next('scheduledEndTime', intervention.scheduledEndTime) as string,
+          siteId: intervention.siteId,
+          agentIds: next('assignedAgentIds', this.getAgentIds(intervention)) as string[],
+          interventionId: intervention.id,
+        };
+      });
+  }
+
+  private getAgentIds(intervention: Intervention): string[] {
+    return (intervention.assignments || [])
+      .filter((assignment) => assignment.role === AssignmentRole.AGENT)
+      .map((assignment) => assignment.userId);
   }
 
   /**
@@ -225,6 +590,16 @@ export class SchedulesService {
       : new Date('2099-12-31');
     validUntil.setHours(23, 59, 59, 999);
 
+    // CUSTOM rules are expanded once from validFrom (their DTSTART), then matched day by day
+    const customDates =
+      schedule.recurrencePattern === RecurrencePattern.CUSTOM && schedule.rrule
+        ? new Set(
+            getRRuleOccurrences(this.parseScheduleRRule(schedule.rrule), validFrom, end).map(
+              (date) => date.toISOString().split('T')[0],
+            ),
+          )
+        : null;
+
     while (current <= end) {
       // Check if date is within schedule validity
       if (current >= validFrom && current <= validUntil) {
@@ -278,8 +653,7 @@ export class SchedulesService {
               break;
 
             case RecurrencePattern.CUSTOM:
-              // Custom logic can be extended
-              shouldInclude = false;
+              shouldInclude = !!customDates && customDates.has(dateStr);
               break;
           }
 
@@ -296,6 +670,80 @@ export class SchedulesService {
     return dates;
   }
 
+  /**
+   * Dates of a schedule over a range, after applying its holiday policy
+   */
+  private async getPlannedDates(
+    schedule: Schedule,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<Date[]> {
+    const dates = this.calculateScheduleDates(schedule, startDate, endDate);
+    if (dates.length === 0 || schedule.holidayPolicy === HolidayPolicy.IGNORE) {
+      return dates;
+    }
+
+    // Loaded past the range end so that a holiday can move to the next working day
+    const searchEnd = new Date(dates[dates.length - 1]);
+    searchEnd.setDate(searchEnd.getDate() + 31);
+    const holidays = await this.holidaysService.getHolidays(
+      this.formatDate(dates[0]),
+      this.formatDate(searchEnd),
+      schedule.zoneId,
+    );
+
+    const planned = new Map<string, Date>();
+    for (const date of dates) {
+      if (!holidays.has(this.formatDate(date))) {
+        planned.set(this.formatDate(date), date);
+        continue;
+      }
+      if (schedule.holidayPolicy !== HolidayPolicy.NEXT_WORKING_DAY) continue;
+
+      const moved = this.holidaysService.nextWorkingDay(date, holidays);
+      if (moved && !planned.has(this.formatDate(moved))) {
+        planned.set(this.formatDate(moved), moved);
+      }
+    }
+
+    return [...planned.values()].sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  /**
+   * List the next dates of a schedule, starting today (exception dates and holiday policy applied)
+   */
+  async previewSchedule(id: string, count = 10): Promise<string[]> {
+    const schedule = await this.findOne(id);
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const horizon = new Date(today);
+    horizon.setFullYear(horizon.getFullYear() + 2);
+
+    return (await this.getPlannedDates(schedule, today, horizon))
+      .slice(0, Math.min(Math.max(count || 10, 1), 100))
+      .map((date) => this.formatDate(date));
+  }
+
+  /**
+   * List the first dates of an RRULE before saving it on a schedule
+   */
+  previewRRule(dto: PreviewRRuleDto): { rrule: string; dates: string[] } {
+    const rule = this.parseScheduleRRule(dto.rrule);
+
+    const start = dto.startDate ? new Date(`${dto.startDate.slice(0, 10)}T00:00:00`) : new Date();
+    start.setHours(0, 0, 0, 0);
+    const horizon = new Date(start);
+    horizon.setFullYear(horizon.getFullYear() + 5);
+
+    return {
+      rrule: dto.rrule,
+      dates: getRRuleOccurrences(rule, start, horizon, dto.count ?? 10).map((date) =>
+        this.formatDate(date),
+      ),
+    };
+  }
+
   /**
    * Generate interventions from a schedule for a date range
    */
@@ -314,15 +762,23 @@ export class SchedulesService {
       ? new Date(startDate.getTime() + dto.daysAhead * 24 * 60 * 60 * 1000)
       : new Date(dto.endDate);
 
-    const dates = this.calculateScheduleDates(schedule, startDate, endDate);
+    const dates = await this.getPlannedDates(schedule, startDate, endDate);
 
     const result: GenerationResult = {
       generated: 0,
       skipped: 0,
       errors: [],
       interventionIds: [],
+      conflicts: [],
     };
 
+    // Dates clashing with existing bookings are skipped unless forced
+    const conflicts = dto.force
+      ? []
+      : await this.conflictsService.detectConflicts(
+          dates.map((date) => this.toSlot(schedule, date)),
+        );
+
     for (const date of dates) {
       try {
         // Check if intervention already exists for this date
@@ -339,8 +795,17 @@ export class SchedulesService {
           continue;
         }
 
+        const dateConflicts = conflicts.filter(
+          (conflict) => conflict.date === this.formatDate(date),
+        );
+        if (dateConflicts.length > 0) {
+          result.skipped++;
+          result.conflicts.push(...dateConflicts);
+          continue;
+        }
+
         // Generate intervention code
-        const interventionCode = await this.generateInterventionCode();
+        const interventionCode = await this.numberingService.next(NumberedEntity.INTERVENTION);
 
         // Create intervention
         const intervention = this.interventionRepository.create({
@@ -353,10 +818,14 @@ export class SchedulesService {
           status: InterventionStatus.SCHEDULED,
           assignedZoneChiefId: schedule.defaultZoneChiefId,
           assignedTeamChiefId: schedule.defaultTeamChiefId,
-          assignedAgentIds: schedule.defaultAgentIds || [],
         });
 
         const saved = await this.interventionRepository.save(intervention);
+        await this.assignmentsService.setTeam(
+          saved.id,
+          schedule.defaultAgentIds || [],
+          schedule.defaultTeamChiefId,
+        );
 
         // Track generated intervention
         if (!schedule.generatedInterventionIds) {
@@ -445,4 +914,19 @@ export class SchedulesService {
     schedule.status = ScheduleStatus.ACTIVE;
     return await this.scheduleRepository.save(schedule);
   }
+
+  // Date columns come back as YYYY-MM-DD strings
+  private parseDate(value: Date | string): Date {
+    if (typeof value === 'string') {
+      const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
 }
@@ -5,6 +5,10 @@ import {
   IsUUID,
   MaxLength,
   IsEmail,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
 } from 'class-validator';
 import { SiteSize, SiteStatus } from '../../../shared/types/site.types';
 
@@ -39,6 +43,24 @@ export class CreateSiteDto {
   @MaxLength(100)
   country?: string;
 
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(10)
+  @Max(5000)
+  geofenceRadiusMeters?: number;
+
   @IsOptional()
   @IsString()
   accessInstructions?: string;
@@ -46,6 +46,17 @@ export class Site {
   @Column({ type: 'varchar', length: 100, nullable: true })
   country: string | null;
 
+  // GPS coordinates used for check-in geofencing
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  latitude: number | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
+  longitude: number | null;
+
+  // Allowed check-in distance from the site (falls back to geofence.defaultRadiusMeters)
+  @Column({ type: 'integer', nullable: true })
+  geofenceRadiusMeters: number | null;
+
   // Access and working information
   @Column({ type: 'text', nullable: true })
   accessInstructions: string | null;
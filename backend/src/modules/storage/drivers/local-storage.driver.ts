@@ -0,0 +1,50 @@
+import { createReadStream } from 'fs';
+import { mkdir, writeFile, unlink, access } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { NotFoundException } from '@nestjs/common';
+import { StorageDriver } from './storage-driver';
+
+/**
+ * Files kept on the server disk, below the configured root directory
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.resolveKey(key);
+    try {
+      await access(path);
+    } catch {
+      throw new NotFoundException(`Stored content ${key} not found`);
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  // Keys never leave the root directory
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new NotFoundException(`Stored content ${key} not found`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,68 @@
+import { Readable } from 'stream';
+import { NotFoundException } from '@nestjs/common';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from '@aws-sdk/client-s3';
+import { StorageDriver } from './storage-driver';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // S3-compatible stores (MinIO, ...)
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * Files kept in an S3 bucket, or any S3-compatible store such as a local MinIO
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      // Default AWS credential chain when no keys are configured
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: data,
+        ContentType: mimeType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      );
+      return object.Body as Readable;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundException(`Stored content ${key} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+}
@@ -0,0 +1,13 @@
+import { Readable } from 'stream';
+
+// Injection token of the configured StorageDriver
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Backend keeping the file contents, selected with STORAGE_DRIVER (local | s3)
+ */
+export interface StorageDriver {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { StoredFileOwner } from '../../../shared/types/storage.types';
+
+/**
+ * Stored File Entity
+ * Uploaded file kept by the storage driver, referenced from its owner as /files/:id
+ */
+@Entity('stored_files')
+@Index(['ownerType', 'ownerId'])
+export class StoredFile {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 30 })
+  ownerType: StoredFileOwner;
+
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  originalName: string;
+
+  // Detected from the content, not the client's Content-Type
+  @Column({ type: 'varchar', length: 100 })
+  mimeType: string;
+
+  @Column({ type: 'int' })
+  size: number;
+
+  // Location in the storage driver (disk path below the root, or S3 object key)
+  @Column({ type: 'varchar', length: 500 })
+  storageKey: string;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  thumbnailKey: string | null;
+
+  // SHA-256 of the stored content, to detect a replaced file
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checksum: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  uploadedById: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'uploadedById' })
+  uploadedBy: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,114 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StoredFile } from './entities/stored-file.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { InterventionAssignment } from '../interventions/entities/intervention-assignment.entity';
+import { ChecklistItem } from '../checklists/entities/checklist-item.entity';
+import { Absence } from '../absences/entities/absence.entity';
+import { Report } from '../reports/entities/report.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Incident } from '../incidents/entities/incident.entity';
+import { StoredFileOwner } from '../../shared/types/storage.types';
+import { UserRole } from '../../shared/types/user.types';
+
+// Roles seeing every file
+const STAFF_ROLES = [UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR];
+
+/**
+ * Who may download a stored file, decided by the record it belongs to
+ */
+@Injectable()
+export class FileAccessService {
+  constructor(
+    @InjectRepository(Intervention)
+    private readonly interventionRepository: Repository<Intervention>,
+    @InjectRepository(InterventionAssignment)
+    private readonly assignmentRepository: Repository<InterventionAssignment>,
+    @InjectRepository(ChecklistItem)
+    private readonly checklistItemRepository: Repository<ChecklistItem>,
+    @InjectRepository(Absence)
+    private readonly absenceRepository: Repository<Absence>,
+    @InjectRepository(Report)
+    private readonly reportRepository: Repository<Report>,
+    @InjectRepository(Client)
+    private readonly clientRepository: Repository<Client>,
+    @InjectRepository(Incident)
+    private readonly incidentRepository: Repository<Incident>,
+  ) {}
+
+  /**
+   * @throws ForbiddenException when the user may not see the file
+   */
+  async assertCanRead(file: StoredFile, user: { id: string; role: UserRole }): Promise<void> {
+    if (!(await this.canRead(file, user))) {
+      throw new ForbiddenException('You do not have access to this file');
+    }
+  }
+
+  private async canRead(file: StoredFile, user: { id: string; role: UserRole }): Promise<boolean> {
+    if (file.uploadedById === user.id || STAFF_ROLES.includes(user.role)) return true;
+
+    switch (file.ownerType) {
+      case StoredFileOwner.PROFILE:
+        return true;
+      case StoredFileOwner.INTERVENTION:
+        return this.canReadIntervention(file.ownerId, user);
+      case StoredFileOwner.CHECKLIST_ITEM: {
+        const item = await this.checklistItemRepository.findOne({
+          where: { id: file.ownerId },
+          relations: ['checklistInstance'],
+        });
+        return item ? this.canReadIntervention(item.checklistInstance.interventionId, user) : false;
+      }
+      case StoredFileOwner.ABSENCE:
+        return (
+          (await this.absenceRepository.count({ where: { id: file.ownerId, agentId: user.id } })) >
+          0
+        );
+      case StoredFileOwner.REPORT: {
+        const report = await this.reportRepository.findOne({ where: { id: file.ownerId } });
+        return report?.reporterId === user.id || report?.assignedToId === user.id;
+      }
+      case StoredFileOwner.INCIDENT: {
+        // Internal records, never shown on the portal
+        if (user.role === UserRole.CLIENT) return false;
+        const incident = await this.incidentRepository.findOne({ where: { id: file.ownerId } });
+        if (!incident) return false;
+        if (incident.reportedById === user.id || incident.assignedToId === user.id) return true;
+        return incident.interventionId
+          ? this.canReadIntervention(incident.interventionId, user)
+          : false;
+      }
+      default:
+        return false;
+    }
+  }
+
+  // People on the intervention, and the client of its site (portal)
+  private async canReadIntervention(
+    interventionId: string,
+    user: { id: string; role: UserRole },
+  ): Promise<boolean> {
+    const intervention = await this.interventionRepository.findOne({
+      where: { id: interventionId },
+      relations: ['site'],
+    });
+    if (!intervention) return false;
+
+    if (user.role === UserRole.CLIENT) {
+      const clients = await this.clientRepository.find({ where: { userId: user.id } });
+      return clients.some((client) => client.id === intervention.site?.clientId);
+    }
+
+    if (
+      intervention.assignedTeamChiefId === user.id ||
+      intervention.assignedZoneChiefId === user.id
+    ) {
+      return true;
+    }
+    return (
+      (await this.assignmentRepository.count({ where: { interventionId, userId: user.id } })) > 0
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Res,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { StorageService } from './storage.service';
+import { FileAccessService } from './file-access.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { Public } from '../../common/decorators/public.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { StoredFileVariant } from '../../shared/types/storage.types';
+
+@Controller('files')
+@UseGuards(JwtAuthGuard)
+export class StorageController {
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly fileAccessService: FileAccessService,
+  ) {}
+
+  /**
+   * Signed download URLs of a file (/files/:id references kept by interventions, checklists, ...)
+   * Access: uploader, SUPER_ADMIN, ADMIN, SUPERVISOR, and the people of the owning record
+   */
+  @Get(':id')
+  async getSignedUrl(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: any) {
+    const file = await this.storageService.findOne(id);
+    await this.fileAccessService.assertCanRead(file, user);
+    return this.storageService.getSignedUrl(file);
+  }
+
+  /**
+   * File content, for a URL signed by GET /files/:id
+   * Access: Public (the signature is the authorization)
+   */
+  @Public()
+  @Get(':id/content')
+  async getContent(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('variant') variant: StoredFileVariant = 'original',
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { file, mimeType, content } = await this.storageService.openSigned(
+      id,
+      variant,
+      expires,
+      signature,
+    );
+    res.set({
+      'Content-Type': mimeType,
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(file.originalName)}`,
+      'Cache-Control': 'private, max-age=300',
+      'X-Content-Type-Options': 'nosniff',
+    });
+    return new StreamableFile(content);
+  }
+}
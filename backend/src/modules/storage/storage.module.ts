@@ -0,0 +1,70 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { StoredFile } from './entities/stored-file.entity';
+import { Intervention } from '../interventions/entities/intervention.entity';
+import { InterventionAssignment } from '../interventions/entities/intervention-assignment.entity';
+import { ChecklistItem } from '../checklists/entities/checklist-item.entity';
+import { Absence } from '../absences/entities/absence.entity';
+import { Report } from '../reports/entities/report.entity';
+import { Client } from '../clients/entities/client.entity';
+import { Incident } from '../incidents/entities/incident.entity';
+import { StorageService } from './storage.service';
+import { FileAccessService } from './file-access.service';
+import { StorageController } from './storage.controller';
+import { STORAGE_DRIVER, StorageDriver } from './drivers/storage-driver';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      StoredFile,
+      Intervention,
+      InterventionAssignment,
+      ChecklistItem,
+      Absence,
+      Report,
+      Client,
+      Incident,
+    ]),
+    // Uploads are kept in memory until validated, the size limit stops larger bodies early
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          fileSize: (configService.get<number>('storage.maxFileSizeMb') ?? 10) * 1024 * 1024,
+          files: 1,
+        },
+      }),
+    }),
+  ],
+  controllers: [StorageController],
+  providers: [
+    StorageService,
+    FileAccessService,
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): StorageDriver => {
+        if (configService.get<string>('storage.driver') === 's3') {
+          return new S3StorageDriver({
+            bucket: configService.get<string>('storage.s3.bucket') ?? '',
+            region: configService.get<string>('storage.s3.region') ?? 'us-east-1',
+            endpoint: configService.get<string>('storage.s3.endpoint'),
+            accessKeyId: configService.get<string>('storage.s3.accessKeyId'),
+            secretAccessKey: configService.get<string>('storage.s3.secretAccessKey'),
+            forcePathStyle: configService.get<boolean>('storage.s3.forcePathStyle') ?? false,
+          });
+        }
+        return new LocalStorageDriver(
+          configService.get<string>('storage.localRoot') ?? './uploads',
+        );
+      },
+    },
+  ],
+  // MulterModule carries the upload limits to the modules receiving files
+  exports: [StorageService, MulterModule],
+})
+export class StorageModule {}
@@ -0,0 +1,307 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { StoredFile } from './entities/stored-file.entity';
+import { STORAGE_DRIVER, StorageDriver } from './drivers/storage-driver';
+import {
+  StoredFileOwner,
+  StoredFileVariant,
+  SignedFileUrl,
+  UploadRules,
+} from '../../shared/types/storage.types';
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Formats accepted for each owner, checked against the file content
+const UPLOAD_RULES: Record<StoredFileOwner, UploadRules> = {
+  [StoredFileOwner.INTERVENTION]: { mimeTypes: IMAGE_TYPES },
+  [StoredFileOwner.CHECKLIST_ITEM]: { mimeTypes: IMAGE_TYPES },
+  [StoredFileOwner.ABSENCE]: { mimeTypes: [...IMAGE_TYPES, 'application/pdf'] },
+  [StoredFileOwner.REPORT]: { mimeTypes: IMAGE_TYPES },
+  [StoredFileOwner.INCIDENT]: { mimeTypes: IMAGE_TYPES },
+  [StoredFileOwner.PROFILE]: { mimeTypes: IMAGE_TYPES },
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+// Owner fields keep this reference, resolved to a signed URL by GET /files/:id
+const REFERENCE_PREFIX = '/files/';
+
+/**
+ * Uploaded files: validation, image processing, storage through the configured driver
+ * and signed download URLs
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+
+  constructor(
+    @InjectRepository(StoredFile)
+    private readonly storedFileRepository: Repository<StoredFile>,
+    @Inject(STORAGE_DRIVER)
+    private readonly driver: StorageDriver,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Store an uploaded file for its owner
+   * Images are re-encoded without their metadata (EXIF, GPS position) and get a thumbnail
+   * @throws PayloadTooLargeException (413) above the configured size
+   * @throws UnsupportedMediaTypeException (415) when the content is not an accepted format
+   */
+  async upload(
+    file: Express.Multer.File | undefined,
+    ownerType: StoredFileOwner,
+    ownerId: string,
+    uploadedById: string,
+  ): Promise<StoredFile> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('A non-empty file is required (multipart field "file")');
+    }
+
+    const maxFileSizeMb = this.configService.get<number>('storage.maxFileSizeMb') ?? 10;
+    if (file.size > maxFileSizeMb * 1024 * 1024) {
+      throw new PayloadTooLargeException(`Files are limited to ${maxFileSizeMb} MB`);
+    }
+
+    // The declared Content-Type and extension are not trusted
+    const rules = UPLOAD_RULES[ownerType];
+    const mimeType = this.detectMimeType(file.buffer);
+    if (!mimeType || !rules.mimeTypes.includes(mimeType)) {
+      throw new UnsupportedMediaTypeException(
+        `Unsupported file type, accepted: ${rules.mimeTypes.join(', ')}`,
+      );
+    }
+
+    let content = file.buffer;
+    let thumbnail: Buffer | null = null;
+    if (IMAGE_TYPES.includes(mimeType)) {
+      ({ content, thumbnail } = await this.processImage(file.buffer, mimeType));
+    }
+
+    const baseKey = `${ownerType.toLowerCase()}/${ownerId}/${randomUUID()}`;
+    const storageKey = `${baseKey}.${EXTENSIONS[mimeType]}`;
+    const thumbnailKey = thumbnail ? `${baseKey}_thumb.jpg` : null;
+
+    await this.driver.put(storageKey, content, mimeType);
+    if (thumbnail && thumbnailKey) {
+      await this.driver.put(thumbnailKey, thumbnail, 'image/jpeg');
+    }
+
+    const storedFile = await this.storedFileRepository.save(
+      this.storedFileRepository.create({
+        ownerType,
+        ownerId,
+        originalName: this.cleanName(file.originalname, mimeType),
+        mimeType,
+        size: content.length,
+        storageKey,
+        thumbnailKey,
+        checksum: createHash('sha256').update(content).digest('hex'),
+        uploadedById,
+      }),
+    );
+
+    this.logger.log(`Stored ${storageKey} (${content.length} bytes) for ${ownerType} ${ownerId}`);
+    return storedFile;
+  }
+
+  async findOne(id: string): Promise<StoredFile> {
+    const file = await this.storedFileRepository.findOne({ where: { id } });
+
+    if (!file) {
+      throw new NotFoundException(`File with ID ${id} not found`);
+    }
+
+    return file;
+  }
+
+  /**
+   * Value kept in the owner's URL field for a stored file
+   */
+  toReference(file: StoredFile): string {
+    return `${REFERENCE_PREFIX}${file.id}`;
+  }
+
+  /**
+   * Stored file behind a /files/:id reference, null for external URLs
+   */
+  async findByReference(reference: string | null | undefined): Promise<StoredFile | null> {
+    const match = reference?.match(/^\/files\/([0-9a-f-]{36})$/i);
+    if (!match) return null;
+    return this.storedFileRepository.findOne({ where: { id: match[1] } });
+  }
+
+  /**
+   * Delete a stored file and its content (replaced profile photo, ...)
+   */
+  async remove(file: StoredFile): Promise<void> {
+    await this.driver.delete(file.storageKey);
+    if (file.thumbnailKey) {
+      await this.driver.delete(file.thumbnailKey);
+    }
+    await this.storedFileRepository.remove(file);
+  }
+
+  /**
+   * Whether the stored content still matches the checksum taken at upload
+   * Files stored before checksums were recorded have nothing to compare against
+   */
+  async matchesChecksum(file: StoredFile): Promise<boolean> {
+    if (!file.checksum) return false;
+
+    const hash = createHash('sha256');
+    for await (const chunk of await this.driver.get(file.storageKey)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex') === file.checksum;
+  }
+
+  /**
+   * Download URLs of a file, valid for the configured TTL
+   */
+  getSignedUrl(file: StoredFile): SignedFileUrl {
+    const ttlSeconds = this.configService.get<number>('storage.signedUrlTtlSeconds') ?? 900;
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+
+    return {
+      fileId: file.id,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      size: file.size,
+      url: this.buildUrl(file.id, 'original', expires),
+      thumbnailUrl: file.thumbnailKey ? this.buildUrl(file.id, 'thumbnail', expires) : null,
+      expiresAt: new Date(expires * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Content of a file for a signed URL
+   * @throws ForbiddenException when the signature is wrong or expired
+   */
+  async openSigned(
+    id: string,
+    variant: StoredFileVariant,
+    expires: string,
+    signature: string,
+  ): Promise<{ file: StoredFile; mimeType: string; content: Readable }> {
+    const expiresAt = Number(expires);
+    if (
+      !Number.isInteger(expiresAt) ||
+      expiresAt < Date.now() / 1000 ||
+      !this.isValidSignature(this.sign(id, variant, expiresAt), signature)
+    ) {
+      throw new ForbiddenException('Invalid or expired download link');
+    }
+
+    const file = await this.findOne(id);
+    if (variant === 'thumbnail') {
+      if (!file.thumbnailKey) {
+        throw new NotFoundException(`File ${id} has no thumbnail`);
+      }
+      return { file, mimeType: 'image/jpeg', content: await this.driver.get(file.thumbnailKey) };
+    }
+
+    return { file, mimeType: file.mimeType, content: await this.driver.get(file.storageKey) };
+  }
+
+  private buildUrl(id: string, variant: StoredFileVariant, expires: number): string {
+    const baseUrl = (
+      this.configService.get<string>('storage.publicBaseUrl') ?? 'http://localhost:3000/api'
+    ).replace(/\/$/, '');
+    const query = new URLSearchParams({
+      variant,
+      expires: String(expires),
+      signature: this.sign(id, variant, expires),
+    });
+    return `${baseUrl}/files/${id}/content?${query.toString()}`;
+  }
+
+  private sign(id: string, variant: StoredFileVariant, expires: number): string {
+    const secret =
+      this.configService.get<string>('storage.signingSecret') ||
+      this.configService.get<string>('jwt.secret') ||
+      '';
+    return createHmac('sha256', secret).update(`${id}:${variant}:${expires}`).digest('base64url');
+  }
+
+  private isValidSignature(expected: string, actual: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(actual ?? '');
+    return (
+      expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer)
+    );
+  }
+
+  // Applies the EXIF orientation before the metadata is dropped (sharp keeps none by default)
+  private async processImage(
+    buffer: Buffer,
+    mimeType: string,
+  ): Promise<{ content: Buffer; thumbnail: Buffer }> {
+    const thumbnailSize = this.configService.get<number>('storage.thumbnailSize') ?? 320;
+    const format =
+      EXTENSIONS[mimeType] === 'jpg' ? 'jpeg' : (EXTENSIONS[mimeType] as 'png' | 'webp');
+
+    try {
+      const content = await sharp(buffer).rotate().toFormat(format).toBuffer();
+      const thumbnail = await sharp(content)
+        .resize(thumbnailSize, thumbnailSize, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+      return { content, thumbnail };
+    } catch (error) {
+      this.logger.warn(`Unreadable image upload: ${(error as Error).message}`);
+      throw new UnsupportedMediaTypeException('The image could not be read');
+    }
+  }
+
+  // Magic numbers of the accepted formats
+  private detectMimeType(buffer: Buffer): string | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+      return 'image/jpeg';
+    }
+    if (
+      buffer.length >= 8 &&
+      buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    ) {
+      return 'image/png';
+    }
+    if (
+      buffer.length >= 12 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      return 'image/webp';
+    }
+    if (buffer.length >= 5 && buffer.toString('ascii', 0, 5) === '%PDF-') {
+      return 'application/pdf';
+    }
+    return null;
+  }
+
+  // Original name without its path, with the extension of the detected format
+  private cleanName(originalName: string | undefined, mimeType: string): string {
+    const name = (originalName || 'file').split(/[\\/]/).pop() || 'file';
+    const base = name.slice(0, name.length - extname(name).length) || 'file';
+    return `${base.slice(0, 200)}.${EXTENSIONS[mimeType]}`;
+  }
+}
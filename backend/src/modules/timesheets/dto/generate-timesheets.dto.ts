@@ -0,0 +1,17 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsArray, IsUUID } from 'class-validator';
+
+export class GenerateTimesheetsDto {
+  @IsDateString()
+  @IsNotEmpty()
+  periodStart: string;
+
+  @IsDateString()
+  @IsNotEmpty()
+  periodEnd: string;
+
+  // Defaults to every active agent and supervisor
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  userIds?: string[];
+}
@@ -0,0 +1,2 @@
+export { GenerateTimesheetsDto } from './generate-timesheets.dto';
+export { ApproveTimesheetDto, RejectTimesheetDto } from './review-timesheet.dto';
@@ -0,0 +1,15 @@
+import { IsString, IsOptional, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class ApproveTimesheetDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  reviewNotes?: string;
+}
+
+export class RejectTimesheetDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reviewNotes: string;
+}
@@ -0,0 +1,95 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { TimesheetStatus, TimesheetDay } from '../../../shared/types/timesheet.types';
+
+/**
+ * Timesheet Entity
+ * Hours worked by one employee over a payroll period, computed from attendances
+ */
+@Entity('timesheets')
+@Index(['userId', 'periodStart', 'periodEnd'], { unique: true })
+@Index(['status'])
+export class Timesheet {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'date' })
+  periodStart: string;
+
+  @Column({ type: 'date' })
+  periodEnd: string;
+
+  @Column({
+    type: 'varchar',
+    default: TimesheetStatus.DRAFT,
+  })
+  status: TimesheetStatus;
+
+  // Hours (breaks already deducted)
+  @Column({ type: 'decimal', precision: 7, scale: 2, default: 0 })
+  totalHours: number;
+
+  @Column({ type: 'decimal', precision: 7, scale: 2, default: 0 })
+  regularHours: number;
+
+  // Hours past the weekly overtime threshold
+  @Column({ type: 'decimal', precision: 7, scale: 2, default: 0 })
+  overtimeHours: number;
+
+  // Night and weekend hours are included in totalHours
+  @Column({ type: 'decimal', precision: 7, scale: 2, default: 0 })
+  nightHours: number;
+
+  @Column({ type: 'decimal', precision: 7, scale: 2, default: 0 })
+  weekendHours: number;
+
+  @Column({ type: 'int', default: 0 })
+  breakMinutes: number;
+
+  // Approved absences, counted in working days
+  @Column({ type: 'int', default: 0 })
+  absenceDays: number;
+
+  @Column({ type: 'jsonb', default: {} })
+  absencesByType: Record<string, number>;
+
+  @Column({ type: 'jsonb', default: [] })
+  days: TimesheetDay[];
+
+  // Approval
+  @Column({ type: 'uuid', nullable: true })
+  reviewedById: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  reviewNotes: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Relations
+  @ManyToOne(() => User, { eager: false, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => User, { eager: false, nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'reviewedById' })
+  reviewedBy: User;
+}
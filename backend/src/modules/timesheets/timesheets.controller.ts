@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Res,
+  ParseUUIDPipe,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { TimesheetsService } from './timesheets.service';
+import { GenerateTimesheetsDto, ApproveTimesheetDto, RejectTimesheetDto } from './dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../../shared/types/user.types';
+import { TimesheetStatus, TimesheetExportFormat } from '../../shared/types/timesheet.types';
+
+@Controller('timesheets')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TimesheetsController {
+  constructor(private readonly timesheetsService: TimesheetsService) {}
+
+  /**
+   * Compute timesheets of a period from attendance records
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Post('generate')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  generate(@Body() generateDto: GenerateTimesheetsDto, @CurrentUser() user: User) {
+    return this.timesheetsService.generate(generateDto, user);
+  }
+
+  /**
+   * Get timesheets with filters
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  findAll(
+    @CurrentUser() user: User,
+    @Query('periodStart') periodStart?: string,
+    @Query('periodEnd') periodEnd?: string,
+    @Query('status') status?: TimesheetStatus,
+    @Query('userId') userId?: string,
+  ) {
+    return this.timesheetsService.findAll({ periodStart, periodEnd, status, userId }, user);
+  }
+
+  /**
+   * Timesheets of the logged-in employee
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR, AGENT
+   */
+  @Get('my')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  findMine(@CurrentUser('id') userId: string) {
+    return this.timesheetsService.findForUser(userId);
+  }
+
+  /**
+   * Download the approved timesheets of a period for payroll
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Get('export')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  async export(
+    @CurrentUser() user: User,
+    @Res({ passthrough: true }) res: Response,
+    @Query('periodStart') periodStart: string,
+    @Query('periodEnd') periodEnd: string,
+    @Query('format') format: TimesheetExportFormat = TimesheetExportFormat.CSV,
+  ) {
+    const file = await this.timesheetsService.export(periodStart, periodEnd, format, user);
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+    });
+    return new StreamableFile(file.content);
+  }
+
+  /**
+   * Get a timesheet with its daily breakdown
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team), AGENT (own timesheets)
+   */
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.AGENT)
+  findOne(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: User) {
+    return this.timesheetsService.findOne(id, user);
+  }
+
+  /**
+   * Approve a draft timesheet
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Patch(':id/approve')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  approve(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() approveDto: ApproveTimesheetDto,
+  ) {
+    return this.timesheetsService.approve(id, user, approveDto);
+  }
+
+  /**
+   * Reject a draft timesheet
+   * Access: SUPER_ADMIN, ADMIN, SUPERVISOR (own team)
+   */
+  @Patch(':id/reject')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.SUPERVISOR)
+  reject(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() rejectDto: RejectTimesheetDto,
+  ) {
+    return this.timesheetsService.reject(id, user, rejectDto);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TimesheetsService } from './timesheets.service';
+import { TimesheetsController } from './timesheets.controller';
+import { Timesheet } from './entities/timesheet.entity';
+import { Attendance } from '../attendance/entities/attendance.entity';
+import { Absence } from '../absences/entities/absence.entity';
+import { User } from '../users/entities/user.entity';
+import { HolidaysModule } from '../holidays/holidays.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Timesheet, Attendance, Absence, User]), HolidaysModule],
+  controllers: [TimesheetsController],
+  providers: [TimesheetsService],
+  exports: [TimesheetsService],
+})
+export class TimesheetsModule {}
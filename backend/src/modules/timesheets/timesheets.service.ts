@@ -0,0 +1,496 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, Between, Not, IsNull, Raw } from 'typeorm';
+import { Timesheet } from './entities/timesheet.entity';
+import { Attendance } from '../attendance/entities/attendance.entity';
+import { Absence } from '../absences/entities/absence.entity';
+import { User } from '../users/entities/user.entity';
+import { HolidaysService } from '../holidays/holidays.service';
+import { GenerateTimesheetsDto, ApproveTimesheetDto, RejectTimesheetDto } from './dto';
+import {
+  TimesheetStatus,
+  TimesheetDay,
+  TimesheetExportFormat,
+} from '../../shared/types/timesheet.types';
+import { AbsenceStatus } from '../../shared/types/absence.types';
+import { UserRole, UserStatus } from '../../shared/types/user.types';
+import { toCsv, toXlsx, ExportCell } from '../../shared/utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface TimesheetFilters {
+  periodStart?: string;
+  periodEnd?: string;
+  status?: TimesheetStatus;
+  userId?: string;
+}
+
+export interface TimesheetExport {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+type TimesheetTotals = Pick<
+  Timesheet,
+  | 'totalHours'
+  | 'regularHours'
+  | 'overtimeHours'
+  | 'nightHours'
+  | 'weekendHours'
+  | 'breakMinutes'
+  | 'absenceDays'
+  | 'absencesByType'
+  | 'days'
+>;
+
+@Injectable()
+export class TimesheetsService {
+  private readonly logger = new Logger(TimesheetsService.name);
+
+  constructor(
+    @InjectRepository(Timesheet)
+    private readonly timesheetRepository: Repository<Timesheet>,
+    @InjectRepository(Attendance)
+    private readonly attendanceRepository: Repository<Attendance>,
+    @InjectRepository(Absence)
+    private readonly absenceRepository: Repository<Absence>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly holidaysService: HolidaysService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Compute (or recompute) the timesheets of a period
+   * Approved timesheets are locked and returned unchanged
+   */
+  async generate(dto: GenerateTimesheetsDto, currentUser: User): Promise<Timesheet[]> {
+    const periodStart = dto.periodStart.slice(0, 10);
+    const periodEnd = dto.periodEnd.slice(0, 10);
+    if (periodStart > periodEnd) {
+      throw new BadRequestException('periodEnd must be on or after periodStart');
+    }
+
+    const where: any = { role: In([UserRole.AGENT, UserRole.SUPERVISOR]) };
+    if (dto.userIds?.length) {
+      where.id = In(dto.userIds);
+    } else {
+      where.status = UserStatus.ACTIVE;
+    }
+    if (currentUser.role === UserRole.SUPERVISOR) {
+      where.supervisorId = currentUser.id;
+    }
+    const users = await this.userRepository.find({ where });
+
+    const timesheets: Timesheet[] = [];
+    for (const user of users) {
+      let timesheet = await this.timesheetRepository.findOne({
+        where: { userId: user.id, periodStart, periodEnd },
+      });
+      if (timesheet?.status === TimesheetStatus.APPROVED) {
+        timesheets.push(timesheet);
+        continue;
+      }
+
+      const totals = await this.computeTotals(user.id, periodStart, periodEnd);
+      timesheet = this.timesheetRepository.create({
+        ...timesheet,
+        userId: user.id,
+        periodStart,
+        periodEnd,
+        ...totals,
+        status: TimesheetStatus.DRAFT,
+        reviewedById: null,
+        reviewedAt: null,
+        reviewNotes: null,
+      });
+      timesheets.push(await this.timesheetRepository.save(timesheet));
+    }
+
+    this.logger.log(`Generated ${timesheets.length} timesheets for ${periodStart} - ${periodEnd}`);
+    return timesheets;
+  }
+
+  async findAll(filters: TimesheetFilters, currentUser: User): Promise<Timesheet[]> {
+    const query = this.timesheetRepository
+      .createQueryBuilder('timesheet')
+      .leftJoinAndSelect('timesheet.user', 'user')
+      .leftJoinAndSelect('timesheet.reviewedBy', 'reviewedBy');
+
+    if (filters.periodStart) {
+      query.andWhere('timesheet.periodStart >= :periodStart', { periodStart: filters.periodStart });
+    }
+    if (filters.periodEnd) {
+      query.andWhere('timesheet.periodEnd <= :periodEnd', { periodEnd: filters.periodEnd });
+    }
+    if (filters.status) {
+      query.andWhere('timesheet.status = :status', { status: filters.status });
+    }
+    if (filters.userId) {
+      query.andWhere('timesheet.userId = :userId', { userId: filters.userId });
+    }
+    if (currentUser.role === UserRole.SUPERVISOR) {
+      query.andWhere('user.supervisorId = :supervisorId', { supervisorId: currentUser.id });
+    }
+
+    return query
+      .orderBy('timesheet.periodStart', 'DESC')
+      .addOrderBy('user.lastName', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Timesheets of the logged-in employee
+   */
+  async findForUser(userId: string): Promise<Timesheet[]> {
+    return this.timesheetRepository.find({
+      where: { userId },
+      order: { periodStart: 'DESC' },
+    });
+  }
+
+  async findOne(id: string, currentUser: User): Promise<Timesheet> {
+    const timesheet = await this.timesheetRepository.findOne({
+      where: { id },
+      relations: ['user', 'reviewedBy'],
+    });
+
+    if (!timesheet) {
+      throw new NotFoundException(`Timesheet with ID ${id} not found`);
+    }
+
+    const isOwner = timesheet.userId === currentUser.id;
+    const isTeamSupervisor =
+      currentUser.role === UserRole.SUPERVISOR && timesheet.user?.supervisorId === currentUser.id;
+    const isAdmin = [UserRole.SUPER_ADMIN, UserRole.ADMIN].includes(currentUser.role);
+    if (!isOwner && !isTeamSupervisor && !isAdmin) {
+      throw new ForbiddenException('You do not have access to this timesheet');
+    }
+
+    return timesheet;
+  }
+
+  async approve(id: string, currentUser: User, dto: ApproveTimesheetDto): Promise<Timesheet> {
+    const timesheet = await this.findReviewable(id, currentUser);
+
+    timesheet.status = TimesheetStatus.APPROVED;
+    timesheet.reviewedById = currentUser.id;
+    timesheet.reviewedAt = new Date();
+    timesheet.reviewNotes = dto.reviewNotes || null;
+
+    return this.timesheetRepository.save(timesheet);
+  }
+
+  async reject(id: string, currentUser: User, dto: RejectTimesheetDto): Promise<Timesheet> {
+    const timesheet = await this.findReviewable(id, currentUser);
+
+    timesheet.status = TimesheetStatus.REJECTED;
+    timesheet.reviewedById = currentUser.id;
+    timesheet.reviewedAt = new Date();
+    timesheet.reviewNotes = dto.reviewNotes;
+
+    return this.timesheetRepository.save(timesheet);
+  }
+
+  /**
+   * Export the timesheets of a fully approved period for payroll
+   */
+  async export(
+    periodStart: string,
+    periodEnd: string,
+    format: TimesheetExportFormat,
+    currentUser: User,
+  ): Promise<TimesheetExport> {
+    if (!periodStart || !periodEnd) {
+      throw new BadRequestException('periodStart and periodEnd are required');
+    }
+    if (!Object.values(TimesheetExportFormat).includes(format)) {
+      throw new BadRequestException(`Unsupported export format: ${format}`);
+    }
+
+    const timesheets = (await this.findAll({ periodStart, periodEnd }, currentUser)).filter(
+      (timesheet) => timesheet.periodStart === periodStart && timesheet.periodEnd === periodEnd,
+    );
+
+    if (timesheets.length === 0) {
+      throw new NotFoundException('No timesheets found for this period');
+    }
+
+    // Only a fully approved period goes to payroll
+    const pending = timesheets.filter((timesheet) => timesheet.status !== TimesheetStatus.APPROVED);
+    if (pending.length > 0) {
+      throw new BadRequestException(
+        `${pending.length} timesheet(s) of this period are not approved yet`,
+      );
+    }
+
+    const headers = [
+      'Employee ID',
+      'Last name',
+      'First name',
+      'Period start',
+      'Period end',
+      'Total hours',
+      'Regular hours',
+      'Overtime hours',
+      'Night hours',
+      'Weekend hours',
+      'Break minutes',
+      'Absence days',
+      'Absences by type',
+      'Approved by',
+      'Approved at',
+    ];
+    const rows: ExportCell[][] = timesheets.map((timesheet) => [
+      timesheet.user?.employeeId,
+      timesheet.user?.lastName,
+      timesheet.user?.firstName,
+      timesheet.periodStart,
+      timesheet.periodEnd,
+      Number(timesheet.totalHours),
+      Number(timesheet.regularHours),
+      Number(timesheet.overtimeHours),
+      Number(timesheet.nightHours),
+      Number(timesheet.weekendHours),
+      timesheet.breakMinutes,
+      timesheet.absenceDays,
+      Object.entries(timesheet.absencesByType || {})
+        .map(([type, days]) => `${type}:${days}`)
+        .join(' '),
+      timesheet.reviewedBy?.fullName,
+      timesheet.reviewedAt?.toISOString(),
+    ]);
+
+    const basename = `timesheets_${periodStart}_${periodEnd}`;
+    if (format === TimesheetExportFormat.XLSX) {
+      return {
+        filename: `${basename}.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        content: toXlsx('Timesheets', headers, rows),
+      };
+    }
+    return {
+      filename: `${basename}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      // BOM so spreadsheet software reads accents correctly
+      content: Buffer.from(`\uFEFF${toCsv(headers, rows)}`, 'utf8'),
+    };
+  }
+
+  private async findReviewable(id: string, currentUser: User): Promise<Timesheet> {
+    const timesheet = await this.findOne(id, currentUser);
+
+    if (timesheet.userId === currentUser.id) {
+      throw new ForbiddenException('You cannot review your own timesheet');
+    }
+    if (timesheet.status !== TimesheetStatus.DRAFT) {
+      throw new BadRequestException(`Cannot review a timesheet with status ${timesheet.status}`);
+    }
+
+    return timesheet;
+  }
+
+  /**
+   * Split completed shifts of a period into regular, overtime, night and weekend hours
+   * and merge approved absences
+   */
+  private async computeTotals(
+    userId: string,
+    periodStart: string,
+    periodEnd: string,
+  ): Promise<TimesheetTotals> {
+    const overtimeThreshold =
+      this.configService.get<number>('timesheets.weeklyOvertimeThreshold') ?? 35;
+    const nightStartHour = this.configService.get<number>('timesheets.nightStartHour') ?? 21;
+    const nightEndHour = this.configService.get<number>('timesheets.nightEndHour') ?? 6;
+
+    // Shifts are read over whole weeks (Monday to Sunday) so the weekly overtime threshold
+    // of the first and last weeks also counts the hours worked outside the period
+    const rangeStart = this.parseDate(periodStart);
+    rangeStart.setDate(rangeStart.getDate() - ((rangeStart.getDay() + 6) % 7));
+    const rangeEnd = this.parseDate(periodEnd);
+    rangeEnd.setDate(rangeEnd.getDate() + 7 - ((rangeEnd.getDay() + 6) % 7));
+
+    const days = new Map<string, TimesheetDay>();
+    for (const date = new Date(rangeStart); date < rangeEnd; date.setDate(date.getDate() + 1)) {
+      const key = this.formatDate(date);
+      days.set(key, {
+        date: key,
+        workedHours: 0,
+        nightHours: 0,
+        weekendHours: 0,
+        breakMinutes: 0,
+      });
+    }
+
+    const attendances = await this.attendanceRepository.find({
+      where: {
+        userId,
+        clockIn: Between(rangeStart, rangeEnd),
+        clockOut: Not(IsNull()),
+      },
+      relations: ['breaks'],
+    });
+
+    for (const attendance of attendances) {
+      const clockDay = days.get(this.formatDate(attendance.clockIn));
+      if (clockDay) {
+        clockDay.breakMinutes += attendance.breakMinutes || 0;
+      }
+
+      for (const [start, end] of this.getWorkedIntervals(attendance)) {
+        // Walk the interval one calendar day at a time
+        let cursor = start;
+        while (cursor < end) {
+          const dayStart = new Date(cursor);
+          dayStart.setHours(0, 0, 0, 0);
+          const nextDay = new Date(dayStart);
+          nextDay.setDate(nextDay.getDate() + 1);
+          const segmentEnd = Math.min(end, nextDay.getTime());
+
+          const day = days.get(this.formatDate(dayStart));
+          if (day) {
+            const hours = (segmentEnd - cursor) / HOUR_MS;
+            const morningNightEnd = dayStart.getTime() + nightEndHour * HOUR_MS;
+            const eveningNightStart = dayStart.getTime() + nightStartHour * HOUR_MS;
+            const nightMs =
+              Math.max(0, Math.min(segmentEnd, morningNightEnd) - cursor) +
+              Math.max(0, segmentEnd - Math.max(cursor, eveningNightStart));
+
+            day.workedHours += hours;
+            day.nightHours += nightMs / HOUR_MS;
+            if (!this.holidaysService.isInWorkingWeek(dayStart)) {
+              day.weekendHours += hours;
+            }
+          }
+          cursor = segmentEnd;
+        }
+      }
+    }
+
+    // Approved absences, counted on working days (working week, holidays of the agent's zone excluded)
+    const holidays = await this.holidaysService.getHolidays(
+      periodStart,
+      periodEnd,
+      await this.holidaysService.getAgentZoneId(userId),
+    );
+    const absences = await this.absenceRepository.find({
+      where: {
+        agentId: userId,
+        status: AbsenceStatus.APPROVED,
+        startDate: Raw((column) => `${column} <= :periodEnd`, { periodEnd }),
+        endDate: Raw((column) => `${column} >= :periodStart`, { periodStart }),
+      },
+    });
+    const absencesByType: Record<string, number> = {};
+    let absenceDays = 0;
+    for (const absence of absences) {
+      const absenceStart = this.toDateKey(absence.startDate);
+      const absenceEnd = this.toDateKey(absence.endDate);
+      for (const day of days.values()) {
+        if (
+          day.date < periodStart ||
+          day.date > periodEnd ||
+          day.date < absenceStart ||
+          day.date > absenceEnd ||
+          !this.holidaysService.isWorkingDay(this.parseDate(day.date), holidays)
+        ) {
+          continue;
+        }
+        if (!day.absenceType) {
+          day.absenceType = absence.absenceType;
+          absencesByType[absence.absenceType] = (absencesByType[absence.absenceType] || 0) + 1;
+          absenceDays++;
+        }
+      }
+    }
+
+    // Overtime per week (Monday to Sunday): hours past the threshold, in the order they were
+    // worked, count on the day they were worked and only days of the period are kept
+    let overtimeHours = 0;
+    let weekHours = 0;
+    for (const day of days.values()) {
+      if (this.parseDate(day.date).getDay() === 1) {
+        weekHours = 0;
+      }
+      const before = weekHours;
+      weekHours += day.workedHours;
+      if (day.date >= periodStart && day.date <= periodEnd) {
+        overtimeHours +=
+          Math.max(0, weekHours - overtimeThreshold) - Math.max(0, before - overtimeThreshold);
+      }
+    }
+
+    const round = (value: number) => parseFloat(value.toFixed(2));
+    const dayList = [...days.values()]
+      .filter((day) => day.date >= periodStart && day.date <= periodEnd)
+      .map((day) => ({
+        ...day,
+        workedHours: round(day.workedHours),
+        nightHours: round(day.nightHours),
+        weekendHours: round(day.weekendHours),
+      }));
+    const totalHours = dayList.reduce((sum, day) => sum + day.workedHours, 0);
+
+    return {
+      totalHours: round(totalHours),
+      regularHours: round(totalHours - overtimeHours),
+      overtimeHours: round(overtimeHours),
+      nightHours: round(dayList.reduce((sum, day) => sum + day.nightHours, 0)),
+      weekendHours: round(dayList.reduce((sum, day) => sum + day.weekendHours, 0)),
+      breakMinutes: dayList.reduce((sum, day) => sum + day.breakMinutes, 0),
+      absenceDays,
+      absencesByType,
+      days: dayList,
+    };
+  }
+
+  /**
+   * Time ranges (epoch ms) actually worked during a shift, breaks removed
+   */
+  private getWorkedIntervals(attendance: Attendance): Array<[number, number]> {
+    const clockOut = attendance.clockOut.getTime();
+    const breaks = [...(attendance.breaks || [])].sort(
+      (a, b) => a.breakStart.getTime() - b.breakStart.getTime(),
+    );
+
+    const intervals: Array<[number, number]> = [];
+    let cursor = attendance.clockIn.getTime();
+    for (const shiftBreak of breaks) {
+      const breakStart = Math.max(cursor, shiftBreak.breakStart.getTime());
+      const breakEnd = Math.min(clockOut, shiftBreak.breakEnd?.getTime() ?? clockOut);
+      if (breakStart > cursor) {
+        intervals.push([cursor, Math.min(breakStart, clockOut)]);
+      }
+      cursor = Math.max(cursor, breakEnd);
+    }
+    if (cursor < clockOut) {
+      intervals.push([cursor, clockOut]);
+    }
+
+    return intervals;
+  }
+
+  private toDateKey(value: Date | string): string {
+    return typeof value === 'string' ? value.slice(0, 10) : this.formatDate(value);
+  }
+
+  private parseDate(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
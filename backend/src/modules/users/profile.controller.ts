@@ -1,13 +1,17 @@
 import {
   Controller,
   Get,
+  Post,
   Patch,
   Delete,
   Body,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ProfileService } from './profile.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
@@ -53,6 +57,16 @@ export class ProfileController {
     return this.profileService.updateProfilePhoto(userId, dto.profilePhotoUrl);
   }
 
+  /**
+   * POST /api/me/profile/photo
+   * Upload profile photo (multipart "file")
+   */
+  @Post('photo')
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadPhoto(@CurrentUser('id') userId: string, @UploadedFile() file: Express.Multer.File) {
+    return this.profileService.uploadProfilePhoto(userId, file);
+  }
+
   /**
    * DELETE /api/me/profile/photo
    * Remove profile photo
@@ -9,6 +9,8 @@ import { Repository } from 'typeorm';
 import { User, ProfileCompletion } from './entities/user.entity';
 import { UpdateProfileDto, ChangePasswordDto } from './dto';
 import { validatePassword, hashPassword } from '../../shared/utils/password.util';
+import { StorageService } from '../storage/storage.service';
+import { StoredFileOwner } from '../../shared/types/storage.types';
 
 @Injectable()
 export class ProfileService {
@@ -17,6 +19,7 @@ export class ProfileService {
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    private readonly storageService: StorageService,
   ) {}
 
   /**
@@ -92,13 +95,33 @@ export class ProfileService {
       throw new NotFoundException('User not found');
     }
 
+    const previous = await this.storageService.findByReference(user.profilePhotoUrl);
+
     user.profilePhotoUrl = photoUrl;
     await this.userRepository.save(user);
 
+    // An uploaded photo is deleted once replaced
+    if (previous && this.storageService.toReference(previous) !== photoUrl) {
+      await this.storageService.remove(previous);
+    }
+
     this.logger.log(`Profile photo updated for user: ${userId}`);
     return this.sanitizeUser(user);
   }
 
+  /**
+   * Upload a profile photo (stored without its EXIF metadata)
+   */
+  async uploadProfilePhoto(userId: string, file: Express.Multer.File): Promise<User> {
+    const storedFile = await this.storageService.upload(
+      file,
+      StoredFileOwner.PROFILE,
+      userId,
+      userId,
+    );
+    return this.updateProfilePhoto(userId, this.storageService.toReference(storedFile));
+  }
+
   /**
    * Remove profile photo
    */
@@ -111,9 +134,15 @@ export class ProfileService {
       throw new NotFoundException('User not found');
     }
 
+    const previous = await this.storageService.findByReference(user.profilePhotoUrl);
+
     user.profilePhotoUrl = null;
     await this.userRepository.save(user);
 
+    if (previous) {
+      await this.storageService.remove(previous);
+    }
+
     this.logger.log(`Profile photo removed for user: ${userId}`);
     return this.sanitizeUser(user);
   }
@@ -14,6 +14,7 @@ import { UserSettings } from './entities/user-settings.entity';
 import { UserSession } from './entities/user-session.entity';
 import { AuditModule } from '../audit/audit.module';
 import { ClientsModule } from '../clients/clients.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
@@ -27,6 +28,7 @@ import { ClientsModule } from '../clients/clients.module';
     ]),
     forwardRef(() => AuditModule),
     forwardRef(() => ClientsModule),
+    StorageModule,
   ],
   controllers: [UsersController, ProfileController, SettingsController],
   providers: [UsersService, ProfileService, SettingsService],
@@ -3,6 +3,8 @@
  * Defines types for employee absence tracking
  */
 
+import { StaffingSuggestion } from './staffing.types';
+
 /**
  * Absence types
  */
@@ -48,3 +50,31 @@ export interface AbsenceBalance {
   unpaidDaysUsed: number;
   authorizedDaysUsed: number;
 }
+
+/**
+ * Intervention left without its agent by an approved absence
+ */
+export interface AffectedIntervention {
+  interventionId: string;
+  interventionCode: string;
+  siteId: string;
+  siteName: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  role: string; // AGENT or TEAM_CHIEF
+  suggestions: StaffingSuggestion[]; // Best replacements first
+}
+
+/**
+ * Outcome of a one-step reassignment
+ */
+export interface ReassignmentResult {
+  reassigned: {
+    interventionId: string;
+    interventionCode: string;
+    agentId: string;
+    agentName: string;
+  }[];
+  remaining: AffectedIntervention[]; // Still assigned to the absent agent
+}
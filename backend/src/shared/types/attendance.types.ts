@@ -0,0 +1,28 @@
+/**
+ * Attendance Status - State of a shift (values match migration 003 defaults)
+ */
+export enum AttendanceStatus {
+  ACTIVE = 'active', // Clocked in and working
+  PAUSED = 'paused', // On a break
+  COMPLETED = 'completed', // Clocked out
+}
+
+/**
+ * Break Type - How a break was started
+ */
+export enum BreakType {
+  MANUAL = 'manual', // User clicked "Take a Break"
+  IDLE = 'idle', // Auto-pause due to missing heartbeats
+  SYSTEM = 'system', // System-triggered (e.g., auto clock-out)
+}
+
+/**
+ * Break Reason - Why the user took a manual break
+ */
+export enum BreakReason {
+  BREAK = 'break',
+  LUNCH = 'lunch',
+  MEETING = 'meeting',
+  PERSONAL = 'personal',
+  OTHER = 'other',
+}
@@ -0,0 +1,45 @@
+/**
+ * Agent availability types
+ * Checked when agents are assigned to an intervention slot
+ */
+
+/**
+ * Reasons an agent may not be able to take a slot
+ * ERROR issues block the assignment, WARNING issues can be overridden with force
+ */
+export enum AvailabilityIssueCode {
+  INACTIVE = 'INACTIVE', // ERROR: user not ACTIVE
+  ABSENT = 'ABSENT', // ERROR: approved absence on the date
+  ABSENCE_PENDING = 'ABSENCE_PENDING', // Absence request awaiting review on the date
+  DAY_UNAVAILABLE = 'DAY_UNAVAILABLE', // Day not in WorkPreferences.daysAvailable
+  OUTSIDE_PREFERRED_HOURS = 'OUTSIDE_PREFERRED_HOURS', // Slot outside WorkPreferences.preferredHours
+  ALREADY_BOOKED = 'ALREADY_BOOKED', // Assigned to another intervention on an overlapping slot
+  OVER_WEEKLY_HOURS = 'OVER_WEEKLY_HOURS', // Worked + planned hours of the week above the limit
+}
+
+export type AvailabilityIssueSeverity = 'ERROR' | 'WARNING';
+
+export interface AvailabilityIssue {
+  code: AvailabilityIssueCode;
+  severity: AvailabilityIssueSeverity;
+  message: string;
+}
+
+/**
+ * Time slot an agent is checked against
+ */
+export interface AvailabilitySlot {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  interventionId?: string; // Excluded from bookings and planned hours when editing
+}
+
+export interface AgentAvailability {
+  agentId: string;
+  agentName: string;
+  available: boolean; // No ERROR issue
+  issues: AvailabilityIssue[];
+  weeklyHours: number; // Worked + planned hours of the week (Monday to Sunday), slot included
+  maxWeeklyHours: number;
+}
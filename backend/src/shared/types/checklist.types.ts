@@ -16,9 +16,19 @@ export enum ChecklistStatus {
   COMPLETED = 'COMPLETED',
 }
 
+/**
+ * Checklist Photo Tag
+ * Role of a photo attached to a checklist item
+ */
+export enum ChecklistPhotoTag {
+  BEFORE = 'BEFORE', // State found on arrival
+  AFTER = 'AFTER', // Result of the task
+  ISSUE = 'ISSUE', // Damage or problem to report
+}
+
 export interface ZoneConfig {
   zoneName: string; // e.g., "Hall", "Bureaux", "Sanitaires", "Cuisine"
-  tasks: string[]; // Array of task descriptions
+  tasks: (string | TaskConfig)[]; // Task descriptions, or tasks with their options
 }
 
 export interface TaskConfig {
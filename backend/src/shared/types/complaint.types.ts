@@ -0,0 +1,45 @@
+/**
+ * Complaint Category
+ * What the client is complaining about
+ */
+export enum ComplaintCategory {
+  QUALITY = 'QUALITY', // Cleaning not up to standard
+  MISSED_SERVICE = 'MISSED_SERVICE', // Intervention did not take place
+  LATE_ARRIVAL = 'LATE_ARRIVAL', // Team arrived late or left early
+  STAFF_BEHAVIOR = 'STAFF_BEHAVIOR', // Conduct of the cleaning staff
+  DAMAGE = 'DAMAGE', // Property damaged or missing
+  SAFETY = 'SAFETY', // Safety or hygiene hazard
+  OTHER = 'OTHER',
+}
+
+/**
+ * Complaint Priority
+ * Drives the response-time SLA
+ */
+export enum ComplaintPriority {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  URGENT = 'URGENT',
+}
+
+/**
+ * Complaint Status
+ * Tracks the lifecycle of a client complaint
+ */
+export enum ComplaintStatus {
+  OPEN = 'OPEN', // Filed by the client, no response yet
+  ACKNOWLEDGED = 'ACKNOWLEDGED', // Zone chief has responded
+  IN_PROGRESS = 'IN_PROGRESS', // Corrective action underway
+  RESOLVED = 'RESOLVED', // Fixed, awaiting client confirmation
+  CLOSED = 'CLOSED', // Confirmed by the client or closed by staff
+}
+
+/**
+ * SLA state of a complaint
+ */
+export enum ComplaintSlaStatus {
+  ON_TRACK = 'ON_TRACK', // Not answered yet, still within the deadline
+  MET = 'MET', // Answered before the deadline
+  BREACHED = 'BREACHED', // Answered late or still unanswered past the deadline
+}
@@ -17,7 +17,7 @@ export enum ContractFrequency {
   BIWEEKLY = 'BIWEEKLY', // Every two weeks
   MONTHLY = 'MONTHLY', // Once per month
   QUARTERLY = 'QUARTERLY', // Every three months
-  CUSTOM = 'CUSTOM', // Custom schedule defined separately
+  CUSTOM = 'CUSTOM', // Custom schedule defined separately (Schedule RRULE)
 }
 
 /**
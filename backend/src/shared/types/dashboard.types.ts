@@ -3,6 +3,8 @@
  * Types for dashboard statistics, KPIs, and report structures
  */
 
+import { IncidentType, IncidentSeverity, IncidentStatus } from './incident.types';
+
 export interface DashboardSummary {
   totalClients: number;
   activeClients: number;
@@ -81,9 +83,12 @@ export interface SiteVisit {
 }
 
 export interface Issue {
+  incidentId: string;
   siteId: string;
   siteName: string;
-  severity: 'LOW' | 'MEDIUM' | 'HIGH';
+  type: IncidentType;
+  severity: IncidentSeverity;
+  status: IncidentStatus;
   description: string;
   reportedBy: string;
   reportedAt: Date;
@@ -110,7 +115,9 @@ export interface AgentUtilization {
   agentName: string;
   interventionsAssigned: number;
   interventionsCompleted: number;
-  utilizationRate: number; // percentage
+  hoursWorked: number;
+  noShows: number;
+  utilizationRate: number; // percentage of the scheduled hours actually worked
   averageRating: number;
 }
 
@@ -123,11 +130,34 @@ export interface MonthlyReport {
   completionRate: number;
   averageQualityScore: number;
   clientSatisfaction: number;
-  totalRevenue: number;
+  totalRevenue: number | null; // Single currency only, null when billed in several (see revenueByCurrency)
+  revenueByCurrency: RevenueAmount[];
+  revenueByClient: RevenueBreakdown[];
+  revenueBySite: RevenueBreakdown[];
+  revenueByZone: RevenueBreakdown[];
   zonePerformance: ZonePerformance[];
   kpis: KPIMetrics;
 }
 
+export interface RevenueAmount {
+  currency: string;
+  amount: number;
+}
+
+/**
+ * Revenue for one client, site or zone in one currency
+ * Entities billed in several currencies get one entry per currency
+ */
+export interface RevenueBreakdown {
+  id: string | null; // null for sites without an active zone assignment
+  name: string;
+  currency: string;
+  monthlyFees: number;
+  interventionFees: number;
+  hourlyFees: number;
+  total: number;
+}
+
 export interface KPIMetrics {
   roleType: 'SUPERVISOR' | 'AGENT' | 'OVERALL';
   interventionCompletionRate: number;
@@ -0,0 +1,34 @@
+/**
+ * Incident Type
+ * What happened on site during or around an intervention
+ */
+export enum IncidentType {
+  PROPERTY_DAMAGE = 'PROPERTY_DAMAGE', // Client property broken or stained
+  INJURY = 'INJURY', // Someone got hurt
+  SAFETY_HAZARD = 'SAFETY_HAZARD', // Wet floor, exposed wiring, chemical spill...
+  EQUIPMENT_FAILURE = 'EQUIPMENT_FAILURE', // Our machines or products
+  THEFT = 'THEFT', // Missing items or break-in
+  ACCESS_ISSUE = 'ACCESS_ISSUE', // Could not enter the site or a room
+  OTHER = 'OTHER',
+}
+
+/**
+ * Incident Severity
+ */
+export enum IncidentSeverity {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  CRITICAL = 'CRITICAL', // Injury or major damage, the zone chief is alerted
+}
+
+/**
+ * Incident Status
+ * Resolution workflow of an incident
+ */
+export enum IncidentStatus {
+  OPEN = 'OPEN', // Reported from the field
+  INVESTIGATING = 'INVESTIGATING', // Taken in charge by a supervisor
+  RESOLVED = 'RESOLVED', // Corrective action done, resolution recorded
+  CLOSED = 'CLOSED', // Final (insurance, client informed...)
+}
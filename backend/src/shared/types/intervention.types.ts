@@ -10,6 +10,48 @@ export enum InterventionStatus {
   RESCHEDULED = 'RESCHEDULED', // Moved to different date/time
 }
 
+/**
+ * Intervention Transition
+ * Move between statuses, allowed moves and their rules are in InterventionStateMachineService
+ */
+export enum InterventionTransition {
+  START = 'START', // SCHEDULED/RESCHEDULED -> IN_PROGRESS
+  CHECK_IN = 'CHECK_IN', // Same move with the GPS position of the arrival
+  COMPLETE = 'COMPLETE', // IN_PROGRESS -> COMPLETED, after the GPS check-out
+  CANCEL = 'CANCEL', // Any open status -> CANCELLED, with a reason once in progress
+  RESCHEDULE = 'RESCHEDULE', // SCHEDULED/RESCHEDULED -> RESCHEDULED
+}
+
+/**
+ * Who makes a transition, why and where
+ */
+export interface TransitionContext {
+  actorId?: string | null;
+  reason?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+/**
+ * Assignment Role
+ * Position of a person on the job
+ */
+export enum AssignmentRole {
+  TEAM_CHIEF = 'TEAM_CHIEF', // Leads the team on site (assignedTeamChiefId)
+  AGENT = 'AGENT',
+}
+
+/**
+ * Assignment Status
+ * Individual attendance of an assigned person
+ */
+export enum AssignmentStatus {
+  ASSIGNED = 'ASSIGNED', // Not arrived yet
+  CHECKED_IN = 'CHECKED_IN', // On site
+  CHECKED_OUT = 'CHECKED_OUT', // Left the site, hours recorded
+  NO_SHOW = 'NO_SHOW', // Did not come
+}
+
 /**
  * GPS Coordinates for check-in/check-out
  */
@@ -19,3 +61,13 @@ export interface GpsCoordinates {
   timestamp: Date;
   accuracy?: number; // Accuracy in meters
 }
+
+/**
+ * Result of checking a completed intervention against its completion hash
+ */
+export interface CompletionVerification {
+  interventionId: string;
+  completionHash: string | null; // Recorded at completion
+  signatureIntact: boolean | null; // Stored signature image unchanged, null without sign-off
+  valid: boolean;
+}
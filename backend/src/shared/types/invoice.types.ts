@@ -0,0 +1,20 @@
+/**
+ * Invoice Status
+ * Tracks the billing lifecycle of an invoice
+ */
+export enum InvoiceStatus {
+  DRAFT = 'DRAFT', // Generated, still editable
+  ISSUED = 'ISSUED', // Sent to the client, awaiting payment
+  PAID = 'PAID', // Payment received
+  OVERDUE = 'OVERDUE', // Issued and past its due date
+}
+
+/**
+ * Invoice Line Type
+ * Defines where an invoice line amount comes from
+ */
+export enum InvoiceLineType {
+  MONTHLY_FEE = 'MONTHLY_FEE', // Fixed fee for the billing cycle
+  INTERVENTION = 'INTERVENTION', // Fixed fee per completed intervention
+  HOURLY = 'HOURLY', // Hours worked on a completed intervention
+}
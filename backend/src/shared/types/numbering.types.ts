@@ -0,0 +1,12 @@
+/**
+ * Numbered Entity
+ * Records getting a business number from the NumberingService
+ */
+export enum NumberedEntity {
+  CLIENT = 'CLIENT', // clientCode
+  CONTRACT = 'CONTRACT', // contractCode
+  INTERVENTION = 'INTERVENTION', // interventionCode
+  INVOICE = 'INVOICE', // invoiceNumber
+  COMPLAINT = 'COMPLAINT', // complaintNumber
+  INCIDENT = 'INCIDENT', // incidentNumber
+}
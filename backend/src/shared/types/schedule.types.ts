@@ -18,18 +18,107 @@ export enum ScheduleStatus {
   EXPIRED = 'EXPIRED',
 }
 
+/**
+ * What generation does with a schedule date falling on a holiday
+ */
+export enum HolidayPolicy {
+  SKIP = 'SKIP', // No intervention that day
+  NEXT_WORKING_DAY = 'NEXT_WORKING_DAY', // Moved to the next working day
+  IGNORE = 'IGNORE', // Generated anyway (sites open on holidays)
+}
+
+export enum ScheduleGenerationTrigger {
+  AUTO = 'AUTO', // Background rolling generation
+  MANUAL = 'MANUAL', // Run requested by an admin
+}
+
 export interface ScheduleConflict {
   conflictType: 'AGENT_DOUBLE_BOOKING' | 'SITE_OVERLAP';
-  scheduleId: string;
+  scheduleId?: string;
   conflictingScheduleId?: string;
-  date: Date;
-  timeSlot: string;
+  interventionId?: string;
+  conflictingInterventionId?: string;
+  agentId?: string; // Double-booked agent
+  siteId: string;
+  date: string; // YYYY-MM-DD
+  timeSlot: string; // HH:MM-HH:MM of the conflicting booking
   details: string;
 }
 
+/**
+ * Planned time slot checked for conflicts (a new or edited intervention, or one schedule date)
+ */
+export interface PlannedSlot {
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  siteId: string;
+  agentIds: string[];
+  interventionId?: string; // Excluded from the check when editing
+  scheduleId?: string;
+}
+
 export interface GenerationResult {
   generated: number;
   skipped: number;
   errors: string[];
   interventionIds: string[];
+  conflicts?: ScheduleConflict[]; // Dates skipped because of a conflict (unless forced)
+}
+
+/**
+ * Effect of a schedule edit on one of its future SCHEDULED or RESCHEDULED interventions
+ */
+export interface PropagationFieldChange {
+  field:
+    | 'scheduledStartTime'
+    | 'scheduledEndTime'
+    | 'assignedAgentIds'
+    | 'assignedZoneChiefId'
+    | 'assignedTeamChiefId'
+    | 'status';
+  from: string | string[] | null;
+  to: string | string[] | null;
+}
+
+export interface InterventionPropagation {
+  interventionId: string;
+  interventionCode: string;
+  date: string; // YYYY-MM-DD
+  action: 'UPDATE' | 'CANCEL'; // CANCEL: the date no longer matches the schedule
+  changes: PropagationFieldChange[];
+  manuallyEdited: boolean;
+  skipped: boolean; // Manually edited and left alone
+}
+
+export interface SchedulePropagationDiff {
+  scheduleId: string;
+  fromDate: string; // Interventions from this date (today) on are affected
+  updated: number;
+  cancelled: number;
+  skipped: number;
+  unchanged: number;
+  interventions: InterventionPropagation[]; // Unchanged interventions are not listed
+  conflicts: ScheduleConflict[]; // Raised by the updated slots
+}
+
+/**
+ * Parsed RFC 5545 recurrence rule (subset used by CUSTOM schedules)
+ */
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 0 = Sunday, like Schedule.daysOfWeek
+  ordinal?: number; // 1 = first, -1 = last occurrence within the month (or year)
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[]; // Negative values count from the end of the month
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  count?: number;
+  until?: Date;
 }
@@ -0,0 +1,55 @@
+/**
+ * Staffing types
+ * Agents ranked for an intervention slot, and the weekly auto-assignment
+ */
+
+import { AgentAvailability } from './availability.types';
+
+/**
+ * Intervention slot agents are ranked for
+ */
+export interface StaffingTarget {
+  siteId: string;
+  contractId?: string;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  interventionId?: string; // Excluded from bookings when editing
+}
+
+/**
+ * Points of each criterion, summed into the score (0-100)
+ */
+export interface StaffingScoreBreakdown {
+  zone: number; // Active member of the site's zone
+  availability: number; // Lowered by every availability warning
+  skills: number; // Certifications, equipment and special skills matching the contract tasks
+  preferences: number; // Preferred zone, lowered when the site is to avoid
+  quality: number; // Average quality score of past interventions at the site
+  workload: number; // Room left under the weekly hours limit
+}
+
+export interface StaffingSuggestion {
+  agentId: string;
+  agentName: string;
+  score: number;
+  breakdown: StaffingScoreBreakdown;
+  reasons: string[];
+  availability: AgentAvailability;
+}
+
+export interface AutoAssignedIntervention {
+  interventionId: string;
+  interventionCode: string;
+  date: string;
+  agentIds: string[];
+  agentNames: string[];
+  complete: boolean; // false when fewer agents than requested were suitable
+}
+
+export interface AutoAssignResult {
+  weekStart: string; // YYYY-MM-DD (Monday)
+  weekEnd: string; // YYYY-MM-DD (Sunday)
+  assigned: AutoAssignedIntervention[];
+  skipped: { interventionId: string; interventionCode: string; date: string; reason: string }[];
+}
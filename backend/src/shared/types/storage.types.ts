@@ -0,0 +1,40 @@
+/**
+ * File storage types
+ * Uploaded files, the record they belong to and their signed download URLs
+ */
+
+/**
+ * Record an uploaded file is attached to, deciding who may download it
+ */
+export enum StoredFileOwner {
+  INTERVENTION = 'INTERVENTION', // Intervention.photoUrls
+  CHECKLIST_ITEM = 'CHECKLIST_ITEM', // ChecklistPhoto.url
+  ABSENCE = 'ABSENCE', // Absence.attachmentUrl
+  REPORT = 'REPORT', // Report.screenshotUrl
+  INCIDENT = 'INCIDENT', // Incident.photoUrls
+  PROFILE = 'PROFILE', // User.profilePhotoUrl
+}
+
+export type StorageDriverName = 'local' | 's3';
+
+export type StoredFileVariant = 'original' | 'thumbnail';
+
+/**
+ * Formats accepted for each owner
+ */
+export interface UploadRules {
+  mimeTypes: string[];
+}
+
+/**
+ * Short-lived URL a stored file is downloaded from
+ */
+export interface SignedFileUrl {
+  fileId: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  url: string;
+  thumbnailUrl: string | null; // Images only
+  expiresAt: string; // ISO date
+}
@@ -0,0 +1,29 @@
+/**
+ * Timesheet Status
+ * Tracks the payroll approval lifecycle of a period timesheet
+ */
+export enum TimesheetStatus {
+  DRAFT = 'DRAFT', // Computed from attendance, can be regenerated
+  APPROVED = 'APPROVED', // Validated by a supervisor, locked for payroll export
+  REJECTED = 'REJECTED', // Sent back, regenerated after attendance corrections
+}
+
+/**
+ * Timesheet export formats
+ */
+export enum TimesheetExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
+
+/**
+ * Hours worked on one day of a timesheet period
+ */
+export interface TimesheetDay {
+  date: string; // YYYY-MM-DD
+  workedHours: number;
+  nightHours: number;
+  weekendHours: number;
+  breakMinutes: number;
+  absenceType?: string;
+}
@@ -0,0 +1,27 @@
+import { toCsv } from './export.util';
+
+describe('export.util', () => {
+  describe('toCsv', () => {
+    it('separates with semicolons and quotes cells containing separators or quotes', () => {
+      expect(
+        toCsv(
+          ['Name', 'Note'],
+          [
+            ['Ben Ali; Sami', 'Said "ok"'],
+            [null, undefined],
+          ],
+        ),
+      ).toBe('Name;Note\r\n"Ben Ali; Sami";"Said ""ok"""\r\n;\r\n');
+    });
+
+    it('prefixes text cells a spreadsheet would run as a formula', () => {
+      expect(
+        toCsv(['A', 'B', 'C', 'D'], [['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)']]),
+      ).toBe('A;B;C;D\r\n"\'=HYPERLINK(""http://x"")";\'+1;\'-2+3;\'@SUM(A1)\r\n');
+    });
+
+    it('keeps negative numbers numeric', () => {
+      expect(toCsv(['Hours'], [[-1.5]])).toBe('Hours\r\n-1.5\r\n');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { distanceInMeters } from './geo.util';
+
+// One degree of arc on the 6371 km earth sphere
+const ONE_DEGREE_METERS = (6371000 * Math.PI) / 180;
+
+describe('geo.util', () => {
+  describe('distanceInMeters', () => {
+    it('is zero for the same point', () => {
+      expect(distanceInMeters(36.8065, 10.1815, 36.8065, 10.1815)).toBe(0);
+    });
+
+    it('gives one degree of arc along a meridian or the equator', () => {
+      expect(distanceInMeters(0, 0, 1, 0)).toBeCloseTo(ONE_DEGREE_METERS, 3);
+      expect(distanceInMeters(0, 10, 0, 11)).toBeCloseTo(ONE_DEGREE_METERS, 3);
+    });
+
+    it('shortens a degree of longitude away from the equator', () => {
+      expect(distanceInMeters(60, 10, 60, 11)).toBeCloseTo(55597, 0);
+    });
+
+    it('is symmetric and measures a check-in at the geofence radius scale', () => {
+      // 0.0018 degree of latitude north of a site, about the default 200 m radius
+      expect(Math.round(distanceInMeters(36.8, 10.18, 36.8018, 10.18))).toBe(200);
+      expect(distanceInMeters(36.8018, 10.18, 36.8, 10.18)).toBeCloseTo(
+        distanceInMeters(36.8, 10.18, 36.8018, 10.18),
+        6,
+      );
+    });
+
+    it('takes the short way across the antimeridian', () => {
+      expect(distanceInMeters(0, 179.9, 0, -179.9)).toBeCloseTo(ONE_DEGREE_METERS * 0.2, 3);
+    });
+
+    it('reaches half the circumference between the poles', () => {
+      expect(distanceInMeters(90, 0, -90, 0)).toBeCloseTo(ONE_DEGREE_METERS * 180, 3);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Geolocation utility functions
+ * Used for geofence checks on GPS check-in/check-out
+ */
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ * @returns Distance in meters
+ */
+export function distanceInMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -0,0 +1,75 @@
+/**
+ * iCalendar (RFC 5545) utility functions
+ * Used to import holiday calendars (all-day VEVENTs)
+ */
+
+export interface IcsEvent {
+  summary: string;
+  start: Date; // Local midnight
+  end: Date; // Exclusive, local midnight (start + 1 day for single-day events)
+  rrule?: string;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar file
+ * Only the date part of DTSTART/DTEND is kept, events without DTSTART are ignored
+ * @throws Error when the content is not an iCalendar file
+ */
+export function parseIcsEvents(content: string): IcsEvent[] {
+  // Unfold continuation lines (CRLF followed by a space or a tab)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('not an iCalendar file (BEGIN:VCALENDAR missing)');
+  }
+
+  const events: IcsEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (upper === 'END:VEVENT') {
+      const start = current?.DTSTART ? parseIcsDate(current.DTSTART) : null;
+      if (current && start) {
+        const end = current.DTEND ? parseIcsDate(current.DTEND) : null;
+        events.push({
+          summary: unescapeText(current.SUMMARY || ''),
+          start,
+          end:
+            end && end > start
+              ? end
+              : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1),
+          rrule: current.RRULE,
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    // NAME;PARAM=VALUE:content
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(';')[0].trim().toUpperCase();
+    current[name] = line.slice(separator + 1).trim();
+  }
+
+  return events;
+}
+
+// DATE (YYYYMMDD) or DATE-TIME (YYYYMMDDTHHMMSS[Z]) values, as a local date
+function parseIcsDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
@@ -1 +1,5 @@
 export * from './password.util';
+export * from './geo.util';
+export * from './export.util';
+export * from './rrule.util';
+export * from './ics.util';
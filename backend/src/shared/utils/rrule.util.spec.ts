@@ -0,0 +1,133 @@
+import { parseRRule, getRRuleOccurrences } from './rrule.util';
+
+// Occurrences as YYYY-MM-DD (local dates)
+const expand = (value: string, start: Date, end: Date, limit?: number): string[] =>
+  getRRuleOccurrences(parseRRule(value), start, end, limit).map(
+    (date) =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+        date.getDate(),
+      ).padStart(2, '0')}`,
+  );
+
+describe('rrule.util', () => {
+  describe('parseRRule', () => {
+    it('accepts the RRULE: prefix and lower case', () => {
+      expect(parseRRule('rrule:freq=weekly;byday=mo,th')).toEqual({
+        freq: 'WEEKLY',
+        interval: 1,
+        byDay: [{ weekday: 1 }, { weekday: 4 }],
+      });
+    });
+
+    it('keeps INTERVAL between 1 and 366', () => {
+      expect(parseRRule('FREQ=DAILY;INTERVAL=1').interval).toBe(1);
+      expect(parseRRule('FREQ=DAILY;INTERVAL=366').interval).toBe(366);
+      expect(() => parseRRule('FREQ=DAILY;INTERVAL=0')).toThrow(
+        'INTERVAL must be between 1 and 366',
+      );
+      expect(() => parseRRule('FREQ=DAILY;INTERVAL=367')).toThrow(
+        'INTERVAL must be between 1 and 366',
+      );
+      expect(() => parseRRule('FREQ=DAILY;INTERVAL=2.5')).toThrow('INTERVAL must be an integer');
+    });
+
+    it('refuses BYSETPOS without a BYxxx part to select from, and position 0', () => {
+      expect(() => parseRRule('FREQ=MONTHLY;BYSETPOS=-1')).toThrow(
+        'BYSETPOS requires BYDAY, BYMONTHDAY or BYMONTH',
+      );
+      expect(() => parseRRule('FREQ=MONTHLY;BYDAY=MO;BYSETPOS=0')).toThrow(
+        'BYSETPOS cannot contain 0',
+      );
+    });
+
+    it('refuses invalid combinations', () => {
+      expect(() => parseRRule('INTERVAL=2')).toThrow('FREQ is required');
+      expect(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20260131')).toThrow(
+        'COUNT and UNTIL cannot be combined',
+      );
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow(
+        'BYDAY ordinals (e.g. 1MO) require FREQ=MONTHLY or FREQ=YEARLY',
+      );
+      expect(() => parseRRule('FREQ=MONTHLY;BYDAY=6MO')).toThrow(
+        'BYDAY ordinals must be between -5 and 5 within a month',
+      );
+      expect(() => parseRRule('FREQ=DAILY;FREQ=WEEKLY')).toThrow('FREQ is set more than once');
+      expect(() => parseRRule('FREQ=DAILY;UNTIL=20260231')).toThrow(
+        'UNTIL 20260231 is not a valid date',
+      );
+    });
+  });
+
+  describe('getRRuleOccurrences', () => {
+    it('gives the last working day of each month with BYSETPOS=-1', () => {
+      expect(
+        expand(
+          'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+          new Date(2026, 0, 1),
+          new Date(2026, 3, 30),
+        ),
+      ).toEqual(['2026-01-30', '2026-02-27', '2026-03-31', '2026-04-30']);
+    });
+
+    it('gives the first working day of each month with BYSETPOS=1', () => {
+      expect(
+        expand(
+          'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1',
+          new Date(2026, 0, 1),
+          new Date(2026, 2, 31),
+        ),
+      ).toEqual(['2026-01-01', '2026-02-02', '2026-03-02']);
+    });
+
+    it('combines several BYSETPOS positions in chronological order', () => {
+      expect(
+        expand(
+          'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1,1',
+          new Date(2026, 1, 1),
+          new Date(2026, 1, 28),
+        ),
+      ).toEqual(['2026-02-02', '2026-02-27']);
+    });
+
+    it('gives the first and third Monday of the month', () => {
+      expect(
+        expand('FREQ=MONTHLY;BYDAY=1MO,3MO', new Date(2026, 0, 1), new Date(2026, 1, 28)),
+      ).toEqual(['2026-01-05', '2026-01-19', '2026-02-02', '2026-02-16']);
+    });
+
+    it('steps whole periods with INTERVAL', () => {
+      expect(expand('FREQ=DAILY;INTERVAL=10', new Date(2026, 0, 1), new Date(2026, 0, 31))).toEqual(
+        ['2026-01-01', '2026-01-11', '2026-01-21', '2026-01-31'],
+      );
+      expect(
+        expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', new Date(2026, 0, 5), new Date(2026, 1, 8)),
+      ).toEqual(['2026-01-05', '2026-01-19', '2026-02-02']);
+    });
+
+    it('repeats on the day of month of the start date when no BYxxx part is given', () => {
+      expect(expand('FREQ=MONTHLY', new Date(2026, 0, 15), new Date(2026, 2, 31))).toEqual([
+        '2026-01-15',
+        '2026-02-15',
+        '2026-03-15',
+      ]);
+    });
+
+    it('counts COUNT from the start date and stops at UNTIL', () => {
+      expect(expand('FREQ=DAILY;COUNT=3', new Date(2026, 0, 1), new Date(2026, 11, 31))).toEqual([
+        '2026-01-01',
+        '2026-01-02',
+        '2026-01-03',
+      ]);
+      expect(
+        expand('FREQ=WEEKLY;UNTIL=20260115', new Date(2026, 0, 1), new Date(2026, 11, 31)),
+      ).toEqual(['2026-01-01', '2026-01-08', '2026-01-15']);
+    });
+
+    it('stops at the limit', () => {
+      expect(expand('FREQ=DAILY', new Date(2026, 0, 1), new Date(2026, 11, 31), 2)).toEqual([
+        '2026-01-01',
+        '2026-01-02',
+      ]);
+    });
+  });
+});
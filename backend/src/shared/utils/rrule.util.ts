@@ -0,0 +1,302 @@
+/**
+ * Recurrence rule utility functions
+ * Subset of RFC 5545 RRULE used by CUSTOM schedules (day granularity, weeks start on Monday)
+ *
+ * Examples:
+ * - FREQ=MONTHLY;BYDAY=1MO,3MO                    first and third Monday
+ * - FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1 last working day of the month
+ * - FREQ=DAILY;INTERVAL=10                        every 10 days
+ */
+import { RRule, RRuleFrequency, RRuleWeekday } from '../types/schedule.types';
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parse and validate an RRULE string ("RRULE:" prefix optional)
+ * @throws Error describing the first invalid part
+ */
+export function parseRRule(value: string): RRule {
+  const source = value.trim().replace(/^RRULE:/i, '');
+  if (!source) {
+    throw new Error('rule is empty');
+  }
+
+  const rule: Partial<RRule> = { interval: 1 };
+  const seen = new Set<string>();
+
+  for (const part of source.split(';')) {
+    if (!part.trim()) continue;
+
+    const [rawName, rawValue, ...rest] = part.split('=');
+    const name = rawName.trim().toUpperCase();
+    const partValue = (rawValue ?? '').trim().toUpperCase();
+    if (!partValue || rest.length > 0) {
+      throw new Error(`malformed part "${part}"`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`${name} is set more than once`);
+    }
+    seen.add(name);
+
+    switch (name) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(partValue as RRuleFrequency)) {
+          throw new Error(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+        }
+        rule.freq = partValue as RRuleFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, partValue, 1, 366);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, partValue, 1, 1000);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(partValue);
+        break;
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseList(name, partValue, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseList(name, partValue, 12, false);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseList(name, partValue, 366, true);
+        break;
+      case 'WKST':
+        if (partValue !== 'MO') {
+          throw new Error('only WKST=MO is supported');
+        }
+        break;
+      default:
+        throw new Error(`unsupported part ${name}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('FREQ is required');
+  }
+  if (rule.count && rule.until) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+  if (rule.byDay?.some((day) => day.ordinal)) {
+    if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+      throw new Error('BYDAY ordinals (e.g. 1MO) require FREQ=MONTHLY or FREQ=YEARLY');
+    }
+    const scopedToMonth = rule.freq === 'MONTHLY' || !!rule.byMonth;
+    if (scopedToMonth && rule.byDay.some((day) => Math.abs(day.ordinal ?? 0) > 5)) {
+      throw new Error('BYDAY ordinals must be between -5 and 5 within a month');
+    }
+  }
+  if (rule.byMonthDay && rule.freq === 'WEEKLY') {
+    throw new Error('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+  }
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay && !rule.byMonth) {
+    throw new Error('BYSETPOS requires BYDAY, BYMONTHDAY or BYMONTH');
+  }
+
+  return rule as RRule;
+}
+
+/**
+ * Expand a rule into occurrence dates (local midnight), starting at dtstart
+ * COUNT is counted from dtstart, so the result is the same whatever the range end
+ * @param rangeEnd - Last date to consider (inclusive)
+ * @param limit - Maximum number of dates to return
+ */
+export function getRRuleOccurrences(
+  rule: RRule,
+  dtstart: Date,
+  rangeEnd: Date,
+  limit = Infinity,
+): Date[] {
+  const start = startOfDay(dtstart);
+  const end = startOfDay(rule.until && rule.until < rangeEnd ? rule.until : rangeEnd);
+  const effective = withDefaults(rule, start);
+  const occurrences: Date[] = [];
+
+  for (let index = 0; ; index += rule.interval) {
+    const [periodStart, periodEnd] = getPeriod(rule.freq, start, index);
+    if (periodStart > end) break;
+
+    let candidates = expandPeriod(effective, periodStart, periodEnd);
+    if (rule.bySetPos) {
+      candidates = selectPositions(candidates, rule.bySetPos);
+    }
+
+    for (const date of candidates) {
+      if (date < start) continue;
+      if (date > end) return occurrences;
+      if (rule.count && occurrences.length >= rule.count) return occurrences;
+
+      occurrences.push(date);
+      if (occurrences.length >= limit) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+function parseInteger(name: string, value: string, min: number, max: number): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`${name} must be an integer`);
+  }
+  const parsed = parseInt(value, 10);
+  if (parsed < min || parsed > max) {
+    throw new Error(`${name} must be between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+// Comma separated integers, signed lists accept negative values (counted from the end) but not 0
+function parseList(name: string, value: string, max: number, signed: boolean): number[] {
+  return value.split(',').map((item) => {
+    const parsed = parseInteger(name, item.trim(), signed ? -max : 1, max);
+    if (parsed === 0) {
+      throw new Error(`${name} cannot contain 0`);
+    }
+    return parsed;
+  });
+}
+
+function parseWeekday(token: string): RRuleWeekday {
+  const match = token.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) {
+    throw new Error(`invalid BYDAY value "${token}"`);
+  }
+
+  const weekday: RRuleWeekday = { weekday: WEEKDAYS.indexOf(match[2]) };
+  if (match[1]) {
+    weekday.ordinal = parseInteger('BYDAY ordinal', match[1], -53, 53);
+    if (weekday.ordinal === 0) {
+      throw new Error('BYDAY ordinal cannot be 0');
+    }
+  }
+  return weekday;
+}
+
+// UNTIL as a date (YYYYMMDD) or a date-time (YYYYMMDDTHHMMSS[Z]), only the date part is used
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  if (!match) {
+    throw new Error('UNTIL must be formatted as YYYYMMDD');
+  }
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const until = new Date(year, month - 1, day);
+  if (until.getMonth() !== month - 1 || until.getDate() !== day) {
+    throw new Error(`UNTIL ${value} is not a valid date`);
+  }
+  return until;
+}
+
+/**
+ * Fill in the parts RFC 5545 derives from DTSTART when a rule leaves them out
+ * (e.g. FREQ=MONTHLY alone repeats on the day of month of DTSTART)
+ */
+function withDefaults(rule: RRule, dtstart: Date): RRule {
+  const effective = { ...rule };
+
+  if (rule.freq === 'WEEKLY' && !rule.byDay) {
+    effective.byDay = [{ weekday: dtstart.getDay() }];
+  }
+  if (rule.freq === 'MONTHLY' && !rule.byDay && !rule.byMonthDay) {
+    effective.byMonthDay = [dtstart.getDate()];
+  }
+  if (rule.freq === 'YEARLY' && !rule.byDay && !rule.byMonthDay) {
+    effective.byMonthDay = [dtstart.getDate()];
+    if (!rule.byMonth) {
+      effective.byMonth = [dtstart.getMonth() + 1];
+    }
+  }
+
+  return effective;
+}
+
+// First and last day of the index-th period (day, week, month or year) after dtstart
+function getPeriod(freq: RRuleFrequency, dtstart: Date, index: number): [Date, Date] {
+  const year = dtstart.getFullYear();
+  const month = dtstart.getMonth();
+
+  switch (freq) {
+    case 'DAILY': {
+      const day = new Date(year, month, dtstart.getDate() + index);
+      return [day, day];
+    }
+    case 'WEEKLY': {
+      const mondayOffset = (dtstart.getDay() + 6) % 7;
+      const firstDay = dtstart.getDate() - mondayOffset + index * 7;
+      return [new Date(year, month, firstDay), new Date(year, month, firstDay + 6)];
+    }
+    case 'MONTHLY':
+      return [new Date(year, month + index, 1), new Date(year, month + index + 1, 0)];
+    case 'YEARLY':
+      return [new Date(year + index, 0, 1), new Date(year + index, 11, 31)];
+  }
+}
+
+// Days of a period matching the BYMONTH, BYMONTHDAY and BYDAY filters, in chronological order
+function expandPeriod(rule: RRule, periodStart: Date, periodEnd: Date): Date[] {
+  const dates: Date[] = [];
+
+  for (
+    let day = new Date(periodStart);
+    day <= periodEnd;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    const daysInMonth = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+
+    if (rule.byMonth && !rule.byMonth.includes(day.getMonth() + 1)) continue;
+    if (
+      rule.byMonthDay &&
+      !rule.byMonthDay.some((n) => (n > 0 ? n : daysInMonth + n + 1) === day.getDate())
+    ) {
+      continue;
+    }
+    if (rule.byDay && !rule.byDay.some((weekday) => matchesWeekday(rule, weekday, day))) continue;
+
+    dates.push(day);
+  }
+
+  return dates;
+}
+
+// Ordinals are counted within the month, or within the year for FREQ=YEARLY without BYMONTH
+function matchesWeekday(rule: RRule, weekday: RRuleWeekday, day: Date): boolean {
+  if (weekday.weekday !== day.getDay()) return false;
+  if (!weekday.ordinal) return true;
+
+  let position: number;
+  let length: number;
+  if (rule.freq === 'YEARLY' && !rule.byMonth) {
+    const yearStart = new Date(day.getFullYear(), 0, 1);
+    position = Math.round((day.getTime() - yearStart.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    length = new Date(day.getFullYear(), 1, 29).getDate() === 29 ? 366 : 365;
+  } else {
+    position = day.getDate();
+    length = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+  }
+
+  return weekday.ordinal > 0
+    ? Math.ceil(position / 7) === weekday.ordinal
+    : Math.ceil((length - position + 1) / 7) === -weekday.ordinal;
+}
+
+// BYSETPOS: keep the n-th (or n-th from last) candidates of the period
+function selectPositions(candidates: Date[], positions: number[]): Date[] {
+  const selected = new Set<Date>();
+  for (const position of positions) {
+    const date = candidates[position > 0 ? position - 1 : candidates.length + position];
+    if (date) selected.add(date);
+  }
+  return [...selected].sort((a, b) => a.getTime() - b.getTime());
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
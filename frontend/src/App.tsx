@@ -26,6 +26,18 @@ import MissionDetailPage from './pages/agent/MissionDetailPage'
 import AbsenceRequestPage from './pages/agent/AbsenceRequestPage'
 // Personnel/HR pages
 import AbsencesPage from './pages/personnel/AbsencesPage'
+import TimesheetsPage from './pages/personnel/TimesheetsPage'
+import AttendancePage from './pages/personnel/AttendancePage'
+import HolidaysPage from './pages/personnel/HolidaysPage'
+// Complaint handling pages
+import ComplaintsManagementPage from './pages/complaints/ComplaintsManagementPage'
+import ComplaintDetailsPage from './pages/complaints/ComplaintDetailsPage'
+// Client pages
+import MyContractsPage from './pages/client/MyContractsPage'
+import MySitesPage from './pages/client/MySitesPage'
+import MyInvoicesPage from './pages/client/MyInvoicesPage'
+import FeedbackPage from './pages/client/FeedbackPage'
+import ComplaintsPage from './pages/client/ComplaintsPage'
 import { MainLayout } from './components/layout/MainLayout'
 import { useAuth, UserRole } from './contexts/AuthContext'
 
@@ -149,10 +161,24 @@ export default function App() {
         <Route path="/my-missions/:id" element={<RoleRoute allowedRoles={ALL_INTERNAL_ROLES}><MissionDetailPage /></RoleRoute>} />
         <Route path="/absence-request" element={<RoleRoute allowedRoles={ALL_INTERNAL_ROLES}><AbsenceRequestPage /></RoleRoute>} />
         
-        {/* Personnel / HR Routes - Admin only */}
-        <Route path="/personnel/absences" element={<RoleRoute allowedRoles={ADMIN_ROLES}><AbsencesPage /></RoleRoute>} />
-        <Route path="/personnel/absences/new" element={<RoleRoute allowedRoles={ADMIN_ROLES}><AbsenceRequestPage /></RoleRoute>} />
-        <Route path="/personnel/absences/:id" element={<RoleRoute allowedRoles={ADMIN_ROLES}><AbsenceRequestPage /></RoleRoute>} />
+        {/* Personnel / HR Routes - Staff (supervisors review absences and replace agents) */}
+        <Route path="/personnel/absences" element={<RoleRoute allowedRoles={STAFF_ROLES}><AbsencesPage /></RoleRoute>} />
+        <Route path="/personnel/absences/new" element={<RoleRoute allowedRoles={STAFF_ROLES}><AbsenceRequestPage /></RoleRoute>} />
+        <Route path="/personnel/absences/:id" element={<RoleRoute allowedRoles={STAFF_ROLES}><AbsenceRequestPage /></RoleRoute>} />
+        <Route path="/personnel/timesheets" element={<RoleRoute allowedRoles={STAFF_ROLES}><TimesheetsPage /></RoleRoute>} />
+        <Route path="/personnel/attendance" element={<RoleRoute allowedRoles={STAFF_ROLES}><AttendancePage /></RoleRoute>} />
+        <Route path="/personnel/holidays" element={<RoleRoute allowedRoles={ADMIN_ROLES}><HolidaysPage /></RoleRoute>} />
+        
+        {/* Client Complaints - Staff */}
+        <Route path="/client-complaints" element={<RoleRoute allowedRoles={STAFF_ROLES}><ComplaintsManagementPage /></RoleRoute>} />
+        <Route path="/client-complaints/:id" element={<RoleRoute allowedRoles={STAFF_ROLES}><ComplaintDetailsPage /></RoleRoute>} />
+        
+        {/* Client Routes */}
+        <Route path="/my-contracts" element={<RoleRoute allowedRoles={['CLIENT']}><MyContractsPage /></RoleRoute>} />
+        <Route path="/my-sites" element={<RoleRoute allowedRoles={['CLIENT']}><MySitesPage /></RoleRoute>} />
+        <Route path="/invoices" element={<RoleRoute allowedRoles={['CLIENT']}><MyInvoicesPage /></RoleRoute>} />
+        <Route path="/feedback" element={<RoleRoute allowedRoles={['CLIENT']}><FeedbackPage /></RoleRoute>} />
+        <Route path="/complaints" element={<RoleRoute allowedRoles={['CLIENT']}><ComplaintsPage /></RoleRoute>} />
         
         {/* Supervisor Routes */}
         <Route path="/my-agents" element={<RoleRoute allowedRoles={STAFF_ROLES}><UsersPage /></RoleRoute>} />
@@ -161,8 +187,6 @@ export default function App() {
         <Route path="/personnel" element={<RoleRoute allowedRoles={ADMIN_ROLES}><ComingSoonPage title="Personnel" /></RoleRoute>} />
         <Route path="/notifications" element={<ComingSoonPage title="Notifications" />} />
         <Route path="/my-schedule" element={<RoleRoute allowedRoles={ALL_INTERNAL_ROLES}><ComingSoonPage title="My Schedule" /></RoleRoute>} />
-        <Route path="/my-contracts" element={<RoleRoute allowedRoles={['CLIENT']}><ComingSoonPage title="My Contracts" /></RoleRoute>} />
-        <Route path="/my-sites" element={<RoleRoute allowedRoles={['CLIENT']}><ComingSoonPage title="My Sites" /></RoleRoute>} />
         <Route path="/audit" element={<RoleRoute allowedRoles={ADMIN_ROLES}><ComingSoonPage title="Audit Logs" /></RoleRoute>} />
       </Route>
       
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, UserCheck, Loader2, CalendarX2 } from 'lucide-react'
+import {
+  absencesApi,
+  AffectedIntervention,
+  getPlanningConflicts,
+  getAvailabilityIssues,
+} from '@/services/api'
+import { useToast } from '@/components/ui/Toast'
+
+interface ReplacementModalProps {
+  isOpen: boolean
+  absenceId: string
+  agentName: string
+  interventions: AffectedIntervention[]
+  onClose: () => void
+}
+
+// Interventions of an approved absence, reassigned to the chosen replacements in one step
+export function ReplacementModal({ isOpen, absenceId, agentName, interventions, onClose }: ReplacementModalProps) {
+  const { t } = useTranslation()
+  const toast = useToast()
+
+  const [remaining, setRemaining] = useState<AffectedIntervention[]>(interventions)
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Best suggestion preselected for every intervention
+  useEffect(() => {
+    setRemaining(interventions)
+    setChoices(Object.fromEntries(
+      interventions.map(item => [item.interventionId, item.suggestions[0]?.agentId || ''])
+    ))
+    setError(null)
+  }, [interventions])
+
+  if (!isOpen) return null
+
+  const replacements = Object.entries(choices)
+    .filter(([interventionId, agentId]) => agentId && remaining.some(item => item.interventionId === interventionId))
+    .map(([interventionId, agentId]) => ({ interventionId, agentId }))
+
+  const handleReassign = async () => {
+    if (replacements.length === 0) return
+    setSaving(true)
+    setError(null)
+    try {
+      const reassign = (force?: boolean) => absencesApi.reassign(absenceId, { replacements, force })
+      let result
+      try {
+        result = await reassign()
+      } catch (err) {
+        const conflicts = getPlanningConflicts(err)
+        const warnings = getAvailabilityIssues(err) || []
+        if (!conflicts || !confirm(t('interventions.conflicts.confirm', 'Planning conflicts:\n{{details}}\n\nSave anyway?', {
+          details: [
+            ...warnings.flatMap(agent => agent.issues.map(issue => issue.message)),
+            ...conflicts.map(conflict => conflict.details),
+          ].map(detail => `- ${detail}`).join('\n'),
+        }))) {
+          throw err
+        }
+        result = await reassign(true)
+      }
+
+      toast.success(
+        t('absences.replacements.done', 'Interventions reassigned'),
+        result.reassigned.map(item => `${item.interventionCode}: ${item.agentName}`).join(', ')
+      )
+      if (result.remaining.length === 0) {
+        onClose()
+        return
+      }
+      setRemaining(result.remaining)
+    } catch (err: any) {
+      setError(err.message || t('absences.replacements.failed', 'Failed to reassign interventions'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="relative mx-4 w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-xl bg-white shadow-2xl dark:bg-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 flex items-center justify-between p-5 border-b border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-amber-100 dark:bg-amber-900/30">
+              <CalendarX2 className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {t('absences.replacements.title', 'Replacements needed')}
+              </h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {t('absences.replacements.subtitle', '{{count}} intervention(s) of {{name}} during the absence', {
+                  count: remaining.length,
+                  name: agentName,
+                })}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {remaining.map((item) => (
+            <div
+              key={item.interventionId}
+              className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 dark:text-white">{item.interventionCode}</span>
+                  {item.role === 'TEAM_CHIEF' && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+                      {t('interventions.assignments.role.TEAM_CHIEF', 'Team chief')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {item.siteName} • {new Date(item.date).toLocaleDateString()} {item.startTime}-{item.endTime}
+                </p>
+              </div>
+              <select
+                value={choices[item.interventionId] || ''}
+                onChange={(e) => setChoices(prev => ({ ...prev, [item.interventionId]: e.target.value }))}
+                className="sm:w-64 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+              >
+                <option value="">{t('absences.replacements.later', 'Decide later')}</option>
+                {item.suggestions.map((suggestion) => (
+                  <option key={suggestion.agentId} value={suggestion.agentId}>
+                    {suggestion.agentName} ({suggestion.score})
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          {remaining.some(item => item.suggestions.length === 0) && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t('absences.replacements.noSuggestion', 'Interventions without a suggestion can be staffed from their edit page.')}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 flex justify-end gap-3 p-5 border-t border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            {t('absences.replacements.close', 'Later')}
+          </button>
+          <button
+            onClick={handleReassign}
+            disabled={saving || replacements.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserCheck className="h-4 w-4" />}
+            {t('absences.replacements.reassign', 'Reassign {{count}}', { count: replacements.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ReplacementModal
@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Camera, Loader2, MapPin, Clock, AlertTriangle, Trash2 } from 'lucide-react'
+import {
+  checklistsApi,
+  settingsApi,
+  ApiError,
+  ChecklistPhoto,
+  ChecklistPhotoItem,
+  ChecklistPhotoTag,
+} from '@/services/api'
+import { StoredImage, StoredFileLink } from '@/components/shared/StoredImage'
+import { useToast } from '@/components/ui/Toast'
+
+const tagStyles: Record<ChecklistPhotoTag, string> = {
+  BEFORE: 'bg-blue-600 text-white',
+  AFTER: 'bg-green-600 text-white',
+  ISSUE: 'bg-red-600 text-white',
+}
+
+interface ChecklistPhotoGalleryProps {
+  interventionId: string
+}
+
+// Checklist photos of an intervention grouped by zone and task, for supervisors
+export function ChecklistPhotoGallery({ interventionId }: ChecklistPhotoGalleryProps) {
+  const { t } = useTranslation()
+  const toast = useToast()
+
+  const [items, setItems] = useState<ChecklistPhotoItem[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [overlays, setOverlays] = useState({ timestamp: true, location: false })
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    checklistsApi.getPhotoGallery(interventionId)
+      .then((data) => { if (!cancelled) setItems(data) })
+      .catch((err) => {
+        if (cancelled) return
+        // No checklist for this intervention
+        if (!(err instanceof ApiError && err.statusCode === 404)) {
+          toast.error(t('checklists.photos.loadError', 'Failed to load checklist photos'))
+        }
+        setItems(null)
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    // Overlays follow the photo settings of the viewer
+    settingsApi.getSettings()
+      .then((settings) => {
+        if (!cancelled) {
+          setOverlays({ timestamp: settings.photo.timestampOverlay, location: settings.photo.locationOverlay })
+        }
+      })
+      .catch(() => {})
+
+    return () => { cancelled = true }
+  }, [interventionId])
+
+  const handleDelete = async (photo: ChecklistPhoto) => {
+    if (!confirm(t('checklists.photos.confirmDelete', 'Remove this photo?'))) return
+    setDeletingId(photo.id)
+    try {
+      await checklistsApi.deletePhoto(photo.id)
+      setItems(prev => prev?.map(item => (
+        item.id === photo.checklistItemId
+          ? { ...item, photos: item.photos.filter(p => p.id !== photo.id) }
+          : item
+      )) ?? null)
+    } catch (err: any) {
+      toast.error(t('checklists.photos.deleteError', 'Failed to remove the photo'), err.message)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  if (!items) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {t('checklists.photos.noChecklist', 'No checklist for this intervention')}
+      </p>
+    )
+  }
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {t('checklists.photos.empty', 'No photos have been taken on the checklist')}
+      </p>
+    )
+  }
+
+  const zones = items.reduce<Record<string, ChecklistPhotoItem[]>>((acc, item) => {
+    (acc[item.zoneName] ||= []).push(item)
+    return acc
+  }, {})
+
+  return (
+    <div className="space-y-6">
+      {Object.entries(zones).map(([zoneName, zoneItems]) => (
+        <div key={zoneName}>
+          <h4 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">
+            {zoneName}
+          </h4>
+          <div className="space-y-4">
+            {zoneItems.map((item) => (
+              <div key={item.id}>
+                <div className="flex items-center gap-2 mb-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{item.taskDescription}</p>
+                  {item.requiresPhoto && item.photos.length === 0 && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                      <AlertTriangle className="h-3 w-3" />
+                      {t('checklists.photos.missing', 'Photo required')}
+                    </span>
+                  )}
+                </div>
+                {item.photos.length > 0 && (
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+                    {item.photos.map((photo) => (
+                      <div key={photo.id} className="group relative aspect-square rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700">
+                        <StoredFileLink href={photo.url} className="block w-full h-full hover:opacity-90 transition-opacity">
+                          <StoredImage
+                            src={photo.url}
+                            thumbnail
+                            alt={item.taskDescription}
+                            className="w-full h-full object-cover"
+                          />
+                        </StoredFileLink>
+                        <span className={`absolute top-2 left-2 px-2 py-0.5 rounded text-xs font-semibold ${tagStyles[photo.tag]}`}>
+                          {t(`checklists.photos.tags.${photo.tag}`, photo.tag)}
+                        </span>
+                        <button
+                          onClick={() => handleDelete(photo)}
+                          disabled={deletingId === photo.id}
+                          title={t('checklists.photos.delete', 'Remove')}
+                          className="absolute top-2 right-2 p-1.5 rounded-lg bg-black/50 text-white opacity-0 group-hover:opacity-100 hover:bg-red-600 disabled:opacity-50 transition-opacity"
+                        >
+                          {deletingId === photo.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                        </button>
+                        {(overlays.timestamp || (overlays.location && photo.latitude !== null)) && (
+                          <div className="absolute inset-x-0 bottom-0 px-2 py-1 bg-black/60 text-[11px] text-white space-y-0.5 pointer-events-none">
+                            {overlays.timestamp && (
+                              <p className="flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                {new Date(photo.capturedAt).toLocaleString()}
+                              </p>
+                            )}
+                            {overlays.location && photo.latitude !== null && photo.longitude !== null && (
+                              <p className="flex items-center gap-1">
+                                <MapPin className="h-3 w-3" />
+                                {Number(photo.latitude).toFixed(5)}, {Number(photo.longitude).toFixed(5)}
+                                {photo.accuracy !== null && ` (±${Math.round(Number(photo.accuracy))} m)`}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        {(photo.uploadedBy || photo.deviceInfo) && (
+                          <div className="absolute inset-0 hidden group-hover:flex items-center justify-center p-2 bg-black/40 text-center text-xs text-white pointer-events-none">
+                            <p>
+                              <Camera className="h-3.5 w-3.5 mx-auto mb-1" />
+                              {photo.uploadedBy && `${photo.uploadedBy.firstName} ${photo.uploadedBy.lastName}`}
+                              {photo.deviceInfo && <span className="block opacity-80">{photo.deviceInfo}</span>}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ChecklistPhotoGallery
@@ -53,6 +53,7 @@ export function ReportIssueModal({ isOpen, onClose }: ReportIssueModalProps) {
   const [priority, setPriority] = useState<ReportPriority>('medium')
   const [screenshot, setScreenshot] = useState<string | null>(null)
   const [screenshotName, setScreenshotName] = useState<string | null>(null)
+  const [screenshotFile, setScreenshotFile] = useState<File | null>(null)
 
   // UI state
   const [submitting, setSubmitting] = useState(false)
@@ -67,7 +68,7 @@ export function ReportIssueModal({ isOpen, onClose }: ReportIssueModalProps) {
     if (!file) return
 
     // Validate file type
-    if (!file.type.startsWith('image/')) {
+    if (!['image/jpeg', 'image/png', 'image/webp'].includes(file.type)) {
       toast.error(
         t('report.error.invalidFileType', 'Invalid file type'),
         t('report.error.selectImage', 'Please select an image file')
@@ -84,11 +85,12 @@ export function ReportIssueModal({ isOpen, onClose }: ReportIssueModalProps) {
       return
     }
 
-    // Convert to base64 for preview (in production, upload to storage)
+    // Local preview, the file is uploaded once the report is created
     const reader = new FileReader()
     reader.onload = () => {
       setScreenshot(reader.result as string)
       setScreenshotName(file.name)
+      setScreenshotFile(file)
     }
     reader.readAsDataURL(file)
   }
@@ -96,6 +98,7 @@ export function ReportIssueModal({ isOpen, onClose }: ReportIssueModalProps) {
   const removeScreenshot = () => {
     setScreenshot(null)
     setScreenshotName(null)
+    setScreenshotFile(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -129,9 +132,21 @@ export function ReportIssueModal({ isOpen, onClose }: ReportIssueModalProps) {
         category,
         description: description.trim(),
         priority,
-        screenshotUrl: screenshot || undefined,
       })
 
+      if (screenshotFile) {
+        try {
+          await reportsApi.uploadScreenshot(report.id, screenshotFile)
+        } catch (err) {
+          // The report is sent without its screenshot
+          console.error('Failed to upload screenshot:', err)
+          toast.error(
+            t('report.error.screenshotFailed', 'Screenshot not uploaded'),
+            t('report.error.screenshotFailedMessage', 'Your report was sent without the screenshot')
+          )
+        }
+      }
+
       setTicketId(report.id.slice(0, 8).toUpperCase())
       setSubmitted(true)
 
@@ -166,6 +181,7 @@ export function ReportIssueModal({ isOpen, onClose }: ReportIssueModalProps) {
     setPriority('medium')
     setScreenshot(null)
     setScreenshotName(null)
+    setScreenshotFile(null)
     setSubmitted(false)
     setTicketId(null)
     setError(null)
@@ -344,14 +360,14 @@ export function ReportIssueModal({ isOpen, onClose }: ReportIssueModalProps) {
                     <span className="text-sm text-gray-500 dark:text-gray-400">
                       {t('report.uploadScreenshot', 'Click to upload a screenshot')}
                     </span>
-                    <span className="text-xs text-gray-400">{t('report.fileHint', 'Max 5MB • PNG, JPG, GIF')}</span>
+                    <span className="text-xs text-gray-400">{t('report.fileHint', 'Max 5MB • PNG, JPG, WEBP')}</span>
                   </button>
                 )}
                 
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*"
+                  accept="image/jpeg,image/png,image/webp"
                   onChange={handleScreenshotChange}
                   className="hidden"
                 />
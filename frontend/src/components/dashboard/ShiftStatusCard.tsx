@@ -8,11 +8,14 @@ import {
   Coffee,
   AlertCircle,
   RefreshCw,
+  Pause,
 } from 'lucide-react'
-import { attendanceApi, Attendance } from '@/services/api'
+import { attendanceApi, Attendance, BreakReason } from '@/services/api'
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog'
 import { useToast } from '@/components/ui/Toast'
 
+const BREAK_REASONS: BreakReason[] = ['break', 'lunch', 'meeting', 'personal', 'other']
+
 export function ShiftStatusCard() {
   const { t } = useTranslation()
   const { user } = useAuth()
@@ -23,6 +26,8 @@ export function ShiftStatusCard() {
   const [todayRecords, setTodayRecords] = useState<Attendance[]>([])
   const [weeklyHours, setWeeklyHours] = useState(0)
   const [elapsed, setElapsed] = useState(0)
+  const [breakElapsed, setBreakElapsed] = useState(0)
+  const [breakReason, setBreakReason] = useState<BreakReason>('break')
   const [loading, setLoading] = useState(true)
   const [actionLoading, setActionLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -72,16 +77,24 @@ export function ShiftStatusCard() {
     return () => window.removeEventListener('shiftStatusChanged', handleShiftChange)
   }, [fetchData])
 
-  // Update elapsed time
+  const isPaused = currentShift?.status === 'paused'
+
+  // Update elapsed time (breaks excluded)
   useEffect(() => {
     if (!isOnShift || !currentShift) {
       setElapsed(0)
+      setBreakElapsed(0)
       return
     }
 
+    const openBreak = currentShift.breaks?.find((b) => !b.breakEnd)
     const updateElapsed = () => {
+      const now = Date.now()
       const start = new Date(currentShift.clockIn).getTime()
-      setElapsed(Math.floor((Date.now() - start) / 1000))
+      const ongoingBreak = openBreak ? Math.floor((now - new Date(openBreak.breakStart).getTime()) / 1000) : 0
+      const breakSeconds = (currentShift.breakMinutes || 0) * 60 + ongoingBreak
+      setElapsed(Math.max(0, Math.floor((now - start) / 1000) - breakSeconds))
+      setBreakElapsed(ongoingBreak)
     }
 
     updateElapsed()
@@ -163,6 +176,38 @@ export function ShiftStatusCard() {
     }
   }
 
+  // Handle pause (start a break)
+  const handlePause = async () => {
+    setActionLoading(true)
+    try {
+      await attendanceApi.pauseShift({ reason: breakReason })
+      toast.success(t('shift.breakStarted', 'Break Started'), t('shift.breakStartedMessage', 'Your break time is not counted as worked'))
+      window.dispatchEvent(new CustomEvent('shiftStatusChanged'))
+      await fetchData()
+    } catch (err: any) {
+      console.error('Failed to pause shift:', err)
+      toast.error(t('shift.pauseError', 'Failed to Start Break'), err.message || t('shift.errorRetry', 'Please try again'))
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  // Handle resume (end break)
+  const handleResume = async () => {
+    setActionLoading(true)
+    try {
+      await attendanceApi.resumeShift({})
+      toast.success(t('shift.breakEnded', 'Back to Work'), t('shift.breakDuration', 'Break lasted {{duration}}', { duration: formatDuration(breakElapsed) }))
+      window.dispatchEvent(new CustomEvent('shiftStatusChanged'))
+      await fetchData()
+    } catch (err: any) {
+      console.error('Failed to resume shift:', err)
+      toast.error(t('shift.resumeError', 'Failed to Resume Shift'), err.message || t('shift.errorRetry', 'Please try again'))
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
   if (!canToggleShift) return null
 
   if (loading) {
@@ -256,12 +301,18 @@ export function ShiftStatusCard() {
             </h3>
           </div>
           <div className="flex items-center gap-2">
-            {isOnShift && (
+            {isOnShift && !isPaused && (
               <span className="flex items-center gap-1.5 text-xs font-medium text-green-600 dark:text-green-400">
                 <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
                 {t('shift.onShift', 'On Shift')}
               </span>
             )}
+            {isOnShift && isPaused && (
+              <span className="flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+                <span className="h-2 w-2 rounded-full bg-amber-500" />
+                {t('shift.onBreak', 'On Break')}
+              </span>
+            )}
             <button
               onClick={() => { setLoading(true); fetchData() }}
               className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400"
@@ -282,6 +333,11 @@ export function ShiftStatusCard() {
               <p className="font-mono text-3xl font-bold text-green-600 dark:text-green-400">
                 {formatDuration(elapsed)}
               </p>
+              {isPaused && (
+                <p className="mt-1 text-sm text-amber-600 dark:text-amber-400">
+                  {t('shift.breakFor', 'On break for {{duration}}', { duration: formatDuration(breakElapsed) })}
+                </p>
+              )}
             </div>
 
             {/* Stats Grid */}
@@ -306,6 +362,40 @@ export function ShiftStatusCard() {
               </div>
             </div>
 
+            {/* Break Controls */}
+            {isPaused ? (
+              <button
+                onClick={handleResume}
+                disabled={actionLoading}
+                className="w-full mb-2 flex items-center justify-center gap-2 py-2.5 rounded-lg bg-green-600 text-white font-medium text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                <Play className="h-4 w-4" />
+                {t('shift.resume', 'Resume Shift')}
+              </button>
+            ) : (
+              <div className="mb-2 flex gap-2">
+                <select
+                  value={breakReason}
+                  onChange={(e) => setBreakReason(e.target.value as BreakReason)}
+                  className="rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-700 dark:text-gray-300 px-2"
+                >
+                  {BREAK_REASONS.map((reason) => (
+                    <option key={reason} value={reason}>
+                      {t(`shift.breakReason.${reason}`, reason)}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handlePause}
+                  disabled={actionLoading}
+                  className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg bg-amber-100 text-amber-700 font-medium text-sm hover:bg-amber-200 dark:bg-amber-900/30 dark:text-amber-400 dark:hover:bg-amber-900/50 transition-colors disabled:opacity-50"
+                >
+                  <Pause className="h-4 w-4" />
+                  {t('shift.takeBreak', 'Take a Break')}
+                </button>
+              </div>
+            )}
+
             {/* End Shift Button */}
             <button
               onClick={() => setShowEndConfirm(true)}
@@ -0,0 +1,291 @@
+import { useState, useEffect, ChangeEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, AlertTriangle, Loader2, Camera } from 'lucide-react'
+import {
+  incidentsApi,
+  Incident,
+  IncidentType,
+  IncidentSeverity,
+  CreateIncidentRequest,
+} from '@/services/api'
+import { useToast } from '@/components/ui/Toast'
+
+export const INCIDENT_TYPES: IncidentType[] = [
+  'PROPERTY_DAMAGE',
+  'INJURY',
+  'SAFETY_HAZARD',
+  'EQUIPMENT_FAILURE',
+  'THEFT',
+  'ACCESS_ISSUE',
+  'OTHER',
+]
+
+export const INCIDENT_SEVERITIES: IncidentSeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']
+
+interface IncidentReportModalProps {
+  isOpen: boolean
+  interventionId: string
+  onClose: () => void
+  onReported: (incident: Incident) => void
+}
+
+const emptyForm = {
+  type: 'OTHER' as IncidentType,
+  severity: 'MEDIUM' as IncidentSeverity,
+  description: '',
+  propertyDamage: false,
+  damageDescription: '',
+  estimatedDamageCost: '',
+  injury: false,
+  injuryDescription: '',
+}
+
+// Incident report of an intervention, photos are uploaded once the incident is created
+export function IncidentReportModal({ isOpen, interventionId, onClose, onReported }: IncidentReportModalProps) {
+  const { t } = useTranslation()
+  const toast = useToast()
+
+  const [form, setForm] = useState(emptyForm)
+  const [files, setFiles] = useState<File[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(emptyForm)
+      setFiles([])
+      setError(null)
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  // Damage and injury follow the type unless changed by hand
+  const handleTypeChange = (type: IncidentType) => {
+    setForm(prev => ({
+      ...prev,
+      type,
+      propertyDamage: type === 'PROPERTY_DAMAGE' || prev.propertyDamage,
+      injury: type === 'INJURY' || prev.injury,
+    }))
+  }
+
+  const handleFiles = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    e.target.value = ''
+    setFiles(prev => [...prev, ...selected])
+  }
+
+  const handleSubmit = async () => {
+    if (!form.description.trim()) {
+      setError(t('incidents.report.descriptionRequired', 'Describe what happened'))
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const data: CreateIncidentRequest = {
+        interventionId,
+        type: form.type,
+        severity: form.severity,
+        description: form.description.trim(),
+        propertyDamage: form.propertyDamage,
+        injury: form.injury,
+      }
+      if (form.propertyDamage && form.damageDescription.trim()) {
+        data.damageDescription = form.damageDescription.trim()
+      }
+      if (form.propertyDamage && form.estimatedDamageCost) {
+        data.estimatedDamageCost = Number(form.estimatedDamageCost)
+      }
+      if (form.injury && form.injuryDescription.trim()) {
+        data.injuryDescription = form.injuryDescription.trim()
+      }
+
+      let incident = await incidentsApi.create(data)
+      for (const file of files) {
+        try {
+          incident = await incidentsApi.uploadPhoto(incident.id, file)
+        } catch (err: any) {
+          toast.error(t('incidents.report.photoError', 'A photo could not be uploaded'), err.message)
+        }
+      }
+
+      toast.success(t('incidents.report.done', 'Incident {{number}} reported', { number: incident.incidentNumber }))
+      onReported(incident)
+      onClose()
+    } catch (err: any) {
+      setError(err.message || t('incidents.report.failed', 'Failed to report the incident'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white'
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="relative mx-4 w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-xl bg-white shadow-2xl dark:bg-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 flex items-center justify-between p-5 border-b border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-red-100 dark:bg-red-900/30">
+              <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {t('incidents.report.title', 'Report an incident')}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('incidents.fields.type', 'Type')}</label>
+              <select
+                value={form.type}
+                onChange={(e) => handleTypeChange(e.target.value as IncidentType)}
+                className={inputClass}
+              >
+                {INCIDENT_TYPES.map(type => (
+                  <option key={type} value={type}>{t(`incidents.type.${type}`, type)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('incidents.fields.severity', 'Severity')}</label>
+              <select
+                value={form.severity}
+                onChange={(e) => setForm(prev => ({ ...prev, severity: e.target.value as IncidentSeverity }))}
+                className={inputClass}
+              >
+                {INCIDENT_SEVERITIES.map(severity => (
+                  <option key={severity} value={severity}>{t(`incidents.severity.${severity}`, severity)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('incidents.fields.description', 'What happened?')}</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              rows={4}
+              maxLength={5000}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.propertyDamage}
+                onChange={(e) => setForm(prev => ({ ...prev, propertyDamage: e.target.checked }))}
+                className="rounded border-gray-300 text-primary-600"
+              />
+              {t('incidents.fields.propertyDamage', 'Property damaged')}
+            </label>
+            {form.propertyDamage && (
+              <div className="grid grid-cols-3 gap-3 pl-6">
+                <input
+                  value={form.damageDescription}
+                  onChange={(e) => setForm(prev => ({ ...prev, damageDescription: e.target.value }))}
+                  placeholder={t('incidents.fields.damageDescription', 'What was damaged')}
+                  className={`${inputClass} col-span-2`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.estimatedDamageCost}
+                  onChange={(e) => setForm(prev => ({ ...prev, estimatedDamageCost: e.target.value }))}
+                  placeholder={t('incidents.fields.estimatedDamageCost', 'Estimated cost')}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.injury}
+                onChange={(e) => setForm(prev => ({ ...prev, injury: e.target.checked }))}
+                className="rounded border-gray-300 text-primary-600"
+              />
+              {t('incidents.fields.injury', 'Someone was injured')}
+            </label>
+            {form.injury && (
+              <input
+                value={form.injuryDescription}
+                onChange={(e) => setForm(prev => ({ ...prev, injuryDescription: e.target.value }))}
+                placeholder={t('incidents.fields.injuryDescription', 'Who was injured and how')}
+                className={`${inputClass} ml-6`}
+              />
+            )}
+          </div>
+
+          <div>
+            <label className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 bg-primary-50 dark:bg-primary-900/20 rounded-lg cursor-pointer hover:bg-primary-100 dark:hover:bg-primary-900/30">
+              <Camera className="h-4 w-4" />
+              {t('incidents.report.addPhotos', 'Add photos')}
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                capture="environment"
+                multiple
+                onChange={handleFiles}
+                className="hidden"
+              />
+            </label>
+            {files.length > 0 && (
+              <span className="ml-3 text-sm text-gray-500 dark:text-gray-400">
+                {t('incidents.report.photoCount', '{{count}} photo(s)', { count: files.length })}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 flex justify-end gap-3 p-5 border-t border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            {t('common.cancel', 'Cancel')}
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <AlertTriangle className="h-4 w-4" />}
+            {t('incidents.report.submit', 'Report')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default IncidentReportModal
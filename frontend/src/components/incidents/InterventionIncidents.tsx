@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { AlertTriangle, Loader2, Plus, ShieldAlert, Wrench, HeartPulse } from 'lucide-react'
+import {
+  incidentsApi,
+  Incident,
+  IncidentSeverity,
+  IncidentStatus,
+} from '@/services/api'
+import { StoredImage, StoredFileLink } from '@/components/shared/StoredImage'
+import { useToast } from '@/components/ui/Toast'
+import { IncidentReportModal } from './IncidentReportModal'
+
+const severityStyles: Record<IncidentSeverity, string> = {
+  LOW: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  MEDIUM: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  HIGH: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+  CRITICAL: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+}
+
+const statusStyles: Record<IncidentStatus, string> = {
+  OPEN: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300',
+  INVESTIGATING: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300',
+  RESOLVED: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300',
+  CLOSED: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+}
+
+// Status changes offered to supervisors, same table as the backend
+const nextStatuses: Record<IncidentStatus, IncidentStatus[]> = {
+  OPEN: ['INVESTIGATING', 'RESOLVED', 'CLOSED'],
+  INVESTIGATING: ['RESOLVED', 'CLOSED'],
+  RESOLVED: ['INVESTIGATING', 'CLOSED'],
+  CLOSED: [],
+}
+
+interface InterventionIncidentsProps {
+  interventionId: string
+  canManage: boolean // Supervisors see every incident and run the resolution workflow
+  canReport: boolean
+}
+
+// Incidents of an intervention: reporting, photos and resolution workflow
+export function InterventionIncidents({ interventionId, canManage, canReport }: InterventionIncidentsProps) {
+  const { t } = useTranslation()
+  const toast = useToast()
+
+  const [incidents, setIncidents] = useState<Incident[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showReport, setShowReport] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    // Agents only see the incidents they reported
+    const load = canManage
+      ? incidentsApi.getAll({ interventionId, limit: 100 }).then(result => result.data)
+      : incidentsApi.getMine().then(mine => mine.filter(incident => incident.interventionId === interventionId))
+
+    load
+      .then((data) => { if (!cancelled) setIncidents(data) })
+      .catch(() => { if (!cancelled) toast.error(t('incidents.loadError', 'Failed to load incidents')) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+
+    return () => { cancelled = true }
+  }, [interventionId, canManage])
+
+  const handleStatus = async (incident: Incident, status: IncidentStatus) => {
+    let resolution: string | undefined
+    if (status === 'RESOLVED') {
+      const answer = prompt(t('incidents.resolutionPrompt', 'Corrective action taken:'), incident.resolution || '')
+      if (answer === null) return
+      if (!answer.trim()) {
+        toast.error(t('incidents.resolutionRequired', 'A resolution is required to resolve an incident'))
+        return
+      }
+      resolution = answer.trim()
+    }
+
+    setUpdatingId(incident.id)
+    try {
+      const updated = await incidentsApi.updateStatus(incident.id, { status, resolution })
+      setIncidents(prev => prev.map(item => (item.id === updated.id ? updated : item)))
+    } catch (err: any) {
+      toast.error(t('incidents.statusError', 'Failed to update the incident'), err.message)
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const personName = (person?: { firstName: string; lastName: string } | null) =>
+    person ? `${person.firstName} ${person.lastName}` : '-'
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-gray-400" />
+          {t('incidents.title', 'Incidents')}
+          {incidents.length > 0 && (
+            <span className="text-sm font-normal text-gray-500">({incidents.length})</span>
+          )}
+        </h3>
+        {canReport && (
+          <button
+            onClick={() => setShowReport(true)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30"
+          >
+            <Plus className="h-4 w-4" />
+            {t('incidents.report.button', 'Report incident')}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+        </div>
+      ) : incidents.length === 0 ? (
+        <div className="text-center py-8">
+          <ShieldAlert className="h-10 w-10 text-gray-300 dark:text-gray-600 mx-auto mb-2" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('incidents.empty', 'No incident reported')}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {incidents.map((incident) => (
+            <div key={incident.id} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="font-medium text-gray-900 dark:text-white">{incident.incidentNumber}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${severityStyles[incident.severity]}`}>
+                  {t(`incidents.severity.${incident.severity}`, incident.severity)}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[incident.status]}`}>
+                  {t(`incidents.status.${incident.status}`, incident.status)}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t(`incidents.type.${incident.type}`, incident.type)} • {new Date(incident.occurredAt).toLocaleString()}
+                </span>
+              </div>
+
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{incident.description}</p>
+
+              {incident.propertyDamage && (
+                <p className="mt-2 flex items-center gap-1.5 text-sm text-orange-700 dark:text-orange-300">
+                  <Wrench className="h-4 w-4" />
+                  {t('incidents.fields.propertyDamage', 'Property damaged')}
+                  {incident.damageDescription && `: ${incident.damageDescription}`}
+                  {incident.estimatedDamageCost !== null && ` (${Number(incident.estimatedDamageCost).toFixed(2)})`}
+                </p>
+              )}
+              {incident.injury && (
+                <p className="mt-1 flex items-center gap-1.5 text-sm text-red-700 dark:text-red-300">
+                  <HeartPulse className="h-4 w-4" />
+                  {t('incidents.fields.injury', 'Someone was injured')}
+                  {incident.injuryDescription && `: ${incident.injuryDescription}`}
+                </p>
+              )}
+
+              {!!incident.photoUrls?.length && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {incident.photoUrls.map((url, index) => (
+                    <StoredFileLink
+                      key={index}
+                      href={url}
+                      className="h-16 w-16 rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700 hover:opacity-80"
+                    >
+                      <StoredImage src={url} thumbnail alt={`Photo ${index + 1}`} className="w-full h-full object-cover" />
+                    </StoredFileLink>
+                  ))}
+                </div>
+              )}
+
+              {incident.resolution && (
+                <div className="mt-3 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-800 dark:text-green-200">
+                  <span className="font-medium">{t('incidents.fields.resolution', 'Resolution')}:</span> {incident.resolution}
+                  {incident.resolvedAt && (
+                    <span className="block text-xs mt-1 opacity-75">
+                      {personName(incident.resolvedBy)} • {new Date(incident.resolvedAt).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t('incidents.reportedBy', 'Reported by {{name}}', { name: personName(incident.reportedBy) })}
+                  {incident.assignedTo && ` • ${t('incidents.assignedTo', 'Assigned to {{name}}', { name: personName(incident.assignedTo) })}`}
+                </span>
+                {canManage && nextStatuses[incident.status].length > 0 && (
+                  <div className="flex gap-2">
+                    {nextStatuses[incident.status].map(status => (
+                      <button
+                        key={status}
+                        onClick={() => handleStatus(incident, status)}
+                        disabled={updatingId === incident.id}
+                        className="px-2.5 py-1 text-xs font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        {t(`incidents.actions.${status}`, status)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <IncidentReportModal
+        isOpen={showReport}
+        interventionId={interventionId}
+        onClose={() => setShowReport(false)}
+        onReported={(incident) => setIncidents(prev => [incident, ...prev])}
+      />
+    </div>
+  )
+}
+
+export default InterventionIncidents
@@ -0,0 +1,234 @@
+import { useState, useEffect, useRef, PointerEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X, PenLine, Loader2, Eraser } from 'lucide-react'
+import { interventionsApi, Intervention } from '@/services/api'
+
+interface ClientSignOffModalProps {
+  isOpen: boolean
+  interventionId: string
+  required: boolean // Required by the contract: no way to skip it
+  onClose: () => void
+  onSigned: (intervention: Intervention) => void
+  onSkip: () => void
+}
+
+// Acknowledgement of the client contact on site, signed with the finger on the device
+export function ClientSignOffModal({ isOpen, interventionId, required, onClose, onSigned, onSkip }: ClientSignOffModalProps) {
+  const { t } = useTranslation()
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const [hasSignature, setHasSignature] = useState(false)
+  const [contactName, setContactName] = useState('')
+  const [comments, setComments] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setContactName('')
+    setComments('')
+    setError(null)
+    setHasSignature(false)
+
+    // Canvas resolution follows its displayed size
+    const canvas = canvasRef.current
+    if (canvas) {
+      canvas.width = canvas.offsetWidth
+      canvas.height = canvas.offsetHeight
+      const context = canvas.getContext('2d')
+      if (context) {
+        context.fillStyle = '#ffffff'
+        context.fillRect(0, 0, canvas.width, canvas.height)
+        context.lineWidth = 2.5
+        context.lineCap = 'round'
+        context.lineJoin = 'round'
+        context.strokeStyle = '#111827'
+      }
+    }
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const getPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d')
+    if (!context) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    drawingRef.current = true
+    const { x, y } = getPoint(e)
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    const context = e.currentTarget.getContext('2d')
+    if (!context) return
+    const { x, y } = getPoint(e)
+    context.lineTo(x, y)
+    context.stroke()
+    setHasSignature(true)
+  }
+
+  const handlePointerUp = () => {
+    drawingRef.current = false
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    setHasSignature(false)
+  }
+
+  const handleSubmit = async () => {
+    if (!contactName.trim()) {
+      setError(t('interventions.signOff.nameRequired', 'Enter the name of the client contact'))
+      return
+    }
+    if (!hasSignature || !canvasRef.current) {
+      setError(t('interventions.signOff.signatureRequired', 'The client contact must sign'))
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const blob = await new Promise<Blob | null>(resolve => canvasRef.current!.toBlob(resolve, 'image/png'))
+      if (!blob) throw new Error(t('interventions.signOff.signatureError', 'The signature could not be read'))
+
+      const updated = await interventionsApi.signOff(
+        interventionId,
+        { contactName: contactName.trim(), comments: comments.trim() || undefined },
+        new File([blob], 'signature.png', { type: 'image/png' })
+      )
+      onSigned(updated)
+    } catch (err: any) {
+      setError(err.message || t('interventions.signOff.failed', 'Failed to save the sign-off'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="relative w-full sm:mx-4 sm:max-w-lg max-h-[95vh] overflow-y-auto rounded-t-xl sm:rounded-xl bg-white shadow-2xl dark:bg-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-gray-100 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-emerald-100 dark:bg-emerald-900/30">
+              <PenLine className="h-5 w-5 text-emerald-600 dark:text-emerald-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {t('interventions.signOff.title', 'Client sign-off')}
+              </h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {required
+                  ? t('interventions.signOff.requiredHint', 'Required by the contract to complete the mission')
+                  : t('interventions.signOff.optionalHint', 'Optional: ask the client contact to acknowledge the work')}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {t('interventions.signOff.contactName', 'Client contact name')}
+            </label>
+            <input
+              value={contactName}
+              onChange={(e) => setContactName(e.target.value)}
+              maxLength={200}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {t('interventions.signOff.signature', 'Signature')}
+              </label>
+              <button
+                onClick={handleClear}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                <Eraser className="h-3.5 w-3.5" />
+                {t('interventions.signOff.clear', 'Clear')}
+              </button>
+            </div>
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="w-full h-40 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 bg-white touch-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {t('interventions.signOff.comments', 'Comments (optional)')}
+            </label>
+            <textarea
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-5 border-t border-gray-100 dark:border-gray-700">
+          {!required && (
+            <button
+              onClick={onSkip}
+              disabled={saving}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              {t('interventions.signOff.skip', 'Complete without sign-off')}
+            </button>
+          )}
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-emerald-600 hover:bg-emerald-700 text-white disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <PenLine className="h-4 w-4" />}
+            {t('interventions.signOff.submit', 'Sign and complete')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ClientSignOffModal
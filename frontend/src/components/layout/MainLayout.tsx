@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Outlet, useNavigate } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { Download, X, Smartphone } from 'lucide-react'
@@ -99,6 +99,41 @@ export function MainLayout() {
     return () => window.removeEventListener('shiftStatusChanged', handleShiftChange)
   }, [canToggleShift])
 
+  // Send heartbeats while on shift so idle shifts can be auto-paused by the backend (when enabled)
+  const lastShiftStatus = useRef<string | null>(null)
+  useEffect(() => {
+    if (!canToggleShift || !isOnShift) return
+
+    let deviceId = localStorage.getItem('deviceId')
+    if (!deviceId) {
+      deviceId = crypto.randomUUID()
+      localStorage.setItem('deviceId', deviceId)
+    }
+
+    const sendHeartbeat = async () => {
+      if (document.visibilityState !== 'visible') return
+      try {
+        const { attendance } = await attendanceApi.heartbeat({ deviceId: deviceId! })
+        const status = attendance?.status || null
+        // Shift resumed from an idle pause: let the dashboard refresh
+        if (lastShiftStatus.current && status !== lastShiftStatus.current) {
+          window.dispatchEvent(new CustomEvent('shiftStatusChanged'))
+        }
+        lastShiftStatus.current = status
+      } catch (error) {
+        console.error('Failed to send heartbeat:', error)
+      }
+    }
+
+    sendHeartbeat()
+    const interval = setInterval(sendHeartbeat, 60 * 1000)
+    document.addEventListener('visibilitychange', sendHeartbeat)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', sendHeartbeat)
+    }
+  }, [canToggleShift, isOnShift])
+
   // Save sidebar state
   useEffect(() => {
     localStorage.setItem('sidebarCollapsed', JSON.stringify(sidebarCollapsed))
@@ -0,0 +1,64 @@
+import { useState, useEffect, ImgHTMLAttributes, AnchorHTMLAttributes } from 'react'
+import { filesApi, getStoredFileId, StoredFileUrl } from '@/services/api'
+
+/**
+ * Download URLs of a photo or attachment field
+ * Uploaded files (/files/:id) are resolved to signed URLs, other URLs are used as they are
+ */
+export function useStoredFileUrl(reference: string | null | undefined) {
+  const fileId = getStoredFileId(reference)
+  const [signed, setSigned] = useState<StoredFileUrl | null>(null)
+
+  useEffect(() => {
+    if (!fileId) {
+      setSigned(null)
+      return
+    }
+
+    let cancelled = false
+    filesApi.getSignedUrl(fileId)
+      .then((result) => { if (!cancelled) setSigned(result) })
+      .catch(() => { if (!cancelled) setSigned(null) })
+    return () => { cancelled = true }
+  }, [fileId])
+
+  if (!fileId) {
+    return { url: reference || null, thumbnailUrl: reference || null, loading: false }
+  }
+  return {
+    url: signed?.url ?? null,
+    thumbnailUrl: signed?.thumbnailUrl ?? signed?.url ?? null,
+    loading: !signed,
+  }
+}
+
+interface StoredImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  src: string | null | undefined
+  thumbnail?: boolean // Small previews load the thumbnail
+}
+
+export function StoredImage({ src, thumbnail, className, alt, ...props }: StoredImageProps) {
+  const { url, thumbnailUrl } = useStoredFileUrl(src)
+  const resolved = thumbnail ? thumbnailUrl : url
+
+  if (!resolved) {
+    return <div className={`${className ?? ''} animate-pulse bg-gray-200 dark:bg-gray-700`} />
+  }
+  return <img src={resolved} alt={alt} className={className} {...props} />
+}
+
+interface StoredFileLinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  href: string | null | undefined
+}
+
+export function StoredFileLink({ href, children, ...props }: StoredFileLinkProps) {
+  const { url } = useStoredFileUrl(href)
+
+  return (
+    <a href={url ?? undefined} target="_blank" rel="noopener noreferrer" {...props}>
+      {children}
+    </a>
+  )
+}
+
+export default StoredImage
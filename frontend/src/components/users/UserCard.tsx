@@ -19,6 +19,7 @@ import {
 } from 'lucide-react'
 import { User, UserRole } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
+import { StoredImage } from '@/components/shared/StoredImage'
 
 interface UserCardProps {
   user: User
@@ -201,8 +202,9 @@ export function UserCard({
             {/* Avatar */}
             <div className={`relative flex h-12 w-12 items-center justify-center rounded-full ${roleInfo.bgColor} ${roleInfo.color} text-lg font-semibold`}>
               {user.profilePhotoUrl ? (
-                <img
+                <StoredImage
                   src={user.profilePhotoUrl}
+                  thumbnail
                   alt={fullName}
                   className="h-12 w-12 rounded-full object-cover"
                 />
@@ -19,6 +19,8 @@ import {
   MessageSquare,
   FileWarning,
   CalendarDays,
+  FileSpreadsheet,
+  CalendarX,
   LucideIcon,
 } from 'lucide-react'
 
@@ -136,6 +138,13 @@ function getSuperAdminNav(): NavSection[] {
           icon: Calendar,
           href: '/interventions',
         },
+        {
+          id: 'client-complaints',
+          label: 'Complaints',
+          labelKey: 'nav.complaints',
+          icon: FileWarning,
+          href: '/client-complaints',
+        },
         {
           id: 'personnel',
           label: 'Personnel',
@@ -143,7 +152,9 @@ function getSuperAdminNav(): NavSection[] {
           icon: UsersRound,
           children: [
             { id: 'personnel-absences', label: 'Absences', labelKey: 'nav.personnel.absences', icon: Calendar, href: '/personnel/absences' },
-            { id: 'personnel-attendance', label: 'Attendance', labelKey: 'nav.personnel.attendance', icon: Clock, href: '/personnel/attendance', wip: true, wipPhase: 2 },
+            { id: 'personnel-attendance', label: 'Attendance', labelKey: 'nav.personnel.attendance', icon: Clock, href: '/personnel/attendance' },
+            { id: 'personnel-timesheets', label: 'Timesheets', labelKey: 'nav.personnel.timesheets', icon: FileSpreadsheet, href: '/personnel/timesheets' },
+            { id: 'personnel-holidays', label: 'Holidays', labelKey: 'nav.personnel.holidays', icon: CalendarX, href: '/personnel/holidays' },
           ],
         },
         {
@@ -257,6 +268,13 @@ function getAdminNav(): NavSection[] {
           icon: Calendar,
           href: '/interventions',
         },
+        {
+          id: 'client-complaints',
+          label: 'Complaints',
+          labelKey: 'nav.complaints',
+          icon: FileWarning,
+          href: '/client-complaints',
+        },
         {
           id: 'personnel',
           label: 'Personnel',
@@ -264,7 +282,9 @@ function getAdminNav(): NavSection[] {
           icon: UsersRound,
           children: [
             { id: 'personnel-absences', label: 'Absences', labelKey: 'nav.personnel.absences', icon: Calendar, href: '/personnel/absences' },
-            { id: 'personnel-attendance', label: 'Attendance', labelKey: 'nav.personnel.attendance', icon: Clock, href: '/personnel/attendance', wip: true, wipPhase: 2 },
+            { id: 'personnel-attendance', label: 'Attendance', labelKey: 'nav.personnel.attendance', icon: Clock, href: '/personnel/attendance' },
+            { id: 'personnel-timesheets', label: 'Timesheets', labelKey: 'nav.personnel.timesheets', icon: FileSpreadsheet, href: '/personnel/timesheets' },
+            { id: 'personnel-holidays', label: 'Holidays', labelKey: 'nav.personnel.holidays', icon: CalendarX, href: '/personnel/holidays' },
           ],
         },
         {
@@ -344,6 +364,34 @@ function getSupervisorNav(): NavSection[] {
           icon: Calendar,
           href: '/planning',
         },
+        {
+          id: 'client-complaints',
+          label: 'Complaints',
+          labelKey: 'nav.complaints',
+          icon: FileWarning,
+          href: '/client-complaints',
+        },
+        {
+          id: 'absences',
+          label: 'Absences',
+          labelKey: 'nav.personnel.absences',
+          icon: Calendar,
+          href: '/personnel/absences',
+        },
+        {
+          id: 'attendance',
+          label: 'Attendance',
+          labelKey: 'nav.personnel.attendance',
+          icon: Clock,
+          href: '/personnel/attendance',
+        },
+        {
+          id: 'timesheets',
+          label: 'Timesheets',
+          labelKey: 'nav.personnel.timesheets',
+          icon: FileSpreadsheet,
+          href: '/personnel/timesheets',
+        },
       ],
     },
     {
@@ -447,8 +495,6 @@ function getClientNav(): NavSection[] {
           labelKey: 'nav.invoices',
           icon: Receipt,
           href: '/invoices',
-          wip: true,
-          wipPhase: 2,
         },
       ],
     },
@@ -463,8 +509,6 @@ function getClientNav(): NavSection[] {
           labelKey: 'nav.feedback',
           icon: MessageSquare,
           href: '/feedback',
-          wip: true,
-          wipPhase: 2,
         },
         {
           id: 'complaints',
@@ -472,8 +516,6 @@ function getClientNav(): NavSection[] {
           labelKey: 'nav.complaints',
           icon: FileWarning,
           href: '/complaints',
-          wip: true,
-          wipPhase: 2,
         },
       ],
     },
@@ -587,7 +587,7 @@ const resources = {
       'report.screenshot': 'Screenshot',
       'report.screenshotPreview': 'Screenshot preview',
       'report.uploadScreenshot': 'Click to upload a screenshot',
-      'report.fileHint': 'Max 5MB • PNG, JPG, GIF',
+      'report.fileHint': 'Max 5MB • PNG, JPG, WEBP',
       'report.titlePlaceholder': 'Brief description of the issue',
       // Old keys kept for backwards compatibility
       'report.category.equipment_issue': 'Equipment Issue',
@@ -1539,6 +1539,349 @@ const resources = {
       'pagination.showing': 'Showing {{from}} to {{to}} of {{total}} results',
       'pagination.previous': 'Previous',
       'pagination.next': 'Next',
+      // Invoices
+      'invoices.title': 'Invoices',
+      'invoices.subtitle': 'Invoices issued for your contracts',
+      'invoices.loadError': 'Failed to load invoices',
+      'invoices.empty': 'No invoices yet',
+      'invoices.dueDate': 'Due',
+      'invoices.status.DRAFT': 'Draft',
+      'invoices.status.ISSUED': 'Issued',
+      'invoices.status.PAID': 'Paid',
+      'invoices.status.OVERDUE': 'Overdue',
+      'invoices.line.description': 'Description',
+      'invoices.line.quantity': 'Qty',
+      'invoices.line.unitPrice': 'Unit price',
+      'invoices.line.amount': 'Amount',
+      // Client Portal
+      'portal.contracts.loadError': 'Failed to load contracts',
+      'portal.contracts.empty': 'No contracts yet',
+      'portal.contracts.openEnded': 'Open-ended',
+      'portal.contracts.unknownSite': 'Unknown site',
+      'portal.sites.loadError': 'Failed to load sites',
+      'portal.sites.empty': 'No sites yet',
+      'portal.interventions.upcoming': 'Upcoming',
+      'portal.interventions.past': 'Past',
+      'portal.interventions.empty': 'No interventions',
+      // Client Feedback
+      'feedback.subtitle': 'Rate the interventions completed on your sites',
+      'feedback.loadError': 'Failed to load interventions',
+      'feedback.submitError': 'Failed to submit feedback',
+      'feedback.thanks': 'Thank you for your feedback!',
+      'feedback.empty': 'No interventions waiting for your rating',
+      'feedback.commentPlaceholder': 'Leave a comment (optional)',
+      'feedback.submit': 'Submit rating',
+      // Client Complaints
+      'complaints.subtitle': 'Report a problem on one of your sites or interventions',
+      'complaints.loadError': 'Failed to load complaints',
+      'complaints.submitError': 'Failed to submit complaint',
+      'complaints.new': 'New complaint',
+      'complaints.empty': 'No complaints filed',
+      'complaints.number': 'Number',
+      'complaints.assignedTo': 'Assigned to',
+      'complaints.slaLabel': 'Response SLA',
+      'complaints.statusLabel': 'Status',
+      'complaints.resolution': 'Resolution',
+      'complaints.reopen': 'Reopen',
+      'complaints.reopenPlaceholder': 'Still not fixed? Explain why',
+      'complaints.confirmResolved': 'Confirm resolved',
+      'complaints.form.site': 'Select a site',
+      'complaints.form.noIntervention': 'No specific intervention',
+      'complaints.form.subject': 'Subject',
+      'complaints.form.description': 'Describe the problem',
+      'complaints.form.submit': 'Submit complaint',
+      'complaints.category.QUALITY': 'Cleaning quality',
+      'complaints.category.MISSED_SERVICE': 'Missed service',
+      'complaints.category.LATE_ARRIVAL': 'Late arrival',
+      'complaints.category.STAFF_BEHAVIOR': 'Staff behavior',
+      'complaints.category.DAMAGE': 'Damage',
+      'complaints.category.SAFETY': 'Safety',
+      'complaints.category.OTHER': 'Other',
+      'complaints.priority.LOW': 'Low',
+      'complaints.priority.MEDIUM': 'Medium',
+      'complaints.priority.HIGH': 'High',
+      'complaints.priority.URGENT': 'Urgent',
+      'complaints.status.OPEN': 'Open',
+      'complaints.status.ACKNOWLEDGED': 'Acknowledged',
+      'complaints.status.IN_PROGRESS': 'In progress',
+      'complaints.status.RESOLVED': 'Resolved',
+      'complaints.status.CLOSED': 'Closed',
+      'complaints.sla.ON_TRACK': 'Awaiting response',
+      'complaints.sla.MET': 'Answered on time',
+      'complaints.sla.BREACHED': 'Response overdue',
+      // Complaint Handling (staff)
+      'complaints.staff.subtitle': 'Answer, reassign and resolve client complaints',
+      'complaints.staff.open': 'Open',
+      'complaints.staff.averageResponse': 'Average response',
+      'complaints.staff.allStatuses': 'All statuses',
+      'complaints.staff.mineOnly': 'Assigned to me',
+      'complaints.staff.empty': 'No complaints to handle',
+      'complaints.staff.unassigned': 'Unassigned',
+      'complaints.staff.notFound': 'Complaint not found',
+      'complaints.staff.back': 'Back to complaints',
+      'complaints.staff.attachment': 'Attachment {{index}}',
+      'complaints.staff.history': 'History',
+      'complaints.staff.responsePlaceholder': 'Reply to the client',
+      'complaints.staff.respond': 'Send response',
+      'complaints.staff.changeStatus': 'Change status',
+      'complaints.staff.selectStatus': 'Select a status',
+      'complaints.staff.resolutionPlaceholder': 'How was it resolved?',
+      'complaints.staff.resolutionRequired': 'Describe how the complaint was resolved',
+      'complaints.staff.messagePlaceholder': 'Message to the client (optional)',
+      'complaints.staff.updateStatus': 'Update status',
+      'complaints.staff.reassign': 'Reassign',
+      'complaints.staff.selectAssignee': 'Select a supervisor',
+      'complaints.staff.keepPriority': 'Keep the current priority',
+      'complaints.staff.assign': 'Assign',
+      'complaints.staff.takeOver': 'Assign to me',
+      'complaints.staff.changePriority': 'Change priority',
+      'complaints.staff.closed': 'This complaint is closed',
+      'clients.details.tabs.complaints': 'Complaints',
+      'clients.details.noComplaints': 'No complaints filed by this client',
+      // Geofencing
+      'sites.form.geofenceRadius': 'Check-in Radius (meters)',
+      'sites.form.geofenceRadiusPlaceholder': 'Default radius',
+      'sites.form.geofenceRadiusHelp': 'Agents checking in farther than this from the map location are flagged',
+      'sites.details.coordinates': 'GPS Coordinates',
+      'sites.details.defaultRadius': 'Default',
+      'interventions.details.distanceFromSite': '{{distance}} m from site',
+      'interventions.details.outOfZone': 'Outside geofence',
+      // Shift Breaks
+      'shift.onBreak': 'On Break',
+      'shift.takeBreak': 'Take a Break',
+      'shift.resume': 'Resume Shift',
+      'shift.breakFor': 'On break for {{duration}}',
+      'shift.breakStarted': 'Break Started',
+      'shift.breakStartedMessage': 'Your break time is not counted as worked',
+      'shift.breakEnded': 'Back to Work',
+      'shift.breakDuration': 'Break lasted {{duration}}',
+      'shift.pauseError': 'Failed to Start Break',
+      'shift.resumeError': 'Failed to Resume Shift',
+      'shift.breakReason.break': 'Break',
+      'shift.breakReason.lunch': 'Lunch',
+      'shift.breakReason.meeting': 'Meeting',
+      'shift.breakReason.personal': 'Personal',
+      'shift.breakReason.other': 'Other',
+
+      // Timesheets
+      'nav.personnel.timesheets': 'Timesheets',
+      'timesheets.title': 'Timesheets',
+      'timesheets.subtitle': 'Review worked hours and export approved periods for payroll',
+      'timesheets.generate': 'Compute period',
+      'timesheets.exportDisabled': 'All timesheets of the period must be approved',
+      'timesheets.empty': 'No timesheets for this period yet. Compute the period to create them.',
+      'timesheets.employee': 'Employee',
+      'timesheets.totalHours': 'Total hours',
+      'timesheets.regularHours': 'Regular',
+      'timesheets.overtimeHours': 'Overtime',
+      'timesheets.nightHours': 'Night',
+      'timesheets.weekendHours': 'Weekend',
+      'timesheets.breakMinutes': 'Breaks',
+      'timesheets.absenceDays': 'Absences',
+      'timesheets.approvedCount': 'Approved',
+      'timesheets.statusLabel': 'Status',
+      'timesheets.approve': 'Approve',
+      'timesheets.reject': 'Reject',
+      'timesheets.rejectPrompt': 'Reason for rejection',
+      'timesheets.status.DRAFT': 'Draft',
+      'timesheets.status.APPROVED': 'Approved',
+      'timesheets.status.REJECTED': 'Rejected',
+
+      // Team Attendance
+      'teamAttendance.title': 'Team attendance',
+      'teamAttendance.subtitle': 'Follow who is on shift, late arrivals and missing clock-outs',
+      'teamAttendance.tabs.live': 'On shift now',
+      'teamAttendance.tabs.late': 'Late arrivals',
+      'teamAttendance.tabs.missing': 'Missing clock-outs',
+      'teamAttendance.tabs.records': 'Records',
+      'teamAttendance.onShiftCount': '{{count}} of {{total}} on shift',
+      'teamAttendance.employee': 'Employee',
+      'teamAttendance.statusLabel': 'Status',
+      'teamAttendance.status.off': 'Off shift',
+      'teamAttendance.status.active': 'On shift',
+      'teamAttendance.status.paused': 'On break',
+      'teamAttendance.clockIn': 'Clock-in',
+      'teamAttendance.clockOut': 'Clock-out',
+      'teamAttendance.lastActivity': 'Last activity',
+      'teamAttendance.hoursWorked': 'Hours',
+      'teamAttendance.intervention': 'Intervention',
+      'teamAttendance.scheduledStart': 'Scheduled start',
+      'teamAttendance.minutesLate': 'Delay',
+      'teamAttendance.noClockIn': 'No clock-in',
+      'teamAttendance.open': 'Still open',
+      'teamAttendance.autoClosed': 'Auto clock-out',
+      'teamAttendance.corrected': 'Corrected',
+      'teamAttendance.correct': 'Correct',
+      'teamAttendance.correctTitle': 'Correct attendance',
+      'teamAttendance.reason': 'Reason',
+      'teamAttendance.reasonPlaceholder': 'Why are these times being corrected?',
+      'teamAttendance.emptyTeam': 'No team members found',
+      'teamAttendance.emptyLate': 'No late arrivals for this day',
+      'teamAttendance.emptyMissing': 'No missing clock-outs',
+      'teamAttendance.emptyRecords': 'No attendance records over the last 7 days',
+
+      // Planning conflicts
+      'interventions.conflicts.confirm': 'Planning conflicts:\n{{details}}\n\nSave anyway?',
+
+      // Holidays
+      'nav.personnel.holidays': 'Holidays',
+      'holidays.title': 'Holiday calendar',
+      'holidays.subtitle': 'Holidays are skipped by schedules and not counted as absence days',
+      'holidays.import': 'Import .ics',
+      'holidays.importZone': 'Imported as holidays of the selected zone',
+      'holidays.importResult': '{{imported}} holidays imported, {{skipped}} already in the calendar',
+      'holidays.companyWide': 'Company-wide',
+      'holidays.date': 'Date',
+      'holidays.name': 'Name',
+      'holidays.zone': 'Zone',
+      'holidays.isWorkingDay': 'Worked in this zone',
+      'holidays.workingDay': 'Working day',
+      'holidays.add': 'Add',
+      'holidays.deleteConfirm': 'Delete {{name}} ({{date}})?',
+      'holidays.empty': 'No holidays for this year. Add them or import an .ics calendar.',
+
+      // Intervention assignments
+      'interventions.assignments.role.TEAM_CHIEF': 'Team chief',
+      'interventions.assignments.role.AGENT': 'Agent',
+      'interventions.assignments.status.ASSIGNED': 'Assigned',
+      'interventions.assignments.status.CHECKED_IN': 'On site',
+      'interventions.assignments.status.CHECKED_OUT': 'Left',
+      'interventions.assignments.status.NO_SHOW': 'No-show',
+      'interventions.assignments.arrival': 'Arrival',
+      'interventions.assignments.departure': 'Departure',
+      'interventions.assignments.markNoShow': 'Mark as no-show',
+      'interventions.assignments.undoNoShow': 'Undo no-show',
+      'missions.checkOut': 'Check Out',
+      'missions.leftAt': 'Left at {{time}}',
+
+      // Agent availability
+      'interventions.availability.hours': '{{hours}} / {{max}} h',
+      'interventions.availability.weeklyHours': 'Hours this week (worked + planned)',
+
+      // Staffing suggestions
+      'interventions.suggestions.title': 'Suggested agents',
+      'interventions.suggestions.add': 'Add',
+      'interventions.suggestions.remove': 'Remove',
+      'interventions.autoAssign.button': 'Auto-assign week',
+      'interventions.autoAssign.confirm': 'Assign agents to the generated interventions without agents in the week of {{date}}?',
+      'interventions.autoAssign.done': '{{count}} intervention(s) staffed from {{start}} to {{end}}',
+      'interventions.autoAssign.incomplete': '{{count}} with fewer agents than needed',
+      'interventions.autoAssign.failed': 'Failed to auto-assign agents',
+
+      // Absence replacements
+      'absences.replacements.title': 'Replacements needed',
+      'absences.replacements.subtitle': '{{count}} intervention(s) of {{name}} during the absence',
+      'absences.replacements.later': 'Decide later',
+      'absences.replacements.noSuggestion': 'Interventions without a suggestion can be staffed from their edit page.',
+      'absences.replacements.close': 'Later',
+      'absences.replacements.reassign': 'Reassign {{count}}',
+      'absences.replacements.done': 'Interventions reassigned',
+      'absences.replacements.failed': 'Failed to reassign interventions',
+      // File uploads
+      'missions.detail.photoUploadFailed': 'Failed to upload photo',
+      'interventions.details.uploadPhoto': 'Upload photo',
+      'interventions.details.photoUploadFailed': 'Failed to upload photo',
+      'absenceRequest.documentHint': 'PDF, JPG, PNG or WEBP, max 10 MB',
+      'absenceRequest.errors.attachmentFailed': 'Your request was sent but the document could not be uploaded: {{message}}',
+      'absences.attachment': 'Supporting document',
+      'report.error.screenshotFailed': 'Screenshot not uploaded',
+      'report.error.screenshotFailedMessage': 'Your report was sent without the screenshot',
+      'profile.changePhoto': 'Change photo',
+      'profile.photoUpdated': 'Profile photo updated',
+      'profile.photoUploadFailed': 'Failed to upload photo',
+
+      // Checklist photos
+      'checklists.photos.title': 'Checklist photos',
+      'checklists.photos.loadError': 'Failed to load checklist photos',
+      'checklists.photos.noChecklist': 'No checklist for this intervention',
+      'checklists.photos.empty': 'No photos have been taken on the checklist',
+      'checklists.photos.missing': 'Photo required',
+      'checklists.photos.delete': 'Remove',
+      'checklists.photos.confirmDelete': 'Remove this photo?',
+      'checklists.photos.deleteError': 'Failed to remove the photo',
+      'checklists.photos.tags.BEFORE': 'Before',
+      'checklists.photos.tags.AFTER': 'After',
+      'checklists.photos.tags.ISSUE': 'Issue',
+
+      // Intervention status history
+      'interventions.history.transitions.START': 'Started',
+      'interventions.history.transitions.CHECK_IN': 'Checked in on site',
+      'interventions.history.transitions.COMPLETE': 'Completed',
+      'interventions.history.transitions.CANCEL': 'Cancelled',
+      'interventions.history.transitions.RESCHEDULE': 'Rescheduled',
+      'interventions.history.system': 'System',
+      'interventions.details.cancelReason': 'Reason for cancelling (optional)',
+      'interventions.details.cancelReasonRequired': 'Reason for cancelling (required)',
+
+      // Incidents
+      'interventions.details.tabs.incidents': 'Incidents',
+      'incidents.title': 'Incidents',
+      'incidents.empty': 'No incident reported',
+      'incidents.loadError': 'Failed to load incidents',
+      'incidents.statusError': 'Failed to update the incident',
+      'incidents.resolutionPrompt': 'Corrective action taken:',
+      'incidents.resolutionRequired': 'A resolution is required to resolve an incident',
+      'incidents.reportedBy': 'Reported by {{name}}',
+      'incidents.assignedTo': 'Assigned to {{name}}',
+      'incidents.report.button': 'Report incident',
+      'incidents.report.title': 'Report an incident',
+      'incidents.report.submit': 'Report',
+      'incidents.report.addPhotos': 'Add photos',
+      'incidents.report.photoCount': '{{count}} photo(s)',
+      'incidents.report.descriptionRequired': 'Describe what happened',
+      'incidents.report.photoError': 'A photo could not be uploaded',
+      'incidents.report.done': 'Incident {{number}} reported',
+      'incidents.report.failed': 'Failed to report the incident',
+      'incidents.fields.type': 'Type',
+      'incidents.fields.severity': 'Severity',
+      'incidents.fields.description': 'What happened?',
+      'incidents.fields.propertyDamage': 'Property damaged',
+      'incidents.fields.damageDescription': 'What was damaged',
+      'incidents.fields.estimatedDamageCost': 'Estimated cost',
+      'incidents.fields.injury': 'Someone was injured',
+      'incidents.fields.injuryDescription': 'Who was injured and how',
+      'incidents.fields.resolution': 'Resolution',
+      'incidents.type.PROPERTY_DAMAGE': 'Property damage',
+      'incidents.type.INJURY': 'Injury',
+      'incidents.type.SAFETY_HAZARD': 'Safety hazard',
+      'incidents.type.EQUIPMENT_FAILURE': 'Equipment failure',
+      'incidents.type.THEFT': 'Theft',
+      'incidents.type.ACCESS_ISSUE': 'Access issue',
+      'incidents.type.OTHER': 'Other',
+      'incidents.severity.LOW': 'Low',
+      'incidents.severity.MEDIUM': 'Medium',
+      'incidents.severity.HIGH': 'High',
+      'incidents.severity.CRITICAL': 'Critical',
+      'incidents.status.OPEN': 'Open',
+      'incidents.status.INVESTIGATING': 'Investigating',
+      'incidents.status.RESOLVED': 'Resolved',
+      'incidents.status.CLOSED': 'Closed',
+      'incidents.actions.INVESTIGATING': 'Investigate',
+      'incidents.actions.RESOLVED': 'Resolve',
+      'incidents.actions.CLOSED': 'Close',
+
+      // Client sign-off
+      'interventions.signOff.title': 'Client sign-off',
+      'interventions.signOff.requiredHint': 'Required by the contract to complete the mission',
+      'interventions.signOff.optionalHint': 'Optional: ask the client contact to acknowledge the work',
+      'interventions.signOff.contactName': 'Client contact name',
+      'interventions.signOff.signature': 'Signature',
+      'interventions.signOff.clear': 'Clear',
+      'interventions.signOff.comments': 'Comments (optional)',
+      'interventions.signOff.skip': 'Complete without sign-off',
+      'interventions.signOff.submit': 'Sign and complete',
+      'interventions.signOff.nameRequired': 'Enter the name of the client contact',
+      'interventions.signOff.signatureRequired': 'The client contact must sign',
+      'interventions.signOff.signatureError': 'The signature could not be read',
+      'interventions.signOff.failed': 'Failed to save the sign-off',
+      'interventions.signOff.signedBy': 'Signed by {{name}} on {{date}}',
+      'interventions.signOff.none': 'Completed without client sign-off',
+      'interventions.signOff.completionHash': 'Completion hash (HMAC-SHA256)',
+      'interventions.signOff.verify': 'Verify',
+      'interventions.signOff.verified': 'Completion data intact',
+      'interventions.signOff.tampered': 'Completion data changed since completion',
+      'contracts.form.requiresClientSignOff': 'Client sign-off required',
+      'contracts.form.requiresClientSignOffHint': 'Agents cannot complete an intervention without the signature of the client contact',
     },
   },
   fr: {
@@ -2127,7 +2470,7 @@ const resources = {
       'report.screenshot': 'Capture d\'écran',
       'report.screenshotPreview': 'Aperçu de la capture',
       'report.uploadScreenshot': 'Cliquez pour télécharger une capture d\'écran',
-      'report.fileHint': 'Max 5 Mo • PNG, JPG, GIF',
+      'report.fileHint': 'Max 5 Mo • PNG, JPG, WEBP',
       'report.titlePlaceholder': 'Brève description du problème',
       // Old keys kept for backwards compatibility
       'report.category.equipment_issue': 'Problème d\'équipement',
@@ -3079,6 +3422,349 @@ const resources = {
       'pagination.showing': 'Affichage de {{from}} à {{to}} sur {{total}} résultats',
       'pagination.previous': 'Précédent',
       'pagination.next': 'Suivant',
+      // Invoices
+      'invoices.title': 'Factures',
+      'invoices.subtitle': 'Factures émises pour vos contrats',
+      'invoices.loadError': 'Échec du chargement des factures',
+      'invoices.empty': 'Aucune facture pour le moment',
+      'invoices.dueDate': 'Échéance',
+      'invoices.status.DRAFT': 'Brouillon',
+      'invoices.status.ISSUED': 'Émise',
+      'invoices.status.PAID': 'Payée',
+      'invoices.status.OVERDUE': 'En retard',
+      'invoices.line.description': 'Description',
+      'invoices.line.quantity': 'Qté',
+      'invoices.line.unitPrice': 'Prix unitaire',
+      'invoices.line.amount': 'Montant',
+      // Client Portal
+      'portal.contracts.loadError': 'Échec du chargement des contrats',
+      'portal.contracts.empty': 'Aucun contrat pour le moment',
+      'portal.contracts.openEnded': 'Sans date de fin',
+      'portal.contracts.unknownSite': 'Site inconnu',
+      'portal.sites.loadError': 'Échec du chargement des sites',
+      'portal.sites.empty': 'Aucun site pour le moment',
+      'portal.interventions.upcoming': 'À venir',
+      'portal.interventions.past': 'Passées',
+      'portal.interventions.empty': 'Aucune intervention',
+      // Client Feedback
+      'feedback.subtitle': 'Évaluez les interventions réalisées sur vos sites',
+      'feedback.loadError': 'Échec du chargement des interventions',
+      'feedback.submitError': 'Échec de l\'envoi de l\'évaluation',
+      'feedback.thanks': 'Merci pour votre avis !',
+      'feedback.empty': 'Aucune intervention en attente d\'évaluation',
+      'feedback.commentPlaceholder': 'Laissez un commentaire (facultatif)',
+      'feedback.submit': 'Envoyer l\'évaluation',
+      // Client Complaints
+      'complaints.subtitle': 'Signalez un problème sur l\'un de vos sites ou interventions',
+      'complaints.loadError': 'Échec du chargement des réclamations',
+      'complaints.submitError': 'Échec de l\'envoi de la réclamation',
+      'complaints.new': 'Nouvelle réclamation',
+      'complaints.empty': 'Aucune réclamation',
+      'complaints.number': 'Numéro',
+      'complaints.assignedTo': 'Assignée à',
+      'complaints.slaLabel': 'Délai de réponse',
+      'complaints.statusLabel': 'Statut',
+      'complaints.resolution': 'Résolution',
+      'complaints.reopen': 'Rouvrir',
+      'complaints.reopenPlaceholder': 'Toujours pas résolu ? Expliquez pourquoi',
+      'complaints.confirmResolved': 'Confirmer la résolution',
+      'complaints.form.site': 'Sélectionnez un site',
+      'complaints.form.noIntervention': 'Aucune intervention précise',
+      'complaints.form.subject': 'Objet',
+      'complaints.form.description': 'Décrivez le problème',
+      'complaints.form.submit': 'Envoyer la réclamation',
+      'complaints.category.QUALITY': 'Qualité du nettoyage',
+      'complaints.category.MISSED_SERVICE': 'Prestation non réalisée',
+      'complaints.category.LATE_ARRIVAL': 'Retard',
+      'complaints.category.STAFF_BEHAVIOR': 'Comportement du personnel',
+      'complaints.category.DAMAGE': 'Dégât',
+      'complaints.category.SAFETY': 'Sécurité',
+      'complaints.category.OTHER': 'Autre',
+      'complaints.priority.LOW': 'Basse',
+      'complaints.priority.MEDIUM': 'Moyenne',
+      'complaints.priority.HIGH': 'Haute',
+      'complaints.priority.URGENT': 'Urgente',
+      'complaints.status.OPEN': 'Ouverte',
+      'complaints.status.ACKNOWLEDGED': 'Prise en compte',
+      'complaints.status.IN_PROGRESS': 'En cours',
+      'complaints.status.RESOLVED': 'Résolue',
+      'complaints.status.CLOSED': 'Clôturée',
+      'complaints.sla.ON_TRACK': 'En attente de réponse',
+      'complaints.sla.MET': 'Réponse dans les délais',
+      'complaints.sla.BREACHED': 'Réponse en retard',
+      // Traitement des réclamations (personnel)
+      'complaints.staff.subtitle': 'Répondez, réassignez et résolvez les réclamations clients',
+      'complaints.staff.open': 'Ouvertes',
+      'complaints.staff.averageResponse': 'Délai de réponse moyen',
+      'complaints.staff.allStatuses': 'Tous les statuts',
+      'complaints.staff.mineOnly': 'Qui me sont assignées',
+      'complaints.staff.empty': 'Aucune réclamation à traiter',
+      'complaints.staff.unassigned': 'Non assignée',
+      'complaints.staff.notFound': 'Réclamation introuvable',
+      'complaints.staff.back': 'Retour aux réclamations',
+      'complaints.staff.attachment': 'Pièce jointe {{index}}',
+      'complaints.staff.history': 'Historique',
+      'complaints.staff.responsePlaceholder': 'Répondre au client',
+      'complaints.staff.respond': 'Envoyer la réponse',
+      'complaints.staff.changeStatus': 'Changer le statut',
+      'complaints.staff.selectStatus': 'Sélectionnez un statut',
+      'complaints.staff.resolutionPlaceholder': 'Comment a-t-elle été résolue ?',
+      'complaints.staff.resolutionRequired': 'Décrivez comment la réclamation a été résolue',
+      'complaints.staff.messagePlaceholder': 'Message au client (facultatif)',
+      'complaints.staff.updateStatus': 'Mettre à jour le statut',
+      'complaints.staff.reassign': 'Réassigner',
+      'complaints.staff.selectAssignee': 'Sélectionnez un superviseur',
+      'complaints.staff.keepPriority': 'Conserver la priorité actuelle',
+      'complaints.staff.assign': 'Assigner',
+      'complaints.staff.takeOver': 'Me l\'assigner',
+      'complaints.staff.changePriority': 'Changer la priorité',
+      'complaints.staff.closed': 'Cette réclamation est clôturée',
+      'clients.details.tabs.complaints': 'Réclamations',
+      'clients.details.noComplaints': 'Aucune réclamation de ce client',
+      // Geofencing
+      'sites.form.geofenceRadius': 'Rayon de pointage (mètres)',
+      'sites.form.geofenceRadiusPlaceholder': 'Rayon par défaut',
+      'sites.form.geofenceRadiusHelp': 'Les pointages plus éloignés de la position sur la carte sont signalés',
+      'sites.details.coordinates': 'Coordonnées GPS',
+      'sites.details.defaultRadius': 'Par défaut',
+      'interventions.details.distanceFromSite': 'À {{distance}} m du site',
+      'interventions.details.outOfZone': 'Hors zone',
+      // Shift Breaks
+      'shift.onBreak': 'En pause',
+      'shift.takeBreak': 'Prendre une pause',
+      'shift.resume': 'Reprendre le service',
+      'shift.breakFor': 'En pause depuis {{duration}}',
+      'shift.breakStarted': 'Pause commencée',
+      'shift.breakStartedMessage': 'Le temps de pause n\'est pas compté comme travaillé',
+      'shift.breakEnded': 'Retour au travail',
+      'shift.breakDuration': 'La pause a duré {{duration}}',
+      'shift.pauseError': 'Échec du démarrage de la pause',
+      'shift.resumeError': 'Échec de la reprise du service',
+      'shift.breakReason.break': 'Pause',
+      'shift.breakReason.lunch': 'Déjeuner',
+      'shift.breakReason.meeting': 'Réunion',
+      'shift.breakReason.personal': 'Personnel',
+      'shift.breakReason.other': 'Autre',
+
+      // Timesheets
+      'nav.personnel.timesheets': 'Feuilles de temps',
+      'timesheets.title': 'Feuilles de temps',
+      'timesheets.subtitle': 'Contrôlez les heures travaillées et exportez les périodes validées pour la paie',
+      'timesheets.generate': 'Calculer la période',
+      'timesheets.exportDisabled': 'Toutes les feuilles de temps de la période doivent être validées',
+      'timesheets.empty': 'Aucune feuille de temps pour cette période. Calculez la période pour les créer.',
+      'timesheets.employee': 'Employé',
+      'timesheets.totalHours': 'Heures totales',
+      'timesheets.regularHours': 'Normales',
+      'timesheets.overtimeHours': 'Heures sup.',
+      'timesheets.nightHours': 'Nuit',
+      'timesheets.weekendHours': 'Week-end',
+      'timesheets.breakMinutes': 'Pauses',
+      'timesheets.absenceDays': 'Absences',
+      'timesheets.approvedCount': 'Validées',
+      'timesheets.statusLabel': 'Statut',
+      'timesheets.approve': 'Valider',
+      'timesheets.reject': 'Rejeter',
+      'timesheets.rejectPrompt': 'Motif du rejet',
+      'timesheets.status.DRAFT': 'Brouillon',
+      'timesheets.status.APPROVED': 'Validée',
+      'timesheets.status.REJECTED': 'Rejetée',
+
+      // Team Attendance
+      'teamAttendance.title': 'Pointages de l\'équipe',
+      'teamAttendance.subtitle': 'Suivez qui est en poste, les retards et les pointages de sortie manquants',
+      'teamAttendance.tabs.live': 'En poste',
+      'teamAttendance.tabs.late': 'Retards',
+      'teamAttendance.tabs.missing': 'Sorties manquantes',
+      'teamAttendance.tabs.records': 'Historique',
+      'teamAttendance.onShiftCount': '{{count}} sur {{total}} en poste',
+      'teamAttendance.employee': 'Employé',
+      'teamAttendance.statusLabel': 'Statut',
+      'teamAttendance.status.off': 'Hors poste',
+      'teamAttendance.status.active': 'En poste',
+      'teamAttendance.status.paused': 'En pause',
+      'teamAttendance.clockIn': 'Arrivée',
+      'teamAttendance.clockOut': 'Départ',
+      'teamAttendance.lastActivity': 'Dernière activité',
+      'teamAttendance.hoursWorked': 'Heures',
+      'teamAttendance.intervention': 'Intervention',
+      'teamAttendance.scheduledStart': 'Début prévu',
+      'teamAttendance.minutesLate': 'Retard',
+      'teamAttendance.noClockIn': 'Aucun pointage',
+      'teamAttendance.open': 'Toujours ouvert',
+      'teamAttendance.autoClosed': 'Sortie automatique',
+      'teamAttendance.corrected': 'Corrigé',
+      'teamAttendance.correct': 'Corriger',
+      'teamAttendance.correctTitle': 'Corriger le pointage',
+      'teamAttendance.reason': 'Motif',
+      'teamAttendance.reasonPlaceholder': 'Pourquoi ces horaires sont-ils corrigés ?',
+      'teamAttendance.emptyTeam': 'Aucun membre d\'équipe trouvé',
+      'teamAttendance.emptyLate': 'Aucun retard pour cette journée',
+      'teamAttendance.emptyMissing': 'Aucun pointage de sortie manquant',
+      'teamAttendance.emptyRecords': 'Aucun pointage sur les 7 derniers jours',
+
+      // Planning conflicts
+      'interventions.conflicts.confirm': 'Conflits de planning :\n{{details}}\n\nEnregistrer quand même ?',
+
+      // Holidays
+      'nav.personnel.holidays': 'Jours fériés',
+      'holidays.title': 'Calendrier des jours fériés',
+      'holidays.subtitle': 'Les jours fériés sont sautés par les plannings et ne comptent pas comme jours d\'absence',
+      'holidays.import': 'Importer un .ics',
+      'holidays.importZone': 'Importés comme jours fériés de la zone sélectionnée',
+      'holidays.importResult': '{{imported}} jours fériés importés, {{skipped}} déjà dans le calendrier',
+      'holidays.companyWide': 'Toute l\'entreprise',
+      'holidays.date': 'Date',
+      'holidays.name': 'Nom',
+      'holidays.zone': 'Zone',
+      'holidays.isWorkingDay': 'Travaillé dans cette zone',
+      'holidays.workingDay': 'Jour travaillé',
+      'holidays.add': 'Ajouter',
+      'holidays.deleteConfirm': 'Supprimer {{name}} ({{date}}) ?',
+      'holidays.empty': 'Aucun jour férié pour cette année. Ajoutez-les ou importez un calendrier .ics.',
+
+      // Intervention assignments
+      'interventions.assignments.role.TEAM_CHIEF': 'Chef d\'équipe',
+      'interventions.assignments.role.AGENT': 'Agent',
+      'interventions.assignments.status.ASSIGNED': 'Affecté',
+      'interventions.assignments.status.CHECKED_IN': 'Sur site',
+      'interventions.assignments.status.CHECKED_OUT': 'Parti',
+      'interventions.assignments.status.NO_SHOW': 'Absent',
+      'interventions.assignments.arrival': 'Arrivée',
+      'interventions.assignments.departure': 'Départ',
+      'interventions.assignments.markNoShow': 'Marquer absent',
+      'interventions.assignments.undoNoShow': 'Annuler l\'absence',
+      'missions.checkOut': 'Pointer le départ',
+      'missions.leftAt': 'Parti à {{time}}',
+
+      // Agent availability
+      'interventions.availability.hours': '{{hours}} / {{max}} h',
+      'interventions.availability.weeklyHours': 'Heures de la semaine (travaillées + planifiées)',
+
+      // Staffing suggestions
+      'interventions.suggestions.title': 'Agents suggérés',
+      'interventions.suggestions.add': 'Ajouter',
+      'interventions.suggestions.remove': 'Retirer',
+      'interventions.autoAssign.button': 'Affecter la semaine',
+      'interventions.autoAssign.confirm': 'Affecter des agents aux interventions générées sans agent de la semaine du {{date}} ?',
+      'interventions.autoAssign.done': '{{count}} intervention(s) pourvue(s) du {{start}} au {{end}}',
+      'interventions.autoAssign.incomplete': '{{count}} avec moins d\'agents que nécessaire',
+      'interventions.autoAssign.failed': 'Échec de l\'affectation automatique',
+
+      // Absence replacements
+      'absences.replacements.title': 'Remplacements à prévoir',
+      'absences.replacements.subtitle': '{{count}} intervention(s) de {{name}} pendant l\'absence',
+      'absences.replacements.later': 'Décider plus tard',
+      'absences.replacements.noSuggestion': 'Les interventions sans suggestion peuvent être pourvues depuis leur page de modification.',
+      'absences.replacements.close': 'Plus tard',
+      'absences.replacements.reassign': 'Réaffecter {{count}}',
+      'absences.replacements.done': 'Interventions réaffectées',
+      'absences.replacements.failed': 'Échec de la réaffectation',
+      // File uploads
+      'missions.detail.photoUploadFailed': 'Échec de l\'envoi de la photo',
+      'interventions.details.uploadPhoto': 'Ajouter une photo',
+      'interventions.details.photoUploadFailed': 'Échec de l\'envoi de la photo',
+      'absenceRequest.documentHint': 'PDF, JPG, PNG ou WEBP, 10 Mo max',
+      'absenceRequest.errors.attachmentFailed': 'Votre demande a été envoyée mais le document n\'a pas pu être téléversé : {{message}}',
+      'absences.attachment': 'Justificatif',
+      'report.error.screenshotFailed': 'Capture non envoyée',
+      'report.error.screenshotFailedMessage': 'Votre signalement a été envoyé sans la capture d\'écran',
+      'profile.changePhoto': 'Changer la photo',
+      'profile.photoUpdated': 'Photo de profil mise à jour',
+      'profile.photoUploadFailed': 'Échec de l\'envoi de la photo',
+
+      // Checklist photos
+      'checklists.photos.title': 'Photos de la checklist',
+      'checklists.photos.loadError': 'Échec du chargement des photos de la checklist',
+      'checklists.photos.noChecklist': 'Aucune checklist pour cette intervention',
+      'checklists.photos.empty': 'Aucune photo prise sur la checklist',
+      'checklists.photos.missing': 'Photo requise',
+      'checklists.photos.delete': 'Supprimer',
+      'checklists.photos.confirmDelete': 'Supprimer cette photo ?',
+      'checklists.photos.deleteError': 'Échec de la suppression de la photo',
+      'checklists.photos.tags.BEFORE': 'Avant',
+      'checklists.photos.tags.AFTER': 'Après',
+      'checklists.photos.tags.ISSUE': 'Problème',
+
+      // Intervention status history
+      'interventions.history.transitions.START': 'Démarrée',
+      'interventions.history.transitions.CHECK_IN': 'Pointage sur site',
+      'interventions.history.transitions.COMPLETE': 'Terminée',
+      'interventions.history.transitions.CANCEL': 'Annulée',
+      'interventions.history.transitions.RESCHEDULE': 'Reportée',
+      'interventions.history.system': 'Système',
+      'interventions.details.cancelReason': 'Motif de l\'annulation (facultatif)',
+      'interventions.details.cancelReasonRequired': 'Motif de l\'annulation (obligatoire)',
+
+      // Incidents
+      'interventions.details.tabs.incidents': 'Incidents',
+      'incidents.title': 'Incidents',
+      'incidents.empty': 'Aucun incident signalé',
+      'incidents.loadError': 'Impossible de charger les incidents',
+      'incidents.statusError': 'Impossible de mettre à jour l\'incident',
+      'incidents.resolutionPrompt': 'Action corrective menée :',
+      'incidents.resolutionRequired': 'Une résolution est requise pour résoudre un incident',
+      'incidents.reportedBy': 'Signalé par {{name}}',
+      'incidents.assignedTo': 'Assigné à {{name}}',
+      'incidents.report.button': 'Signaler un incident',
+      'incidents.report.title': 'Signaler un incident',
+      'incidents.report.submit': 'Signaler',
+      'incidents.report.addPhotos': 'Ajouter des photos',
+      'incidents.report.photoCount': '{{count}} photo(s)',
+      'incidents.report.descriptionRequired': 'Décrivez ce qui s\'est passé',
+      'incidents.report.photoError': 'Une photo n\'a pas pu être envoyée',
+      'incidents.report.done': 'Incident {{number}} signalé',
+      'incidents.report.failed': 'Impossible de signaler l\'incident',
+      'incidents.fields.type': 'Type',
+      'incidents.fields.severity': 'Gravité',
+      'incidents.fields.description': 'Que s\'est-il passé ?',
+      'incidents.fields.propertyDamage': 'Dégâts matériels',
+      'incidents.fields.damageDescription': 'Ce qui a été endommagé',
+      'incidents.fields.estimatedDamageCost': 'Coût estimé',
+      'incidents.fields.injury': 'Une personne a été blessée',
+      'incidents.fields.injuryDescription': 'Qui a été blessé et comment',
+      'incidents.fields.resolution': 'Résolution',
+      'incidents.type.PROPERTY_DAMAGE': 'Dégâts matériels',
+      'incidents.type.INJURY': 'Blessure',
+      'incidents.type.SAFETY_HAZARD': 'Danger',
+      'incidents.type.EQUIPMENT_FAILURE': 'Panne de matériel',
+      'incidents.type.THEFT': 'Vol',
+      'incidents.type.ACCESS_ISSUE': 'Problème d\'accès',
+      'incidents.type.OTHER': 'Autre',
+      'incidents.severity.LOW': 'Faible',
+      'incidents.severity.MEDIUM': 'Moyenne',
+      'incidents.severity.HIGH': 'Élevée',
+      'incidents.severity.CRITICAL': 'Critique',
+      'incidents.status.OPEN': 'Ouvert',
+      'incidents.status.INVESTIGATING': 'En cours d\'analyse',
+      'incidents.status.RESOLVED': 'Résolu',
+      'incidents.status.CLOSED': 'Clos',
+      'incidents.actions.INVESTIGATING': 'Analyser',
+      'incidents.actions.RESOLVED': 'Résoudre',
+      'incidents.actions.CLOSED': 'Clore',
+
+      // Client sign-off
+      'interventions.signOff.title': 'Validation client',
+      'interventions.signOff.requiredHint': 'Exigée par le contrat pour terminer la mission',
+      'interventions.signOff.optionalHint': 'Facultatif : demandez au contact client de valider la prestation',
+      'interventions.signOff.contactName': 'Nom du contact client',
+      'interventions.signOff.signature': 'Signature',
+      'interventions.signOff.clear': 'Effacer',
+      'interventions.signOff.comments': 'Commentaires (facultatif)',
+      'interventions.signOff.skip': 'Terminer sans validation',
+      'interventions.signOff.submit': 'Signer et terminer',
+      'interventions.signOff.nameRequired': 'Saisissez le nom du contact client',
+      'interventions.signOff.signatureRequired': 'Le contact client doit signer',
+      'interventions.signOff.signatureError': 'La signature n\'a pas pu être lue',
+      'interventions.signOff.failed': 'Impossible d\'enregistrer la validation',
+      'interventions.signOff.signedBy': 'Signé par {{name}} le {{date}}',
+      'interventions.signOff.none': 'Terminée sans validation client',
+      'interventions.signOff.completionHash': 'Empreinte de clôture (HMAC-SHA256)',
+      'interventions.signOff.verify': 'Vérifier',
+      'interventions.signOff.verified': 'Données de clôture intactes',
+      'interventions.signOff.tampered': 'Données de clôture modifiées depuis la clôture',
+      'contracts.form.requiresClientSignOff': 'Validation client obligatoire',
+      'contracts.form.requiresClientSignOffHint': 'Les agents ne peuvent pas terminer une intervention sans la signature du contact client',
     },
   },
   ar: {
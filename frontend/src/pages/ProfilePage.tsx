@@ -1,3 +1,4 @@
+import { useState, useRef, ChangeEvent } from 'react'
 import { useTranslation } from 'react-i18next'
 import {
   User,
@@ -11,9 +12,13 @@ import {
   AlertCircle,
   CheckCircle2,
   Construction,
+  Loader2,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useAuth } from '@/contexts/AuthContext'
+import { profileApi } from '@/services/api'
+import { StoredImage } from '@/components/shared/StoredImage'
+import { useToast } from '@/components/ui/Toast'
 
 // ============================================
 // Profile Header Component
@@ -31,6 +36,26 @@ function ProfileHeader({
   }
 }) {
   const { t } = useTranslation()
+  const toast = useToast()
+  const photoInputRef = useRef<HTMLInputElement>(null)
+  const [photoUrl, setPhotoUrl] = useState(user.profilePhotoUrl || null)
+  const [uploading, setUploading] = useState(false)
+
+  const handlePhotoChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setUploading(true)
+    try {
+      const profile = await profileApi.uploadPhoto(file)
+      setPhotoUrl(profile.profilePhotoUrl || null)
+      toast.success(t('profile.photoUpdated', 'Profile photo updated'))
+    } catch (err: any) {
+      toast.error(t('profile.photoUploadFailed', 'Failed to upload photo'), err.message)
+    } finally {
+      setUploading(false)
+    }
+  }
   
   const initials = `${user.firstName?.[0] || ''}${user.lastName?.[0] || ''}`.toUpperCase() || '?'
   const displayName = `${user.firstName} ${user.lastName}`.trim() || t('profile.unnamed', 'Unnamed User')
@@ -40,9 +65,9 @@ function ProfileHeader({
       <div className="flex flex-col items-center gap-4 sm:flex-row sm:items-start">
         {/* Avatar */}
         <div className="relative">
-          {user.profilePhotoUrl ? (
-            <img
-              src={user.profilePhotoUrl}
+          {photoUrl ? (
+            <StoredImage
+              src={photoUrl}
               alt={displayName}
               className="h-24 w-24 rounded-full object-cover ring-4 ring-white dark:ring-gray-800"
             />
@@ -52,11 +77,20 @@ function ProfileHeader({
             </div>
           )}
           <button
-            className="absolute -bottom-1 -right-1 flex h-8 w-8 items-center justify-center rounded-full border-2 border-white bg-gray-100 text-gray-600 transition-colors hover:bg-gray-200 dark:border-gray-800 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 opacity-50 cursor-not-allowed"
-            title={t('profile.photoChangeComingSoon', 'Coming soon')}
+            onClick={() => photoInputRef.current?.click()}
+            disabled={uploading}
+            className="absolute -bottom-1 -right-1 flex h-8 w-8 items-center justify-center rounded-full border-2 border-white bg-gray-100 text-gray-600 transition-colors hover:bg-gray-200 dark:border-gray-800 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+            title={t('profile.changePhoto', 'Change photo')}
           >
-            <Camera className="h-4 w-4" />
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
           </button>
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            onChange={handlePhotoChange}
+            className="hidden"
+          />
         </div>
         
         {/* Info */}
@@ -22,6 +22,7 @@ import { cn } from '@/lib/utils'
 import { reportsApi, Report } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
 import { useToast } from '@/components/ui/Toast'
+import { StoredImage } from '@/components/shared/StoredImage'
 
 // Status configuration
 const statusConfig = {
@@ -350,7 +351,7 @@ export default function ReportsPage() {
                         <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                           {t('reports.screenshot', 'Screenshot')}
                         </h4>
-                        <img
+                        <StoredImage
                           src={report.screenshotUrl}
                           alt="Report screenshot"
                           className="max-w-md rounded-lg border border-gray-200 dark:border-gray-700"
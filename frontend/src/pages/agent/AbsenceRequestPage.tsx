@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
 import {
@@ -14,6 +14,7 @@ import {
   CheckCircle2,
   Loader2,
   Info,
+  X,
 } from 'lucide-react'
 import { absencesApi, AbsenceType, AbsenceBalance } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
@@ -60,6 +61,8 @@ export function AbsenceRequestPage() {
   const [startDate, setStartDate] = useState('')
   const [endDate, setEndDate] = useState('')
   const [reason, setReason] = useState('')
+  const [attachment, setAttachment] = useState<File | null>(null)
+  const attachmentInputRef = useRef<HTMLInputElement>(null)
 
   // UI state
   const [loading, setLoading] = useState(false)
@@ -135,15 +138,25 @@ export function AbsenceRequestPage() {
     setError(null)
 
     try {
-      await absencesApi.create({
+      const absence = await absencesApi.create({
         agentId: user.id,
         absenceType: selectedType,
         startDate,
         endDate,
         reason: reason.trim() || undefined,
-        attachmentUrl: undefined, // File upload not implemented yet
       })
 
+      if (attachment) {
+        try {
+          await absencesApi.uploadAttachment(absence.id, attachment)
+        } catch (err: any) {
+          // The request itself is saved, the document can be sent to the supervisor later
+          alert(t('absenceRequest.errors.attachmentFailed', 'Your request was sent but the document could not be uploaded: {{message}}', {
+            message: err.message,
+          }))
+        }
+      }
+
       setSuccess(true)
       setTimeout(() => {
         navigate('/my-profile')
@@ -347,14 +360,41 @@ export function AbsenceRequestPage() {
                   <p className="text-sm text-amber-600 dark:text-amber-400 mt-1">
                     {t('absenceRequest.uploadInfo', 'You may need to provide a medical certificate for sick leave')}
                   </p>
-                  <button
-                    type="button"
-                    onClick={() => alert('File upload will be available in the mobile app')}
-                    className="mt-3 inline-flex items-center gap-2 px-4 py-2 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded-lg font-medium text-sm hover:bg-amber-200 dark:hover:bg-amber-900/50 transition-colors"
-                  >
-                    <Upload className="h-4 w-4" />
-                    {t('absenceRequest.uploadDocument', 'Upload Document')}
-                  </button>
+                  {attachment ? (
+                    <div className="mt-3 inline-flex items-center gap-2 px-3 py-2 bg-white dark:bg-gray-800 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+                      <FileText className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                      <span className="truncate max-w-[12rem]">{attachment.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => setAttachment(null)}
+                        className="p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => attachmentInputRef.current?.click()}
+                      className="mt-3 inline-flex items-center gap-2 px-4 py-2 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded-lg font-medium text-sm hover:bg-amber-200 dark:hover:bg-amber-900/50 transition-colors"
+                    >
+                      <Upload className="h-4 w-4" />
+                      {t('absenceRequest.uploadDocument', 'Upload Document')}
+                    </button>
+                  )}
+                  <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">
+                    {t('absenceRequest.documentHint', 'PDF, JPG, PNG or WEBP, max 10 MB')}
+                  </p>
+                  <input
+                    ref={attachmentInputRef}
+                    type="file"
+                    accept="application/pdf,image/jpeg,image/png,image/webp"
+                    onChange={(e) => {
+                      setAttachment(e.target.files?.[0] || null)
+                      e.target.value = ''
+                    }}
+                    className="hidden"
+                  />
                 </div>
               </div>
             </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef, ChangeEvent } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate, useParams } from 'react-router-dom'
 import {
@@ -21,12 +21,16 @@ import {
   ChevronDown,
   ChevronUp,
   Flag,
+  PenLine,
 } from 'lucide-react'
 import {
   interventionsApi,
   Intervention,
   InterventionStatus,
 } from '@/services/api'
+import { StoredImage, StoredFileLink } from '@/components/shared/StoredImage'
+import { InterventionIncidents } from '@/components/incidents/InterventionIncidents'
+import { ClientSignOffModal } from '@/components/interventions/ClientSignOffModal'
 
 // Status colors
 const statusColors: Record<InterventionStatus, { bg: string; text: string; border: string }> = {
@@ -49,6 +53,8 @@ export function MissionDetailPage() {
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [showInstructions, setShowInstructions] = useState(true)
   const [photos, setPhotos] = useState<string[]>([])
+  const [showSignOff, setShowSignOff] = useState(false)
+  const photoInputRef = useRef<HTMLInputElement>(null)
 
   // Load mission
   useEffect(() => {
@@ -150,12 +156,22 @@ export function MissionDetailPage() {
     }
   }
 
-  // Complete mission
+  // Complete mission, the client sign-off is offered first
   const handleComplete = async () => {
     if (!id) return
+    if (!mission?.signedOffAt) {
+      setShowSignOff(true)
+      return
+    }
     if (!confirm(t('missions.detail.confirmComplete', 'Are you sure you want to complete this mission?'))) {
       return
     }
+    await completeMission()
+  }
+
+  const completeMission = async () => {
+    if (!id) return
+    setShowSignOff(false)
     setActionLoading('complete')
     try {
       const updated = await interventionsApi.complete(id)
@@ -168,9 +184,20 @@ export function MissionDetailPage() {
   }
 
   // Photo upload (simulated for now)
-  const handlePhotoUpload = () => {
-    // In a real app, this would open camera/file picker
-    alert(t('missions.detail.photoUploadInfo', 'Photo upload will be available in the mobile app'))
+  // Photo taken or picked on the device, stored without its location metadata
+  const handlePhotoUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!id || !file) return
+    setActionLoading('photo')
+    try {
+      const updated = await interventionsApi.uploadPhoto(id, file)
+      setPhotos(updated.photoUrls || [])
+    } catch (err: any) {
+      alert(err.message || t('missions.detail.photoUploadFailed', 'Failed to upload photo'))
+    } finally {
+      setActionLoading(null)
+    }
   }
 
   // Calculate elapsed time
@@ -216,7 +243,7 @@ export function MissionDetailPage() {
 
   const status = statusColors[mission.status]
   const isInProgress = mission.status === 'IN_PROGRESS'
-  const isScheduled = mission.status === 'SCHEDULED'
+  const isScheduled = mission.status === 'SCHEDULED' || mission.status === 'RESCHEDULED'
   const isCompleted = mission.status === 'COMPLETED'
   const hasCheckedIn = mission.gpsCheckInLat !== null
   const hasCheckedOut = mission.gpsCheckOutLat !== null
@@ -409,13 +436,22 @@ export function MissionDetailPage() {
             </h2>
             {isInProgress && (
               <button
-                onClick={handlePhotoUpload}
-                className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400 rounded-lg font-medium"
+                onClick={() => photoInputRef.current?.click()}
+                disabled={actionLoading === 'photo'}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-primary-50 dark:bg-primary-900/20 text-primary-600 dark:text-primary-400 rounded-lg font-medium disabled:opacity-50"
               >
-                <Upload className="h-4 w-4" />
+                {actionLoading === 'photo' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
                 {t('missions.detail.addPhoto', 'Add')}
               </button>
             )}
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              capture="environment"
+              onChange={handlePhotoUpload}
+              className="hidden"
+            />
           </div>
           <div className="p-4">
             {photos.length === 0 ? (
@@ -428,21 +464,58 @@ export function MissionDetailPage() {
             ) : (
               <div className="grid grid-cols-3 gap-2">
                 {photos.map((url, i) => (
-                  <a
+                  <StoredFileLink
                     key={i}
                     href={url}
-                    target="_blank"
-                    rel="noopener noreferrer"
                     className="aspect-square rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700"
                   >
-                    <img src={url} alt={`Photo ${i + 1}`} className="w-full h-full object-cover" />
-                  </a>
+                    <StoredImage src={url} thumbnail alt={`Photo ${i + 1}`} className="w-full h-full object-cover" />
+                  </StoredFileLink>
                 ))}
               </div>
             )}
           </div>
         </div>
 
+        {/* Client Sign-off Card */}
+        {mission.signedOffAt && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="p-4 border-b border-gray-100 dark:border-gray-700">
+              <h2 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                <PenLine className="h-5 w-5 text-gray-400" />
+                {t('interventions.signOff.title', 'Client sign-off')}
+              </h2>
+            </div>
+            <div className="p-4 space-y-2">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {t('interventions.signOff.signedBy', 'Signed by {{name}} on {{date}}', {
+                  name: mission.signOffContactName,
+                  date: new Date(mission.signedOffAt).toLocaleString(),
+                })}
+              </p>
+              {mission.signOffSignatureUrl && (
+                <StoredImage
+                  src={mission.signOffSignatureUrl}
+                  alt={t('interventions.signOff.signature', 'Signature')}
+                  className="h-24 rounded-lg border border-gray-200 dark:border-gray-700 bg-white"
+                />
+              )}
+              {mission.signOffComments && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-pre-wrap">{mission.signOffComments}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Incidents Card */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+          <InterventionIncidents
+            interventionId={mission.id}
+            canManage={false}
+            canReport={mission.status !== 'CANCELLED'}
+          />
+        </div>
+
         {/* Notes/Feedback Card - for completed missions */}
         {isCompleted && mission.clientFeedback && (
           <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
@@ -459,6 +532,18 @@ export function MissionDetailPage() {
         )}
       </div>
 
+      <ClientSignOffModal
+        isOpen={showSignOff}
+        interventionId={mission.id}
+        required={!!mission.contract?.requiresClientSignOff}
+        onClose={() => setShowSignOff(false)}
+        onSigned={(updated) => {
+          setMission(updated)
+          completeMission()
+        }}
+        onSkip={completeMission}
+      />
+
       {/* Fixed Bottom Action Bar */}
       <div className="fixed bottom-0 left-0 right-0 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 p-4 safe-area-bottom z-30">
         <div className="max-w-2xl mx-auto">
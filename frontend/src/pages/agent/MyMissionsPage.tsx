@@ -15,11 +15,14 @@ import {
   Loader2,
   CalendarDays,
   ClipboardList,
+  LogOut,
+  UserX,
 } from 'lucide-react'
 import {
   interventionsApi,
   Intervention,
   InterventionStatus,
+  InterventionAssignment,
 } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
 
@@ -87,6 +90,7 @@ export function MyMissionsPage() {
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState('today')
   const [refreshing, setRefreshing] = useState(false)
+  const [attendanceLoading, setAttendanceLoading] = useState(false)
 
   // Load missions
   const loadMissions = async (showRefresh = false) => {
@@ -151,7 +155,7 @@ export function MyMissionsPage() {
       total: todayMissions.length,
       completed: todayMissions.filter((m) => m.status === 'COMPLETED').length,
       inProgress: todayMissions.filter((m) => m.status === 'IN_PROGRESS').length,
-      scheduled: todayMissions.filter((m) => m.status === 'SCHEDULED').length,
+      scheduled: todayMissions.filter((m) => m.status === 'SCHEDULED' || m.status === 'RESCHEDULED').length,
     }
   }, [missions])
 
@@ -167,7 +171,7 @@ export function MyMissionsPage() {
     // Then find next scheduled
     const now = new Date()
     const scheduled = missions
-      .filter((m) => m.status === 'SCHEDULED')
+      .filter((m) => m.status === 'SCHEDULED' || m.status === 'RESCHEDULED')
       .sort((a, b) => {
         const dateA = new Date(`${a.scheduledDate}T${a.scheduledStartTime}`)
         const dateB = new Date(`${b.scheduledDate}T${b.scheduledStartTime}`)
@@ -204,7 +208,35 @@ export function MyMissionsPage() {
     return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
   }
 
+  // My own assignment on a mission (role, arrival, departure)
+  const getMyAssignment = (mission: Intervention): InterventionAssignment | undefined =>
+    mission.assignments?.find((assignment) => assignment.userId === user?.id)
+
+  const formatClock = (dateStr: string | null) => {
+    if (!dateStr) return '--:--'
+    return new Date(dateStr).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+  }
+
   // Handle mission actions
+  const handleAttendance = async (mission: Intervention) => {
+    const assignment = getMyAssignment(mission)
+    if (!assignment) return
+
+    setAttendanceLoading(true)
+    try {
+      if (assignment.status === 'CHECKED_IN') {
+        await interventionsApi.checkOutMe(mission.id)
+      } else {
+        await interventionsApi.checkInMe(mission.id)
+      }
+      loadMissions(true)
+    } catch (err: any) {
+      alert(err.message || 'Failed to record attendance')
+    } finally {
+      setAttendanceLoading(false)
+    }
+  }
+
   const handleStartMission = async (id: string) => {
     try {
       await interventionsApi.start(id)
@@ -327,13 +359,39 @@ export function MyMissionsPage() {
                       <ClipboardList className="h-5 w-5" />
                       {t('missions.viewDetails', 'Details')}
                     </button>
-                    <button
-                      onClick={() => navigate(`/my-missions/${activeMission.mission.id}`)}
-                      className="flex-1 flex items-center justify-center gap-2 py-3 bg-white text-amber-600 rounded-xl font-medium hover:bg-amber-50 transition-colors"
-                    >
-                      <Navigation className="h-5 w-5" />
-                      {t('missions.checkIn', 'Check In')}
-                    </button>
+                    {(() => {
+                      const myAssignment = getMyAssignment(activeMission.mission)
+                      if (myAssignment?.status === 'CHECKED_OUT') {
+                        return (
+                          <div className="flex-1 flex items-center justify-center gap-2 py-3 bg-white/20 rounded-xl text-sm font-medium">
+                            <CheckCircle2 className="h-5 w-5" />
+                            {t('missions.leftAt', 'Left at {{time}}', { time: formatClock(myAssignment.checkOutTime) })}
+                          </div>
+                        )
+                      }
+                      return (
+                        <button
+                          onClick={() =>
+                            myAssignment
+                              ? handleAttendance(activeMission.mission)
+                              : navigate(`/my-missions/${activeMission.mission.id}`)
+                          }
+                          disabled={attendanceLoading}
+                          className="flex-1 flex items-center justify-center gap-2 py-3 bg-white text-amber-600 rounded-xl font-medium hover:bg-amber-50 disabled:opacity-50 transition-colors"
+                        >
+                          {attendanceLoading ? (
+                            <Loader2 className="h-5 w-5 animate-spin" />
+                          ) : myAssignment?.status === 'CHECKED_IN' ? (
+                            <LogOut className="h-5 w-5" />
+                          ) : (
+                            <Navigation className="h-5 w-5" />
+                          )}
+                          {myAssignment?.status === 'CHECKED_IN'
+                            ? t('missions.checkOut', 'Check Out')
+                            : t('missions.checkIn', 'Check In')}
+                        </button>
+                      )
+                    })()}
                   </>
                 ) : (
                   <>
@@ -403,6 +461,7 @@ export function MyMissionsPage() {
               const status = statusConfig[mission.status]
               const StatusIcon = status.icon
               const isToday = mission.scheduledDate === new Date().toISOString().split('T')[0]
+              const myAssignment = getMyAssignment(mission)
 
               return (
                 <div
@@ -450,7 +509,28 @@ export function MyMissionsPage() {
                             <StatusIcon className="h-3 w-3" />
                             {t(`interventions.status.${mission.status}`, status.label)}
                           </span>
+
+                          {/* My role on the job */}
+                          {myAssignment?.role === 'TEAM_CHIEF' && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+                              {t('interventions.assignments.role.TEAM_CHIEF', 'Team chief')}
+                            </span>
+                          )}
                         </div>
+
+                        {/* My own arrival and departure */}
+                        {myAssignment?.status === 'NO_SHOW' ? (
+                          <div className="flex items-center gap-1.5 mt-2 text-sm text-red-600 dark:text-red-400">
+                            <UserX className="h-3.5 w-3.5" />
+                            {t('interventions.assignments.status.NO_SHOW', 'No-show')}
+                          </div>
+                        ) : myAssignment?.checkInTime ? (
+                          <div className="flex items-center gap-1.5 mt-2 text-sm text-gray-500 dark:text-gray-400">
+                            <Navigation className="h-3.5 w-3.5" />
+                            {formatClock(myAssignment.checkInTime)} - {formatClock(myAssignment.checkOutTime)}
+                            {myAssignment.hoursWorked !== null && ` · ${Number(myAssignment.hoursWorked).toFixed(2)}h`}
+                          </div>
+                        ) : null}
                       </div>
 
                       {/* Arrow */}
@@ -458,7 +538,7 @@ export function MyMissionsPage() {
                     </div>
 
                     {/* Quick Actions (for scheduled missions) */}
-                    {mission.status === 'SCHEDULED' && isToday && (
+                    {(mission.status === 'SCHEDULED' || mission.status === 'RESCHEDULED') && isToday && (
                       <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700">
                         <button
                           onClick={(e) => {
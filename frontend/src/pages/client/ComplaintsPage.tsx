@@ -0,0 +1,419 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  FileWarning,
+  Plus,
+  X,
+  Calendar,
+  MapPin,
+  Clock,
+  CheckCircle2,
+  AlertCircle,
+  Loader2,
+  ChevronDown,
+  ChevronUp,
+  RotateCcw,
+} from 'lucide-react'
+import {
+  complaintsApi,
+  portalApi,
+  Complaint,
+  ComplaintCategory,
+  ComplaintPriority,
+  ComplaintStatus,
+  ComplaintSlaStatus,
+  Site,
+  Intervention,
+} from '@/services/api'
+
+const CATEGORIES: ComplaintCategory[] = [
+  'QUALITY',
+  'MISSED_SERVICE',
+  'LATE_ARRIVAL',
+  'STAFF_BEHAVIOR',
+  'DAMAGE',
+  'SAFETY',
+  'OTHER',
+]
+const PRIORITIES: ComplaintPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT']
+
+const complaintStatusColors: Record<ComplaintStatus, string> = {
+  OPEN: 'bg-amber-50 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400',
+  ACKNOWLEDGED: 'bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400',
+  IN_PROGRESS: 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-400',
+  RESOLVED: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400',
+  CLOSED: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400',
+}
+
+const complaintSlaColors: Record<ComplaintSlaStatus, string> = {
+  ON_TRACK: 'text-blue-600 dark:text-blue-400',
+  MET: 'text-emerald-600 dark:text-emerald-400',
+  BREACHED: 'text-red-600 dark:text-red-400',
+}
+
+const emptyForm = {
+  siteId: '',
+  interventionId: '',
+  category: 'QUALITY' as ComplaintCategory,
+  priority: 'MEDIUM' as ComplaintPriority,
+  subject: '',
+  description: '',
+}
+
+export function ComplaintsPage() {
+  const { t } = useTranslation()
+
+  // State
+  const [complaints, setComplaints] = useState<Complaint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Complaint | null>(null)
+  const [actionLoading, setActionLoading] = useState(false)
+  const [reopenMessage, setReopenMessage] = useState('')
+
+  // New complaint form
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [sites, setSites] = useState<Site[]>([])
+  const [interventions, setInterventions] = useState<Intervention[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  const loadComplaints = async () => {
+    try {
+      const data = await complaintsApi.getMine()
+      setComplaints(data)
+    } catch (err: any) {
+      setError(err.message || t('complaints.loadError', 'Failed to load complaints'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadComplaints()
+    portalApi.getSites().then(setSites).catch(() => setSites([]))
+  }, [])
+
+  // Load past interventions of the selected site
+  useEffect(() => {
+    if (!form.siteId) {
+      setInterventions([])
+      return
+    }
+    portalApi
+      .getInterventions('past', { siteId: form.siteId, limit: 20 })
+      .then((res) => setInterventions(res.data))
+      .catch(() => setInterventions([]))
+  }, [form.siteId])
+
+  const toggleExpanded = async (id: string) => {
+    if (expanded?.id === id) {
+      setExpanded(null)
+      return
+    }
+    try {
+      setExpanded(await complaintsApi.getById(id))
+      setReopenMessage('')
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      await complaintsApi.create({
+        siteId: form.siteId,
+        interventionId: form.interventionId || undefined,
+        category: form.category,
+        priority: form.priority,
+        subject: form.subject.trim(),
+        description: form.description.trim(),
+      })
+      setForm(emptyForm)
+      setShowForm(false)
+      await loadComplaints()
+    } catch (err: any) {
+      setError(err.message || t('complaints.submitError', 'Failed to submit complaint'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleClose = async (id: string) => {
+    setActionLoading(true)
+    try {
+      setExpanded(await complaintsApi.close(id))
+      await loadComplaints()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleReopen = async (id: string) => {
+    if (!reopenMessage.trim()) return
+    setActionLoading(true)
+    try {
+      setExpanded(await complaintsApi.reopen(id, reopenMessage.trim()))
+      setReopenMessage('')
+      await loadComplaints()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  // Format date and time
+  const formatDateTime = (dateStr: string) => {
+    return new Date(dateStr).toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-8">
+      <div className="mb-6 flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {t('nav.complaints', 'Complaints')}
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {t('complaints.subtitle', 'Report a problem on one of your sites or interventions')}
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          {showForm ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          {showForm ? t('common.cancel', 'Cancel') : t('complaints.new', 'New complaint')}
+        </button>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* New Complaint Form */}
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="mb-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <select
+              required
+              value={form.siteId}
+              onChange={(e) => setForm({ ...form, siteId: e.target.value, interventionId: '' })}
+              className={inputClass}
+            >
+              <option value="">{t('complaints.form.site', 'Select a site')}</option>
+              {sites.map((site) => (
+                <option key={site.id} value={site.id}>{site.name}</option>
+              ))}
+            </select>
+            <select
+              value={form.interventionId}
+              onChange={(e) => setForm({ ...form, interventionId: e.target.value })}
+              disabled={!form.siteId}
+              className={inputClass}
+            >
+              <option value="">{t('complaints.form.noIntervention', 'No specific intervention')}</option>
+              {interventions.map((intervention) => (
+                <option key={intervention.id} value={intervention.id}>
+                  {intervention.interventionCode} - {new Date(intervention.scheduledDate).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value as ComplaintCategory })}
+              className={inputClass}
+            >
+              {CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {t(`complaints.category.${category}`, category)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value as ComplaintPriority })}
+              className={inputClass}
+            >
+              {PRIORITIES.map((priority) => (
+                <option key={priority} value={priority}>
+                  {t(`complaints.priority.${priority}`, priority)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            required
+            value={form.subject}
+            onChange={(e) => setForm({ ...form, subject: e.target.value })}
+            placeholder={t('complaints.form.subject', 'Subject')}
+            maxLength={200}
+            className={inputClass}
+          />
+          <textarea
+            required
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder={t('complaints.form.description', 'Describe the problem')}
+            rows={4}
+            className={inputClass}
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              {t('complaints.form.submit', 'Submit complaint')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {complaints.length === 0 && !error ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 text-center border border-gray-200 dark:border-gray-700">
+          <FileWarning className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {t('complaints.empty', 'No complaints filed')}
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {complaints.map((complaint) => {
+            const isExpanded = expanded?.id === complaint.id
+
+            return (
+              <div
+                key={complaint.id}
+                className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+              >
+                <button
+                  onClick={() => toggleExpanded(complaint.id)}
+                  className="w-full p-4 flex items-center justify-between gap-3 text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{complaint.complaintNumber}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${complaintStatusColors[complaint.status]}`}>
+                        {t(`complaints.status.${complaint.status}`, complaint.status)}
+                      </span>
+                    </div>
+                    <h3 className="font-semibold text-gray-900 dark:text-white truncate">{complaint.subject}</h3>
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+                      <span className="inline-flex items-center gap-1.5">
+                        <MapPin className="h-3.5 w-3.5" />
+                        {complaint.site?.name}
+                      </span>
+                      <span className="inline-flex items-center gap-1.5">
+                        <Calendar className="h-3.5 w-3.5" />
+                        {formatDateTime(complaint.createdAt)}
+                      </span>
+                      <span className={`inline-flex items-center gap-1.5 ${complaintSlaColors[complaint.slaStatus]}`}>
+                        <Clock className="h-3.5 w-3.5" />
+                        {t(`complaints.sla.${complaint.slaStatus}`, complaint.slaStatus)}
+                      </span>
+                    </div>
+                  </div>
+                  {isExpanded ? (
+                    <ChevronUp className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  ) : (
+                    <ChevronDown className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  )}
+                </button>
+
+                {/* Complaint Details & History */}
+                {isExpanded && expanded && (
+                  <div className="border-t border-gray-100 dark:border-gray-700 p-4 space-y-4">
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{expanded.description}</p>
+
+                    {expanded.resolution && (
+                      <div className="p-3 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg text-sm text-emerald-700 dark:text-emerald-300">
+                        <span className="font-medium">{t('complaints.resolution', 'Resolution')}:</span> {expanded.resolution}
+                      </div>
+                    )}
+
+                    <ul className="space-y-2">
+                      {expanded.updates?.map((update) => (
+                        <li key={update.id} className="text-sm border-l-2 border-gray-200 dark:border-gray-600 pl-3">
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatDateTime(update.createdAt)}
+                            {update.author && ` · ${update.author.firstName} ${update.author.lastName}`}
+                            {update.toStatus && ` · ${t(`complaints.status.${update.toStatus}`, update.toStatus)}`}
+                          </div>
+                          {update.message && <p className="text-gray-700 dark:text-gray-300">{update.message}</p>}
+                        </li>
+                      ))}
+                    </ul>
+
+                    {expanded.status === 'RESOLVED' && (
+                      <div className="space-y-2">
+                        <textarea
+                          value={reopenMessage}
+                          onChange={(e) => setReopenMessage(e.target.value)}
+                          placeholder={t('complaints.reopenPlaceholder', 'Still not fixed? Explain why')}
+                          rows={2}
+                          className={inputClass}
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => handleReopen(expanded.id)}
+                            disabled={actionLoading || !reopenMessage.trim()}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 rounded-lg text-sm font-medium"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            {t('complaints.reopen', 'Reopen')}
+                          </button>
+                          <button
+                            onClick={() => handleClose(expanded.id)}
+                            disabled={actionLoading}
+                            className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+                          >
+                            <CheckCircle2 className="h-4 w-4" />
+                            {t('complaints.confirmResolved', 'Confirm resolved')}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ComplaintsPage
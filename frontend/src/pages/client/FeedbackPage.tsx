@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  Star,
+  Calendar,
+  MapPin,
+  MessageSquare,
+  CheckCircle2,
+  AlertCircle,
+  Loader2,
+} from 'lucide-react'
+import { portalApi, Intervention } from '@/services/api'
+
+export function FeedbackPage() {
+  const { t } = useTranslation()
+
+  // State
+  const [pending, setPending] = useState<Intervention[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [ratings, setRatings] = useState<Record<string, number>>({})
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [submittingId, setSubmittingId] = useState<string | null>(null)
+  const [submittedCount, setSubmittedCount] = useState(0)
+
+  useEffect(() => {
+    const loadPending = async () => {
+      try {
+        const data = await portalApi.getPendingFeedback()
+        setPending(data)
+      } catch (err: any) {
+        setError(err.message || t('feedback.loadError', 'Failed to load interventions'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadPending()
+  }, [])
+
+  const handleSubmit = async (id: string) => {
+    const rating = ratings[id]
+    if (!rating) return
+
+    setSubmittingId(id)
+    setError(null)
+    try {
+      await portalApi.submitFeedback(id, { rating, comment: comments[id]?.trim() || undefined })
+      setPending((prev) => prev.filter((i) => i.id !== id))
+      setSubmittedCount((count) => count + 1)
+    } catch (err: any) {
+      setError(err.message || t('feedback.submitError', 'Failed to submit feedback'))
+    } finally {
+      setSubmittingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          {t('nav.feedback', 'Feedback')}
+        </h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {t('feedback.subtitle', 'Rate the interventions completed on your sites')}
+        </p>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {submittedCount > 0 && (
+        <div className="mb-4 p-4 bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-200 dark:border-emerald-800 rounded-xl flex items-center gap-3">
+          <CheckCircle2 className="h-5 w-5 text-emerald-600 dark:text-emerald-400 flex-shrink-0" />
+          <p className="text-sm text-emerald-700 dark:text-emerald-300">
+            {t('feedback.thanks', 'Thank you for your feedback!')}
+          </p>
+        </div>
+      )}
+
+      {pending.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 text-center border border-gray-200 dark:border-gray-700">
+          <MessageSquare className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {t('feedback.empty', 'No interventions waiting for your rating')}
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {pending.map((intervention) => (
+            <div
+              key={intervention.id}
+              className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4"
+            >
+              <div className="flex items-start justify-between gap-3 mb-3">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">
+                    {intervention.site?.name || t('missions.unknownSite', 'Unknown Site')}
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+                    <span className="inline-flex items-center gap-1.5">
+                      <Calendar className="h-3.5 w-3.5" />
+                      {new Date(intervention.scheduledDate).toLocaleDateString()}
+                    </span>
+                    {intervention.site?.address && (
+                      <span className="inline-flex items-center gap-1.5">
+                        <MapPin className="h-3.5 w-3.5" />
+                        {intervention.site.address}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{intervention.interventionCode}</span>
+              </div>
+
+              {/* Star Rating */}
+              <div className="flex items-center gap-1 mb-3">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setRatings((prev) => ({ ...prev, [intervention.id]: value }))}
+                    className="p-1"
+                    aria-label={`${value}/5`}
+                  >
+                    <Star
+                      className={`h-6 w-6 ${
+                        value <= (ratings[intervention.id] || 0)
+                          ? 'text-amber-400 fill-amber-400'
+                          : 'text-gray-300 dark:text-gray-600'
+                      }`}
+                    />
+                  </button>
+                ))}
+              </div>
+
+              <textarea
+                value={comments[intervention.id] || ''}
+                onChange={(e) => setComments((prev) => ({ ...prev, [intervention.id]: e.target.value }))}
+                placeholder={t('feedback.commentPlaceholder', 'Leave a comment (optional)')}
+                rows={2}
+                maxLength={2000}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+
+              <div className="mt-3 flex justify-end">
+                <button
+                  onClick={() => handleSubmit(intervention.id)}
+                  disabled={!ratings[intervention.id] || submittingId === intervention.id}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+                >
+                  {submittingId === intervention.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {t('feedback.submit', 'Submit rating')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FeedbackPage
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FileText, Calendar, MapPin, AlertCircle, Loader2 } from 'lucide-react'
+import { portalApi, Contract, ContractStatus } from '@/services/api'
+
+const statusColors: Record<ContractStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  ACTIVE: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400',
+  INACTIVE: 'bg-amber-50 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400',
+  COMPLETED: 'bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400',
+  ARCHIVED: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400',
+}
+
+export function MyContractsPage() {
+  const { t } = useTranslation()
+
+  // State
+  const [contracts, setContracts] = useState<Contract[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadContracts = async () => {
+      try {
+        const data = await portalApi.getContracts()
+        setContracts(data)
+      } catch (err: any) {
+        setError(err.message || t('portal.contracts.loadError', 'Failed to load contracts'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadContracts()
+  }, [])
+
+  // Format date
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return t('portal.contracts.openEnded', 'Open-ended')
+    return new Date(dateStr).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-8">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+        {t('nav.myContracts', 'My Contracts')}
+      </h1>
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {contracts.length === 0 && !error ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 text-center border border-gray-200 dark:border-gray-700">
+          <FileText className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {t('portal.contracts.empty', 'No contracts yet')}
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {contracts.map((contract) => (
+            <div
+              key={contract.id}
+              className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{contract.contractCode}</span>
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">
+                    {contract.site?.name || t('portal.contracts.unknownSite', 'Unknown site')}
+                  </h3>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[contract.status]}`}>
+                  {t(`contracts.status.${contract.status.toLowerCase()}`, contract.status)}
+                </span>
+              </div>
+              <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+                <span className="inline-flex items-center gap-1.5">
+                  <Calendar className="h-3.5 w-3.5" />
+                  {formatDate(contract.startDate)} - {formatDate(contract.endDate)}
+                </span>
+                {contract.site?.address && (
+                  <span className="inline-flex items-center gap-1.5">
+                    <MapPin className="h-3.5 w-3.5" />
+                    {contract.site.address}
+                  </span>
+                )}
+              </div>
+              {contract.serviceScope?.tasks && contract.serviceScope.tasks.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-1.5">
+                  {contract.serviceScope.tasks.map((task) => (
+                    <span key={task} className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded text-xs">
+                      {task}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MyContractsPage
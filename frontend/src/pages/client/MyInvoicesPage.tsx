@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  Receipt,
+  Calendar,
+  CheckCircle2,
+  Clock,
+  AlertCircle,
+  Loader2,
+  ChevronDown,
+  ChevronUp,
+} from 'lucide-react'
+import { portalApi, Invoice, InvoiceStatus } from '@/services/api'
+
+// Status configuration with colors and icons
+const statusConfig: Record<InvoiceStatus, {
+  label: string
+  color: string
+  bgColor: string
+  icon: React.ElementType
+}> = {
+  DRAFT: {
+    label: 'Draft',
+    color: 'text-gray-600 dark:text-gray-400',
+    bgColor: 'bg-gray-100 dark:bg-gray-700',
+    icon: Clock,
+  },
+  ISSUED: {
+    label: 'Issued',
+    color: 'text-blue-600 dark:text-blue-400',
+    bgColor: 'bg-blue-50 dark:bg-blue-900/30',
+    icon: Receipt,
+  },
+  PAID: {
+    label: 'Paid',
+    color: 'text-emerald-600 dark:text-emerald-400',
+    bgColor: 'bg-emerald-50 dark:bg-emerald-900/30',
+    icon: CheckCircle2,
+  },
+  OVERDUE: {
+    label: 'Overdue',
+    color: 'text-red-600 dark:text-red-400',
+    bgColor: 'bg-red-50 dark:bg-red-900/30',
+    icon: AlertCircle,
+  },
+}
+
+export function MyInvoicesPage() {
+  const { t } = useTranslation()
+
+  // State
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadInvoices = async () => {
+      try {
+        const data = await portalApi.getInvoices()
+        setInvoices(data)
+      } catch (err: any) {
+        setError(err.message || t('invoices.loadError', 'Failed to load invoices'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadInvoices()
+  }, [])
+
+  // Format amount with currency
+  const formatAmount = (amount: number | string, currency: string) => {
+    return `${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`
+  }
+
+  // Format date
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return '-'
+    return new Date(dateStr).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          {t('invoices.title', 'Invoices')}
+        </h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {t('invoices.subtitle', 'Invoices issued for your contracts')}
+        </p>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {invoices.length === 0 && !error ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 text-center border border-gray-200 dark:border-gray-700">
+          <Receipt className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {t('invoices.empty', 'No invoices yet')}
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {invoices.map((invoice) => {
+            const status = statusConfig[invoice.status]
+            const StatusIcon = status.icon
+            const expanded = expandedId === invoice.id
+
+            return (
+              <div
+                key={invoice.id}
+                className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+              >
+                <button
+                  onClick={() => setExpandedId(expanded ? null : invoice.id)}
+                  className="w-full p-4 flex items-center justify-between gap-3 text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{invoice.invoiceNumber}</span>
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${status.bgColor} ${status.color}`}>
+                        <StatusIcon className="h-3 w-3" />
+                        {t(`invoices.status.${invoice.status}`, status.label)}
+                      </span>
+                    </div>
+                    <h3 className="font-semibold text-gray-900 dark:text-white truncate">
+                      {invoice.site?.name || invoice.contract?.contractCode}
+                    </h3>
+                    <div className="flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400">
+                      <Calendar className="h-3.5 w-3.5" />
+                      {formatDate(invoice.periodStart)} - {formatDate(invoice.periodEnd)}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-bold text-gray-900 dark:text-white">
+                      {formatAmount(invoice.totalAmount, invoice.currency)}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {t('invoices.dueDate', 'Due')}: {formatDate(invoice.dueDate)}
+                    </div>
+                  </div>
+                  {expanded ? (
+                    <ChevronUp className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  ) : (
+                    <ChevronDown className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  )}
+                </button>
+
+                {/* Invoice Lines */}
+                {expanded && (
+                  <div className="border-t border-gray-100 dark:border-gray-700 px-4 py-3">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400">
+                          <th className="py-1 font-medium">{t('invoices.line.description', 'Description')}</th>
+                          <th className="py-1 font-medium text-right">{t('invoices.line.quantity', 'Qty')}</th>
+                          <th className="py-1 font-medium text-right">{t('invoices.line.unitPrice', 'Unit price')}</th>
+                          <th className="py-1 font-medium text-right">{t('invoices.line.amount', 'Amount')}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-gray-700 dark:text-gray-300">
+                        {invoice.lines?.map((line) => (
+                          <tr key={line.id}>
+                            <td className="py-1">{line.description}</td>
+                            <td className="py-1 text-right">{Number(line.quantity)}</td>
+                            <td className="py-1 text-right">{formatAmount(line.unitPrice, invoice.currency)}</td>
+                            <td className="py-1 text-right">{formatAmount(line.amount, invoice.currency)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MyInvoicesPage
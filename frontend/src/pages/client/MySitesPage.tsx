@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  MapPin,
+  Building2,
+  Clock,
+  Calendar,
+  AlertCircle,
+  Loader2,
+  ChevronDown,
+  ChevronUp,
+} from 'lucide-react'
+import { portalApi, Site, Intervention, PortalInterventionScope } from '@/services/api'
+
+export function MySitesPage() {
+  const { t } = useTranslation()
+
+  // State
+  const [sites, setSites] = useState<Site[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [scope, setScope] = useState<PortalInterventionScope>('upcoming')
+  const [interventions, setInterventions] = useState<Intervention[]>([])
+  const [loadingInterventions, setLoadingInterventions] = useState(false)
+
+  useEffect(() => {
+    const loadSites = async () => {
+      try {
+        const data = await portalApi.getSites()
+        setSites(data)
+      } catch (err: any) {
+        setError(err.message || t('portal.sites.loadError', 'Failed to load sites'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadSites()
+  }, [])
+
+  // Load interventions of the expanded site
+  useEffect(() => {
+    if (!expandedId) return
+
+    const loadInterventions = async () => {
+      setLoadingInterventions(true)
+      try {
+        const data = await portalApi.getInterventions(scope, { siteId: expandedId, limit: 20 })
+        setInterventions(data.data)
+      } catch {
+        setInterventions([])
+      } finally {
+        setLoadingInterventions(false)
+      }
+    }
+    loadInterventions()
+  }, [expandedId, scope])
+
+  // Format time
+  const formatTime = (time: string | null) => {
+    if (!time) return '--:--'
+    return time.slice(0, 5)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-8">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+        {t('nav.mySites', 'My Sites')}
+      </h1>
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {sites.length === 0 && !error ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 text-center border border-gray-200 dark:border-gray-700">
+          <Building2 className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {t('portal.sites.empty', 'No sites yet')}
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sites.map((site) => {
+            const expanded = expandedId === site.id
+
+            return (
+              <div
+                key={site.id}
+                className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+              >
+                <button
+                  onClick={() => setExpandedId(expanded ? null : site.id)}
+                  className="w-full p-4 flex items-center justify-between gap-3 text-left"
+                >
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-gray-900 dark:text-white truncate">{site.name}</h3>
+                    <div className="flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400">
+                      <MapPin className="h-3.5 w-3.5 flex-shrink-0" />
+                      <span className="truncate">
+                        {[site.address, site.city].filter(Boolean).join(', ') || t('missions.noAddress', 'No address')}
+                      </span>
+                    </div>
+                  </div>
+                  {expanded ? (
+                    <ChevronUp className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  ) : (
+                    <ChevronDown className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  )}
+                </button>
+
+                {/* Site Interventions */}
+                {expanded && (
+                  <div className="border-t border-gray-100 dark:border-gray-700 p-4">
+                    <div className="flex gap-2 mb-3">
+                      {(['upcoming', 'past'] as PortalInterventionScope[]).map((s) => (
+                        <button
+                          key={s}
+                          onClick={() => setScope(s)}
+                          className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                            scope === s
+                              ? 'bg-primary-600 text-white'
+                              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                          }`}
+                        >
+                          {t(`portal.interventions.${s}`, s === 'upcoming' ? 'Upcoming' : 'Past')}
+                        </button>
+                      ))}
+                    </div>
+
+                    {loadingInterventions ? (
+                      <Loader2 className="h-5 w-5 animate-spin text-primary-600" />
+                    ) : interventions.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {t('portal.interventions.empty', 'No interventions')}
+                      </p>
+                    ) : (
+                      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {interventions.map((intervention) => (
+                          <li key={intervention.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                            <div className="flex items-center gap-4 text-gray-700 dark:text-gray-300">
+                              <span className="inline-flex items-center gap-1.5">
+                                <Calendar className="h-3.5 w-3.5" />
+                                {new Date(intervention.scheduledDate).toLocaleDateString()}
+                              </span>
+                              <span className="inline-flex items-center gap-1.5">
+                                <Clock className="h-3.5 w-3.5" />
+                                {formatTime(intervention.scheduledStartTime)} - {formatTime(intervention.scheduledEndTime)}
+                              </span>
+                            </div>
+                            <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                              {t(`interventions.status.${intervention.status}`, intervention.status)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default MySitesPage
@@ -24,16 +24,18 @@ import {
   Construction,
   Key,
   Send,
+  FileWarning,
 } from 'lucide-react'
-import { clientsApi, Client } from '@/services/api'
+import { clientsApi, complaintsApi, Client, Complaint, ComplaintStatus } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
 
 // Tab configuration
-type TabId = 'overview' | 'sites' | 'contracts' | 'activity'
+type TabId = 'overview' | 'sites' | 'contracts' | 'complaints' | 'activity'
 const tabs: { id: TabId; labelKey: string; icon: React.ElementType; isWip?: boolean }[] = [
   { id: 'overview', labelKey: 'clients.details.tabs.overview', icon: Building2 },
   { id: 'sites', labelKey: 'clients.details.tabs.sites', icon: Building, isWip: true },
   { id: 'contracts', labelKey: 'clients.details.tabs.contracts', icon: Briefcase, isWip: true },
+  { id: 'complaints', labelKey: 'clients.details.tabs.complaints', icon: FileWarning },
   { id: 'activity', labelKey: 'clients.details.tabs.activity', icon: Activity, isWip: true },
 ]
 
@@ -52,6 +54,15 @@ const statusBadges = {
   ARCHIVED: { bg: 'bg-red-100 dark:bg-red-900/30', text: 'text-red-700 dark:text-red-300', icon: Archive },
 }
 
+// Complaint status badge colors
+const complaintStatusColors: Record<ComplaintStatus, string> = {
+  OPEN: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  ACKNOWLEDGED: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  IN_PROGRESS: 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300',
+  RESOLVED: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  CLOSED: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+}
+
 export function ClientDetailsPage() {
   const { t } = useTranslation()
   const navigate = useNavigate()
@@ -72,6 +83,8 @@ export function ClientDetailsPage() {
   const [activeTab, setActiveTab] = useState<TabId>('overview')
   const [showActionsMenu, setShowActionsMenu] = useState(false)
   const [showWipModal, setShowWipModal] = useState(false)
+  const [complaints, setComplaints] = useState<Complaint[]>([])
+  const [complaintsLoading, setComplaintsLoading] = useState(false)
   
   // Modals
   const [showArchiveModal, setShowArchiveModal] = useState(false)
@@ -112,6 +125,17 @@ export function ClientDetailsPage() {
     fetchClient()
   }, [id, t])
   
+  // Fetch complaint history when the tab is opened
+  useEffect(() => {
+    if (activeTab !== 'complaints' || !id) return
+    
+    setComplaintsLoading(true)
+    complaintsApi.getAll({ clientId: id, limit: 50 })
+      .then(res => setComplaints(res.data))
+      .catch(() => setComplaints([]))
+      .finally(() => setComplaintsLoading(false))
+  }, [activeTab, id])
+  
   // Archive/Restore handler
   const handleArchive = async () => {
     if (!id || !client) return
@@ -505,6 +529,59 @@ export function ClientDetailsPage() {
             </div>
           </div>
         )}
+        
+        {activeTab === 'complaints' && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            {complaintsLoading ? (
+              <div className="p-6 text-sm text-gray-500 dark:text-gray-400">{t('common.loading', 'Loading...')}</div>
+            ) : complaints.length === 0 ? (
+              <div className="p-6 text-sm text-gray-500 dark:text-gray-400">
+                {t('clients.details.noComplaints', 'No complaints filed by this client')}
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">{t('complaints.number', 'Number')}</th>
+                    <th className="px-4 py-3 font-medium">{t('complaints.form.subject', 'Subject')}</th>
+                    <th className="px-4 py-3 font-medium">{t('clients.details.tabs.sites', 'Sites')}</th>
+                    <th className="px-4 py-3 font-medium">{t('complaints.assignedTo', 'Assigned to')}</th>
+                    <th className="px-4 py-3 font-medium">{t('complaints.slaLabel', 'Response SLA')}</th>
+                    <th className="px-4 py-3 font-medium">{t('complaints.statusLabel', 'Status')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                  {complaints.map(complaint => (
+                    <tr key={complaint.id}>
+                      <td className="px-4 py-3">
+                        <div className="font-mono">{complaint.complaintNumber}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{formatDate(complaint.createdAt)}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900 dark:text-white">{complaint.subject}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {t(`complaints.category.${complaint.category}`, complaint.category)}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">{complaint.site?.name || '-'}</td>
+                      <td className="px-4 py-3">
+                        {complaint.assignedTo ? `${complaint.assignedTo.firstName} ${complaint.assignedTo.lastName}` : '-'}
+                      </td>
+                      <td className={`px-4 py-3 ${complaint.slaStatus === 'BREACHED' ? 'text-red-600 dark:text-red-400' : ''}`}>
+                        {t(`complaints.sla.${complaint.slaStatus}`, complaint.slaStatus)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${complaintStatusColors[complaint.status]}`}>
+                          {t(`complaints.status.${complaint.status}`, complaint.status)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
       </div>
       
       {/* Archive/Restore Confirmation Modal */}
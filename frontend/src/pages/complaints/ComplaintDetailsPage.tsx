@@ -0,0 +1,426 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate, useParams } from 'react-router-dom'
+import {
+  ArrowLeft,
+  FileWarning,
+  MapPin,
+  Building2,
+  Calendar,
+  Clock,
+  User as UserIcon,
+  Paperclip,
+  Send,
+  UserCog,
+  AlertCircle,
+  Loader2,
+} from 'lucide-react'
+import {
+  complaintsApi,
+  usersApi,
+  Complaint,
+  ComplaintStatus,
+  ComplaintPriority,
+  User,
+} from '@/services/api'
+import { useAuth } from '@/contexts/AuthContext'
+import { StoredFileLink } from '@/components/shared/StoredImage'
+import { complaintStatusColors, complaintPriorityColors, complaintSlaColors } from './ComplaintsManagementPage'
+
+// Status changes offered to staff, same table as the backend
+const nextStatuses: Record<ComplaintStatus, ComplaintStatus[]> = {
+  OPEN: ['ACKNOWLEDGED', 'IN_PROGRESS', 'RESOLVED', 'CLOSED'],
+  ACKNOWLEDGED: ['IN_PROGRESS', 'RESOLVED', 'CLOSED'],
+  IN_PROGRESS: ['RESOLVED', 'CLOSED'],
+  RESOLVED: ['IN_PROGRESS', 'CLOSED'],
+  CLOSED: [],
+}
+
+const PRIORITIES: ComplaintPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT']
+
+// Complaint handling for staff: respond, move through the lifecycle and reassign
+export function ComplaintDetailsPage() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { id } = useParams<{ id: string }>()
+  const { user } = useAuth()
+  const isAdmin = user?.role === 'SUPER_ADMIN' || user?.role === 'ADMIN'
+
+  // State
+  const [complaint, setComplaint] = useState<Complaint | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [actionLoading, setActionLoading] = useState(false)
+
+  // Forms
+  const [message, setMessage] = useState('')
+  const [statusForm, setStatusForm] = useState({ status: '' as ComplaintStatus | '', message: '', resolution: '' })
+  const [assignForm, setAssignForm] = useState({ assignedToId: '', priority: '' as ComplaintPriority | '' })
+  const [supervisors, setSupervisors] = useState<User[]>([])
+
+  useEffect(() => {
+    if (!id) return
+    setLoading(true)
+    complaintsApi
+      .getById(id)
+      .then(setComplaint)
+      .catch((err: any) => setError(err.message || t('complaints.loadError', 'Failed to load complaints')))
+      .finally(() => setLoading(false))
+  }, [id])
+
+  // Admins reassign to any supervisor, supervisors can take the complaint over
+  useEffect(() => {
+    if (!isAdmin) return
+    usersApi
+      .getAll({ role: 'SUPERVISOR', status: 'ACTIVE', limit: 100 })
+      .then((result) => setSupervisors(result.data))
+      .catch((err) => console.error('Failed to load supervisors:', err))
+  }, [isAdmin])
+
+  const runAction = async (action: () => Promise<Complaint>) => {
+    setActionLoading(true)
+    setActionError(null)
+    try {
+      setComplaint(await action())
+      return true
+    } catch (err: any) {
+      setActionError(err.message)
+      return false
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleRespond = async () => {
+    if (!complaint || !message.trim()) return
+    if (await runAction(() => complaintsApi.respond(complaint.id, message.trim()))) {
+      setMessage('')
+    }
+  }
+
+  const handleStatus = async () => {
+    if (!complaint || !statusForm.status) return
+    if (statusForm.status === 'RESOLVED' && !statusForm.resolution.trim()) {
+      setActionError(t('complaints.staff.resolutionRequired', 'Describe how the complaint was resolved'))
+      return
+    }
+    const done = await runAction(() =>
+      complaintsApi.updateStatus(complaint.id, {
+        status: statusForm.status as ComplaintStatus,
+        message: statusForm.message.trim() || undefined,
+        resolution: statusForm.resolution.trim() || undefined,
+      })
+    )
+    if (done) {
+      setStatusForm({ status: '', message: '', resolution: '' })
+    }
+  }
+
+  const handleAssign = async (assignedToId: string) => {
+    if (!complaint || !assignedToId) return
+    const done = await runAction(() =>
+      complaintsApi.assign(complaint.id, {
+        assignedToId,
+        priority: assignForm.priority || undefined,
+      })
+    )
+    if (done) {
+      setAssignForm({ assignedToId: '', priority: '' })
+    }
+  }
+
+  // Format date and time
+  const formatDateTime = (dateStr: string) => {
+    return new Date(dateStr).toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const personName = (person?: { firstName: string | null; lastName: string | null } | null) =>
+    person ? `${person.firstName || ''} ${person.lastName || ''}`.trim() : '-'
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+  const cardClass = 'bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4'
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    )
+  }
+
+  if (error || !complaint) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8">
+        <AlertCircle className="h-16 w-16 text-red-400 mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+          {t('complaints.staff.notFound', 'Complaint not found')}
+        </h2>
+        <p className="text-gray-500 dark:text-gray-400 mb-4">{error}</p>
+        <button
+          onClick={() => navigate('/client-complaints')}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700"
+        >
+          {t('complaints.staff.back', 'Back to complaints')}
+        </button>
+      </div>
+    )
+  }
+
+  const isClosed = complaint.status === 'CLOSED'
+  const canTakeOver = !isAdmin && complaint.assignedToId !== user?.id
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 lg:p-8 space-y-4">
+      {/* Header */}
+      <div className="flex items-start gap-4">
+        <button
+          onClick={() => navigate('/client-complaints')}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors mt-1"
+        >
+          <ArrowLeft className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{complaint.complaintNumber}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${complaintStatusColors[complaint.status]}`}>
+              {t(`complaints.status.${complaint.status}`, complaint.status)}
+            </span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${complaintPriorityColors[complaint.priority]}`}>
+              {t(`complaints.priority.${complaint.priority}`, complaint.priority)}
+            </span>
+          </div>
+          <h1 className="mt-1 text-2xl font-bold text-gray-900 dark:text-white">{complaint.subject}</h1>
+          <div className="mt-1 flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+            <span className="inline-flex items-center gap-1.5">
+              <Building2 className="h-3.5 w-3.5" />
+              {complaint.client?.name}
+            </span>
+            <span className="inline-flex items-center gap-1.5">
+              <MapPin className="h-3.5 w-3.5" />
+              {complaint.site?.name}
+            </span>
+            <span className="inline-flex items-center gap-1.5">
+              <Calendar className="h-3.5 w-3.5" />
+              {formatDateTime(complaint.createdAt)}
+            </span>
+            <span className={`inline-flex items-center gap-1.5 ${complaintSlaColors[complaint.slaStatus]}`}>
+              <Clock className="h-3.5 w-3.5" />
+              {t(`complaints.sla.${complaint.slaStatus}`, complaint.slaStatus)}
+              {!complaint.firstResponseAt && ` · ${formatDateTime(complaint.responseDueAt)}`}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {actionError && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{actionError}</p>
+        </div>
+      )}
+
+      {/* Complaint */}
+      <div className={cardClass}>
+        <div className="mb-3 flex flex-wrap gap-4 text-sm text-gray-500 dark:text-gray-400">
+          <span>{t(`complaints.category.${complaint.category}`, complaint.category)}</span>
+          {complaint.intervention && (
+            <button
+              onClick={() => navigate(`/interventions/view/${complaint.interventionId}`)}
+              className="text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              {complaint.intervention.interventionCode}
+            </button>
+          )}
+          <span className="inline-flex items-center gap-1.5">
+            <UserIcon className="h-3.5 w-3.5" />
+            {t('complaints.assignedTo', 'Assigned to')}: {complaint.assignedTo ? personName(complaint.assignedTo) : t('complaints.staff.unassigned', 'Unassigned')}
+          </span>
+        </div>
+        <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{complaint.description}</p>
+
+        {!!complaint.attachmentUrls?.length && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {complaint.attachmentUrls.map((url, index) => (
+              <StoredFileLink
+                key={index}
+                href={url}
+                className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                <Paperclip className="h-3.5 w-3.5" />
+                {t('complaints.staff.attachment', 'Attachment {{index}}', { index: index + 1 })}
+              </StoredFileLink>
+            ))}
+          </div>
+        )}
+
+        {complaint.resolution && (
+          <div className="mt-3 p-3 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg text-sm text-emerald-700 dark:text-emerald-300">
+            <span className="font-medium">{t('complaints.resolution', 'Resolution')}:</span> {complaint.resolution}
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      <div className={cardClass}>
+        <h2 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">
+          {t('complaints.staff.history', 'History')}
+        </h2>
+        <ul className="space-y-2">
+          {complaint.updates?.map((update) => (
+            <li key={update.id} className="text-sm border-l-2 border-gray-200 dark:border-gray-600 pl-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDateTime(update.createdAt)}
+                {update.author && ` · ${personName(update.author)}`}
+                {update.toStatus && ` · ${t(`complaints.status.${update.toStatus}`, update.toStatus)}`}
+              </div>
+              {update.message && <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{update.message}</p>}
+            </li>
+          ))}
+        </ul>
+
+        {!isClosed && (
+          <div className="mt-4 space-y-2">
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={t('complaints.staff.responsePlaceholder', 'Reply to the client')}
+              rows={3}
+              className={inputClass}
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleRespond}
+                disabled={actionLoading || !message.trim()}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                {actionLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                {t('complaints.staff.respond', 'Send response')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!isClosed && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Status */}
+          <div className={`${cardClass} space-y-2`}>
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {t('complaints.staff.changeStatus', 'Change status')}
+            </h2>
+            <select
+              value={statusForm.status}
+              onChange={(e) => setStatusForm({ ...statusForm, status: e.target.value as ComplaintStatus | '' })}
+              className={inputClass}
+            >
+              <option value="">{t('complaints.staff.selectStatus', 'Select a status')}</option>
+              {nextStatuses[complaint.status].map((status) => (
+                <option key={status} value={status}>
+                  {t(`complaints.status.${status}`, status)}
+                </option>
+              ))}
+            </select>
+            {statusForm.status === 'RESOLVED' && (
+              <textarea
+                value={statusForm.resolution}
+                onChange={(e) => setStatusForm({ ...statusForm, resolution: e.target.value })}
+                placeholder={t('complaints.staff.resolutionPlaceholder', 'How was it resolved?')}
+                rows={2}
+                className={inputClass}
+              />
+            )}
+            <input
+              value={statusForm.message}
+              onChange={(e) => setStatusForm({ ...statusForm, message: e.target.value })}
+              placeholder={t('complaints.staff.messagePlaceholder', 'Message to the client (optional)')}
+              className={inputClass}
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleStatus}
+                disabled={actionLoading || !statusForm.status}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                {t('complaints.staff.updateStatus', 'Update status')}
+              </button>
+            </div>
+          </div>
+
+          {/* Assignment */}
+          <div className={`${cardClass} space-y-2`}>
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {t('complaints.staff.reassign', 'Reassign')}
+            </h2>
+            {isAdmin && (
+              <select
+                value={assignForm.assignedToId}
+                onChange={(e) => setAssignForm({ ...assignForm, assignedToId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">{t('complaints.staff.selectAssignee', 'Select a supervisor')}</option>
+                {supervisors.map((supervisor) => (
+                  <option key={supervisor.id} value={supervisor.id}>
+                    {personName(supervisor)}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={assignForm.priority}
+              onChange={(e) => setAssignForm({ ...assignForm, priority: e.target.value as ComplaintPriority | '' })}
+              className={inputClass}
+            >
+              <option value="">{t('complaints.staff.keepPriority', 'Keep the current priority')}</option>
+              {PRIORITIES.map((priority) => (
+                <option key={priority} value={priority}>
+                  {t(`complaints.priority.${priority}`, priority)}
+                </option>
+              ))}
+            </select>
+            <div className="flex justify-end">
+              {isAdmin ? (
+                <button
+                  onClick={() => handleAssign(assignForm.assignedToId)}
+                  disabled={actionLoading || !assignForm.assignedToId}
+                  className="inline-flex items-center gap-2 px-4 py-2 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 rounded-lg text-sm font-medium"
+                >
+                  <UserCog className="h-4 w-4" />
+                  {t('complaints.staff.assign', 'Assign')}
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleAssign(user!.id)}
+                  disabled={actionLoading || (!canTakeOver && !assignForm.priority)}
+                  className="inline-flex items-center gap-2 px-4 py-2 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 rounded-lg text-sm font-medium"
+                >
+                  <UserCog className="h-4 w-4" />
+                  {canTakeOver
+                    ? t('complaints.staff.takeOver', 'Assign to me')
+                    : t('complaints.staff.changePriority', 'Change priority')}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isClosed && (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <FileWarning className="h-4 w-4" />
+          {t('complaints.staff.closed', 'This complaint is closed')}
+          {complaint.closedAt && ` · ${formatDateTime(complaint.closedAt)}`}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ComplaintDetailsPage
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import {
+  FileWarning,
+  MapPin,
+  Calendar,
+  Clock,
+  User as UserIcon,
+  AlertCircle,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react'
+import {
+  complaintsApi,
+  Complaint,
+  ComplaintStatus,
+  ComplaintPriority,
+  ComplaintSlaStatus,
+  ComplaintSlaStats,
+} from '@/services/api'
+import { useAuth } from '@/contexts/AuthContext'
+
+const STATUSES: ComplaintStatus[] = ['OPEN', 'ACKNOWLEDGED', 'IN_PROGRESS', 'RESOLVED', 'CLOSED']
+const PAGE_SIZE = 20
+
+export const complaintStatusColors: Record<ComplaintStatus, string> = {
+  OPEN: 'bg-amber-50 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400',
+  ACKNOWLEDGED: 'bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400',
+  IN_PROGRESS: 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-400',
+  RESOLVED: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400',
+  CLOSED: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400',
+}
+
+export const complaintPriorityColors: Record<ComplaintPriority, string> = {
+  LOW: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  MEDIUM: 'bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400',
+  HIGH: 'bg-orange-50 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400',
+  URGENT: 'bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-400',
+}
+
+export const complaintSlaColors: Record<ComplaintSlaStatus, string> = {
+  ON_TRACK: 'text-blue-600 dark:text-blue-400',
+  MET: 'text-emerald-600 dark:text-emerald-400',
+  BREACHED: 'text-red-600 dark:text-red-400',
+}
+
+// Staff inbox of client complaints: zone chiefs see theirs by default
+export function ComplaintsManagementPage() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+
+  // State
+  const [complaints, setComplaints] = useState<Complaint[]>([])
+  const [total, setTotal] = useState(0)
+  const [stats, setStats] = useState<ComplaintSlaStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [statusFilter, setStatusFilter] = useState<ComplaintStatus | ''>('')
+  const [mineOnly, setMineOnly] = useState(user?.role === 'SUPERVISOR')
+
+  useEffect(() => {
+    const assignedToId = mineOnly ? user?.id : undefined
+    setLoading(true)
+    setError(null)
+
+    Promise.all([
+      complaintsApi.getAll({ page, limit: PAGE_SIZE, status: statusFilter || undefined, assignedToId }),
+      complaintsApi.getSlaStats(assignedToId),
+    ])
+      .then(([result, slaStats]) => {
+        setComplaints(result.data)
+        setTotal(result.total)
+        setStats(slaStats)
+      })
+      .catch((err: any) => setError(err.message || t('complaints.loadError', 'Failed to load complaints')))
+      .finally(() => setLoading(false))
+  }, [page, statusFilter, mineOnly])
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1)
+
+  // Format date and time
+  const formatDateTime = (dateStr: string) => {
+    return new Date(dateStr).toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const inputClass =
+    'px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 lg:p-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          {t('nav.complaints', 'Complaints')}
+        </h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {t('complaints.staff.subtitle', 'Answer, reassign and resolve client complaints')}
+        </p>
+      </div>
+
+      {/* SLA Summary */}
+      {stats && (
+        <div className="mb-6 grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            { label: t('complaints.staff.open', 'Open'), value: stats.open, color: 'text-gray-900 dark:text-white' },
+            { label: t('complaints.sla.ON_TRACK', 'Awaiting response'), value: stats.onTrack, color: complaintSlaColors.ON_TRACK },
+            { label: t('complaints.sla.BREACHED', 'Response overdue'), value: stats.breached, color: complaintSlaColors.BREACHED },
+            {
+              label: t('complaints.staff.averageResponse', 'Average response'),
+              value: `${stats.averageResponseHours}h`,
+              color: 'text-gray-900 dark:text-white',
+            },
+          ].map((card) => (
+            <div key={card.label} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+              <p className={`mt-1 text-2xl font-semibold ${card.color}`}>{card.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as ComplaintStatus | '')
+            setPage(1)
+          }}
+          className={inputClass}
+        >
+          <option value="">{t('complaints.staff.allStatuses', 'All statuses')}</option>
+          {STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {t(`complaints.status.${status}`, status)}
+            </option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={mineOnly}
+            onChange={(e) => {
+              setMineOnly(e.target.checked)
+              setPage(1)
+            }}
+            className="rounded border-gray-300 text-primary-600"
+          />
+          {t('complaints.staff.mineOnly', 'Assigned to me')}
+        </label>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+        </div>
+      ) : complaints.length === 0 && !error ? (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 text-center border border-gray-200 dark:border-gray-700">
+          <FileWarning className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {t('complaints.staff.empty', 'No complaints to handle')}
+          </h3>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {complaints.map((complaint) => (
+            <button
+              key={complaint.id}
+              onClick={() => navigate(`/client-complaints/${complaint.id}`)}
+              className="w-full p-4 text-left bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-700 transition-colors"
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{complaint.complaintNumber}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${complaintStatusColors[complaint.status]}`}>
+                  {t(`complaints.status.${complaint.status}`, complaint.status)}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${complaintPriorityColors[complaint.priority]}`}>
+                  {t(`complaints.priority.${complaint.priority}`, complaint.priority)}
+                </span>
+              </div>
+              <h3 className="font-semibold text-gray-900 dark:text-white truncate">{complaint.subject}</h3>
+              <div className="mt-1 flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+                <span className="inline-flex items-center gap-1.5">
+                  <MapPin className="h-3.5 w-3.5" />
+                  {complaint.client?.name} · {complaint.site?.name}
+                </span>
+                <span className="inline-flex items-center gap-1.5">
+                  <Calendar className="h-3.5 w-3.5" />
+                  {formatDateTime(complaint.createdAt)}
+                </span>
+                <span className="inline-flex items-center gap-1.5">
+                  <UserIcon className="h-3.5 w-3.5" />
+                  {complaint.assignedTo
+                    ? `${complaint.assignedTo.firstName} ${complaint.assignedTo.lastName}`
+                    : t('complaints.staff.unassigned', 'Unassigned')}
+                </span>
+                <span className={`inline-flex items-center gap-1.5 ${complaintSlaColors[complaint.slaStatus]}`}>
+                  <Clock className="h-3.5 w-3.5" />
+                  {t(`complaints.sla.${complaint.slaStatus}`, complaint.slaStatus)}
+                </span>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-4 flex items-center justify-center gap-3">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <ChevronLeft className="h-4 w-4 text-gray-500" />
+          </button>
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {page} / {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <ChevronRight className="h-4 w-4 text-gray-500" />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ComplaintsManagementPage
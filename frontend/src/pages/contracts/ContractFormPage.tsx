@@ -89,6 +89,7 @@ export function ContractFormPage() {
     endDate: string
     status?: ContractStatus
     notes: string
+    requiresClientSignOff: boolean
     pricing: ContractPricing
     serviceScope: ServiceScope
   }>({
@@ -99,6 +100,7 @@ export function ContractFormPage() {
     startDate: new Date().toISOString().split('T')[0],
     endDate: '',
     notes: '',
+    requiresClientSignOff: false,
     pricing: {
       currency: 'MRU',
       monthlyFee: undefined,
@@ -252,6 +254,7 @@ export function ContractFormPage() {
             endDate: contract.endDate ? contract.endDate.split('T')[0] : '',
             status: contract.status,
             notes: contract.notes || '',
+            requiresClientSignOff: contract.requiresClientSignOff ?? false,
             pricing: contract.pricing || {
               currency: 'MRU',
               billingCycle: 'MONTHLY',
@@ -317,6 +320,7 @@ export function ContractFormPage() {
         startDate: formData.startDate,
         endDate: formData.endDate || undefined,
         notes: formData.notes || undefined,
+        requiresClientSignOff: formData.requiresClientSignOff,
         pricing: formData.pricing.monthlyFee || formData.pricing.perInterventionFee || formData.pricing.hourlyRate
           ? formData.pricing
           : undefined,
@@ -578,6 +582,24 @@ export function ContractFormPage() {
                   placeholder={t('contracts.form.notesPlaceholder', 'Additional notes or special requirements...')}
                 />
               </div>
+
+              {/* Client sign-off */}
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.requiresClientSignOff}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requiresClientSignOff: e.target.checked }))}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {t('contracts.form.requiresClientSignOff', 'Client sign-off required')}
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {t('contracts.form.requiresClientSignOffHint', 'Agents cannot complete an intervention without the signature of the client contact')}
+                  </span>
+                </span>
+              </label>
             </div>
           </section>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef, ChangeEvent } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate, useParams, Link } from 'react-router-dom'
 import {
@@ -25,17 +25,29 @@ import {
   ChevronRight,
   Trash2,
   CalendarClock,
+  Upload,
+  AlertTriangle,
+  PenLine,
+  ShieldCheck,
+  ShieldAlert,
 } from 'lucide-react'
 import {
   interventionsApi,
   Intervention,
   InterventionStatus,
+  InterventionAssignment,
+  InterventionStatusHistoryEntry,
+  CompletionVerification,
+  AssignmentStatus,
   sitesApi,
   Site,
-  usersApi,
-  User as UserType,
+  getPlanningConflicts,
+  getAvailabilityIssues,
 } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
+import { StoredImage, StoredFileLink } from '@/components/shared/StoredImage'
+import { ChecklistPhotoGallery } from '@/components/checklists/ChecklistPhotoGallery'
+import { InterventionIncidents } from '@/components/incidents/InterventionIncidents'
 
 // Status configuration
 const statusConfig: Record<InterventionStatus, { label: string; color: string; bgColor: string; icon: React.ElementType }> = {
@@ -71,11 +83,20 @@ const statusConfig: Record<InterventionStatus, { label: string; color: string; b
   },
 }
 
+// Attendance of each person on the job
+const assignmentStatusColors: Record<AssignmentStatus, string> = {
+  ASSIGNED: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  CHECKED_IN: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  CHECKED_OUT: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  NO_SHOW: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+}
+
 // Tab configuration
 const tabs = [
   { id: 'overview', labelKey: 'interventions.details.tabs.overview', icon: FileText },
   { id: 'team', labelKey: 'interventions.details.tabs.team', icon: Users },
   { id: 'photos', labelKey: 'interventions.details.tabs.photos', icon: Image },
+  { id: 'incidents', labelKey: 'interventions.details.tabs.incidents', icon: AlertTriangle },
   { id: 'history', labelKey: 'interventions.details.tabs.history', icon: History },
 ]
 
@@ -83,18 +104,21 @@ export function InterventionDetailsPage() {
   const { t } = useTranslation()
   const navigate = useNavigate()
   const { id } = useParams<{ id: string }>()
-  useAuth()
+  const { user: currentUser } = useAuth()
+  const canManageTeam = ['SUPER_ADMIN', 'ADMIN', 'SUPERVISOR'].includes(currentUser?.role || '')
 
   // State
   const [intervention, setIntervention] = useState<Intervention | null>(null)
   const [site, setSite] = useState<Site | null>(null)
-  const [agents, setAgents] = useState<UserType[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState('overview')
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [showActionMenu, setShowActionMenu] = useState(false)
   const [showRescheduleModal, setShowRescheduleModal] = useState(false)
+  const [history, setHistory] = useState<InterventionStatusHistoryEntry[]>([])
+  const [verification, setVerification] = useState<CompletionVerification | null>(null)
+  const photoInputRef = useRef<HTMLInputElement>(null)
   const [rescheduleData, setRescheduleData] = useState({
     newDate: '',
     newStartTime: '',
@@ -123,20 +147,6 @@ export function InterventionDetailsPage() {
             console.error('Failed to load site')
           }
         }
-
-        // Load agent details
-        if (interventionData.assignedAgentIds?.length) {
-          try {
-            const agentsData = await Promise.all(
-              interventionData.assignedAgentIds.map(agentId =>
-                usersApi.getById(agentId).catch(() => null)
-              )
-            )
-            setAgents(agentsData.filter((a): a is UserType => a !== null))
-          } catch {
-            console.error('Failed to load agents')
-          }
-        }
       } catch (err: any) {
         setError(err.message || t('interventions.details.loadError', 'Failed to load intervention'))
       } finally {
@@ -167,7 +177,65 @@ export function InterventionDetailsPage() {
     return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
   }
 
+  const formatDateTime = (dateStr: string | null) => {
+    if (!dateStr) return '-'
+    return new Date(dateStr).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+  }
+
+  // Team chief first, then agents
+  const team = [...(intervention?.assignments || [])].sort((a, b) =>
+    a.role === b.role ? 0 : a.role === 'TEAM_CHIEF' ? -1 : 1
+  )
+  const agentsCount = team.filter((assignment) => assignment.role === 'AGENT').length
+
   // Action handlers
+  const handleNoShow = async (assignment: InterventionAssignment) => {
+    if (!id) return
+    setActionLoading(`no-show-${assignment.id}`)
+    try {
+      const updated = await interventionsApi.updateAssignment(id, assignment.id, {
+        status: assignment.status === 'NO_SHOW' ? 'ASSIGNED' : 'NO_SHOW',
+      })
+      setIntervention((prev) =>
+        prev
+          ? {
+              ...prev,
+              assignments: prev.assignments?.map((item) =>
+                item.id === updated.id ? { ...item, ...updated, user: item.user } : item
+              ),
+            }
+          : prev
+      )
+    } catch (err: any) {
+      alert(err.message || 'Failed to update attendance')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handlePhotoUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!id || !file) return
+    setActionLoading('photo')
+    try {
+      const updated = await interventionsApi.uploadPhoto(id, file)
+      setIntervention((prev) => (prev ? { ...prev, photoUrls: updated.photoUrls } : prev))
+    } catch (err: any) {
+      alert(err.message || t('interventions.details.photoUploadFailed', 'Failed to upload photo'))
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  // Status timeline, reloaded after every transition
+  useEffect(() => {
+    if (!id || !intervention) return
+    interventionsApi.getHistory(id)
+      .then(setHistory)
+      .catch(() => setHistory([]))
+  }, [id, intervention?.status, intervention?.updatedAt])
+
   const handleStart = async () => {
     if (!id) return
     setActionLoading('start')
@@ -194,14 +262,35 @@ export function InterventionDetailsPage() {
     }
   }
 
-  const handleCancel = async () => {
+  // Completion data checked against the hash recorded at completion
+  const handleVerify = async () => {
     if (!id) return
+    setActionLoading('verify')
+    try {
+      setVerification(await interventionsApi.verifyCompletion(id))
+    } catch (err: any) {
+      alert(err.message || 'Failed to verify intervention')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!id || !intervention) return
     if (!confirm(t('interventions.details.confirmCancel', 'Are you sure you want to cancel this intervention?'))) {
       return
     }
+    // A reason is required once the intervention is in progress
+    const inProgress = intervention.status === 'IN_PROGRESS'
+    const reason = prompt(inProgress
+      ? t('interventions.details.cancelReasonRequired', 'Reason for cancelling (required)')
+      : t('interventions.details.cancelReason', 'Reason for cancelling (optional)'))
+    if (reason === null || (inProgress && !reason.trim())) {
+      return
+    }
     setActionLoading('cancel')
     try {
-      const updated = await interventionsApi.cancel(id)
+      const updated = await interventionsApi.cancel(id, { reason: reason.trim() || undefined })
       setIntervention(updated)
     } catch (err: any) {
       alert(err.message || 'Failed to cancel intervention')
@@ -214,12 +303,29 @@ export function InterventionDetailsPage() {
     if (!id) return
     setActionLoading('reschedule')
     try {
-      const updated = await interventionsApi.reschedule(id, {
+      const reschedule = (force?: boolean) => interventionsApi.reschedule(id, {
         newDate: rescheduleData.newDate,
         newStartTime: rescheduleData.newStartTime,
         newEndTime: rescheduleData.newEndTime,
         reason: rescheduleData.reason,
+        force,
       })
+      let updated: Intervention
+      try {
+        updated = await reschedule()
+      } catch (err) {
+        const conflicts = getPlanningConflicts(err)
+        const warnings = getAvailabilityIssues(err) || []
+        if (!conflicts || !confirm(t('interventions.conflicts.confirm', 'Planning conflicts:\n{{details}}\n\nSave anyway?', {
+          details: [
+            ...warnings.flatMap(agent => agent.issues.map(issue => issue.message)),
+            ...conflicts.map(conflict => conflict.details),
+          ].map(detail => `- ${detail}`).join('\n'),
+        }))) {
+          throw err
+        }
+        updated = await reschedule(true)
+      }
       setIntervention(updated)
       setShowRescheduleModal(false)
       setRescheduleData({ newDate: '', newStartTime: '', newEndTime: '', reason: '' })
@@ -251,7 +357,7 @@ export function InterventionDetailsPage() {
     if (!intervention) return []
     const actions = []
 
-    if (intervention.status === 'SCHEDULED') {
+    if (intervention.status === 'SCHEDULED' || intervention.status === 'RESCHEDULED') {
       actions.push({ id: 'start', label: t('interventions.actions.start', 'Start Intervention'), icon: Play, color: 'text-green-600', handler: handleStart })
       actions.push({ id: 'reschedule', label: t('interventions.actions.reschedule', 'Reschedule'), icon: CalendarClock, color: 'text-purple-600', handler: () => setShowRescheduleModal(true) })
       actions.push({ id: 'cancel', label: t('interventions.actions.cancel', 'Cancel'), icon: XCircle, color: 'text-red-600', handler: handleCancel })
@@ -516,29 +622,104 @@ export function InterventionDetailsPage() {
                   </h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {intervention.gpsCheckInLat && (
-                      <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
+                      <div className={`p-4 rounded-lg ${intervention.checkInOutOfZone ? 'bg-amber-50 dark:bg-amber-900/20' : 'bg-green-50 dark:bg-green-900/20'}`}>
                         <p className="text-sm text-green-700 dark:text-green-300 font-medium mb-1">
                           {t('interventions.details.checkIn', 'Check-in Location')}
                         </p>
                         <p className="text-xs text-green-600 dark:text-green-400">
                           {intervention.gpsCheckInLat}, {intervention.gpsCheckInLng}
                         </p>
+                        {intervention.checkInDistanceMeters !== null && (
+                          <p className={`text-xs mt-1 ${intervention.checkInOutOfZone ? 'text-amber-700 dark:text-amber-300 font-medium' : 'text-green-600 dark:text-green-400'}`}>
+                            {t('interventions.details.distanceFromSite', '{{distance}} m from site', { distance: intervention.checkInDistanceMeters })}
+                            {intervention.checkInOutOfZone && ` · ${t('interventions.details.outOfZone', 'Outside geofence')}`}
+                          </p>
+                        )}
                       </div>
                     )}
                     {intervention.gpsCheckOutLat && (
-                      <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+                      <div className={`p-4 rounded-lg ${intervention.checkOutOutOfZone ? 'bg-amber-50 dark:bg-amber-900/20' : 'bg-blue-50 dark:bg-blue-900/20'}`}>
                         <p className="text-sm text-blue-700 dark:text-blue-300 font-medium mb-1">
                           {t('interventions.details.checkOut', 'Check-out Location')}
                         </p>
                         <p className="text-xs text-blue-600 dark:text-blue-400">
                           {intervention.gpsCheckOutLat}, {intervention.gpsCheckOutLng}
                         </p>
+                        {intervention.checkOutDistanceMeters !== null && (
+                          <p className={`text-xs mt-1 ${intervention.checkOutOutOfZone ? 'text-amber-700 dark:text-amber-300 font-medium' : 'text-blue-600 dark:text-blue-400'}`}>
+                            {t('interventions.details.distanceFromSite', '{{distance}} m from site', { distance: intervention.checkOutDistanceMeters })}
+                            {intervention.checkOutOutOfZone && ` · ${t('interventions.details.outOfZone', 'Outside geofence')}`}
+                          </p>
+                        )}
                       </div>
                     )}
                   </div>
                 </div>
               )}
 
+              {/* Client Sign-off Card */}
+              {(intervention.signedOffAt || intervention.completionHash) && (
+                <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                    <PenLine className="h-5 w-5 text-gray-400" />
+                    {t('interventions.signOff.title', 'Client sign-off')}
+                  </h3>
+                  {intervention.signedOffAt ? (
+                    <div className="flex flex-col sm:flex-row gap-6">
+                      {intervention.signOffSignatureUrl && (
+                        <StoredImage
+                          src={intervention.signOffSignatureUrl}
+                          alt={t('interventions.signOff.signature', 'Signature')}
+                          className="h-28 sm:w-64 object-contain rounded-lg border border-gray-200 dark:border-gray-700 bg-white"
+                        />
+                      )}
+                      <div className="space-y-1">
+                        <p className="font-medium text-gray-900 dark:text-white">{intervention.signOffContactName}</p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {new Date(intervention.signedOffAt).toLocaleString()}
+                        </p>
+                        {intervention.signOffComments && (
+                          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{intervention.signOffComments}</p>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {t('interventions.signOff.none', 'Completed without client sign-off')}
+                    </p>
+                  )}
+                  {intervention.completionHash && (
+                    <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700 flex flex-wrap items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {t('interventions.signOff.completionHash', 'Completion hash (HMAC-SHA256)')}
+                        </p>
+                        <p className="font-mono text-xs text-gray-700 dark:text-gray-300 break-all">{intervention.completionHash}</p>
+                      </div>
+                      {canManageTeam && (
+                        verification ? (
+                          <span className={`flex items-center gap-1.5 text-sm font-medium ${verification.valid ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            {verification.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+                            {verification.valid
+                              ? t('interventions.signOff.verified', 'Completion data intact')
+                              : t('interventions.signOff.tampered', 'Completion data changed since completion')}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={handleVerify}
+                            disabled={actionLoading === 'verify'}
+                            className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 bg-primary-50 dark:bg-primary-900/20 rounded-lg hover:bg-primary-100 dark:hover:bg-primary-900/30 disabled:opacity-50"
+                          >
+                            {actionLoading === 'verify' ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+                            {t('interventions.signOff.verify', 'Verify')}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Quality Score Card */}
               {(intervention.qualityScore !== undefined || intervention.clientRating !== undefined) && (
                 <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
@@ -629,7 +810,7 @@ export function InterventionDetailsPage() {
                       {t('interventions.details.agents', 'Agents')}
                     </span>
                     <span className="font-medium text-gray-900 dark:text-white">
-                      {agents.length}
+                      {agentsCount}
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
@@ -668,39 +849,73 @@ export function InterventionDetailsPage() {
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
               {t('interventions.details.assignedTeam', 'Assigned Team')}
             </h3>
-            {agents.length === 0 ? (
+            {team.length === 0 ? (
               <p className="text-gray-500 dark:text-gray-400 text-center py-8">
                 {t('interventions.details.noAgents', 'No agents assigned to this intervention')}
               </p>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {agents.map((agent) => (
-                  <div
-                    key={agent.id}
-                    className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
-                  >
-                    <div className="flex items-start gap-4">
-                      <div className="w-12 h-12 bg-primary-100 dark:bg-primary-900/30 rounded-full flex items-center justify-center">
-                        <User className="h-6 w-6 text-primary-600 dark:text-primary-400" />
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-gray-900 dark:text-white truncate">
-                          {`${agent.firstName || ''} ${agent.lastName || ''}`.trim() || agent.email}
-                        </p>
-                        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mt-1">
-                          <Mail className="h-3.5 w-3.5" />
-                          <span className="truncate">{agent.email}</span>
+                {team.map((assignment) => {
+                  const person = assignment.user
+                  return (
+                    <div
+                      key={assignment.id}
+                      className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+                    >
+                      <div className="flex items-start gap-4">
+                        <div className="w-12 h-12 bg-primary-100 dark:bg-primary-900/30 rounded-full flex items-center justify-center">
+                          <User className="h-6 w-6 text-primary-600 dark:text-primary-400" />
                         </div>
-                        {agent.phone && (
-                          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mt-1">
-                            <Phone className="h-3.5 w-3.5" />
-                            <span>{agent.phone}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900 dark:text-white truncate">
+                            {person
+                              ? `${person.firstName || ''} ${person.lastName || ''}`.trim() || person.email
+                              : assignment.userId}
+                          </p>
+                          <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+                              {t(`interventions.assignments.role.${assignment.role}`, assignment.role === 'TEAM_CHIEF' ? 'Team chief' : 'Agent')}
+                            </span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${assignmentStatusColors[assignment.status]}`}>
+                              {t(`interventions.assignments.status.${assignment.status}`, assignment.status)}
+                            </span>
                           </div>
-                        )}
+                          {person?.email && (
+                            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mt-1">
+                              <Mail className="h-3.5 w-3.5" />
+                              <span className="truncate">{person.email}</span>
+                            </div>
+                          )}
+                          {person?.phone && (
+                            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mt-1">
+                              <Phone className="h-3.5 w-3.5" />
+                              <span>{person.phone}</span>
+                            </div>
+                          )}
+                          {assignment.checkInTime && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                              {t('interventions.assignments.arrival', 'Arrival')}: {formatDateTime(assignment.checkInTime)}
+                              {' · '}
+                              {t('interventions.assignments.departure', 'Departure')}: {formatDateTime(assignment.checkOutTime)}
+                              {assignment.hoursWorked !== null && ` · ${Number(assignment.hoursWorked).toFixed(2)}h`}
+                            </p>
+                          )}
+                          {canManageTeam && (assignment.status === 'ASSIGNED' || assignment.status === 'NO_SHOW') && (
+                            <button
+                              onClick={() => handleNoShow(assignment)}
+                              disabled={actionLoading === `no-show-${assignment.id}`}
+                              className="mt-2 text-xs font-medium text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                            >
+                              {assignment.status === 'NO_SHOW'
+                                ? t('interventions.assignments.undoNoShow', 'Undo no-show')
+                                : t('interventions.assignments.markNoShow', 'Mark as no-show')}
+                            </button>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             )}
           </div>
@@ -709,9 +924,28 @@ export function InterventionDetailsPage() {
         {/* Photos Tab */}
         {activeTab === 'photos' && (
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
-              {t('interventions.details.interventionPhotos', 'Intervention Photos')}
-            </h3>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {t('interventions.details.interventionPhotos', 'Intervention Photos')}
+              </h3>
+              {canManageTeam && (
+                <button
+                  onClick={() => photoInputRef.current?.click()}
+                  disabled={actionLoading === 'photo'}
+                  className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-primary-600 dark:text-primary-400 bg-primary-50 dark:bg-primary-900/20 rounded-lg hover:bg-primary-100 dark:hover:bg-primary-900/30 disabled:opacity-50"
+                >
+                  {actionLoading === 'photo' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  {t('interventions.details.uploadPhoto', 'Upload photo')}
+                </button>
+              )}
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                onChange={handlePhotoUpload}
+                className="hidden"
+              />
+            </div>
             {!intervention.photoUrls?.length ? (
               <div className="text-center py-12">
                 <Image className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
@@ -722,22 +956,37 @@ export function InterventionDetailsPage() {
             ) : (
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                 {intervention.photoUrls.map((url, index) => (
-                  <a
+                  <StoredFileLink
                     key={index}
                     href={url}
-                    target="_blank"
-                    rel="noopener noreferrer"
                     className="aspect-square rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700 hover:opacity-80 transition-opacity"
                   >
-                    <img
+                    <StoredImage
                       src={url}
+                      thumbnail
                       alt={`Photo ${index + 1}`}
                       className="w-full h-full object-cover"
                     />
-                  </a>
+                  </StoredFileLink>
                 ))}
               </div>
             )}
+
+            {canManageTeam && (
+              <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  {t('checklists.photos.title', 'Checklist photos')}
+                </h3>
+                <ChecklistPhotoGallery interventionId={intervention.id} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Incidents Tab */}
+        {activeTab === 'incidents' && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <InterventionIncidents interventionId={intervention.id} canManage={canManageTeam} canReport={canManageTeam} />
           </div>
         )}
 
@@ -747,14 +996,13 @@ export function InterventionDetailsPage() {
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
               {t('interventions.details.activityHistory', 'Activity History')}
             </h3>
-            <div className="space-y-4">
-              {/* Timeline placeholder - would be populated from audit logs */}
+            <div>
               <div className="flex gap-4">
                 <div className="flex flex-col items-center">
                   <div className="w-3 h-3 bg-primary-600 rounded-full" />
-                  <div className="w-0.5 h-full bg-gray-200 dark:bg-gray-700" />
+                  {history.length > 0 && <div className="w-0.5 flex-1 bg-gray-200 dark:bg-gray-700" />}
                 </div>
-                <div className="pb-8">
+                <div className="pb-6">
                   <p className="font-medium text-gray-900 dark:text-white">
                     {t('interventions.details.created', 'Intervention Created')}
                   </p>
@@ -763,26 +1011,48 @@ export function InterventionDetailsPage() {
                   </p>
                 </div>
               </div>
-              {intervention.status !== 'SCHEDULED' && (
-                <div className="flex gap-4">
+              {history.map((entry, index) => (
+                <div key={entry.id} className="flex gap-4">
                   <div className="flex flex-col items-center">
                     <div className={`w-3 h-3 rounded-full ${
-                      intervention.status === 'COMPLETED' ? 'bg-green-500' :
-                      intervention.status === 'CANCELLED' ? 'bg-red-500' :
-                      intervention.status === 'IN_PROGRESS' ? 'bg-yellow-500' :
+                      entry.toStatus === 'COMPLETED' ? 'bg-green-500' :
+                      entry.toStatus === 'CANCELLED' ? 'bg-red-500' :
+                      entry.toStatus === 'IN_PROGRESS' ? 'bg-yellow-500' :
                       'bg-purple-500'
                     }`} />
+                    {index < history.length - 1 && <div className="w-0.5 flex-1 bg-gray-200 dark:bg-gray-700" />}
                   </div>
-                  <div>
+                  <div className="pb-6">
                     <p className="font-medium text-gray-900 dark:text-white">
-                      {t(`interventions.status.${intervention.status}`, status.label)}
+                      {t(`interventions.history.transitions.${entry.transition}`, entry.transition)}
+                      <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                        {t(`interventions.status.${entry.fromStatus}`, entry.fromStatus)} → {t(`interventions.status.${entry.toStatus}`, entry.toStatus)}
+                      </span>
                     </p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {intervention.updatedAt ? new Date(intervention.updatedAt).toLocaleString() : '-'}
+                      {new Date(entry.createdAt).toLocaleString()}
+                      {' • '}
+                      {entry.actor
+                        ? `${entry.actor.firstName} ${entry.actor.lastName}`
+                        : t('interventions.history.system', 'System')}
                     </p>
+                    {entry.reason && (
+                      <p className="mt-1 text-sm italic text-gray-600 dark:text-gray-300">"{entry.reason}"</p>
+                    )}
+                    {entry.latitude !== null && entry.longitude !== null && (
+                      <a
+                        href={`https://maps.google.com/?q=${entry.latitude},${entry.longitude}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="mt-1 inline-flex items-center gap-1 text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                      >
+                        <Navigation className="h-3 w-3" />
+                        {Number(entry.latitude).toFixed(5)}, {Number(entry.longitude).toFixed(5)}
+                      </a>
+                    )}
                   </div>
                 </div>
-              )}
+              ))}
             </div>
           </div>
         )}
@@ -11,18 +11,24 @@ import {
   Loader2,
   AlertCircle,
   CheckCircle2,
+  AlertTriangle,
+  Sparkles,
   X,
 } from 'lucide-react'
 import {
   interventionsApi,
   CreateInterventionRequest,
   UpdateInterventionRequest,
+  getPlanningConflicts,
+  getAvailabilityIssues,
   contractsApi,
   Contract,
   sitesApi,
   Site,
   usersApi,
   User,
+  AgentAvailability,
+  StaffingSuggestion,
 } from '@/services/api'
 import { SearchableSelect, SelectOption } from '@/components/shared/SearchableSelect'
 
@@ -79,6 +85,8 @@ export function InterventionFormPage() {
   const [contractsLoading, setContractsLoading] = useState(false)
   const [sitesLoading, setSitesLoading] = useState(false)
   const [agentsLoading, setAgentsLoading] = useState(false)
+  const [availability, setAvailability] = useState<Record<string, AgentAvailability>>({})
+  const [suggestions, setSuggestions] = useState<StaffingSuggestion[]>([])
 
   // Load contracts
   useEffect(() => {
@@ -134,6 +142,51 @@ export function InterventionFormPage() {
     loadUsers()
   }, [])
 
+  // Agent availability on the chosen slot (absences, preferences, weekly hours)
+  useEffect(() => {
+    const { scheduledDate, scheduledStartTime, scheduledEndTime } = formData
+    if (!scheduledDate || !scheduledStartTime || !scheduledEndTime || scheduledStartTime >= scheduledEndTime) {
+      setAvailability({})
+      return
+    }
+    interventionsApi.getAvailability({
+      date: scheduledDate,
+      startTime: scheduledStartTime,
+      endTime: scheduledEndTime,
+      interventionId: id,
+    })
+      .then((agentsAvailability) => {
+        setAvailability(Object.fromEntries(agentsAvailability.map((agent) => [agent.agentId, agent])))
+      })
+      .catch((err) => {
+        console.error('Failed to load availability:', err)
+        setAvailability({})
+      })
+  }, [formData.scheduledDate, formData.scheduledStartTime, formData.scheduledEndTime, id])
+
+  // Best agents for the site and slot
+  useEffect(() => {
+    const { siteId, contractId, scheduledDate, scheduledStartTime, scheduledEndTime } = formData
+    if (!siteId || !scheduledDate || !scheduledStartTime || !scheduledEndTime || scheduledStartTime >= scheduledEndTime) {
+      setSuggestions([])
+      return
+    }
+    interventionsApi.getSuggestions({
+      siteId,
+      contractId: contractId || undefined,
+      date: scheduledDate,
+      startTime: scheduledStartTime,
+      endTime: scheduledEndTime,
+      interventionId: id,
+      limit: 5,
+    })
+      .then(setSuggestions)
+      .catch((err) => {
+        console.error('Failed to load suggestions:', err)
+        setSuggestions([])
+      })
+  }, [formData.siteId, formData.contractId, formData.scheduledDate, formData.scheduledStartTime, formData.scheduledEndTime, id])
+
   // Load existing intervention for edit mode
   useEffect(() => {
     if (isEditMode && id) {
@@ -146,7 +199,10 @@ export function InterventionFormPage() {
             scheduledDate: intervention.scheduledDate || '',
             scheduledStartTime: intervention.scheduledStartTime?.slice(0, 5) || '08:00',
             scheduledEndTime: intervention.scheduledEndTime?.slice(0, 5) || '17:00',
-            assignedAgentIds: intervention.assignedAgentIds || [],
+            assignedAgentIds:
+              intervention.assignments
+                ?.filter((assignment) => assignment.role === 'AGENT')
+                .map((assignment) => assignment.userId) || [],
             assignedZoneChiefId: intervention.assignedZoneChiefId || '',
             assignedTeamChiefId: intervention.assignedTeamChiefId || '',
             notes: intervention.notes || '',
@@ -253,10 +309,26 @@ export function InterventionFormPage() {
         notes: formData.notes || undefined,
       }
 
-      if (isEditMode && id) {
-        await interventionsApi.update(id, payload as UpdateInterventionRequest)
-      } else {
-        await interventionsApi.create(payload)
+      const save = (force?: boolean) =>
+        isEditMode && id
+          ? interventionsApi.update(id, { ...payload, force } as UpdateInterventionRequest)
+          : interventionsApi.create({ ...payload, force })
+
+      try {
+        await save()
+      } catch (err) {
+        // Agent or site already booked on this slot: let the planner force the booking
+        const conflicts = getPlanningConflicts(err)
+        const warnings = getAvailabilityIssues(err) || []
+        if (!conflicts || !confirm(t('interventions.conflicts.confirm', 'Planning conflicts:\n{{details}}\n\nSave anyway?', {
+          details: [
+            ...warnings.flatMap(agent => agent.issues.map(issue => issue.message)),
+            ...conflicts.map(conflict => conflict.details),
+          ].map(detail => `- ${detail}`).join('\n'),
+        }))) {
+          throw err
+        }
+        await save(true)
       }
 
       setSuccess(true)
@@ -600,6 +672,47 @@ export function InterventionFormPage() {
                     </div>
                   )}
 
+                  {/* Suggested Agents */}
+                  {suggestions.length > 0 && (
+                    <div className="mb-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/30 border border-gray-200 dark:border-gray-700">
+                      <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        <Sparkles className="h-4 w-4 text-primary-500" />
+                        {t('interventions.suggestions.title', 'Suggested agents')}
+                      </div>
+                      <div className="space-y-1.5">
+                        {suggestions.map((suggestion) => {
+                          const isSelected = formData.assignedAgentIds.includes(suggestion.agentId)
+                          return (
+                            <div key={suggestion.agentId} className="flex items-center gap-3">
+                              <span className="inline-flex items-center justify-center w-10 px-1.5 py-0.5 rounded text-xs font-semibold bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300">
+                                {suggestion.score}
+                              </span>
+                              <div className="flex-1 min-w-0">
+                                <div className="text-sm text-gray-900 dark:text-white">{suggestion.agentName}</div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400 truncate" title={suggestion.reasons.join('\n')}>
+                                  {suggestion.reasons.join(' · ')}
+                                </div>
+                              </div>
+                              <button
+                                type="button"
+                                onClick={() => toggleAgent(suggestion.agentId)}
+                                className={`px-2.5 py-1 rounded text-xs font-medium transition-colors ${
+                                  isSelected
+                                    ? 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200'
+                                    : 'bg-primary-600 hover:bg-primary-700 text-white'
+                                }`}
+                              >
+                                {isSelected
+                                  ? t('interventions.suggestions.remove', 'Remove')
+                                  : t('interventions.suggestions.add', 'Add')}
+                              </button>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Agent List */}
                   <div className="border border-gray-200 dark:border-gray-700 rounded-lg max-h-60 overflow-y-auto">
                     {agentsLoading ? (
@@ -613,15 +726,23 @@ export function InterventionFormPage() {
                     ) : (
                       agents.map((agent) => {
                         const isSelected = formData.assignedAgentIds.includes(agent.id)
+                        const agentAvailability = availability[agent.id]
+                        const errors = agentAvailability?.issues.filter(issue => issue.severity === 'ERROR') || []
+                        const warnings = agentAvailability?.issues.filter(issue => issue.severity === 'WARNING') || []
+                        // Unavailable agents can still be removed, not added
+                        const isBlocked = errors.length > 0 && !isSelected
                         return (
                           <button
                             key={agent.id}
                             type="button"
                             onClick={() => toggleAgent(agent.id)}
+                            disabled={isBlocked}
                             className={`w-full flex items-center gap-3 px-4 py-3 border-b border-gray-100 dark:border-gray-700/50 last:border-b-0 transition-colors ${
                               isSelected
                                 ? 'bg-primary-50 dark:bg-primary-900/20'
-                                : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                                : isBlocked
+                                  ? 'opacity-60 cursor-not-allowed'
+                                  : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
                             }`}
                           >
                             <div className={`w-5 h-5 rounded border-2 flex items-center justify-center ${
@@ -638,7 +759,32 @@ export function InterventionFormPage() {
                               <div className="text-xs text-gray-500 dark:text-gray-400">
                                 {agent.email}
                               </div>
+                              {errors.map((issue) => (
+                                <div key={issue.code} className="text-xs text-red-600 dark:text-red-400">
+                                  {issue.message}
+                                </div>
+                              ))}
+                              {warnings.map((issue, index) => (
+                                <div key={`${issue.code}-${index}`} className="text-xs text-amber-600 dark:text-amber-400">
+                                  {issue.message}
+                                </div>
+                              ))}
                             </div>
+                            {agentAvailability && (
+                              <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                                {errors.length > 0 ? (
+                                  <AlertCircle className="h-4 w-4 text-red-500" />
+                                ) : warnings.length > 0 ? (
+                                  <AlertTriangle className="h-4 w-4 text-amber-500" />
+                                ) : null}
+                                <span title={t('interventions.availability.weeklyHours', 'Hours this week (worked + planned)')}>
+                                  {t('interventions.availability.hours', '{{hours}} / {{max}} h', {
+                                    hours: agentAvailability.weeklyHours,
+                                    max: agentAvailability.maxWeeklyHours,
+                                  })}
+                                </span>
+                              </div>
+                            )}
                           </button>
                         )
                       })
@@ -19,6 +19,8 @@ import {
   Eye,
   Edit,
   Loader2,
+  MapPinOff,
+  Sparkles,
 } from 'lucide-react'
 import {
   interventionsApi,
@@ -77,6 +79,7 @@ export function InterventionsPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [showFilterDrawer, setShowFilterDrawer] = useState(false)
   const [activeFilters, setActiveFilters] = useState<Record<string, string[]>>({})
+  const [autoAssigning, setAutoAssigning] = useState(false)
 
   // Reference data
   const [sites, setSites] = useState<Site[]>([])
@@ -251,6 +254,33 @@ export function InterventionsPage() {
     },
   ], [t, sites])
 
+  // Staff the unassigned generated interventions of the displayed week
+  const handleAutoAssign = async () => {
+    const weekOf = currentDate.toISOString().split('T')[0]
+    if (!confirm(t('interventions.autoAssign.confirm', 'Assign agents to the generated interventions without agents in the week of {{date}}?', { date: weekOf }))) {
+      return
+    }
+    setAutoAssigning(true)
+    try {
+      const result = await interventionsApi.autoAssign({ weekStart: weekOf })
+      const incomplete = result.assigned.filter(item => !item.complete).length
+      alert([
+        t('interventions.autoAssign.done', '{{count}} intervention(s) staffed from {{start}} to {{end}}', {
+          count: result.assigned.length,
+          start: result.weekStart,
+          end: result.weekEnd,
+        }),
+        incomplete > 0 ? t('interventions.autoAssign.incomplete', '{{count}} with fewer agents than needed', { count: incomplete }) : '',
+        ...result.skipped.map(item => `- ${item.interventionCode} (${item.date}): ${item.reason}`),
+      ].filter(Boolean).join('\n'))
+      loadInterventions()
+    } catch (err: any) {
+      alert(err.message || t('interventions.autoAssign.failed', 'Failed to auto-assign agents'))
+    } finally {
+      setAutoAssigning(false)
+    }
+  }
+
   // Permission checks
   const canCreate = currentUser?.role === 'SUPER_ADMIN' || currentUser?.role === 'ADMIN' || currentUser?.role === 'SUPERVISOR'
 
@@ -297,6 +327,18 @@ export function InterventionsPage() {
                 </button>
               </div>
 
+              {/* Auto-assign Button */}
+              {canCreate && (
+                <button
+                  onClick={handleAutoAssign}
+                  disabled={autoAssigning}
+                  className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                >
+                  {autoAssigning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                  <span className="hidden sm:inline">{t('interventions.autoAssign.button', 'Auto-assign week')}</span>
+                </button>
+              )}
+
               {/* Add Intervention Button */}
               {canCreate && (
                 <button
@@ -599,8 +641,13 @@ export function InterventionsPage() {
                                 <StatusIcon className={`h-4 w-4 ${status.color}`} />
                               </div>
                               <div>
-                                <div className="font-medium text-gray-900 dark:text-white">
+                                <div className="font-medium text-gray-900 dark:text-white flex items-center gap-1.5">
                                   {intervention.interventionCode}
+                                  {(intervention.checkInOutOfZone || intervention.checkOutOutOfZone) && (
+                                    <span title={t('interventions.details.outOfZone', 'Outside geofence')}>
+                                      <MapPinOff className="h-4 w-4 text-amber-500" />
+                                    </span>
+                                  )}
                                 </div>
                                 <div className="text-sm text-gray-500 dark:text-gray-400">
                                   {intervention.contract?.contractCode || 'No contract'}
@@ -638,7 +685,7 @@ export function InterventionsPage() {
                             <div className="flex items-center gap-2">
                               <Users className="h-4 w-4 text-gray-400" />
                               <span className="text-sm text-gray-700 dark:text-gray-300">
-                                {intervention.assignedAgentIds?.length || 0} {t('interventions.agents', 'agents')}
+                                {intervention.assignments?.filter((assignment) => assignment.role === 'AGENT').length || 0} {t('interventions.agents', 'agents')}
                               </span>
                             </div>
                           </td>
@@ -881,7 +928,7 @@ function DayView({
                           <div className="flex items-center gap-2">
                             <div className="flex items-center gap-1 bg-white/20 rounded-full px-2 py-1 text-xs">
                               <Users className="h-3 w-3" />
-                              {intervention.assignedAgentIds?.length || 0}
+                              {intervention.assignments?.filter((assignment) => assignment.role === 'AGENT').length || 0}
                             </div>
                           </div>
                         </div>
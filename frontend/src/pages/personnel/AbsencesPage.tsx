@@ -21,13 +21,17 @@ import {
   Check,
   X,
   FileText,
+  Paperclip,
 } from 'lucide-react'
 import {
   absencesApi,
   Absence,
   AbsenceType,
   AbsenceStatus,
+  AffectedIntervention,
 } from '@/services/api'
+import { ReplacementModal } from '@/components/absences/ReplacementModal'
+import { StoredFileLink } from '@/components/shared/StoredImage'
 
 // Absence type config with translation keys, colors and icons
 const absenceTypeConfig: Record<AbsenceType, { labelKey: string; color: string; bgLight: string; icon: React.ReactNode }> = {
@@ -100,6 +104,11 @@ export function AbsencesPage() {
   const [loading, setLoading] = useState(true)
   const [currentMonth, setCurrentMonth] = useState(new Date())
   const [reviewLoading, setReviewLoading] = useState<string | null>(null)
+  const [replacements, setReplacements] = useState<{
+    absenceId: string
+    agentName: string
+    interventions: AffectedIntervention[]
+  } | null>(null)
   const [filterType, setFilterType] = useState<AbsenceType | 'ALL'>('ALL')
   const [searchQuery, setSearchQuery] = useState('')
 
@@ -192,10 +201,18 @@ export function AbsencesPage() {
   const handleReview = async (absenceId: string, approved: boolean) => {
     setReviewLoading(absenceId)
     try {
-      await absencesApi.review(absenceId, {
+      const reviewed = await absencesApi.review(absenceId, {
         status: approved ? 'APPROVED' : 'REJECTED',
         reviewNotes: approved ? 'Approved' : 'Rejected',
       })
+      // The agent's interventions during the absence need someone else
+      if (reviewed.affectedInterventions?.length) {
+        setReplacements({
+          absenceId,
+          agentName: `${reviewed.agent?.firstName || ''} ${reviewed.agent?.lastName || ''}`.trim(),
+          interventions: reviewed.affectedInterventions,
+        })
+      }
       // Refresh pending list
       const pendingData = await absencesApi.getPending()
       setPendingAbsences(pendingData)
@@ -464,6 +481,15 @@ export function AbsencesPage() {
                             "{absence.reason}"
                           </p>
                         )}
+                        {absence.attachmentUrl && (
+                          <StoredFileLink
+                            href={absence.attachmentUrl}
+                            className="inline-flex items-center gap-1 mt-1 text-sm text-primary-600 dark:text-primary-400 hover:underline"
+                          >
+                            <Paperclip className="h-3.5 w-3.5" />
+                            {t('absences.attachment', 'Supporting document')}
+                          </StoredFileLink>
+                        )}
                       </div>
                     </div>
 
@@ -637,6 +663,17 @@ export function AbsencesPage() {
           </table>
         </div>
       </div>
+
+      {/* Replacements of an approved absence */}
+      {replacements && (
+        <ReplacementModal
+          isOpen
+          absenceId={replacements.absenceId}
+          agentName={replacements.agentName}
+          interventions={replacements.interventions}
+          onClose={() => setReplacements(null)}
+        />
+      )}
     </div>
   )
 }
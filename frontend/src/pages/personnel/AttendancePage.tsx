@@ -0,0 +1,421 @@
+import { useState, useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  Clock,
+  Radio,
+  AlarmClock,
+  LogOut,
+  History,
+  Pencil,
+  Pause,
+  X,
+  Loader2,
+  Users,
+} from 'lucide-react'
+import {
+  teamAttendanceApi,
+  Attendance,
+  TeamMemberShift,
+  LateArrival,
+  User,
+} from '@/services/api'
+
+type AttendanceTab = 'live' | 'late' | 'missing' | 'records'
+
+const tabs: { id: AttendanceTab; labelKey: string; icon: typeof Clock }[] = [
+  { id: 'live', labelKey: 'teamAttendance.tabs.live', icon: Radio },
+  { id: 'late', labelKey: 'teamAttendance.tabs.late', icon: AlarmClock },
+  { id: 'missing', labelKey: 'teamAttendance.tabs.missing', icon: LogOut },
+  { id: 'records', labelKey: 'teamAttendance.tabs.records', icon: History },
+]
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Value for a datetime-local input, in local time
+const toInputValue = (value?: string | null) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return `${formatDate(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+const formatTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '—'
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }) : '—'
+
+const fullName = (user?: User) => (user ? `${user.firstName} ${user.lastName}` : '—')
+
+export function AttendancePage() {
+  const { t } = useTranslation()
+
+  // State
+  const [activeTab, setActiveTab] = useState<AttendanceTab>('live')
+  const [loading, setLoading] = useState(true)
+  const [live, setLive] = useState<TeamMemberShift[]>([])
+  const [lateArrivals, setLateArrivals] = useState<LateArrival[]>([])
+  const [missingClockOuts, setMissingClockOuts] = useState<Attendance[]>([])
+  const [records, setRecords] = useState<Attendance[]>([])
+  const [lateDate, setLateDate] = useState(formatDate(new Date()))
+
+  // Correction modal
+  const [editing, setEditing] = useState<Attendance | null>(null)
+  const [correction, setCorrection] = useState({ clockIn: '', clockOut: '', reason: '' })
+  const [saving, setSaving] = useState(false)
+
+  const loadTab = async () => {
+    setLoading(true)
+    try {
+      if (activeTab === 'live') {
+        setLive(await teamAttendanceApi.getLive())
+      } else if (activeTab === 'late') {
+        setLateArrivals(await teamAttendanceApi.getLateArrivals(lateDate))
+      } else if (activeTab === 'missing') {
+        setMissingClockOuts(await teamAttendanceApi.getMissingClockOuts())
+      } else {
+        setRecords(await teamAttendanceApi.getRecords())
+      }
+    } catch (err: any) {
+      console.error('Failed to load team attendance:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTab()
+  }, [activeTab, lateDate])
+
+  const openCorrection = (attendance: Attendance) => {
+    setEditing(attendance)
+    setCorrection({
+      clockIn: toInputValue(attendance.clockIn),
+      clockOut: toInputValue(attendance.clockOut),
+      reason: '',
+    })
+  }
+
+  const handleSaveCorrection = async () => {
+    if (!editing || !correction.reason.trim()) return
+
+    // Only send the times that were changed
+    const changed = (value: string, original?: string | null) =>
+      value && value !== toInputValue(original) ? new Date(value).toISOString() : undefined
+
+    setSaving(true)
+    try {
+      await teamAttendanceApi.correct(editing.id, {
+        clockIn: changed(correction.clockIn, editing.clockIn),
+        clockOut: changed(correction.clockOut, editing.clockOut),
+        reason: correction.reason.trim(),
+      })
+      setEditing(null)
+      await loadTab()
+    } catch (err: any) {
+      alert(err.message || 'Failed to correct attendance')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const onShiftCount = live.filter((member) => member.shift).length
+
+  const renderCorrectButton = (attendance: Attendance) => (
+    <button
+      onClick={() => openCorrection(attendance)}
+      title={t('teamAttendance.correct', 'Correct')}
+      className="p-1.5 rounded-lg text-gray-500 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+    >
+      <Pencil className="h-4 w-4" />
+    </button>
+  )
+
+  const renderAttendanceRows = (rows: Attendance[]) =>
+    rows.map((attendance) => (
+      <tr key={attendance.id}>
+        <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{fullName(attendance.user)}</td>
+        <td className="px-4 py-3">{formatDateTime(attendance.clockIn)}</td>
+        <td className="px-4 py-3">
+          {attendance.clockOut ? (
+            formatDateTime(attendance.clockOut)
+          ) : (
+            <span className="text-amber-600 dark:text-amber-400">{t('teamAttendance.open', 'Still open')}</span>
+          )}
+        </td>
+        <td className="px-4 py-3 text-right">
+          {attendance.hoursWorked != null ? `${Number(attendance.hoursWorked).toFixed(2)}h` : '—'}
+        </td>
+        <td className="px-4 py-3">
+          <div className="flex flex-wrap gap-1">
+            {attendance.autoClosed && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                {t('teamAttendance.autoClosed', 'Auto clock-out')}
+              </span>
+            )}
+            {attendance.correctedAt && (
+              <span
+                title={attendance.correctionReason || undefined}
+                className="px-2 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-400"
+              >
+                {t('teamAttendance.corrected', 'Corrected')}
+              </span>
+            )}
+          </div>
+        </td>
+        <td className="px-4 py-3 text-right">{renderCorrectButton(attendance)}</td>
+      </tr>
+    ))
+
+  const attendanceTableHead = (
+    <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+      <tr>
+        <th className="px-4 py-3 font-medium">{t('teamAttendance.employee', 'Employee')}</th>
+        <th className="px-4 py-3 font-medium">{t('teamAttendance.clockIn', 'Clock-in')}</th>
+        <th className="px-4 py-3 font-medium">{t('teamAttendance.clockOut', 'Clock-out')}</th>
+        <th className="px-4 py-3 font-medium text-right">{t('teamAttendance.hoursWorked', 'Hours')}</th>
+        <th className="px-4 py-3 font-medium"></th>
+        <th className="px-4 py-3 font-medium"></th>
+      </tr>
+    </thead>
+  )
+
+  const emptyState = (message: string) => (
+    <div className="flex flex-col items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+      <Clock className="h-12 w-12 mb-3 opacity-50" />
+      <p>{message}</p>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          {t('teamAttendance.title', 'Team attendance')}
+        </h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          {t('teamAttendance.subtitle', 'Follow who is on shift, late arrivals and missing clock-outs')}
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 dark:border-gray-700">
+        <nav className="flex gap-6 overflow-x-auto">
+          {tabs.map((tab) => {
+            const Icon = tab.icon
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`py-3 px-1 border-b-2 text-sm font-medium flex items-center gap-2 whitespace-nowrap transition-colors ${
+                  activeTab === tab.id
+                    ? 'border-emerald-500 text-emerald-600 dark:text-emerald-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300'
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+                {t(tab.labelKey, tab.id)}
+              </button>
+            )
+          })}
+        </nav>
+      </div>
+
+      {activeTab === 'late' && (
+        <input
+          type="date"
+          value={lateDate}
+          max={formatDate(new Date())}
+          onChange={(e) => setLateDate(e.target.value)}
+          className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        />
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+          </div>
+        ) : activeTab === 'live' ? (
+          live.length === 0 ? (
+            emptyState(t('teamAttendance.emptyTeam', 'No team members found'))
+          ) : (
+            <>
+              <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-300">
+                <Users className="h-4 w-4" />
+                {t('teamAttendance.onShiftCount', '{{count}} of {{total}} on shift', { count: onShiftCount, total: live.length })}
+              </div>
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">{t('teamAttendance.employee', 'Employee')}</th>
+                    <th className="px-4 py-3 font-medium">{t('teamAttendance.statusLabel', 'Status')}</th>
+                    <th className="px-4 py-3 font-medium">{t('teamAttendance.clockIn', 'Clock-in')}</th>
+                    <th className="px-4 py-3 font-medium">{t('teamAttendance.lastActivity', 'Last activity')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                  {live.map(({ user, shift }) => (
+                    <tr key={user.id}>
+                      <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{fullName(user)}</td>
+                      <td className="px-4 py-3">
+                        {!shift ? (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400">
+                            {t('teamAttendance.status.off', 'Off shift')}
+                          </span>
+                        ) : shift.status === 'paused' ? (
+                          <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                            <Pause className="h-3 w-3" />
+                            {t('teamAttendance.status.paused', 'On break')}
+                          </span>
+                        ) : (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
+                            {t('teamAttendance.status.active', 'On shift')}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">{formatTime(shift?.clockIn)}</td>
+                      <td className="px-4 py-3">{formatTime(shift?.lastHeartbeat)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )
+        ) : activeTab === 'late' ? (
+          lateArrivals.length === 0 ? (
+            emptyState(t('teamAttendance.emptyLate', 'No late arrivals for this day'))
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <tr>
+                  <th className="px-4 py-3 font-medium">{t('teamAttendance.employee', 'Employee')}</th>
+                  <th className="px-4 py-3 font-medium">{t('teamAttendance.intervention', 'Intervention')}</th>
+                  <th className="px-4 py-3 font-medium">{t('teamAttendance.scheduledStart', 'Scheduled start')}</th>
+                  <th className="px-4 py-3 font-medium">{t('teamAttendance.clockIn', 'Clock-in')}</th>
+                  <th className="px-4 py-3 font-medium text-right">{t('teamAttendance.minutesLate', 'Delay')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                {lateArrivals.map((late) => (
+                  <tr key={`${late.intervention.id}-${late.user.id}`}>
+                    <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{fullName(late.user)}</td>
+                    <td className="px-4 py-3">
+                      <p>{late.intervention.interventionCode}</p>
+                      {late.intervention.site && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{late.intervention.site.name}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">{formatTime(late.scheduledStart)}</td>
+                    <td className="px-4 py-3">
+                      {late.clockIn ? (
+                        formatTime(late.clockIn)
+                      ) : (
+                        <span className="text-red-600 dark:text-red-400">{t('teamAttendance.noClockIn', 'No clock-in')}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium text-red-600 dark:text-red-400">
+                      {late.minutesLate} min
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )
+        ) : activeTab === 'missing' ? (
+          missingClockOuts.length === 0 ? (
+            emptyState(t('teamAttendance.emptyMissing', 'No missing clock-outs'))
+          ) : (
+            <table className="w-full text-sm">
+              {attendanceTableHead}
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                {renderAttendanceRows(missingClockOuts)}
+              </tbody>
+            </table>
+          )
+        ) : records.length === 0 ? (
+          emptyState(t('teamAttendance.emptyRecords', 'No attendance records over the last 7 days'))
+        ) : (
+          <table className="w-full text-sm">
+            {attendanceTableHead}
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {renderAttendanceRows(records)}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Correction Modal */}
+      {editing && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <div className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {t('teamAttendance.correctTitle', 'Correct attendance')} — {fullName(editing.user)}
+              </h2>
+              <button onClick={() => setEditing(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="px-6 py-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {t('teamAttendance.clockIn', 'Clock-in')}
+                </label>
+                <input
+                  type="datetime-local"
+                  value={correction.clockIn}
+                  onChange={(e) => setCorrection({ ...correction, clockIn: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {t('teamAttendance.clockOut', 'Clock-out')}
+                </label>
+                <input
+                  type="datetime-local"
+                  value={correction.clockOut}
+                  onChange={(e) => setCorrection({ ...correction, clockOut: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {t('teamAttendance.reason', 'Reason')} *
+                </label>
+                <textarea
+                  value={correction.reason}
+                  onChange={(e) => setCorrection({ ...correction, reason: e.target.value })}
+                  rows={3}
+                  maxLength={500}
+                  placeholder={t('teamAttendance.reasonPlaceholder', 'Why are these times being corrected?')}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {t('common.cancel', 'Cancel')}
+              </button>
+              <button
+                onClick={handleSaveCorrection}
+                disabled={saving || !correction.reason.trim()}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg font-medium"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                {t('common.save', 'Save')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AttendancePage
@@ -0,0 +1,298 @@
+import { useState, useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  CalendarX,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Upload,
+  Trash2,
+  Loader2,
+  MapPin,
+} from 'lucide-react'
+import { holidaysApi, zonesApi, Holiday, Zone } from '@/services/api'
+
+export function HolidaysPage() {
+  const { t } = useTranslation()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // State
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [zones, setZones] = useState<Zone[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [deleteLoading, setDeleteLoading] = useState<string | null>(null)
+  const [year, setYear] = useState(() => new Date().getFullYear())
+  const [zoneFilter, setZoneFilter] = useState('')
+  const [form, setForm] = useState({ date: '', name: '', zoneId: '', isWorkingDay: false })
+
+  const loadHolidays = async () => {
+    setLoading(true)
+    try {
+      const data = await holidaysApi.getAll(year, zoneFilter || undefined)
+      setHolidays(data)
+    } catch (err: any) {
+      console.error('Failed to load holidays:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadHolidays()
+  }, [year, zoneFilter])
+
+  useEffect(() => {
+    zonesApi.getAll().then(setZones).catch((err) => console.error('Failed to load zones:', err))
+  }, [])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form.date || !form.name.trim()) return
+
+    setSaving(true)
+    try {
+      await holidaysApi.create({
+        date: form.date,
+        name: form.name.trim(),
+        zoneId: form.zoneId || undefined,
+        isWorkingDay: form.zoneId ? form.isWorkingDay : undefined,
+      })
+      setForm({ date: '', name: '', zoneId: form.zoneId, isWorkingDay: false })
+      await loadHolidays()
+    } catch (err: any) {
+      alert(err.message || 'Failed to add holiday')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setImporting(true)
+    try {
+      const result = await holidaysApi.importIcs(await file.text(), zoneFilter || undefined)
+      const errors = result.errors.length > 0 ? `\n\n${result.errors.join('\n')}` : ''
+      alert(
+        t('holidays.importResult', '{{imported}} holidays imported, {{skipped}} already in the calendar', {
+          imported: result.imported,
+          skipped: result.skipped,
+        }) + errors
+      )
+      await loadHolidays()
+    } catch (err: any) {
+      alert(err.message || 'Failed to import calendar')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleDelete = async (holiday: Holiday) => {
+    if (!confirm(t('holidays.deleteConfirm', 'Delete {{name}} ({{date}})?', { name: holiday.name, date: holiday.date }))) {
+      return
+    }
+
+    setDeleteLoading(holiday.id)
+    try {
+      await holidaysApi.delete(holiday.id)
+      setHolidays((prev) => prev.filter((h) => h.id !== holiday.id))
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete holiday')
+    } finally {
+      setDeleteLoading(null)
+    }
+  }
+
+  const inputClassName =
+    'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {t('holidays.title', 'Holiday calendar')}
+          </h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            {t('holidays.subtitle', 'Holidays are skipped by schedules and not counted as absence days')}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            title={zoneFilter ? t('holidays.importZone', 'Imported as holidays of the selected zone') : undefined}
+            className="inline-flex items-center gap-2 px-4 py-2.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 rounded-lg font-medium transition-colors"
+          >
+            {importing ? <Loader2 className="h-5 w-5 animate-spin" /> : <Upload className="h-5 w-5" />}
+            {t('holidays.import', 'Import .ics')}
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setYear(year - 1)}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <span className="text-lg font-semibold text-gray-900 dark:text-white min-w-[4rem] text-center">{year}</span>
+        <button
+          onClick={() => setYear(year + 1)}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+        <select value={zoneFilter} onChange={(e) => setZoneFilter(e.target.value)} className={inputClassName}>
+          <option value="">{t('holidays.companyWide', 'Company-wide')}</option>
+          {zones.map((zone) => (
+            <option key={zone.id} value={zone.id}>
+              {zone.zoneName}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Add form */}
+      <form
+        onSubmit={handleCreate}
+        className="flex flex-wrap items-end gap-3 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4"
+      >
+        <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400">
+          {t('holidays.date', 'Date')}
+          <input
+            type="date"
+            required
+            value={form.date}
+            onChange={(e) => setForm({ ...form, date: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400 flex-1 min-w-[12rem]">
+          {t('holidays.name', 'Name')}
+          <input
+            type="text"
+            required
+            maxLength={100}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-400">
+          {t('holidays.zone', 'Zone')}
+          <select
+            value={form.zoneId}
+            onChange={(e) => setForm({ ...form, zoneId: e.target.value, isWorkingDay: false })}
+            className={inputClassName}
+          >
+            <option value="">{t('holidays.companyWide', 'Company-wide')}</option>
+            {zones.map((zone) => (
+              <option key={zone.id} value={zone.id}>
+                {zone.zoneName}
+              </option>
+            ))}
+          </select>
+        </label>
+        {form.zoneId && (
+          <label className="flex items-center gap-2 py-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.isWorkingDay}
+              onChange={(e) => setForm({ ...form, isWorkingDay: e.target.checked })}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            {t('holidays.isWorkingDay', 'Worked in this zone')}
+          </label>
+        )}
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center gap-2 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+        >
+          {saving ? <Loader2 className="h-5 w-5 animate-spin" /> : <Plus className="h-5 w-5" />}
+          {t('holidays.add', 'Add')}
+        </button>
+      </form>
+
+      {/* Holidays table */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+          </div>
+        ) : holidays.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+            <CalendarX className="h-12 w-12 mb-3 opacity-50" />
+            <p>{t('holidays.empty', 'No holidays for this year. Add them or import an .ics calendar.')}</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <tr>
+                <th className="px-4 py-3 font-medium">{t('holidays.date', 'Date')}</th>
+                <th className="px-4 py-3 font-medium">{t('holidays.name', 'Name')}</th>
+                <th className="px-4 py-3 font-medium">{t('holidays.zone', 'Zone')}</th>
+                <th className="px-4 py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {holidays.map((holiday) => (
+                <tr key={holiday.id}>
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-white capitalize">
+                    {new Date(`${holiday.date}T00:00:00`).toLocaleDateString(undefined, {
+                      weekday: 'short',
+                      day: 'numeric',
+                      month: 'long',
+                    })}
+                  </td>
+                  <td className="px-4 py-3">{holiday.name}</td>
+                  <td className="px-4 py-3">
+                    {holiday.zone ? (
+                      <span className="inline-flex items-center gap-1">
+                        <MapPin className="h-4 w-4 text-gray-400" />
+                        {holiday.zone.zoneName}
+                        {holiday.isWorkingDay && (
+                          <span className="ml-1 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
+                            {t('holidays.workingDay', 'Working day')}
+                          </span>
+                        )}
+                      </span>
+                    ) : (
+                      t('holidays.companyWide', 'Company-wide')
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end">
+                      {deleteLoading === holiday.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                      ) : (
+                        <button
+                          onClick={() => handleDelete(holiday)}
+                          title={t('common.delete', 'Delete')}
+                          className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default HolidaysPage
@@ -0,0 +1,299 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  FileSpreadsheet,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  Download,
+  Check,
+  X,
+  Loader2,
+  Clock,
+  Moon,
+  CalendarDays,
+} from 'lucide-react'
+import {
+  timesheetsApi,
+  Timesheet,
+  TimesheetStatus,
+  TimesheetExportFormat,
+} from '@/services/api'
+
+const timesheetStatusColors: Record<TimesheetStatus, string> = {
+  DRAFT: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  APPROVED: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  REJECTED: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+}
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const formatHours = (value: number | string) => `${Number(value).toFixed(2)}h`
+
+export function TimesheetsPage() {
+  const { t } = useTranslation()
+
+  // State
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([])
+  const [loading, setLoading] = useState(true)
+  const [generating, setGenerating] = useState(false)
+  const [exporting, setExporting] = useState<TimesheetExportFormat | null>(null)
+  const [reviewLoading, setReviewLoading] = useState<string | null>(null)
+  const [currentMonth, setCurrentMonth] = useState(() => {
+    const now = new Date()
+    return new Date(now.getFullYear(), now.getMonth(), 1)
+  })
+
+  const periodStart = formatDate(currentMonth)
+  const periodEnd = formatDate(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0))
+
+  const loadTimesheets = async () => {
+    setLoading(true)
+    try {
+      const data = await timesheetsApi.getAll({ periodStart, periodEnd })
+      setTimesheets(data.filter((ts) => ts.periodStart === periodStart && ts.periodEnd === periodEnd))
+    } catch (err: any) {
+      console.error('Failed to load timesheets:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTimesheets()
+  }, [periodStart])
+
+  const stats = useMemo(() => {
+    const sum = (key: 'totalHours' | 'overtimeHours' | 'nightHours') =>
+      timesheets.reduce((total, ts) => total + Number(ts[key] || 0), 0)
+    return {
+      totalHours: sum('totalHours'),
+      overtimeHours: sum('overtimeHours'),
+      nightHours: sum('nightHours'),
+      approved: timesheets.filter((ts) => ts.status === 'APPROVED').length,
+    }
+  }, [timesheets])
+
+  const isPeriodApproved = timesheets.length > 0 && stats.approved === timesheets.length
+
+  const handleGenerate = async () => {
+    setGenerating(true)
+    try {
+      await timesheetsApi.generate({ periodStart, periodEnd })
+      await loadTimesheets()
+    } catch (err: any) {
+      alert(err.message || 'Failed to generate timesheets')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleReview = async (timesheet: Timesheet, approved: boolean) => {
+    let notes: string | undefined
+    if (!approved) {
+      const input = window.prompt(t('timesheets.rejectPrompt', 'Reason for rejection'))
+      if (!input?.trim()) return
+      notes = input.trim()
+    }
+
+    setReviewLoading(timesheet.id)
+    try {
+      const updated = approved
+        ? await timesheetsApi.approve(timesheet.id)
+        : await timesheetsApi.reject(timesheet.id, notes!)
+      setTimesheets((prev) => prev.map((ts) => (ts.id === updated.id ? { ...ts, ...updated } : ts)))
+    } catch (err: any) {
+      alert(err.message || 'Failed to review timesheet')
+    } finally {
+      setReviewLoading(null)
+    }
+  }
+
+  const handleExport = async (format: TimesheetExportFormat) => {
+    setExporting(format)
+    try {
+      const blob = await timesheetsApi.export(periodStart, periodEnd, format)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `timesheets_${periodStart}_${periodEnd}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err: any) {
+      alert(err.message || 'Failed to export timesheets')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {t('timesheets.title', 'Timesheets')}
+          </h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            {t('timesheets.subtitle', 'Review worked hours and export approved periods for payroll')}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="inline-flex items-center gap-2 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+          >
+            {generating ? <Loader2 className="h-5 w-5 animate-spin" /> : <RefreshCw className="h-5 w-5" />}
+            {t('timesheets.generate', 'Compute period')}
+          </button>
+          {(['csv', 'xlsx'] as TimesheetExportFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!isPeriodApproved || exporting !== null}
+              title={isPeriodApproved ? undefined : t('timesheets.exportDisabled', 'All timesheets of the period must be approved')}
+              className="inline-flex items-center gap-2 px-4 py-2.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 rounded-lg font-medium transition-colors"
+            >
+              {exporting === format ? <Loader2 className="h-5 w-5 animate-spin" /> : <Download className="h-5 w-5" />}
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Period selector */}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <span className="text-lg font-semibold text-gray-900 dark:text-white min-w-[10rem] text-center capitalize">
+          {currentMonth.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+        </span>
+        <button
+          onClick={() => setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1))}
+          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { label: t('timesheets.totalHours', 'Total hours'), value: formatHours(stats.totalHours), icon: <Clock className="h-5 w-5" /> },
+          { label: t('timesheets.overtimeHours', 'Overtime'), value: formatHours(stats.overtimeHours), icon: <Clock className="h-5 w-5" /> },
+          { label: t('timesheets.nightHours', 'Night'), value: formatHours(stats.nightHours), icon: <Moon className="h-5 w-5" /> },
+          { label: t('timesheets.approvedCount', 'Approved'), value: `${stats.approved} / ${timesheets.length}`, icon: <Check className="h-5 w-5" /> },
+        ].map((card) => (
+          <div key={card.label} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+            <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400 text-sm">
+              {card.icon}
+              {card.label}
+            </div>
+            <p className="mt-2 text-2xl font-bold text-gray-900 dark:text-white">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Timesheets table */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+          </div>
+        ) : timesheets.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+            <FileSpreadsheet className="h-12 w-12 mb-3 opacity-50" />
+            <p>{t('timesheets.empty', 'No timesheets for this period yet. Compute the period to create them.')}</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <tr>
+                <th className="px-4 py-3 font-medium">{t('timesheets.employee', 'Employee')}</th>
+                <th className="px-4 py-3 font-medium text-right">{t('timesheets.totalHours', 'Total hours')}</th>
+                <th className="px-4 py-3 font-medium text-right">{t('timesheets.regularHours', 'Regular')}</th>
+                <th className="px-4 py-3 font-medium text-right">{t('timesheets.overtimeHours', 'Overtime')}</th>
+                <th className="px-4 py-3 font-medium text-right">{t('timesheets.nightHours', 'Night')}</th>
+                <th className="px-4 py-3 font-medium text-right">{t('timesheets.weekendHours', 'Weekend')}</th>
+                <th className="px-4 py-3 font-medium text-right">{t('timesheets.breakMinutes', 'Breaks')}</th>
+                <th className="px-4 py-3 font-medium text-right">{t('timesheets.absenceDays', 'Absences')}</th>
+                <th className="px-4 py-3 font-medium">{t('timesheets.statusLabel', 'Status')}</th>
+                <th className="px-4 py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+              {timesheets.map((ts) => (
+                <tr key={ts.id}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {ts.user ? `${ts.user.firstName} ${ts.user.lastName}` : ts.userId}
+                    </p>
+                    {ts.reviewNotes && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{ts.reviewNotes}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium">{formatHours(ts.totalHours)}</td>
+                  <td className="px-4 py-3 text-right">{formatHours(ts.regularHours)}</td>
+                  <td className="px-4 py-3 text-right">{formatHours(ts.overtimeHours)}</td>
+                  <td className="px-4 py-3 text-right">{formatHours(ts.nightHours)}</td>
+                  <td className="px-4 py-3 text-right">{formatHours(ts.weekendHours)}</td>
+                  <td className="px-4 py-3 text-right">{ts.breakMinutes} min</td>
+                  <td className="px-4 py-3 text-right">
+                    <span
+                      className="inline-flex items-center gap-1"
+                      title={Object.entries(ts.absencesByType || {})
+                        .map(([type, days]) => `${t(`absences.type.${type}`, type)}: ${days}`)
+                        .join(', ')}
+                    >
+                      <CalendarDays className="h-4 w-4 text-gray-400" />
+                      {ts.absenceDays}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${timesheetStatusColors[ts.status]}`}>
+                      {t(`timesheets.status.${ts.status}`, ts.status)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    {ts.status === 'DRAFT' && (
+                      <div className="flex items-center justify-end gap-1">
+                        {reviewLoading === ts.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => handleReview(ts, true)}
+                              title={t('timesheets.approve', 'Approve')}
+                              className="p-1.5 rounded-lg text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+                            >
+                              <Check className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleReview(ts, false)}
+                              title={t('timesheets.reject', 'Reject')}
+                              className="p-1.5 rounded-lg text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TimesheetsPage
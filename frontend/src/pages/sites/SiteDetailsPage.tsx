@@ -309,6 +309,20 @@ export function SiteDetailsPage() {
                     {site.country || t('common.notSet', 'Not set')}
                   </p>
                 </div>
+                <div>
+                  <label className="text-sm text-gray-500 dark:text-gray-400">{t('sites.details.coordinates', 'GPS Coordinates')}</label>
+                  <p className="text-gray-900 dark:text-white mt-1">
+                    {site.latitude !== null && site.longitude !== null
+                      ? `${Number(site.latitude).toFixed(6)}, ${Number(site.longitude).toFixed(6)}`
+                      : t('common.notSet', 'Not set')}
+                  </p>
+                </div>
+                <div>
+                  <label className="text-sm text-gray-500 dark:text-gray-400">{t('sites.form.geofenceRadius', 'Check-in Radius (meters)')}</label>
+                  <p className="text-gray-900 dark:text-white mt-1">
+                    {site.geofenceRadiusMeters ? `${site.geofenceRadiusMeters} m` : t('sites.details.defaultRadius', 'Default')}
+                  </p>
+                </div>
                 {site.accessInstructions && (
                   <div className="md:col-span-2">
                     <label className="text-sm text-gray-500 dark:text-gray-400">{t('sites.details.accessInstructions', 'Access Instructions')}</label>
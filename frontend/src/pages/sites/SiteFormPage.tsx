@@ -173,6 +173,9 @@ export function SiteFormPage() {
             city: site.city || '',
             postalCode: site.postalCode || '',
             country: site.country || '',
+            latitude: site.latitude !== null ? Number(site.latitude) : undefined,
+            longitude: site.longitude !== null ? Number(site.longitude) : undefined,
+            geofenceRadiusMeters: site.geofenceRadiusMeters ?? undefined,
             accessInstructions: site.accessInstructions || '',
             workingHours: site.workingHours || '',
             contactPerson: site.contactPerson || '',
@@ -181,6 +184,16 @@ export function SiteFormPage() {
             notes: site.notes || '',
             status: site.status,
           })
+          if (site.latitude !== null && site.longitude !== null) {
+            setLocationData({
+              latitude: Number(site.latitude),
+              longitude: Number(site.longitude),
+              address: site.address || undefined,
+              city: site.city || undefined,
+              postalCode: site.postalCode || undefined,
+              country: site.country || undefined,
+            })
+          }
         } catch (err: any) {
           console.error('Failed to fetch site:', err)
           setError(err.message || 'Failed to load site')
@@ -224,6 +237,8 @@ export function SiteFormPage() {
     if (location) {
       setFormData((prev) => ({
         ...prev,
+        latitude: location.latitude,
+        longitude: location.longitude,
         address: location.address || prev.address,
         city: location.city || prev.city,
         postalCode: location.postalCode || prev.postalCode,
@@ -310,6 +325,9 @@ export function SiteFormPage() {
           city: formData.city || undefined,
           postalCode: formData.postalCode || undefined,
           country: formData.country || undefined,
+          latitude: formData.latitude,
+          longitude: formData.longitude,
+          geofenceRadiusMeters: formData.geofenceRadiusMeters,
           accessInstructions: formData.accessInstructions || undefined,
           workingHours: formData.workingHours || undefined,
           contactPerson: formData.contactPerson || undefined,
@@ -601,6 +619,32 @@ export function SiteFormPage() {
                 />
               </div>
 
+              {/* Geofence Radius */}
+              <div>
+                <label htmlFor="geofenceRadiusMeters" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {t('sites.form.geofenceRadius', 'Check-in Radius (meters)')}
+                </label>
+                <input
+                  type="number"
+                  id="geofenceRadiusMeters"
+                  name="geofenceRadiusMeters"
+                  min={10}
+                  max={5000}
+                  value={formData.geofenceRadiusMeters ?? ''}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      geofenceRadiusMeters: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                    }))
+                  }
+                  placeholder={t('sites.form.geofenceRadiusPlaceholder', 'Default radius')}
+                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 transition-all"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {t('sites.form.geofenceRadiusHelp', 'Agents checking in farther than this from the map location are flagged')}
+                </p>
+              </div>
+
               <div className="relative">
                 <div className="absolute inset-0 flex items-center">
                   <div className="w-full border-t border-gray-200 dark:border-gray-700" />
@@ -29,6 +29,7 @@ import {
 } from 'lucide-react'
 import { usersApi, User } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
+import { StoredImage } from '@/components/shared/StoredImage'
 
 // Tab configuration
 type TabId = 'overview' | 'employment' | 'skills' | 'activity' | 'settings'
@@ -340,7 +341,7 @@ export function UserDetailsPage() {
             {/* Avatar */}
             <div className="flex-shrink-0">
               {user.profilePhotoUrl ? (
-                <img
+                <StoredImage
                   src={user.profilePhotoUrl}
                   alt={`${user.firstName} ${user.lastName}`}
                   className="w-24 h-24 rounded-full object-cover"
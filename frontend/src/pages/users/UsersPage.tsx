@@ -21,6 +21,7 @@ import { usersApi, User, zonesApi, Zone } from '@/services/api'
 import { useAuth } from '@/contexts/AuthContext'
 import UserCard from '@/components/users/UserCard'
 import { FilterDrawer, useUserFilterSections } from '@/components/shared/FilterDrawer'
+import { StoredImage } from '@/components/shared/StoredImage'
 
 // View mode type
 type ViewMode = 'card' | 'table'
@@ -676,7 +677,7 @@ export function UsersPage() {
                         >
                           <div className="h-8 w-8 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-xs font-medium text-gray-600 dark:text-gray-300 shrink-0">
                             {user.profilePhotoUrl ? (
-                              <img src={user.profilePhotoUrl} alt={fullName} className="h-8 w-8 rounded-full object-cover" />
+                              <StoredImage src={user.profilePhotoUrl} thumbnail alt={fullName} className="h-8 w-8 rounded-full object-cover" />
                             ) : (
                               fullName.slice(0, 2).toUpperCase()
                             )}
@@ -76,8 +76,9 @@ async function request<T>(
 ): Promise<T> {
   const token = getToken()
   
+  // Uploads keep the multipart Content-Type (with its boundary) set by the browser
   const headers: HeadersInit = {
-    'Content-Type': 'application/json',
+    ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
     ...options.headers,
   }
   
@@ -111,6 +112,15 @@ async function request<T>(
   return isJson ? response.json() : ({} as T)
 }
 
+/**
+ * Multipart body of a single file upload
+ */
+function fileForm(file: File): FormData {
+  const form = new FormData()
+  form.append('file', file)
+  return form
+}
+
 // ============================================
 // Auth API Endpoints
 // ============================================
@@ -284,15 +294,17 @@ export const notificationsApi = {
 // ============================================
 
 export type ShiftStatusType = 'active' | 'paused' | 'completed'
+export type BreakReason = 'break' | 'lunch' | 'meeting' | 'personal' | 'other'
 
 export interface ShiftBreak {
   id: string
   attendanceId: string
   breakStart: string
-  breakEnd?: string
-  durationMinutes?: number
+  breakEnd?: string | null
+  durationMinutes?: number | null
   breakType: 'manual' | 'idle' | 'system'
-  notes?: string
+  reason?: BreakReason | null
+  notes?: string | null
 }
 
 export interface Attendance {
@@ -306,8 +318,13 @@ export interface Attendance {
   lastHeartbeat?: string
   deviceId?: string
   breakMinutes?: number
+  autoClosed?: boolean
+  correctedBy?: string | null
+  correctedAt?: string | null
+  correctionReason?: string | null
   breaks?: ShiftBreak[]
   createdAt: string
+  user?: User
 }
 
 export interface ShiftStatus {
@@ -322,7 +339,7 @@ export interface ClockInOutRequest {
 }
 
 export interface PauseShiftRequest {
-  reason?: 'break' | 'lunch' | 'meeting' | 'personal' | 'other'
+  reason?: BreakReason
   notes?: string
 }
 
@@ -336,12 +353,14 @@ export interface HeartbeatRequest {
 
 export interface DailySummary {
   date: string
-  totalShifts: number
+  firstClockIn: string | null
+  lastClockOut: string | null
   totalHoursWorked: number
   totalBreakMinutes: number
-  netWorkMinutes: number
-  shifts: Attendance[]
+  sessionsCount: number
+  isCurrentlyOnShift: boolean
   currentStatus: ShiftStatusType | 'off'
+  currentShiftElapsed?: number
 }
 
 export const attendanceApi = {
@@ -420,8 +439,8 @@ export const attendanceApi = {
   /**
    * Send heartbeat to indicate user is still active
    */
-  heartbeat: async (data: HeartbeatRequest = {}): Promise<{ success: boolean; attendance: Attendance }> => {
-    return request<{ success: boolean; attendance: Attendance }>('/attendance/heartbeat', {
+  heartbeat: async (data: HeartbeatRequest = {}): Promise<{ success: boolean; attendance: Attendance | null }> => {
+    return request<{ success: boolean; attendance: Attendance | null }>('/attendance/heartbeat', {
       method: 'POST',
       body: JSON.stringify(data),
     })
@@ -436,6 +455,72 @@ export const attendanceApi = {
   },
 }
 
+export interface TeamMemberShift {
+  user: User
+  shift: Attendance | null
+}
+
+export interface LateArrival {
+  user: User
+  intervention: Intervention
+  scheduledStart: string
+  clockIn: string | null
+  minutesLate: number
+}
+
+export interface CorrectAttendanceRequest {
+  clockIn?: string
+  clockOut?: string
+  reason: string
+}
+
+export const teamAttendanceApi = {
+  /**
+   * Get team members and their open shift
+   */
+  getLive: async (): Promise<TeamMemberShift[]> => {
+    return request<TeamMemberShift[]>('/attendance/team/live')
+  },
+
+  /**
+   * Get late or missing clock-ins for a day (defaults to today)
+   */
+  getLateArrivals: async (date?: string): Promise<LateArrival[]> => {
+    const params = date ? `?date=${date}` : ''
+    return request<LateArrival[]>(`/attendance/team/late${params}`)
+  },
+
+  /**
+   * Get shifts left open or closed by the auto clock-out
+   */
+  getMissingClockOuts: async (days?: number): Promise<Attendance[]> => {
+    const params = days ? `?days=${days}` : ''
+    return request<Attendance[]>(`/attendance/team/missing-clock-outs${params}`)
+  },
+
+  /**
+   * Get team attendance records
+   */
+  getRecords: async (params: { userId?: string; startDate?: string; endDate?: string } = {}): Promise<Attendance[]> => {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) searchParams.append(key, value)
+    })
+    const query = searchParams.toString()
+    return request<Attendance[]>(`/attendance/team/records${query ? `?${query}` : ''}`)
+  },
+
+  /**
+   * Correct the clock-in/clock-out times of a shift
+   */
+  correct: async (id: string, data: CorrectAttendanceRequest): Promise<Attendance> => {
+    return request<Attendance>(`/attendance/team/records/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  },
+}
+
 // ============================================
 // Profile Types
 // ============================================
@@ -571,6 +656,16 @@ export const profileApi = {
     })
   },
 
+  /**
+   * Upload a profile photo
+   */
+  uploadPhoto: async (file: File): Promise<UserProfile> => {
+    return request<UserProfile>('/me/profile/photo', {
+      method: 'POST',
+      body: fileForm(file),
+    })
+  },
+
   /**
    * Remove profile photo
    */
@@ -976,6 +1071,16 @@ export const reportsApi = {
     })
   },
 
+  /**
+   * Upload the screenshot of a report (reporter only)
+   */
+  uploadScreenshot: async (id: string, file: File): Promise<Report> => {
+    return request<Report>(`/reports/${id}/screenshot`, {
+      method: 'POST',
+      body: fileForm(file),
+    })
+  },
+
   /**
    * Resolve a report
    */
@@ -1563,6 +1668,7 @@ export interface Contract {
   status: ContractStatus
   pricing: ContractPricing | null
   serviceScope: ServiceScope | null
+  requiresClientSignOff: boolean
   notes: string | null
   createdAt: string
   updatedAt: string
@@ -1599,6 +1705,7 @@ export interface CreateContractRequest {
   endDate?: string
   pricing?: ContractPricing
   serviceScope?: ServiceScope
+  requiresClientSignOff?: boolean
   notes?: string
 }
 
@@ -1612,6 +1719,7 @@ export interface UpdateContractRequest {
   status?: ContractStatus
   pricing?: ContractPricing
   serviceScope?: ServiceScope
+  requiresClientSignOff?: boolean
   notes?: string
 }
 
@@ -1721,6 +1829,28 @@ export const contractsApi = {
 // ============================================
 
 export type InterventionStatus = 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' | 'RESCHEDULED'
+export type AssignmentRole = 'TEAM_CHIEF' | 'AGENT'
+export type AssignmentStatus = 'ASSIGNED' | 'CHECKED_IN' | 'CHECKED_OUT' | 'NO_SHOW'
+
+export interface InterventionAssignment {
+  id: string
+  interventionId: string
+  userId: string
+  user?: User
+  role: AssignmentRole
+  status: AssignmentStatus
+  checkInTime: string | null
+  checkOutTime: string | null
+  hoursWorked: number | string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface UpdateAssignmentRequest {
+  status?: AssignmentStatus
+  checkInTime?: string
+  checkOutTime?: string
+}
 
 export interface GpsCoordinates {
   latitude: number
@@ -1746,8 +1876,7 @@ export interface Intervention {
   zoneChief?: User | null
   assignedTeamChiefId: string | null
   teamChief?: User | null
-  assignedAgentIds: string[] | null
-  agents?: User[]
+  assignments?: InterventionAssignment[]
   checklistTemplateId: string | null
   checklistCompleted: boolean
   gpsCheckInLat: number | null
@@ -1756,12 +1885,22 @@ export interface Intervention {
   gpsCheckOutLng: number | null
   gpsCheckInTime: string | null
   gpsCheckOutTime: string | null
+  checkInDistanceMeters: number | null
+  checkInOutOfZone: boolean
+  checkOutDistanceMeters: number | null
+  checkOutOutOfZone: boolean
   photoUrls: string[] | null
   qualityScore: number | null
   clientRating: number | null
   clientFeedback: string | null
-  incidents: string | null
+  clientRatedAt: string | null
   notes: string | null
+  signOffContactName: string | null
+  signOffSignatureUrl: string | null // /files/:id of the drawn signature
+  signOffComments: string | null
+  signedOffAt: string | null
+  signedOffById: string | null
+  completionHash: string | null // HMAC-SHA256 of the completion data
   createdAt: string
   updatedAt: string
   deletedAt: string | null
@@ -1775,6 +1914,7 @@ export interface InterventionsSearchParams {
   startDate?: string
   endDate?: string
   agentId?: string
+  outOfZone?: boolean
   page?: number
   limit?: number
   sortBy?: string
@@ -1805,6 +1945,7 @@ export interface CreateInterventionRequest {
   assignedTeamChiefId?: string
   checklistTemplateId?: string
   notes?: string
+  force?: boolean
 }
 
 export interface UpdateInterventionRequest {
@@ -1816,7 +1957,7 @@ export interface UpdateInterventionRequest {
   assignedTeamChiefId?: string
   checklistTemplateId?: string
   notes?: string
-  status?: InterventionStatus
+  force?: boolean
 }
 
 export interface RescheduleRequest {
@@ -1824,6 +1965,163 @@ export interface RescheduleRequest {
   newStartTime?: string
   newEndTime?: string
   reason?: string
+  force?: boolean
+}
+
+export type InterventionTransition = 'START' | 'CHECK_IN' | 'COMPLETE' | 'CANCEL' | 'RESCHEDULE'
+
+/**
+ * Optional reason and GPS position of a status change
+ */
+export interface InterventionTransitionRequest {
+  reason?: string // Required to cancel an intervention in progress
+  latitude?: number
+  longitude?: number
+}
+
+/**
+ * One status transition of an intervention (timeline)
+ */
+export interface InterventionStatusHistoryEntry {
+  id: string
+  interventionId: string
+  transition: InterventionTransition
+  fromStatus: InterventionStatus
+  toStatus: InterventionStatus
+  actorId: string | null
+  actor: { id: string; firstName: string; lastName: string; role: UserRole } | null
+  reason: string | null
+  latitude: number | string | null // Decimal columns may come back as strings
+  longitude: number | string | null
+  createdAt: string
+}
+
+/**
+ * Acknowledgement of the client contact, sent with the drawn signature image
+ */
+export interface ClientSignOffRequest {
+  contactName: string
+  comments?: string
+}
+
+/**
+ * Completed intervention checked against its completion hash
+ */
+export interface CompletionVerification {
+  interventionId: string
+  completionHash: string | null
+  signatureIntact: boolean | null // null without sign-off
+  valid: boolean
+}
+
+export interface ScheduleConflict {
+  conflictType: 'AGENT_DOUBLE_BOOKING' | 'SITE_OVERLAP'
+  scheduleId?: string
+  conflictingScheduleId?: string
+  interventionId?: string
+  conflictingInterventionId?: string
+  agentId?: string
+  siteId: string
+  date: string
+  timeSlot: string
+  details: string
+}
+
+/**
+ * Planning conflicts of a rejected booking (409), or null for any other error
+ * The booking can be retried with force: true
+ */
+export function getPlanningConflicts(error: unknown): ScheduleConflict[] | null {
+  if (!(error instanceof ApiError) || error.statusCode !== 409) return null
+  const conflicts = error.details?.conflicts
+  return Array.isArray(conflicts) ? (conflicts as ScheduleConflict[]) : null
+}
+
+export type AvailabilityIssueCode =
+  | 'INACTIVE'
+  | 'ABSENT'
+  | 'ABSENCE_PENDING'
+  | 'DAY_UNAVAILABLE'
+  | 'OUTSIDE_PREFERRED_HOURS'
+  | 'ALREADY_BOOKED'
+  | 'OVER_WEEKLY_HOURS'
+
+export interface AvailabilityIssue {
+  code: AvailabilityIssueCode
+  severity: 'ERROR' | 'WARNING'
+  message: string
+}
+
+export interface AgentAvailability {
+  agentId: string
+  agentName: string
+  available: boolean
+  issues: AvailabilityIssue[]
+  weeklyHours: number
+  maxWeeklyHours: number
+}
+
+export interface AvailabilitySearchParams {
+  date: string
+  startTime: string
+  endTime: string
+  interventionId?: string
+  agentIds?: string[]
+}
+
+/**
+ * Agent availability issues of a rejected booking, or null for any other error
+ * 400: agents that cannot be assigned (absent, inactive), 409: warnings that force can override
+ */
+export function getAvailabilityIssues(error: unknown): AgentAvailability[] | null {
+  if (!(error instanceof ApiError) || (error.statusCode !== 400 && error.statusCode !== 409)) return null
+  const availability = error.details?.availability
+  return Array.isArray(availability) ? (availability as AgentAvailability[]) : null
+}
+
+export interface StaffingSearchParams {
+  siteId: string
+  contractId?: string
+  date: string
+  startTime: string
+  endTime: string
+  interventionId?: string
+  limit?: number
+}
+
+export interface StaffingSuggestion {
+  agentId: string
+  agentName: string
+  score: number // 0-100
+  breakdown: {
+    zone: number
+    availability: number
+    skills: number
+    preferences: number
+    quality: number
+    workload: number
+  }
+  reasons: string[]
+  availability: AgentAvailability
+}
+
+export interface AutoAssignRequest {
+  weekStart: string
+  agentsPerIntervention?: number
+}
+
+export interface AutoAssignResult {
+  weekStart: string
+  weekEnd: string
+  assigned: {
+    interventionId: string
+    interventionCode: string
+    date: string
+    agentIds: string[]
+    agentNames: string[]
+    complete: boolean
+  }[]
+  skipped: { interventionId: string; interventionCode: string; date: string; reason: string }[]
 }
 
 export interface GpsCheckInRequest {
@@ -1863,6 +2161,52 @@ export const interventionsApi = {
     return request<Intervention[]>(`/interventions/calendar?${searchParams.toString()}`)
   },
 
+  /**
+   * List agent double-bookings and site overlaps in a date range
+   */
+  getConflicts: async (params: CalendarSearchParams): Promise<ScheduleConflict[]> => {
+    const searchParams = new URLSearchParams()
+    searchParams.append('startDate', params.startDate)
+    searchParams.append('endDate', params.endDate)
+    return request<ScheduleConflict[]>(`/interventions/conflicts?${searchParams.toString()}`)
+  },
+
+  /**
+   * Availability of agents for a slot (every agent when agentIds is not given)
+   */
+  getAvailability: async (params: AvailabilitySearchParams): Promise<AgentAvailability[]> => {
+    const searchParams = new URLSearchParams()
+    searchParams.append('date', params.date)
+    searchParams.append('startTime', params.startTime)
+    searchParams.append('endTime', params.endTime)
+    if (params.interventionId) searchParams.append('interventionId', params.interventionId)
+    if (params.agentIds?.length) searchParams.append('agentIds', params.agentIds.join(','))
+    return request<AgentAvailability[]>(`/interventions/availability?${searchParams.toString()}`)
+  },
+
+  /**
+   * Agents ranked for a slot, best first
+   */
+  getSuggestions: async (params: StaffingSearchParams): Promise<StaffingSuggestion[]> => {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        searchParams.append(key, String(value))
+      }
+    })
+    return request<StaffingSuggestion[]>(`/interventions/suggestions?${searchParams.toString()}`)
+  },
+
+  /**
+   * Staff the generated interventions of a week that have no agent yet
+   */
+  autoAssign: async (data: AutoAssignRequest): Promise<AutoAssignResult> => {
+    return request<AutoAssignResult>('/interventions/auto-assign', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
   /**
    * Get a single intervention by ID
    */
@@ -1902,27 +2246,30 @@ export const interventionsApi = {
   /**
    * Start an intervention
    */
-  start: async (id: string): Promise<Intervention> => {
+  start: async (id: string, data: InterventionTransitionRequest = {}): Promise<Intervention> => {
     return request<Intervention>(`/interventions/${id}/start`, {
       method: 'POST',
+      body: JSON.stringify(data),
     })
   },
 
   /**
    * Complete an intervention
    */
-  complete: async (id: string): Promise<Intervention> => {
+  complete: async (id: string, data: InterventionTransitionRequest = {}): Promise<Intervention> => {
     return request<Intervention>(`/interventions/${id}/complete`, {
       method: 'POST',
+      body: JSON.stringify(data),
     })
   },
 
   /**
    * Cancel an intervention
    */
-  cancel: async (id: string): Promise<Intervention> => {
+  cancel: async (id: string, data: InterventionTransitionRequest = {}): Promise<Intervention> => {
     return request<Intervention>(`/interventions/${id}/cancel`, {
       method: 'POST',
+      body: JSON.stringify(data),
     })
   },
 
@@ -1936,6 +2283,33 @@ export const interventionsApi = {
     })
   },
 
+  /**
+   * Status history of an intervention, oldest first
+   */
+  getHistory: async (id: string): Promise<InterventionStatusHistoryEntry[]> => {
+    return request<InterventionStatusHistoryEntry[]>(`/interventions/${id}/history`)
+  },
+
+  /**
+   * Client sign-off with the drawn signature, before completion
+   */
+  signOff: async (id: string, data: ClientSignOffRequest, signature: File): Promise<Intervention> => {
+    const form = fileForm(signature)
+    form.append('contactName', data.contactName)
+    if (data.comments) form.append('comments', data.comments)
+    return request<Intervention>(`/interventions/${id}/sign-off`, {
+      method: 'POST',
+      body: form,
+    })
+  },
+
+  /**
+   * Check a completed intervention against its completion hash
+   */
+  verifyCompletion: async (id: string): Promise<CompletionVerification> => {
+    return request<CompletionVerification>(`/interventions/${id}/verify`)
+  },
+
   /**
    * GPS Check-in for an intervention
    */
@@ -1956,6 +2330,45 @@ export const interventionsApi = {
     })
   },
 
+  /**
+   * Get the team of an intervention with each person's attendance
+   */
+  getAssignments: async (id: string): Promise<InterventionAssignment[]> => {
+    return request<InterventionAssignment[]>(`/interventions/${id}/assignments`)
+  },
+
+  /**
+   * Record my own arrival on an intervention
+   */
+  checkInMe: async (id: string): Promise<InterventionAssignment> => {
+    return request<InterventionAssignment>(`/interventions/${id}/assignments/me/checkin`, {
+      method: 'POST',
+    })
+  },
+
+  /**
+   * Record my own departure from an intervention
+   */
+  checkOutMe: async (id: string): Promise<InterventionAssignment> => {
+    return request<InterventionAssignment>(`/interventions/${id}/assignments/me/checkout`, {
+      method: 'POST',
+    })
+  },
+
+  /**
+   * Correct a person's attendance (times, no-show)
+   */
+  updateAssignment: async (
+    id: string,
+    assignmentId: string,
+    data: UpdateAssignmentRequest
+  ): Promise<InterventionAssignment> => {
+    return request<InterventionAssignment>(`/interventions/${id}/assignments/${assignmentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  },
+
   /**
    * Add a photo to an intervention
    */
@@ -1965,6 +2378,16 @@ export const interventionsApi = {
       body: JSON.stringify({ photoUrl }),
     })
   },
+
+  /**
+   * Upload a photo of an intervention
+   */
+  uploadPhoto: async (id: string, file: File): Promise<Intervention> => {
+    return request<Intervention>(`/interventions/${id}/photos`, {
+      method: 'POST',
+      body: fileForm(file),
+    })
+  },
 }
 
 // ============================================
@@ -1984,6 +2407,9 @@ export interface Site {
   city: string | null
   postalCode: string | null
   country: string | null
+  latitude: number | string | null
+  longitude: number | string | null
+  geofenceRadiusMeters: number | null
   accessInstructions: string | null
   workingHours: string | null
   contactPerson: string | null
@@ -2023,6 +2449,9 @@ export interface CreateSiteRequest {
   city?: string
   postalCode?: string
   country?: string
+  latitude?: number
+  longitude?: number
+  geofenceRadiusMeters?: number
   accessInstructions?: string
   workingHours?: string
   contactPerson?: string
@@ -2039,6 +2468,9 @@ export interface UpdateSiteRequest {
   city?: string
   postalCode?: string
   country?: string
+  latitude?: number
+  longitude?: number
+  geofenceRadiusMeters?: number
   accessInstructions?: string
   workingHours?: string
   contactPerson?: string
@@ -2257,6 +2689,28 @@ export interface ReviewAbsenceRequest {
   reviewNotes?: string
 }
 
+export interface AffectedIntervention {
+  interventionId: string
+  interventionCode: string
+  siteId: string
+  siteName: string
+  date: string
+  startTime: string
+  endTime: string
+  role: AssignmentRole
+  suggestions: StaffingSuggestion[]
+}
+
+export interface ReassignInterventionsRequest {
+  replacements: { interventionId: string; agentId: string }[]
+  force?: boolean
+}
+
+export interface ReassignmentResult {
+  reassigned: { interventionId: string; interventionCode: string; agentId: string; agentName: string }[]
+  remaining: AffectedIntervention[]
+}
+
 export const absencesApi = {
   /**
    * Get all absences with optional filters
@@ -2330,14 +2784,45 @@ export const absencesApi = {
 
   /**
    * Review (approve/reject) absence
+   * An approval lists the agent's interventions during the absence with suggested replacements
+   */
+  review: async (
+    id: string,
+    data: ReviewAbsenceRequest
+  ): Promise<Absence & { affectedInterventions?: AffectedIntervention[] }> => {
+    return request<Absence & { affectedInterventions?: AffectedIntervention[] }>(`/absences/${id}/review`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Interventions of an approved absence still assigned to the absent agent
+   */
+  getReplacements: async (id: string): Promise<AffectedIntervention[]> => {
+    return request<AffectedIntervention[]>(`/absences/${id}/replacements`)
+  },
+
+  /**
+   * Reassign the interventions of an approved absence in one step
    */
-  review: async (id: string, data: ReviewAbsenceRequest): Promise<Absence> => {
-    return request<Absence>(`/absences/${id}/review`, {
+  reassign: async (id: string, data: ReassignInterventionsRequest): Promise<ReassignmentResult> => {
+    return request<ReassignmentResult>(`/absences/${id}/replacements`, {
       method: 'POST',
       body: JSON.stringify(data),
     })
   },
 
+  /**
+   * Upload the supporting document of an absence (image or PDF)
+   */
+  uploadAttachment: async (id: string, file: File): Promise<Absence> => {
+    return request<Absence>(`/absences/${id}/attachment`, {
+      method: 'POST',
+      body: fileForm(file),
+    })
+  },
+
   /**
    * Cancel absence request
    */
@@ -2357,10 +2842,902 @@ export const absencesApi = {
   },
 }
 
+// ============================================
+// Invoices API Endpoints
+// ============================================
+
+export type InvoiceStatus = 'DRAFT' | 'ISSUED' | 'PAID' | 'OVERDUE'
+export type InvoiceLineType = 'MONTHLY_FEE' | 'INTERVENTION' | 'HOURLY'
+
+export interface InvoiceLine {
+  id: string
+  invoiceId: string
+  type: InvoiceLineType
+  description: string
+  interventionId: string | null
+  quantity: number | string
+  unitPrice: number | string
+  amount: number | string
+  createdAt: string
+}
+
+export interface Invoice {
+  id: string
+  invoiceNumber: string
+  contractId: string
+  clientId: string
+  siteId: string
+  status: InvoiceStatus
+  periodStart: string
+  periodEnd: string
+  issueDate: string | null
+  dueDate: string | null
+  currency: string
+  totalAmount: number | string
+  paymentTerms: string | null
+  paidAt: string | null
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+  lines?: InvoiceLine[]
+  contract?: Contract
+  client?: Client
+  site?: Site
+}
+
+export interface InvoicesSearchParams {
+  page?: number
+  limit?: number
+  clientId?: string
+  contractId?: string
+  status?: InvoiceStatus
+}
+
+export interface PaginatedInvoices {
+  data: Invoice[]
+  total: number
+  page: number
+  limit: number
+}
+
+export interface GenerateInvoiceRequest {
+  contractId: string
+  periodStart: string
+  periodEnd?: string
+  notes?: string
+}
+
+export const invoicesApi = {
+  /**
+   * Get all invoices with filters
+   */
+  getAll: async (params: InvoicesSearchParams = {}): Promise<PaginatedInvoices> => {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, String(value))
+      }
+    })
+    const query = searchParams.toString()
+    return request<PaginatedInvoices>(`/invoices${query ? `?${query}` : ''}`)
+  },
+
+  /**
+   * Get invoice by ID
+   */
+  getById: async (id: string): Promise<Invoice> => {
+    return request<Invoice>(`/invoices/${id}`)
+  },
+
+  /**
+   * Generate a draft invoice for a contract
+   */
+  generate: async (data: GenerateInvoiceRequest): Promise<Invoice> => {
+    return request<Invoice>('/invoices/generate', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Issue a draft invoice
+   */
+  issue: async (id: string): Promise<Invoice> => {
+    return request<Invoice>(`/invoices/${id}/issue`, {
+      method: 'POST',
+    })
+  },
+
+  /**
+   * Mark an invoice as paid
+   */
+  markPaid: async (id: string): Promise<Invoice> => {
+    return request<Invoice>(`/invoices/${id}/pay`, {
+      method: 'POST',
+    })
+  },
+}
+
+// ============================================
+// Client Portal API Endpoints
+// ============================================
+
+export type PortalInterventionScope = 'upcoming' | 'past'
+
+export interface PortalPhoto {
+  url: string
+  source: 'INTERVENTION' | 'CHECKLIST'
+  zoneName?: string
+  taskDescription?: string
+  tag?: ChecklistPhotoTag // Checklist photos only
+  capturedAt?: string
+}
+
+// Checklist photo as shown to clients, without its capture position, device and uploader
+export interface PortalChecklistPhoto {
+  id: string
+  url: string
+  tag: ChecklistPhotoTag
+  capturedAt: string
+}
+
+export interface PortalChecklistItem {
+  id: string
+  zoneName: string
+  taskDescription: string
+  isCompleted: boolean
+  completedAt: string | null
+  photos: PortalChecklistPhoto[]
+  notes: string | null
+  qualityRating: number | null
+}
+
+export interface PortalChecklist {
+  id: string
+  interventionId: string
+  status: string
+  completionPercentage: number
+  startedAt: string | null
+  completedAt: string | null
+  items: PortalChecklistItem[]
+}
+
+export interface SubmitFeedbackRequest {
+  rating: number
+  comment?: string
+}
+
+export const portalApi = {
+  /**
+   * Get contracts of the logged-in client
+   */
+  getContracts: async (): Promise<Contract[]> => {
+    return request<Contract[]>('/portal/contracts')
+  },
+
+  /**
+   * Get a contract of the logged-in client
+   */
+  getContract: async (id: string): Promise<Contract> => {
+    return request<Contract>(`/portal/contracts/${id}`)
+  },
+
+  /**
+   * Get sites of the logged-in client
+   */
+  getSites: async (): Promise<Site[]> => {
+    return request<Site[]>('/portal/sites')
+  },
+
+  /**
+   * Get a site of the logged-in client
+   */
+  getSite: async (id: string): Promise<Site> => {
+    return request<Site>(`/portal/sites/${id}`)
+  },
+
+  /**
+   * Get upcoming or past interventions of the logged-in client
+   */
+  getInterventions: async (
+    scope: PortalInterventionScope = 'upcoming',
+    params: { page?: number; limit?: number; siteId?: string } = {}
+  ): Promise<PaginatedInterventions> => {
+    const searchParams = new URLSearchParams({ scope })
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, String(value))
+      }
+    })
+    return request<PaginatedInterventions>(`/portal/interventions?${searchParams.toString()}`)
+  },
+
+  /**
+   * Get an intervention of the logged-in client
+   */
+  getIntervention: async (id: string): Promise<Intervention> => {
+    return request<Intervention>(`/portal/interventions/${id}`)
+  },
+
+  /**
+   * Get checklist results of an intervention
+   */
+  getChecklist: async (id: string): Promise<PortalChecklist | null> => {
+    return request<PortalChecklist | null>(`/portal/interventions/${id}/checklist`)
+  },
+
+  /**
+   * Get photos of an intervention
+   */
+  getPhotos: async (id: string): Promise<PortalPhoto[]> => {
+    return request<PortalPhoto[]>(`/portal/interventions/${id}/photos`)
+  },
+
+  /**
+   * Get completed interventions waiting for a rating
+   */
+  getPendingFeedback: async (): Promise<Intervention[]> => {
+    return request<Intervention[]>('/portal/feedback/pending')
+  },
+
+  /**
+   * Rate a completed intervention
+   */
+  submitFeedback: async (id: string, data: SubmitFeedbackRequest): Promise<Intervention> => {
+    return request<Intervention>(`/portal/interventions/${id}/feedback`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Get invoices of the logged-in client
+   */
+  getInvoices: async (): Promise<Invoice[]> => {
+    return request<Invoice[]>('/portal/invoices')
+  },
+}
+
+// ============================================
+// Complaints API Endpoints
+// ============================================
+
+export type ComplaintCategory =
+  | 'QUALITY'
+  | 'MISSED_SERVICE'
+  | 'LATE_ARRIVAL'
+  | 'STAFF_BEHAVIOR'
+  | 'DAMAGE'
+  | 'SAFETY'
+  | 'OTHER'
+export type ComplaintPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
+export type ComplaintStatus = 'OPEN' | 'ACKNOWLEDGED' | 'IN_PROGRESS' | 'RESOLVED' | 'CLOSED'
+export type ComplaintSlaStatus = 'ON_TRACK' | 'MET' | 'BREACHED'
+
+export interface ComplaintUpdate {
+  id: string
+  complaintId: string
+  authorId: string
+  fromStatus: ComplaintStatus | null
+  toStatus: ComplaintStatus | null
+  message: string | null
+  createdAt: string
+  author?: User
+}
+
+export interface Complaint {
+  id: string
+  complaintNumber: string
+  clientId: string
+  siteId: string
+  interventionId: string | null
+  zoneId: string | null
+  assignedToId: string | null
+  submittedById: string
+  category: ComplaintCategory
+  priority: ComplaintPriority
+  status: ComplaintStatus
+  subject: string
+  description: string
+  attachmentUrls: string[] | null
+  responseDueAt: string
+  firstResponseAt: string | null
+  resolution: string | null
+  resolvedAt: string | null
+  closedAt: string | null
+  createdAt: string
+  updatedAt: string
+  slaStatus: ComplaintSlaStatus
+  client?: Client
+  site?: Site
+  intervention?: Intervention | null
+  assignedTo?: User | null
+  updates?: ComplaintUpdate[]
+}
+
+export interface ComplaintsSearchParams {
+  page?: number
+  limit?: number
+  clientId?: string
+  siteId?: string
+  assignedToId?: string
+  status?: ComplaintStatus
+}
+
+export interface PaginatedComplaints {
+  data: Complaint[]
+  total: number
+  page: number
+  limit: number
+}
+
+export interface CreateComplaintRequest {
+  siteId?: string
+  interventionId?: string
+  category: ComplaintCategory
+  priority?: ComplaintPriority
+  subject: string
+  description: string
+  attachmentUrls?: string[]
+}
+
+export interface UpdateComplaintStatusRequest {
+  status: ComplaintStatus
+  message?: string
+  resolution?: string
+}
+
+export interface AssignComplaintRequest {
+  assignedToId: string
+  priority?: ComplaintPriority
+}
+
+export interface ComplaintSlaStats {
+  open: number
+  onTrack: number
+  breached: number
+  met: number
+  averageResponseHours: number
+}
+
+export const complaintsApi = {
+  /**
+   * Get all complaints with filters (staff)
+   */
+  getAll: async (params: ComplaintsSearchParams = {}): Promise<PaginatedComplaints> => {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, String(value))
+      }
+    })
+    const query = searchParams.toString()
+    return request<PaginatedComplaints>(`/complaints${query ? `?${query}` : ''}`)
+  },
+
+  /**
+   * Get complaints filed by the logged-in client
+   */
+  getMine: async (): Promise<Complaint[]> => {
+    return request<Complaint[]>('/complaints/my')
+  },
+
+  /**
+   * Get complaint by ID with its history
+   */
+  getById: async (id: string): Promise<Complaint> => {
+    return request<Complaint>(`/complaints/${id}`)
+  },
+
+  /**
+   * File a complaint (client)
+   */
+  create: async (data: CreateComplaintRequest): Promise<Complaint> => {
+    return request<Complaint>('/complaints', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Respond to a complaint (staff)
+   */
+  respond: async (id: string, message: string): Promise<Complaint> => {
+    return request<Complaint>(`/complaints/${id}/respond`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    })
+  },
+
+  /**
+   * Change complaint status (staff)
+   */
+  updateStatus: async (id: string, data: UpdateComplaintStatusRequest): Promise<Complaint> => {
+    return request<Complaint>(`/complaints/${id}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Reassign a complaint and optionally change its priority (staff)
+   */
+  assign: async (id: string, data: AssignComplaintRequest): Promise<Complaint> => {
+    return request<Complaint>(`/complaints/${id}/assign`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Response-time SLA statistics (staff)
+   */
+  getSlaStats: async (assignedToId?: string): Promise<ComplaintSlaStats> => {
+    return request<ComplaintSlaStats>(
+      `/complaints/stats/sla${assignedToId ? `?assignedToId=${assignedToId}` : ''}`
+    )
+  },
+
+  /**
+   * Confirm a resolved complaint (client)
+   */
+  close: async (id: string): Promise<Complaint> => {
+    return request<Complaint>(`/complaints/${id}/close`, {
+      method: 'POST',
+    })
+  },
+
+  /**
+   * Reopen a resolved complaint (client)
+   */
+  reopen: async (id: string, message: string): Promise<Complaint> => {
+    return request<Complaint>(`/complaints/${id}/reopen`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+    })
+  },
+}
+
+// ============================================
+// Timesheets API Endpoints
+// ============================================
+
+export type TimesheetStatus = 'DRAFT' | 'APPROVED' | 'REJECTED'
+export type TimesheetExportFormat = 'csv' | 'xlsx'
+
+export interface TimesheetDay {
+  date: string
+  workedHours: number
+  nightHours: number
+  weekendHours: number
+  breakMinutes: number
+  absenceType?: AbsenceType
+}
+
+export interface Timesheet {
+  id: string
+  userId: string
+  periodStart: string
+  periodEnd: string
+  status: TimesheetStatus
+  totalHours: number | string
+  regularHours: number | string
+  overtimeHours: number | string
+  nightHours: number | string
+  weekendHours: number | string
+  breakMinutes: number
+  absenceDays: number
+  absencesByType: Partial<Record<AbsenceType, number>>
+  days: TimesheetDay[]
+  reviewedById: string | null
+  reviewedAt: string | null
+  reviewNotes: string | null
+  createdAt: string
+  updatedAt: string
+  user?: User
+  reviewedBy?: User | null
+}
+
+export interface TimesheetsSearchParams {
+  periodStart?: string
+  periodEnd?: string
+  status?: TimesheetStatus
+  userId?: string
+}
+
+export interface GenerateTimesheetsRequest {
+  periodStart: string
+  periodEnd: string
+  userIds?: string[]
+}
+
+export const timesheetsApi = {
+  /**
+   * Get timesheets with filters (staff)
+   */
+  getAll: async (params: TimesheetsSearchParams = {}): Promise<Timesheet[]> => {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, String(value))
+      }
+    })
+    const query = searchParams.toString()
+    return request<Timesheet[]>(`/timesheets${query ? `?${query}` : ''}`)
+  },
+
+  /**
+   * Get timesheets of the logged-in employee
+   */
+  getMine: async (): Promise<Timesheet[]> => {
+    return request<Timesheet[]>('/timesheets/my')
+  },
+
+  /**
+   * Get timesheet by ID with its daily breakdown
+   */
+  getById: async (id: string): Promise<Timesheet> => {
+    return request<Timesheet>(`/timesheets/${id}`)
+  },
+
+  /**
+   * Compute timesheets of a period from attendance records
+   */
+  generate: async (data: GenerateTimesheetsRequest): Promise<Timesheet[]> => {
+    return request<Timesheet[]>('/timesheets/generate', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Approve a draft timesheet
+   */
+  approve: async (id: string, reviewNotes?: string): Promise<Timesheet> => {
+    return request<Timesheet>(`/timesheets/${id}/approve`, {
+      method: 'PATCH',
+      body: JSON.stringify({ reviewNotes }),
+    })
+  },
+
+  /**
+   * Reject a draft timesheet
+   */
+  reject: async (id: string, reviewNotes: string): Promise<Timesheet> => {
+    return request<Timesheet>(`/timesheets/${id}/reject`, {
+      method: 'PATCH',
+      body: JSON.stringify({ reviewNotes }),
+    })
+  },
+
+  /**
+   * Download the payroll export of a fully approved period
+   */
+  export: async (periodStart: string, periodEnd: string, format: TimesheetExportFormat): Promise<Blob> => {
+    const token = getToken()
+    const query = new URLSearchParams({ periodStart, periodEnd, format }).toString()
+    const response = await fetch(`${API_URL}/timesheets/export?${query}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: response.statusText }))
+      throw new ApiError(response.status, errorData.message || 'An error occurred', errorData)
+    }
+
+    return response.blob()
+  },
+}
+
+// ============================================
+// Holidays API Endpoints
+// ============================================
+
+export interface Holiday {
+  id: string
+  date: string
+  name: string
+  zoneId: string | null
+  isWorkingDay: boolean
+  createdAt: string
+  updatedAt: string
+  zone?: Zone | null
+}
+
+export interface CreateHolidayRequest {
+  date: string
+  name: string
+  zoneId?: string
+  isWorkingDay?: boolean
+}
+
+export interface HolidayImportResult {
+  imported: number
+  skipped: number
+  errors: string[]
+}
+
+export const holidaysApi = {
+  /**
+   * Get the holidays of a year (company-wide and zone overrides)
+   */
+  getAll: async (year?: number, zoneId?: string): Promise<Holiday[]> => {
+    const searchParams = new URLSearchParams()
+    if (year) searchParams.append('year', String(year))
+    if (zoneId) searchParams.append('zoneId', zoneId)
+    const query = searchParams.toString()
+    return request<Holiday[]>(`/holidays${query ? `?${query}` : ''}`)
+  },
+
+  /**
+   * Add a holiday, or a zone override when zoneId is set
+   */
+  create: async (data: CreateHolidayRequest): Promise<Holiday> => {
+    return request<Holiday>('/holidays', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Import the all-day events of an .ics file
+   */
+  importIcs: async (ics: string, zoneId?: string): Promise<HolidayImportResult> => {
+    return request<HolidayImportResult>('/holidays/import', {
+      method: 'POST',
+      body: JSON.stringify({ ics, zoneId }),
+    })
+  },
+
+  /**
+   * Delete a holiday
+   */
+  delete: async (id: string): Promise<void> => {
+    return request<void>(`/holidays/${id}`, {
+      method: 'DELETE',
+    })
+  },
+}
+
+// ============================================
+// Incidents API Endpoints
+// ============================================
+
+export type IncidentType =
+  | 'PROPERTY_DAMAGE'
+  | 'INJURY'
+  | 'SAFETY_HAZARD'
+  | 'EQUIPMENT_FAILURE'
+  | 'THEFT'
+  | 'ACCESS_ISSUE'
+  | 'OTHER'
+export type IncidentSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+export type IncidentStatus = 'OPEN' | 'INVESTIGATING' | 'RESOLVED' | 'CLOSED'
+
+type IncidentPerson = { id: string; firstName: string; lastName: string; role: UserRole }
+
+export interface Incident {
+  id: string
+  incidentNumber: string
+  siteId: string
+  interventionId: string | null
+  zoneId: string | null
+  reportedById: string | null
+  assignedToId: string | null
+  type: IncidentType
+  severity: IncidentSeverity
+  status: IncidentStatus
+  description: string
+  photoUrls: string[] | null
+  propertyDamage: boolean
+  damageDescription: string | null
+  estimatedDamageCost: number | string | null // Decimal columns may come back as strings
+  injury: boolean
+  injuryDescription: string | null
+  occurredAt: string
+  resolution: string | null
+  resolvedById: string | null
+  resolvedAt: string | null
+  closedAt: string | null
+  createdAt: string
+  updatedAt: string
+  site?: Site
+  intervention?: Intervention | null
+  reportedBy?: IncidentPerson | null
+  assignedTo?: IncidentPerson | null
+  resolvedBy?: IncidentPerson | null
+}
+
+export interface IncidentsSearchParams {
+  page?: number
+  limit?: number
+  siteId?: string
+  interventionId?: string
+  zoneId?: string
+  assignedToId?: string
+  status?: IncidentStatus
+  severity?: IncidentSeverity
+  type?: IncidentType
+}
+
+export interface PaginatedIncidents {
+  data: Incident[]
+  total: number
+  page: number
+  limit: number
+}
+
+export interface CreateIncidentRequest {
+  siteId?: string
+  interventionId?: string
+  type: IncidentType
+  severity?: IncidentSeverity
+  description: string
+  photoUrls?: string[]
+  propertyDamage?: boolean
+  damageDescription?: string
+  estimatedDamageCost?: number
+  injury?: boolean
+  injuryDescription?: string
+  occurredAt?: string
+}
+
+export interface UpdateIncidentStatusRequest {
+  status: IncidentStatus
+  resolution?: string
+}
+
+export const incidentsApi = {
+  /**
+   * Get all incidents with filters (staff)
+   */
+  getAll: async (params: IncidentsSearchParams = {}): Promise<PaginatedIncidents> => {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        searchParams.append(key, String(value))
+      }
+    })
+    const query = searchParams.toString()
+    return request<PaginatedIncidents>(`/incidents${query ? `?${query}` : ''}`)
+  },
+
+  /**
+   * Get incidents reported by the logged-in user
+   */
+  getMine: async (): Promise<Incident[]> => {
+    return request<Incident[]>('/incidents/my')
+  },
+
+  /**
+   * Get incident by ID
+   */
+  getById: async (id: string): Promise<Incident> => {
+    return request<Incident>(`/incidents/${id}`)
+  },
+
+  /**
+   * Report an incident on an intervention or a site
+   */
+  create: async (data: CreateIncidentRequest): Promise<Incident> => {
+    return request<Incident>('/incidents', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Change incident status, a resolution is required to resolve it (staff)
+   */
+  updateStatus: async (id: string, data: UpdateIncidentStatusRequest): Promise<Incident> => {
+    return request<Incident>(`/incidents/${id}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  },
+
+  /**
+   * Upload a photo of an incident
+   */
+  uploadPhoto: async (id: string, file: File): Promise<Incident> => {
+    return request<Incident>(`/incidents/${id}/photos`, {
+      method: 'POST',
+      body: fileForm(file),
+    })
+  },
+}
+
+// ============================================
+// Checklists API Endpoints
+// ============================================
+
+export type ChecklistPhotoTag = 'BEFORE' | 'AFTER' | 'ISSUE'
+
+/**
+ * Photo evidence of a checklist item with its capture metadata
+ */
+export interface ChecklistPhoto {
+  id: string
+  checklistItemId: string
+  tag: ChecklistPhotoTag
+  url: string // /files/:id for uploaded photos
+  capturedAt: string
+  latitude: number | string | null // Decimal columns may come back as strings
+  longitude: number | string | null
+  accuracy: number | string | null // Meters
+  deviceInfo: string | null
+  uploadedById: string | null
+  uploadedBy?: { id: string; firstName: string; lastName: string } | null
+  createdAt: string
+}
+
+export interface ChecklistPhotoItem {
+  id: string
+  zoneName: string
+  taskDescription: string
+  isCompleted: boolean
+  completedAt: string | null
+  requiresPhoto: boolean
+  photos: ChecklistPhoto[]
+}
+
+export const checklistsApi = {
+  /**
+   * Checklist photos of an intervention, by zone and capture time
+   * Tasks requiring a photo are included even without one
+   */
+  getPhotoGallery: async (interventionId: string): Promise<ChecklistPhotoItem[]> => {
+    return request<ChecklistPhotoItem[]>(`/checklists/instances/intervention/${interventionId}/photos`)
+  },
+
+  /**
+   * Remove a checklist photo
+   */
+  deletePhoto: async (id: string): Promise<void> => {
+    return request<void>(`/checklists/photos/${id}`, {
+      method: 'DELETE',
+    })
+  },
+}
+
+// ============================================
+// Files API Endpoints
+// ============================================
+
+/**
+ * Short-lived download URLs of an uploaded file
+ */
+export interface StoredFileUrl {
+  fileId: string
+  originalName: string
+  mimeType: string
+  size: number
+  url: string
+  thumbnailUrl: string | null
+  expiresAt: string
+}
+
+// Uploaded files are referenced as /files/:id in photo and attachment fields
+const STORED_FILE_PATTERN = /^\/files\/([0-9a-f-]{36})$/i
+
+export const getStoredFileId = (reference: string | null | undefined): string | null => {
+  return reference?.match(STORED_FILE_PATTERN)?.[1] ?? null
+}
+
+export const filesApi = {
+  /**
+   * Signed download URLs of an uploaded file
+   */
+  getSignedUrl: async (id: string): Promise<StoredFileUrl> => {
+    return request<StoredFileUrl>(`/files/${id}`)
+  },
+}
+
 export default {
   auth: authApi,
   notifications: notificationsApi,
   attendance: attendanceApi,
+  teamAttendance: teamAttendanceApi,
   profile: profileApi,
   settings: settingsApi,
   audit: auditApi,
@@ -2372,6 +3749,14 @@ export default {
   sites: sitesApi,
   zones: zonesApi,
   absences: absencesApi,
+  invoices: invoicesApi,
+  portal: portalApi,
+  complaints: complaintsApi,
+  timesheets: timesheetsApi,
+  holidays: holidaysApi,
+  incidents: incidentsApi,
+  checklists: checklistsApi,
+  files: filesApi,
   getToken,
   setToken,
   clearAuth,